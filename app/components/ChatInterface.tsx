@@ -1,17 +1,75 @@
 import { useState, useRef, useEffect } from 'react';
-import { Form, useFetcher } from '@remix-run/react';
+import { Form, Link } from '@remix-run/react';
 import { Message } from './Message';
-import type { Message as MessageData, ChatResponse } from '~/types/chat';
+import { ThreadSidebar } from './ThreadSidebar';
+import { readSseEvents } from '~/utils/sse';
+import { subsidyPath } from '~/utils/subsidy-links';
+import type {
+  Message as MessageData,
+  ChatStreamEvent,
+  Citation,
+  RunStatus,
+  StoredMessage,
+  SubsidyReference,
+  ThreadSummary,
+} from '~/types/chat';
 
-export function ChatInterface() {
+const TOOL_LABELS: Record<string, string> = {
+  file_search: '補助金情報を検索しています…',
+  search_subsidies: '補助金データベースを検索しています…',
+  get_subsidy: '補助金の詳細を確認しています…',
+  list_open_subsidies: '募集中の補助金を確認しています…',
+  check_eligibility: '申請資格を判定しています…',
+};
+
+// Shown under replies that did not finish
+const RUN_STATUS_NOTES: Partial<Record<RunStatus, string>> = {
+  cancelled: '（回答を中断しました）',
+  incomplete: '（回答が途中で終了しました）',
+};
+
+// A failed reply; forUser marks messages the server wrote for the user to read
+class ChatReplyError extends Error {
+  constructor(message: string, readonly forUser: boolean) {
+    super(message);
+    this.name = 'ChatReplyError';
+  }
+}
+
+// SQLite CURRENT_TIMESTAMP values are UTC without a zone designator
+function parseStoredTimestamp(value: string): Date {
+  return new Date(value.includes('T') ? value : `${value.replace(' ', 'T')}Z`);
+}
+
+function toMessageData(message: StoredMessage): MessageData {
+  return {
+    role: message.role,
+    content: message.content,
+    timestamp: parseStoredTimestamp(message.createdAt),
+    citations: message.citations ?? undefined,
+  };
+}
+
+interface ChatInterfaceProps {
+  // Signed-in user; threads are always those of this account
+  account: { email: string };
+  // Subsidy the chat was opened from; the first message starts a thread scoped to it
+  subsidy?: SubsidyReference | null;
+}
+
+export function ChatInterface({ account, subsidy = null }: ChatInterfaceProps) {
   const [messages, setMessages] = useState<MessageData[]>([]);
-  const [input, setInput] = useState('');
+  const [contextSubsidy, setContextSubsidy] = useState(subsidy);
+  const [input, setInput] = useState(
+    subsidy ? `「${subsidy.title}」の対象者・補助額・申請手順を教えてください` : ''
+  );
   const [threadId, setThreadId] = useState<string | null>(null);
+  const [threads, setThreads] = useState<ThreadSummary[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  const [toolStatus, setToolStatus] = useState<string | null>(null);
+  const [isStopping, setIsStopping] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
-  const fetcher = useFetcher<ChatResponse>();
-  const lastProcessedDataRef = useRef<ChatResponse | null>(null);
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -21,53 +79,165 @@ export function ChatInterface() {
     scrollToBottom();
   }, [messages]);
 
+  const refreshThreads = async () => {
+    try {
+      const response = await fetch('/api/thread');
+      const data = await response.json();
+      if (response.ok) {
+        setThreads(data.threads ?? []);
+      }
+    } catch (error) {
+      console.error('ChatInterface - Failed to load threads:', error);
+    }
+  };
+
   useEffect(() => {
-    
-    // Handle loading state
-    if (fetcher.state === 'submitting' || fetcher.state === 'loading') {
-      // Ensure loading state is true
-      if (!isLoading) {
-        setIsLoading(true);
+    refreshThreads();
+  }, []);
+
+  const startNewChat = () => {
+    setMessages([]);
+    setThreadId(null);
+    setContextSubsidy(null);
+  };
+
+  const selectThread = async (selectedThreadId: string) => {
+    if (isLoading || selectedThreadId === threadId) return;
+
+    try {
+      const response = await fetch(`/api/thread?threadId=${encodeURIComponent(selectedThreadId)}`);
+      const data = await response.json();
+      if (!response.ok || !data.thread) {
+        throw new Error(data.error ?? `Thread request failed: ${response.status}`);
       }
+
+      setThreadId(selectedThreadId);
+      setMessages((data.thread.messages as StoredMessage[]).map(toMessageData));
+      setContextSubsidy(null);
+    } catch (error) {
+      console.error('ChatInterface - Failed to load thread:', error);
     }
-    
-    // Handle response when fetcher completes
-    if (fetcher.state === 'idle' && fetcher.data) {
-      
-      // Check if we already processed this data
-      if (lastProcessedDataRef.current === fetcher.data) {
-        return;
+  };
+
+  const renameThread = async (targetThreadId: string, title: string) => {
+    setThreads((prev) => prev.map((t) => (t.threadId === targetThreadId ? { ...t, title } : t)));
+    await fetch('/api/thread', {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ threadId: targetThreadId, title }),
+    }).catch((error) => console.error('ChatInterface - Failed to rename thread:', error));
+    await refreshThreads();
+  };
+
+  const deleteThread = async (targetThreadId: string) => {
+    try {
+      const response = await fetch('/api/thread', {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ threadId: targetThreadId }),
+      });
+      if (!response.ok) {
+        throw new Error(`Thread deletion failed: ${response.status}`);
       }
-      
-      // Mark as processed
-      lastProcessedDataRef.current = fetcher.data;
-      
-      // Process the response
-      if (fetcher.data.success !== false) {
-        if (fetcher.data.threadId) {
-          setThreadId(fetcher.data.threadId);
+      if (targetThreadId === threadId) {
+        startNewChat();
+      }
+    } catch (error) {
+      console.error('ChatInterface - Failed to delete thread:', error);
+    }
+    await refreshThreads();
+  };
+
+  const streamReply = async (message: string) => {
+    // The assistant message is appended on the first delta and grown in place
+    let started = false;
+    const applyText = (text: string, replace = false, citations?: Citation[]) => {
+      const isFirst = !started;
+      started = true;
+      setMessages((prev) => {
+        if (isFirst) {
+          return [...prev, { role: 'assistant', content: text, timestamp: new Date(), citations }];
         }
-        
-        if (fetcher.data.messages && fetcher.data.messages.length > 0) {
-          const assistantMessage: MessageData = {
-            role: 'assistant',
-            content: fetcher.data.messages[0],
-            timestamp: new Date(),
-          };
-          setMessages((prev) => {
-            return [...prev, assistantMessage];
-          });
-        } else {
+        const last = prev[prev.length - 1];
+        return [
+          ...prev.slice(0, -1),
+          { ...last, content: replace ? text : last.content + text, citations: citations ?? last.citations },
+        ];
+      });
+    };
+
+    const response = await fetch('/api/chat', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'text/event-stream' },
+      body: JSON.stringify({
+        message,
+        threadId: threadId || '',
+        stream: true,
+        subsidyId: contextSubsidy?.jgrantsId,
+      }),
+    });
+
+    if (response.status === 401) {
+      // Session expired; sign in again and come back to the chat
+      window.location.assign(`/login?${new URLSearchParams({ redirectTo: '/' })}`);
+      return;
+    }
+    if (!response.ok || !response.body) {
+      const data = (await response.json().catch(() => ({}))) as { error?: string };
+      throw new ChatReplyError(data.error ?? `Chat request failed: ${response.status}`, Boolean(data.error));
+    }
+
+    for await (const event of readSseEvents<ChatStreamEvent>(response.body)) {
+      switch (event.type) {
+        case 'thread':
+          setThreadId(event.threadId);
+          break;
+        case 'delta':
+          setToolStatus(null);
+          applyText(event.text);
+          break;
+        case 'tool':
+          setToolStatus(
+            event.status === 'in_progress'
+              ? TOOL_LABELS[event.tools[0]] ?? 'ツールを実行しています…'
+              : null
+          );
+          break;
+        case 'done': {
+          // The final text is authoritative (and is the only text for local fallbacks)
+          const text = event.response.messages?.[0] ?? '';
+          const note = event.response.runStatus && RUN_STATUS_NOTES[event.response.runStatus];
+          const content = note ? [text, note].filter(Boolean).join('\n\n') : text;
+          if (content) {
+            applyText(content, true, event.response.citations);
+          }
+          break;
         }
-      } else if (fetcher.data.error) {
-        console.error('ChatInterface - Error in response:', fetcher.data.error);
-        // You might want to show an error message to the user here
+        case 'error':
+          throw new ChatReplyError(event.error, true);
       }
-      
-      // Always clear loading state when idle
-      setIsLoading(false);
     }
-  }, [fetcher, isLoading]);
+  };
+
+  // The reply ends with what was generated so far once the server stops the run
+  const stopGenerating = async () => {
+    if (!threadId || isStopping) return;
+
+    setIsStopping(true);
+    try {
+      const response = await fetch('/api/chat/cancel', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ threadId }),
+      });
+      if (!response.ok) {
+        throw new Error(`Cancel request failed: ${response.status}`);
+      }
+    } catch (error) {
+      console.error('ChatInterface - Failed to stop the reply:', error);
+      setIsStopping(false);
+    }
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -90,19 +260,26 @@ export function ChatInterface() {
       textareaRef.current.style.height = 'auto';
     }
 
-
-    fetcher.submit(
-      {
-        message: currentInput,
-        threadId: threadId || '',
-        userId: 'demo-user',
-      },
-      {
-        method: 'post',
-        action: '/api/chat',
-        encType: 'application/json',
-      }
-    );
+    try {
+      await streamReply(currentInput);
+    } catch (error) {
+      console.error('ChatInterface - Error in response:', error);
+      setMessages((prev) => [
+        ...prev,
+        {
+          role: 'assistant',
+          content: error instanceof ChatReplyError && error.forUser
+            ? error.message
+            : '申し訳ありません。回答の取得中にエラーが発生しました。もう一度お試しください。',
+          timestamp: new Date(),
+        },
+      ]);
+    } finally {
+      setToolStatus(null);
+      setIsLoading(false);
+      setIsStopping(false);
+      refreshThreads();
+    }
   };
 
   const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
@@ -123,129 +300,181 @@ export function ChatInterface() {
   };
 
   return (
-    <div className="flex h-screen flex-col">
-      {/* Header */}
-      <div className="flex items-center justify-between border-b border-gray-200 px-4 py-2 bg-white">
-        <h1 className="text-lg font-semibold text-gray-900">補助金検索アシスタント</h1>
-        {threadId && (
-          <button
-            onClick={() => {
-              setMessages([]);
-              setThreadId(null);
-            }}
-            className="text-sm text-gray-600 hover:text-gray-900 transition-colors"
-          >
-            新しいチャット
-          </button>
+    <div className="flex h-screen">
+      <ThreadSidebar
+        threads={threads}
+        activeThreadId={threadId}
+        onSelect={selectThread}
+        onRename={renameThread}
+        onDelete={deleteThread}
+        onNewChat={startNewChat}
+      />
+
+      <div className="flex min-w-0 flex-1 flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between border-b border-gray-200 px-4 py-2 bg-white">
+          <h1 className="text-lg font-semibold text-gray-900">補助金検索アシスタント</h1>
+          <div className="flex items-center gap-4">
+            <Link to="/subsidies" className="text-sm text-gray-600 hover:text-gray-900 transition-colors">
+              補助金一覧
+            </Link>
+            <Link to="/bookmarks" className="text-sm text-gray-600 hover:text-gray-900 transition-colors">
+              ブックマーク
+            </Link>
+            <Link to="/profile" className="text-sm text-gray-600 hover:text-gray-900 transition-colors">
+              事業者情報
+            </Link>
+            <Form method="post" action="/logout" className="flex items-center gap-2">
+              <span className="hidden text-sm text-gray-500 md:inline">{account.email}</span>
+              <button type="submit" className="text-sm text-gray-600 hover:text-gray-900 transition-colors">
+                ログアウト
+              </button>
+            </Form>
+            {threadId && (
+              <button
+                onClick={startNewChat}
+                className="text-sm text-gray-600 hover:text-gray-900 transition-colors"
+              >
+                新しいチャット
+              </button>
+            )}
+          </div>
+        </div>
+
+        {contextSubsidy && (
+          <div className="border-b border-blue-100 bg-blue-50 px-4 py-2 text-sm text-blue-900">
+            <Link to={subsidyPath(contextSubsidy.jgrantsId)} className="font-semibold underline">
+              {contextSubsidy.title}
+            </Link>
+            {' '}について相談しています
+          </div>
         )}
-      </div>
 
-      {/* Messages area */}
-      <div className="flex-1 overflow-y-auto">
-        {messages.length === 0 && (
-          <div className="flex h-full items-center justify-center">
-            <div className="text-center max-w-lg mx-auto px-4">
-              <h2 className="text-2xl font-semibold mb-4 text-gray-900">補助金検索アシスタント</h2>
-              <p className="text-gray-700 mb-8">
-                AIアシスタントがあなたのビジネスに最適な補助金・助成金を提案します
-              </p>
+        {/* Messages area */}
+        <div className="flex-1 overflow-y-auto">
+          {messages.length === 0 && (
+            <div className="flex h-full items-center justify-center">
+              <div className="text-center max-w-lg mx-auto px-4">
+                <h2 className="text-2xl font-semibold mb-4 text-gray-900">補助金検索アシスタント</h2>
+                <p className="text-gray-700 mb-8">
+                  AIアシスタントがあなたのビジネスに最適な補助金・助成金を提案します
+                </p>
               
-              <div className="grid gap-4 text-left">
-                <div className="border border-gray-300 rounded-lg p-4 hover:bg-gray-50 cursor-pointer transition-colors"
-                     onClick={() => setInput('スタートアップ向けの補助金を教えて')}>
-                  <h3 className="font-semibold mb-2 text-gray-900">💡 スタートアップ支援</h3>
-                  <p className="text-sm text-gray-700">
-                    スタートアップ向けの補助金を教えて
-                  </p>
-                </div>
+                <div className="grid gap-4 text-left">
+                  <div className="border border-gray-300 rounded-lg p-4 hover:bg-gray-50 cursor-pointer transition-colors"
+                       onClick={() => setInput('スタートアップ向けの補助金を教えて')}>
+                    <h3 className="font-semibold mb-2 text-gray-900">💡 スタートアップ支援</h3>
+                    <p className="text-sm text-gray-700">
+                      スタートアップ向けの補助金を教えて
+                    </p>
+                  </div>
                 
-                <div className="border border-gray-300 rounded-lg p-4 hover:bg-gray-50 cursor-pointer transition-colors"
-                     onClick={() => setInput('IT企業が使える助成金はある？')}>
-                  <h3 className="font-semibold mb-2 text-gray-900">💻 IT・テクノロジー</h3>
-                  <p className="text-sm text-gray-700">
-                    IT企業が使える助成金はある？
-                  </p>
-                </div>
+                  <div className="border border-gray-300 rounded-lg p-4 hover:bg-gray-50 cursor-pointer transition-colors"
+                       onClick={() => setInput('IT企業が使える助成金はある？')}>
+                    <h3 className="font-semibold mb-2 text-gray-900">💻 IT・テクノロジー</h3>
+                    <p className="text-sm text-gray-700">
+                      IT企業が使える助成金はある？
+                    </p>
+                  </div>
                 
-                <div className="border border-gray-300 rounded-lg p-4 hover:bg-gray-50 cursor-pointer transition-colors"
-                     onClick={() => setInput('研究開発の補助金について知りたい')}>
-                  <h3 className="font-semibold mb-2 text-gray-900">🔬 研究開発</h3>
-                  <p className="text-sm text-gray-700">
-                    研究開発の補助金について知りたい
-                  </p>
+                  <div className="border border-gray-300 rounded-lg p-4 hover:bg-gray-50 cursor-pointer transition-colors"
+                       onClick={() => setInput('研究開発の補助金について知りたい')}>
+                    <h3 className="font-semibold mb-2 text-gray-900">🔬 研究開発</h3>
+                    <p className="text-sm text-gray-700">
+                      研究開発の補助金について知りたい
+                    </p>
+                  </div>
                 </div>
               </div>
             </div>
-          </div>
-        )}
+          )}
+
+          <div className="flex flex-col">
+            {messages.map((message, index) => (
+              <Message
+                key={index}
+                role={message.role}
+                content={message.content}
+                timestamp={message.timestamp}
+                citations={message.citations}
+              />
+            ))}
 
-        <div className="flex flex-col">
-          {messages.map((message, index) => (
-            <Message
-              key={index}
-              role={message.role}
-              content={message.content}
-              timestamp={message.timestamp}
-            />
-          ))}
-
-          {isLoading && (
-            <div className="bg-gray-50">
-              <div className="flex p-4 gap-4 text-base md:gap-6 md:max-w-2xl lg:max-w-[38rem] xl:max-w-3xl md:py-6 lg:px-0 m-auto">
-                <div className="flex-shrink-0 flex flex-col relative items-end">
-                  <div className="relative flex h-8 w-8 rounded-sm items-center justify-center text-white bg-emerald-600">
-                    <svg width="20" height="20" viewBox="0 0 20 20" fill="none" xmlns="http://www.w3.org/2000/svg">
-                      <path d="M10 0C4.477 0 0 4.477 0 10s4.477 10 10 10 10-4.477 10-10S15.523 0 10 0zm1 15v1a1 1 0 0 1-2 0v-1c-1.654 0-3-1.346-3-3a1 1 0 0 1 2 0c0 .551.449 1 1 1h2c.551 0 1-.449 1-1s-.449-1-1-1H9c-1.654 0-3-1.346-3-3s1.346-3 3-3V4a1 1 0 0 1 2 0v1c1.654 0 3 1.346 3 3a1 1 0 0 1-2 0c0-.551-.449-1-1-1H9c-.551 0-1 .449-1 1s.449 1 1 1h2c1.654 0 3 1.346 3 3s-1.346 3-3 3z" fill="currentColor"/>
-                    </svg>
+            {isLoading && messages[messages.length - 1]?.role === 'user' && (
+              <div className="bg-gray-50">
+                <div className="flex p-4 gap-4 text-base md:gap-6 md:max-w-2xl lg:max-w-[38rem] xl:max-w-3xl md:py-6 lg:px-0 m-auto">
+                  <div className="flex-shrink-0 flex flex-col relative items-end">
+                    <div className="relative flex h-8 w-8 rounded-sm items-center justify-center text-white bg-emerald-600">
+                      <svg width="20" height="20" viewBox="0 0 20 20" fill="none" xmlns="http://www.w3.org/2000/svg">
+                        <path d="M10 0C4.477 0 0 4.477 0 10s4.477 10 10 10 10-4.477 10-10S15.523 0 10 0zm1 15v1a1 1 0 0 1-2 0v-1c-1.654 0-3-1.346-3-3a1 1 0 0 1 2 0c0 .551.449 1 1 1h2c.551 0 1-.449 1-1s-.449-1-1-1H9c-1.654 0-3-1.346-3-3s1.346-3 3-3V4a1 1 0 0 1 2 0v1c1.654 0 3 1.346 3 3a1 1 0 0 1-2 0c0-.551-.449-1-1-1H9c-.551 0-1 .449-1 1s.449 1 1 1h2c1.654 0 3 1.346 3 3s-1.346 3-3 3z" fill="currentColor"/>
+                      </svg>
+                    </div>
                   </div>
-                </div>
-                <div className="relative flex w-full flex-col gap-1 md:gap-3 lg:w-[calc(100%-115px)]">
-                  <div className="flex items-center space-x-2">
-                    <div className="w-2 h-2 bg-gray-500 rounded-full animate-bounce" style={{ animationDelay: '0ms' }} />
-                    <div className="w-2 h-2 bg-gray-500 rounded-full animate-bounce" style={{ animationDelay: '150ms' }} />
-                    <div className="w-2 h-2 bg-gray-500 rounded-full animate-bounce" style={{ animationDelay: '300ms' }} />
+                  <div className="relative flex w-full flex-col gap-1 md:gap-3 lg:w-[calc(100%-115px)]">
+                    <div className="flex items-center space-x-2">
+                      <div className="w-2 h-2 bg-gray-500 rounded-full animate-bounce" style={{ animationDelay: '0ms' }} />
+                      <div className="w-2 h-2 bg-gray-500 rounded-full animate-bounce" style={{ animationDelay: '150ms' }} />
+                      <div className="w-2 h-2 bg-gray-500 rounded-full animate-bounce" style={{ animationDelay: '300ms' }} />
+                      {toolStatus && <span className="text-sm text-gray-600">{toolStatus}</span>}
+                    </div>
                   </div>
                 </div>
               </div>
-            </div>
-          )}
+            )}
 
-          <div ref={messagesEndRef} />
+            <div ref={messagesEndRef} />
+          </div>
         </div>
-      </div>
 
-      {/* Input area */}
-      <div className="border-t border-gray-200 bg-white">
-        <Form onSubmit={handleSubmit} className="m-2 md:m-4">
-          <div className="relative flex flex-col w-full flex-grow p-4 border border-gray-300 rounded-lg shadow-sm focus-within:border-gray-400 transition-colors">
-            <textarea
-              ref={textareaRef}
-              value={input}
-              onChange={handleTextareaChange}
-              onKeyDown={handleKeyDown}
-              placeholder="メッセージを入力..."
-              className="m-0 w-full resize-none border-0 bg-transparent p-0 pr-10 focus:ring-0 focus-visible:ring-0 md:pr-12 max-h-[200px] outline-none text-gray-900 placeholder-gray-500"
-              style={{ height: '24px' }}
-              disabled={isLoading}
-              rows={1}
-            />
+        {/* Input area */}
+        <div className="border-t border-gray-200 bg-white">
+          <Form onSubmit={handleSubmit} className="m-2 md:m-4">
+            <div className="relative flex flex-col w-full flex-grow p-4 border border-gray-300 rounded-lg shadow-sm focus-within:border-gray-400 transition-colors">
+              <textarea
+                ref={textareaRef}
+                value={input}
+                onChange={handleTextareaChange}
+                onKeyDown={handleKeyDown}
+                placeholder="メッセージを入力..."
+                className="m-0 w-full resize-none border-0 bg-transparent p-0 pr-10 focus:ring-0 focus-visible:ring-0 md:pr-12 max-h-[200px] outline-none text-gray-900 placeholder-gray-500"
+                style={{ height: '24px' }}
+                disabled={isLoading}
+                rows={1}
+              />
             
-            <button
-              type="submit"
-              disabled={isLoading || !input.trim()}
-              className="absolute p-1 rounded-md bottom-3 right-3 text-gray-600 hover:text-gray-900 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
-            >
-              <svg className="h-5 w-5" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
-                <path d="M7 11L12 6L17 11M12 18V7" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
-                <circle cx="12" cy="12" r="11" stroke="currentColor" strokeWidth="2"/>
-              </svg>
-            </button>
-          </div>
+              {isLoading ? (
+                <button
+                  type="button"
+                  onClick={stopGenerating}
+                  disabled={isStopping || !threadId}
+                  aria-label="回答を停止"
+                  title="回答を停止"
+                  className="absolute p-1 rounded-md bottom-3 right-3 text-gray-600 hover:text-gray-900 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+                >
+                  <svg className="h-5 w-5" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+                    <rect x="8" y="8" width="8" height="8" rx="1" fill="currentColor"/>
+                    <circle cx="12" cy="12" r="11" stroke="currentColor" strokeWidth="2"/>
+                  </svg>
+                </button>
+              ) : (
+                <button
+                  type="submit"
+                  disabled={!input.trim()}
+                  className="absolute p-1 rounded-md bottom-3 right-3 text-gray-600 hover:text-gray-900 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+                >
+                  <svg className="h-5 w-5" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+                    <path d="M7 11L12 6L17 11M12 18V7" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+                    <circle cx="12" cy="12" r="11" stroke="currentColor" strokeWidth="2"/>
+                  </svg>
+                </button>
+              )}
+            </div>
           
-          <div className="px-4 py-2 text-center text-xs text-gray-600">
-            <span>AIが提供する情報は参考情報です。最新情報は各補助金の公式サイトでご確認ください。</span>
-          </div>
-        </Form>
+            <div className="px-4 py-2 text-center text-xs text-gray-600">
+              <span>AIが提供する情報は参考情報です。最新情報は各補助金の公式サイトでご確認ください。</span>
+            </div>
+          </Form>
+        </div>
       </div>
     </div>
   );
@@ -1,11 +1,26 @@
 import React from 'react';
-import ReactMarkdown from 'react-markdown';
+import ReactMarkdown, { defaultUrlTransform } from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import rehypeHighlight from 'rehype-highlight';
-import type { Message as MessageProps } from '~/types/chat';
+import type { Citation, Message as MessageProps } from '~/types/chat';
+import { resolveSubsidyHref, subsidyPath } from '~/utils/subsidy-links';
 
-export function Message({ role, content, timestamp }: MessageProps) {
+// GFM footnote definitions for the `[^n]` references left in the message text
+function buildFootnotes(citations: Citation[]): string {
+  return citations
+    .map(({ index, jgrantsId, title, fileId }) =>
+      jgrantsId
+        ? `[^${index}]: [${(title ?? jgrantsId).replace(/[[\]]/g, '\\$&')}](${subsidyPath(jgrantsId)})`
+        : `[^${index}]: 出典ファイル ${fileId}（補助金データが見つかりません）`
+    )
+    .join('\n');
+}
+
+export function Message({ role, content, timestamp, citations }: MessageProps) {
   const isUser = role === 'user';
+  const markdown = citations && citations.length > 0
+    ? `${content}\n\n${buildFootnotes(citations)}`
+    : content;
 
   return (
     <div className={`group w-full ${isUser ? 'bg-white' : 'bg-gray-50'}`}>
@@ -39,6 +54,9 @@ export function Message({ role, content, timestamp }: MessageProps) {
                   <ReactMarkdown
                     remarkPlugins={[remarkGfm]}
                     rehypePlugins={[rehypeHighlight]}
+                    remarkRehypeOptions={{ footnoteLabel: '出典', footnoteBackLabel: '本文に戻る' }}
+                    // subsidy:/// resource URIs would otherwise be stripped as unsafe
+                    urlTransform={(url) => defaultUrlTransform(resolveSubsidyHref(url))}
                     components={{
                       pre: ({ children, ...props }) => (
                         <div className="relative">
@@ -103,7 +121,7 @@ export function Message({ role, content, timestamp }: MessageProps) {
                       ),
                     }}
                   >
-                    {content}
+                    {markdown}
                   </ReactMarkdown>
                 </div>
               )}
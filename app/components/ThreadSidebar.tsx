@@ -0,0 +1,107 @@
+import { useState } from 'react';
+import type { ThreadSummary } from '~/types/chat';
+
+interface ThreadSidebarProps {
+  threads: ThreadSummary[];
+  activeThreadId: string | null;
+  onSelect: (threadId: string) => void;
+  onRename: (threadId: string, title: string) => void;
+  onDelete: (threadId: string) => void;
+  onNewChat: () => void;
+}
+
+export function ThreadSidebar({
+  threads,
+  activeThreadId,
+  onSelect,
+  onRename,
+  onDelete,
+  onNewChat,
+}: ThreadSidebarProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+
+  const startEditing = (thread: ThreadSummary) => {
+    setEditingId(thread.threadId);
+    setDraftTitle(thread.title ?? '');
+  };
+
+  const commitEditing = () => {
+    const title = draftTitle.trim();
+    const thread = threads.find((t) => t.threadId === editingId);
+    if (thread && title && title !== thread.title) {
+      onRename(thread.threadId, title);
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <nav className="hidden w-64 flex-shrink-0 flex-col border-r border-gray-200 bg-gray-50 md:flex">
+      <div className="p-2">
+        <button
+          onClick={onNewChat}
+          className="w-full rounded-md border border-gray-300 px-3 py-2 text-left text-sm text-gray-900 hover:bg-gray-100 transition-colors"
+        >
+          ＋ 新しいチャット
+        </button>
+      </div>
+
+      <ul className="flex-1 overflow-y-auto px-2 pb-2">
+        {threads.length === 0 && (
+          <li className="px-3 py-2 text-sm text-gray-500">会話履歴はまだありません</li>
+        )}
+        {threads.map((thread) => {
+          const isActive = thread.threadId === activeThreadId;
+          return (
+            <li key={thread.threadId} className={`group rounded-md ${isActive ? 'bg-gray-200' : 'hover:bg-gray-100'}`}>
+              {editingId === thread.threadId ? (
+                <input
+                  autoFocus
+                  value={draftTitle}
+                  maxLength={100}
+                  onChange={(e) => setDraftTitle(e.target.value)}
+                  onBlur={commitEditing}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitEditing();
+                    if (e.key === 'Escape') setEditingId(null);
+                  }}
+                  className="w-full rounded-md border border-gray-400 px-3 py-2 text-sm text-gray-900"
+                />
+              ) : (
+                <div className="flex items-center">
+                  <button
+                    onClick={() => onSelect(thread.threadId)}
+                    className="flex-1 truncate px-3 py-2 text-left text-sm text-gray-900"
+                    title={thread.title ?? undefined}
+                  >
+                    {thread.title ?? '無題のチャット'}
+                  </button>
+                  <div className="hidden gap-1 pr-2 group-hover:flex">
+                    <button
+                      onClick={() => startEditing(thread)}
+                      className="text-xs text-gray-500 hover:text-gray-900"
+                      aria-label="名前を変更"
+                    >
+                      編集
+                    </button>
+                    <button
+                      onClick={() => {
+                        if (window.confirm(`「${thread.title ?? '無題のチャット'}」を削除しますか？`)) {
+                          onDelete(thread.threadId);
+                        }
+                      }}
+                      className="text-xs text-gray-500 hover:text-red-600"
+                      aria-label="削除"
+                    >
+                      削除
+                    </button>
+                  </div>
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </nav>
+  );
+}
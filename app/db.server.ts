@@ -3,4 +3,20 @@
  * Re-exports Drizzle ORM implementation with Prisma-compatible interface
  */
 
-export { prisma, threadRepository, messageRepository, subsidyRepository } from './db';
\ No newline at end of file
+export {
+  prisma,
+  checkDatabase,
+  migrateDatabase,
+  userRepository,
+  magicLinkTokenRepository,
+  companyProfileRepository,
+  threadRepository,
+  messageRepository,
+  runRepository,
+  subsidyRepository,
+  subsidyRevisionRepository,
+  subsidyAttachmentRepository,
+  bookmarkRepository,
+  reminderDeliveryRepository,
+} from './db';
+export { loadDatabaseConfig } from './db/config';
\ No newline at end of file
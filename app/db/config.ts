@@ -0,0 +1,141 @@
+/**
+ * Database location
+ * DATABASE_URL selects the database: a `file:` path (relative paths are
+ * resolved from the working directory), `:memory:`, or a libSQL server such as
+ * Turso or a local sqld (`libsql://`, `https://`, `wss://` and their plain
+ * counterparts). DATABASE_AUTH_TOKEN is sent to the server; it is required
+ * unless the server runs on this machine.
+ */
+
+import { createClient, type Client, type InStatement, type Transaction } from '@libsql/client';
+import { mkdirSync } from 'fs';
+import { dirname, resolve } from 'path';
+import { Result, ok, err } from '../types/result';
+import { DatabaseError, createDatabaseError } from '../types/errors';
+
+export type DatabaseMode = 'file' | 'memory' | 'remote';
+
+export interface DatabaseConfig {
+  mode: DatabaseMode;
+  // Absolute for files, so the location does not change with the working directory
+  url: string;
+  authToken?: string;
+}
+
+const DEFAULT_DATABASE_PATH = ['prisma', 'dev.db'];
+const MEMORY_URLS = new Set([':memory:', 'file::memory:']);
+const REMOTE_PROTOCOLS = new Set(['libsql:', 'https:', 'http:', 'wss:', 'ws:']);
+const LOCAL_HOSTS = new Set(['localhost', '127.0.0.1', '[::1]']);
+
+function filePathOf(url: string): string {
+  const path = url.startsWith('file://') ? decodeURIComponent(new URL(url).pathname) : url.slice('file:'.length);
+  return resolve(process.cwd(), path);
+}
+
+export function loadDatabaseConfig(
+  env: Record<string, string | undefined> = process.env
+): Result<DatabaseConfig, DatabaseError> {
+  const url = env.DATABASE_URL?.trim();
+  if (!url) {
+    return ok({ mode: 'file', url: `file:${resolve(process.cwd(), ...DEFAULT_DATABASE_PATH)}` });
+  }
+
+  if (MEMORY_URLS.has(url)) {
+    return ok({ mode: 'memory', url: ':memory:' });
+  }
+
+  if (url.startsWith('file:')) {
+    if (url.includes('?')) {
+      return err(createDatabaseError('CONFIG_ERROR', 'DATABASE_URL must not have query parameters for a file database'));
+    }
+    if (!url.slice('file:'.length)) {
+      return err(createDatabaseError('CONFIG_ERROR', 'DATABASE_URL has no file path'));
+    }
+    return ok({ mode: 'file', url: `file:${filePathOf(url)}` });
+  }
+
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return err(createDatabaseError('CONFIG_ERROR', 'DATABASE_URL is not a valid URL'));
+  }
+  if (!REMOTE_PROTOCOLS.has(parsed.protocol)) {
+    return err(createDatabaseError(
+      'CONFIG_ERROR',
+      `Unsupported DATABASE_URL scheme: ${parsed.protocol} (use file:, :memory:, libsql:, https: or wss:)`
+    ));
+  }
+  if (!parsed.hostname) {
+    return err(createDatabaseError('CONFIG_ERROR', 'DATABASE_URL has no host'));
+  }
+
+  const authToken = env.DATABASE_AUTH_TOKEN?.trim() || undefined;
+  if (!authToken && !parsed.searchParams.has('authToken') && !LOCAL_HOSTS.has(parsed.hostname)) {
+    return err(createDatabaseError('CONFIG_ERROR', `DATABASE_AUTH_TOKEN is required for ${parsed.host}`));
+  }
+  return ok({ mode: 'remote', url, authToken });
+}
+
+/**
+ * libsql hands the connection over to a transaction and opens a new one for
+ * later statements, which for an in-memory database is a new, empty database.
+ * Run transactions on the one connection instead; nothing else uses it
+ * concurrently in the tests and tools that use in-memory databases.
+ */
+function withSingleConnection(client: Client): Client {
+  const transaction = async (): Promise<Transaction> => {
+    await client.execute('BEGIN IMMEDIATE');
+    let closed = false;
+    const finish = async (statement: 'COMMIT' | 'ROLLBACK') => {
+      if (closed) return;
+      closed = true;
+      await client.execute(statement);
+    };
+
+    return {
+      execute: (stmt: InStatement) => client.execute(stmt),
+      async batch(stmts: InStatement[]) {
+        const results = [];
+        for (const stmt of stmts) {
+          results.push(await client.execute(stmt));
+        }
+        return results;
+      },
+      executeMultiple: (sql: string) => client.executeMultiple(sql),
+      commit: () => finish('COMMIT'),
+      rollback: () => finish('ROLLBACK'),
+      close() {
+        void finish('ROLLBACK');
+      },
+      get closed() {
+        return closed;
+      },
+    };
+  };
+
+  return {
+    execute: (stmt) => client.execute(stmt),
+    batch: (stmts, mode) => client.batch(stmts, mode),
+    transaction,
+    executeMultiple: (sql) => client.executeMultiple(sql),
+    sync: () => client.sync(),
+    close: () => client.close(),
+    get closed() {
+      return client.closed;
+    },
+    get protocol() {
+      return client.protocol;
+    },
+  };
+}
+
+export function createDatabaseClient(config: DatabaseConfig): Client {
+  if (config.mode === 'memory') {
+    return withSingleConnection(createClient({ url: config.url }));
+  }
+  if (config.mode === 'file') {
+    mkdirSync(dirname(filePathOf(config.url)), { recursive: true });
+  }
+  return createClient({ url: config.url, authToken: config.authToken });
+}
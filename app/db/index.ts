@@ -3,44 +3,74 @@
  * Following functional programming patterns from instructions
  */
 
-import { drizzle } from 'drizzle-orm/libsql';
-import { createClient } from '@libsql/client';
-import { resolve, dirname } from 'path';
+import { drizzle, type LibSQLDatabase } from 'drizzle-orm/libsql';
+import { migrate } from 'drizzle-orm/libsql/migrator';
+import { readMigrationFiles, type MigrationMeta } from 'drizzle-orm/migrator';
+import type { Client } from '@libsql/client';
+import { randomUUID } from 'crypto';
+import { readFileSync } from 'fs';
+import { resolve, dirname, join } from 'path';
 import { fileURLToPath } from 'url';
 import * as schema from './schema';
-import { eq, and } from 'drizzle-orm';
+import { createDatabaseClient, loadDatabaseConfig } from './config';
+import { eq, and, or, gt, gte, lte, inArray, notInArray, isNull, isNotNull, asc, desc, count, sql, type AnyColumn, type SQL } from 'drizzle-orm';
 import { Result, ok, err } from '../types/result';
 import { DatabaseError, createDatabaseError } from '../types/errors';
+import type {
+  FacetCount,
+  SubsidySearchFilters,
+  SubsidySearchHit,
+  SubsidySearchResult,
+  SubsidyTextSearchOptions,
+} from '../types/subsidy';
+import {
+  fiscalYearOf,
+  parseDeadlineDate,
+  parseFiscalYear,
+  parseMaxAmount,
+  parseSubsidyRate,
+} from '../services/subsidies/normalize';
+import {
+  JGRANTS_EMPLOYEE_LIMITS,
+  acceptedEmployeeLimits,
+  targetAreasFor,
+} from '../services/subsidies/company-profile';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
+// Prisma-style sort order for thread listings
+export type ThreadOrderBy = { updatedAt: 'asc' | 'desc' } | { createdAt: 'asc' | 'desc' };
+
+const THREAD_TITLE_MAX_LENGTH = 40;
+
+/**
+ * Thread title derived from its first user message: whitespace collapsed
+ * and cut to THREAD_TITLE_MAX_LENGTH characters
+ */
+export function deriveThreadTitle(content: string): string | null {
+  const title = content.replace(/\s+/g, ' ').trim();
+  if (!title) return null;
+
+  const chars = [...title];
+  return chars.length > THREAD_TITLE_MAX_LENGTH
+    ? `${chars.slice(0, THREAD_TITLE_MAX_LENGTH - 1).join('')}…`
+    : title;
+}
+
 // Database singleton
-let client: ReturnType<typeof createClient> | null = null;
-let drizzleDb: ReturnType<typeof drizzle> | null = null;
+let client: Client | null = null;
+let drizzleDb: LibSQLDatabase<typeof schema> | null = null;
 
-// Initialize database connection
-function getDb() {
+// Initialize database connection from DATABASE_URL
+export function getDb() {
   if (!drizzleDb) {
-    // Get database path from env or use default
-    const envUrl = process.env.DATABASE_URL;
-    let dbPath: string;
-    
-    if (envUrl && envUrl.includes('prisma')) {
-      // If env URL contains 'prisma', use it as is
-      dbPath = envUrl.replace('file:', '');
-    } else if (envUrl) {
-      // If env URL exists but doesn't contain 'prisma', it might be the old path
-      dbPath = resolve(process.cwd(), 'prisma', 'dev.db');
-    } else {
-      // Use absolute path to ensure consistency
-      dbPath = resolve(process.cwd(), 'prisma', 'dev.db');
-    }
-    
-    
-    client = createClient({
-      url: `file:${dbPath}`,
-    });
+    const config = loadDatabaseConfig();
+    if (!config.ok) {
+      throw new Error(config.error.message);
+    }
+
+    client = createDatabaseClient(config.value);
     drizzleDb = drizzle(client, { schema });
   }
   return drizzleDb;
@@ -55,11 +85,260 @@ export function closeDb(): void {
   }
 }
 
+export interface MigrationReport {
+  // Tags of the migrations applied by this run, e.g. 0001_subsidies_fts
+  applied: string[];
+  // Migrations recorded as applied to a database created before migrations existed
+  baselined: string[];
+  // Tables and columns (e.g. subsidies.status) added to such a database before it was baselined
+  upgraded: string[];
+}
+
+const MIGRATIONS_FOLDER = resolve(process.cwd(), 'drizzle');
+// The last migration that the tables created by the former init-db script correspond to
+const LEGACY_SCHEMA_MIGRATION = '0001_subsidies_fts';
+
+interface MigrationJournal {
+  entries: Array<{ idx: number; when: number; tag: string }>;
+}
+
+interface SnapshotColumn {
+  name: string;
+  type: string;
+  primaryKey: boolean;
+  notNull: boolean;
+  default?: string | number;
+}
+
+// The part of a drizzle-kit snapshot (drizzle/meta) describing the tables
+interface SchemaSnapshot {
+  tables: Record<string, { columns: Record<string, SnapshotColumn> }>;
+}
+
+// Name of the table or index created by a migration statement, after any leading comments
+const CREATED_OBJECT = /^\s*(?:--[^\n]*\n\s*)*CREATE\s+(?:VIRTUAL\s+TABLE|TABLE|(?:UNIQUE\s+)?INDEX)\s+`([^`]+)`/i;
+
+// ALTER TABLE ADD COLUMN cannot add primary keys, NOT NULL columns without a
+// default, or columns whose default is an expression such as CURRENT_TIMESTAMP
+function canAddColumn(column: SnapshotColumn): boolean {
+  if (column.primaryKey) return false;
+  if (column.default === undefined) return !column.notNull;
+  return !/^\(|CURRENT_/i.test(String(column.default));
+}
+
+/**
+ * Add what a database created by the former init-db script is missing from the
+ * baseline snapshot: columns of existing tables, then the tables, indexes and
+ * full-text index the baseline migrations create. Objects that already exist
+ * are kept. Returns the added tables and columns.
+ */
+async function upgradeLegacySchema(
+  db: ReturnType<typeof getDb>,
+  migrations: MigrationMeta[],
+  snapshot: SchemaSnapshot
+): Promise<Result<string[], DatabaseError>> {
+  const objects = await db.all<{ name: string }>(sql`SELECT name FROM sqlite_master`);
+  const existing = new Set(objects.map((object) => object.name));
+
+  const added: string[] = [];
+  const unsupported: string[] = [];
+  const statements: string[] = [];
+
+  for (const [table, { columns }] of Object.entries(snapshot.tables)) {
+    if (!existing.has(table)) {
+      added.push(table);
+      continue;
+    }
+
+    const present = await db.all<{ name: string }>(sql.raw(`PRAGMA table_info(\`${table}\`)`));
+    const names = new Set(present.map((column) => column.name));
+    for (const column of Object.values(columns)) {
+      if (names.has(column.name)) continue;
+      if (!canAddColumn(column)) {
+        unsupported.push(`${table}.${column.name}`);
+        continue;
+      }
+
+      const constraints = [
+        column.notNull ? 'NOT NULL' : '',
+        column.default !== undefined ? `DEFAULT ${column.default}` : '',
+      ].filter(Boolean);
+      statements.push(`ALTER TABLE \`${table}\` ADD \`${column.name}\` ${[column.type, ...constraints].join(' ')}`);
+      added.push(`${table}.${column.name}`);
+    }
+  }
+
+  if (unsupported.length > 0) {
+    return err(createDatabaseError(
+      'QUERY_ERROR',
+      `The database was created before migrations and cannot be upgraded: missing columns ${unsupported.join(', ')}. ` +
+        'Move it aside and run npm run db:migrate to create a new one.'
+    ));
+  }
+
+  for (const migration of migrations) {
+    const created = migration.sql.map((statement) => CREATED_OBJECT.exec(statement)?.[1]);
+    // Statements that do not create anything (e.g. filling the full-text index)
+    // only run with the migration's missing objects
+    if (created.every((name) => !name || existing.has(name))) continue;
+
+    migration.sql.forEach((statement, index) => {
+      const name = created[index];
+      if (!name || !existing.has(name)) statements.push(statement);
+    });
+  }
+
+  await db.transaction(async (tx) => {
+    for (const statement of statements) {
+      await tx.run(sql.raw(statement));
+    }
+  });
+
+  return ok(added);
+}
+
+/**
+ * Apply the pending migrations in drizzle/ (generated from schema.ts with
+ * `npm run db:generate`). Databases created before migrations existed have
+ * tables but no migration history; they are upgraded to the
+ * LEGACY_SCHEMA_MIGRATION schema and their history is started there, so
+ * only later migrations run on them.
+ */
+export async function migrateDatabase(
+  migrationsFolder: string = MIGRATIONS_FOLDER
+): Promise<Result<MigrationReport, DatabaseError>> {
+  try {
+    const db = getDb();
+    const journal: MigrationJournal = JSON.parse(
+      readFileSync(join(migrationsFolder, 'meta', '_journal.json'), 'utf-8')
+    );
+    const migrations = readMigrationFiles({ migrationsFolder }).map((migration, index) => ({
+      ...migration,
+      tag: journal.entries[index].tag,
+    }));
+
+    await db.run(sql`
+      CREATE TABLE IF NOT EXISTS __drizzle_migrations (
+        id SERIAL PRIMARY KEY,
+        hash text NOT NULL,
+        created_at numeric
+      )
+    `);
+    const [history] = await db.all<{ applied: number; last: number | null }>(
+      sql`SELECT COUNT(*) AS applied, MAX(created_at) AS last FROM __drizzle_migrations`
+    );
+
+    const baselined: string[] = [];
+    let upgraded: string[] = [];
+    const baseline = migrations.findIndex((migration) => migration.tag === LEGACY_SCHEMA_MIGRATION);
+    if (Number(history.applied) === 0 && baseline !== -1) {
+      const snapshot: SchemaSnapshot = JSON.parse(readFileSync(
+        join(migrationsFolder, 'meta', `${String(journal.entries[baseline].idx).padStart(4, '0')}_snapshot.json`),
+        'utf-8'
+      ));
+      const tables = await db.all<{ name: string }>(sql`SELECT name FROM sqlite_master WHERE type = 'table'`);
+      const legacy = tables.some((table) => table.name in snapshot.tables);
+
+      if (legacy) {
+        const upgrade = await upgradeLegacySchema(db, migrations.slice(0, baseline + 1), snapshot);
+        if (!upgrade.ok) return upgrade;
+        upgraded = upgrade.value;
+
+        for (const migration of migrations.slice(0, baseline + 1)) {
+          await db.run(sql`
+            INSERT INTO __drizzle_migrations (hash, created_at)
+            VALUES (${migration.hash}, ${migration.folderMillis})
+          `);
+          baselined.push(migration.tag);
+        }
+      }
+    }
+
+    const last = baselined.length > 0
+      ? migrations[baselined.length - 1].folderMillis
+      : Number(history.last ?? 0);
+    const applied = migrations
+      .filter((migration) => migration.folderMillis > last)
+      .map((migration) => migration.tag);
+
+    await migrate(db, { migrationsFolder });
+
+    return ok({ applied, baselined, upgraded });
+  } catch (error) {
+    return err(createDatabaseError(
+      'QUERY_ERROR',
+      `Failed to migrate database: ${error instanceof Error ? error.message : 'Unknown error'}`
+    ));
+  }
+}
+
+export interface DatabaseCheckReport {
+  // Row counts of the application tables (FTS shadow tables excluded)
+  tables: Array<{ name: string; rows: number }>;
+  // Integrity and foreign key violations, and subsidies out of sync with the full-text index
+  problems: string[];
+}
+
+/**
+ * Row counts and consistency checks for the whole database
+ */
+export async function checkDatabase(): Promise<Result<DatabaseCheckReport, DatabaseError>> {
+  try {
+    const db = getDb();
+    const names = await db.all<{ name: string }>(sql`
+      SELECT name FROM sqlite_master
+      WHERE type = 'table' AND name NOT LIKE 'sqlite_%' AND name NOT LIKE 'subsidies_fts_%'
+      ORDER BY name
+    `);
+
+    const tables: DatabaseCheckReport['tables'] = [];
+    for (const { name } of names) {
+      const [{ total }] = await db.all<{ total: number }>(sql`SELECT COUNT(*) AS total FROM ${sql.identifier(name)}`);
+      tables.push({ name, rows: Number(total) });
+    }
+
+    const problems: string[] = [];
+    const integrity = await db.all<{ integrity_check: string }>(sql`PRAGMA integrity_check`);
+    for (const row of integrity) {
+      if (row.integrity_check !== 'ok') problems.push(row.integrity_check);
+    }
+
+    const violations = await db.all<{ table: string; rowid: number; parent: string }>(sql`PRAGMA foreign_key_check`);
+    for (const violation of violations) {
+      problems.push(`${violation.table} row ${violation.rowid} references a missing ${violation.parent} row`);
+    }
+
+    const [{ unindexed }] = await db.all<{ unindexed: number }>(sql`
+      SELECT COUNT(*) AS unindexed FROM subsidies
+      WHERE jgrants_id NOT IN (SELECT jgrants_id FROM subsidies_fts)
+    `);
+    if (Number(unindexed) > 0) {
+      problems.push(`${unindexed} subsidies are missing from the full-text index`);
+    }
+
+    const [{ orphaned }] = await db.all<{ orphaned: number }>(sql`
+      SELECT COUNT(*) AS orphaned FROM subsidies_fts
+      WHERE jgrants_id NOT IN (SELECT jgrants_id FROM subsidies)
+    `);
+    if (Number(orphaned) > 0) {
+      problems.push(`${orphaned} full-text index entries have no subsidy`);
+    }
+
+    return ok({ tables, problems });
+  } catch (error) {
+    return err(createDatabaseError(
+      'QUERY_ERROR',
+      `Failed to check database: ${error instanceof Error ? error.message : 'Unknown error'}`
+    ));
+  }
+}
+
 // Thread repository functions
 export const threadRepository = {
   async create(data: {
     threadId: string;
     userId?: string;
+    title?: string;
     metadata?: string;
   }): Promise<Result<schema.Thread, DatabaseError>> {
     try {
@@ -69,6 +348,7 @@ export const threadRepository = {
         .values({
           threadId: data.threadId,
           userId: data.userId,
+          title: data.title,
           metadata: data.metadata,
         })
         .returning();
@@ -98,7 +378,8 @@ export const threadRepository = {
       const threadMessages = await db
         .select()
         .from(schema.messages)
-        .where(eq(schema.messages.threadId, threadId));
+        .where(eq(schema.messages.threadId, threadId))
+        .orderBy(asc(schema.messages.id));
 
       return ok({
         ...thread,
@@ -112,13 +393,21 @@ export const threadRepository = {
     }
   },
 
-  async findMany(userId?: string): Promise<Result<schema.Thread[], DatabaseError>> {
+  async findMany(
+    userId?: string,
+    orderBy: ThreadOrderBy = { updatedAt: 'desc' }
+  ): Promise<Result<schema.Thread[], DatabaseError>> {
     try {
       const db = getDb();
-      const threads = userId
-        ? await db.select().from(schema.threads).where(eq(schema.threads.userId, userId))
-        : await db.select().from(schema.threads);
-      
+      const [field, direction] = Object.entries(orderBy)[0] as ['updatedAt' | 'createdAt', 'asc' | 'desc'];
+      const order = direction === 'asc' ? asc : desc;
+      // Timestamps are a mix of CURRENT_TIMESTAMP and ISO strings, so compare them as dates
+      const threads = await db
+        .select()
+        .from(schema.threads)
+        .where(userId ? eq(schema.threads.userId, userId) : undefined)
+        .orderBy(order(sql`julianday(${schema.threads[field]})`), order(schema.threads.id));
+
       return ok(threads);
     } catch (error) {
       return err(createDatabaseError(
@@ -127,6 +416,212 @@ export const threadRepository = {
       ));
     }
   },
+
+  async update(
+    threadId: string,
+    data: { title: string }
+  ): Promise<Result<schema.Thread, DatabaseError>> {
+    try {
+      const db = getDb();
+      const [thread] = await db
+        .update(schema.threads)
+        .set({ title: data.title })
+        .where(eq(schema.threads.threadId, threadId))
+        .returning();
+
+      if (!thread) {
+        return err(createDatabaseError('NOT_FOUND', 'Thread not found'));
+      }
+      return ok(thread);
+    } catch (error) {
+      return err(createDatabaseError(
+        'QUERY_ERROR',
+        `Failed to update thread: ${error instanceof Error ? error.message : 'Unknown error'}`
+      ));
+    }
+  },
+
+  // Deletes the thread together with its messages and runs
+  async delete(threadId: string): Promise<Result<void, DatabaseError>> {
+    try {
+      const db = getDb();
+      const deleted = await db.transaction(async (tx) => {
+        await tx.delete(schema.messages).where(eq(schema.messages.threadId, threadId));
+        await tx.delete(schema.runs).where(eq(schema.runs.threadId, threadId));
+        return tx
+          .delete(schema.threads)
+          .where(eq(schema.threads.threadId, threadId))
+          .returning({ id: schema.threads.id });
+      });
+
+      if (deleted.length === 0) {
+        return err(createDatabaseError('NOT_FOUND', 'Thread not found'));
+      }
+      return ok(undefined);
+    } catch (error) {
+      return err(createDatabaseError(
+        'QUERY_ERROR',
+        `Failed to delete thread: ${error instanceof Error ? error.message : 'Unknown error'}`
+      ));
+    }
+  },
+};
+
+// User repository functions
+export const userRepository = {
+  async create(data: { email: string; passwordHash?: string | null }): Promise<Result<schema.User, DatabaseError>> {
+    try {
+      const db = getDb();
+      const [user] = await db
+        .insert(schema.users)
+        .values({
+          id: randomUUID(),
+          email: data.email,
+          passwordHash: data.passwordHash ?? null,
+        })
+        .returning();
+
+      return ok(user);
+    } catch (error) {
+      return err(createDatabaseError(
+        'QUERY_ERROR',
+        `Failed to create user: ${error instanceof Error ? error.message : 'Unknown error'}`
+      ));
+    }
+  },
+
+  async findUnique(where: { id?: string; email?: string }): Promise<Result<schema.User | null, DatabaseError>> {
+    try {
+      const db = getDb();
+      let condition;
+
+      if (where.id) {
+        condition = eq(schema.users.id, where.id);
+      } else if (where.email) {
+        condition = eq(schema.users.email, where.email);
+      } else {
+        return err(createDatabaseError('INVALID_INPUT', 'Must provide either id or email'));
+      }
+
+      const [user] = await db.select().from(schema.users).where(condition).limit(1);
+      return ok(user || null);
+    } catch (error) {
+      return err(createDatabaseError(
+        'QUERY_ERROR',
+        `Failed to find user: ${error instanceof Error ? error.message : 'Unknown error'}`
+      ));
+    }
+  },
+
+  async updatePassword(id: string, passwordHash: string): Promise<Result<void, DatabaseError>> {
+    try {
+      const db = getDb();
+      await db
+        .update(schema.users)
+        .set({ passwordHash, updatedAt: new Date().toISOString() })
+        .where(eq(schema.users.id, id));
+
+      return ok(undefined);
+    } catch (error) {
+      return err(createDatabaseError(
+        'QUERY_ERROR',
+        `Failed to update user: ${error instanceof Error ? error.message : 'Unknown error'}`
+      ));
+    }
+  },
+};
+
+// Magic link token repository functions
+export const magicLinkTokenRepository = {
+  async create(data: { userId: string; tokenHash: string; expiresAt: string }): Promise<Result<schema.MagicLinkToken, DatabaseError>> {
+    try {
+      const db = getDb();
+      const [token] = await db
+        .insert(schema.magicLinkTokens)
+        .values(data)
+        .returning();
+
+      return ok(token);
+    } catch (error) {
+      return err(createDatabaseError(
+        'QUERY_ERROR',
+        `Failed to create magic link token: ${error instanceof Error ? error.message : 'Unknown error'}`
+      ));
+    }
+  },
+
+  /**
+   * Mark an unused, unexpired token as used and return it. The conditional
+   * update makes a token usable exactly once even under concurrent requests.
+   */
+  async consume(tokenHash: string, now: Date = new Date()): Promise<Result<schema.MagicLinkToken | null, DatabaseError>> {
+    try {
+      const db = getDb();
+      const [token] = await db
+        .update(schema.magicLinkTokens)
+        .set({ usedAt: now.toISOString() })
+        .where(and(
+          eq(schema.magicLinkTokens.tokenHash, tokenHash),
+          isNull(schema.magicLinkTokens.usedAt),
+          gt(schema.magicLinkTokens.expiresAt, now.toISOString())
+        ))
+        .returning();
+
+      return ok(token || null);
+    } catch (error) {
+      return err(createDatabaseError(
+        'QUERY_ERROR',
+        `Failed to consume magic link token: ${error instanceof Error ? error.message : 'Unknown error'}`
+      ));
+    }
+  },
+};
+
+// Company profile repository functions
+export type CompanyProfileData = Omit<schema.NewCompanyProfile, 'id' | 'userId' | 'createdAt' | 'updatedAt'>;
+
+export const companyProfileRepository = {
+  async findByUserId(userId: string): Promise<Result<schema.CompanyProfile | null, DatabaseError>> {
+    try {
+      const db = getDb();
+      const [profile] = await db
+        .select()
+        .from(schema.companyProfiles)
+        .where(eq(schema.companyProfiles.userId, userId))
+        .limit(1);
+
+      return ok(profile || null);
+    } catch (error) {
+      return err(createDatabaseError(
+        'QUERY_ERROR',
+        `Failed to find company profile: ${error instanceof Error ? error.message : 'Unknown error'}`
+      ));
+    }
+  },
+
+  async upsert(userId: string, data: CompanyProfileData): Promise<Result<schema.CompanyProfile, DatabaseError>> {
+    try {
+      const db = getDb();
+      const [profile] = await db
+        .insert(schema.companyProfiles)
+        .values({ ...data, userId })
+        .onConflictDoUpdate({
+          target: schema.companyProfiles.userId,
+          set: {
+            ...data,
+            updatedAt: new Date().toISOString(),
+          },
+        })
+        .returning();
+
+      return ok(profile);
+    } catch (error) {
+      return err(createDatabaseError(
+        'QUERY_ERROR',
+        `Failed to save company profile: ${error instanceof Error ? error.message : 'Unknown error'}`
+      ));
+    }
+  },
 };
 
 // Message repository functions
@@ -135,6 +630,7 @@ export const messageRepository = {
     threadId: string;
     role: 'user' | 'assistant';
     content: string;
+    citations?: schema.Message['citations'];
   }): Promise<Result<schema.Message, DatabaseError>> {
     try {
       const db = getDb();
@@ -144,6 +640,7 @@ export const messageRepository = {
           threadId: data.threadId,
           role: data.role,
           content: data.content,
+          citations: data.citations ?? null,
         })
         .returning();
       
@@ -152,6 +649,15 @@ export const messageRepository = {
         .update(schema.threads)
         .set({ updatedAt: new Date().toISOString() })
         .where(eq(schema.threads.threadId, data.threadId));
+
+      // Untitled threads are named after their first question
+      const title = data.role === 'user' ? deriveThreadTitle(data.content) : null;
+      if (title) {
+        await db
+          .update(schema.threads)
+          .set({ title })
+          .where(and(eq(schema.threads.threadId, data.threadId), isNull(schema.threads.title)));
+      }
       
       return ok(message);
     } catch (error) {
@@ -163,11 +669,262 @@ export const messageRepository = {
   },
 };
 
+// Run repository functions
+export type RunUpdate = Partial<Omit<schema.NewRun, 'id' | 'threadId' | 'provider' | 'model' | 'createdAt'>>;
+
+export const runRepository = {
+  // Records a run that has just started
+  async create(data: {
+    threadId: string;
+    provider: string;
+    model?: string | null;
+  }): Promise<Result<schema.Run, DatabaseError>> {
+    try {
+      const db = getDb();
+      const [run] = await db
+        .insert(schema.runs)
+        .values({
+          threadId: data.threadId,
+          provider: data.provider,
+          model: data.model ?? null,
+          status: 'in_progress',
+        })
+        .returning();
+
+      return ok(run);
+    } catch (error) {
+      return err(createDatabaseError(
+        'QUERY_ERROR',
+        `Failed to create run: ${error instanceof Error ? error.message : 'Unknown error'}`
+      ));
+    }
+  },
+
+  async update(id: number, data: RunUpdate): Promise<Result<schema.Run, DatabaseError>> {
+    try {
+      const db = getDb();
+      const [run] = await db
+        .update(schema.runs)
+        .set(data)
+        .where(eq(schema.runs.id, id))
+        .returning();
+
+      if (!run) {
+        return err(createDatabaseError('NOT_FOUND', 'Run not found'));
+      }
+      return ok(run);
+    } catch (error) {
+      return err(createDatabaseError(
+        'QUERY_ERROR',
+        `Failed to update run: ${error instanceof Error ? error.message : 'Unknown error'}`
+      ));
+    }
+  },
+
+  // Runs of a thread, oldest first
+  async findMany(threadId: string): Promise<Result<schema.Run[], DatabaseError>> {
+    try {
+      const db = getDb();
+      const runs = await db
+        .select()
+        .from(schema.runs)
+        .where(eq(schema.runs.threadId, threadId))
+        .orderBy(asc(schema.runs.id));
+
+      return ok(runs);
+    } catch (error) {
+      return err(createDatabaseError(
+        'QUERY_ERROR',
+        `Failed to find runs: ${error instanceof Error ? error.message : 'Unknown error'}`
+      ));
+    }
+  },
+};
+
+// Fill in the normalized columns used for filtering from the free-text fields
+function withDerivedSubsidyFields(data: schema.NewSubsidy): schema.NewSubsidy {
+  const deadlineDate = data.deadlineDate ?? parseDeadlineDate(data.deadline);
+  // jGrants reports the rate on its own; seeded rows only mention it in the amount text
+  const subsidyRate = parseSubsidyRate(data.subsidyRate) ?? parseSubsidyRate(data.amount);
+
+  return {
+    ...data,
+    maxAmount: data.maxAmount ?? parseMaxAmount(data.amount),
+    deadlineDate,
+    fiscalYear:
+      data.fiscalYear ??
+      parseFiscalYear(data.title) ??
+      (deadlineDate ? fiscalYearOf(deadlineDate) : parseFiscalYear(data.description)),
+    subsidyRateMin: data.subsidyRateMin ?? subsidyRate?.min ?? null,
+    subsidyRateMax: data.subsidyRateMax ?? subsidyRate?.max ?? null,
+  };
+}
+
+// Escape LIKE wildcards so keywords are matched literally
+function likePattern(keyword: string): string {
+  return `%${keyword.replace(/[\\%_]/g, (char) => `\\${char}`)}%`;
+}
+
+// A JSON list column that is unknown (null or empty) or shares a value with `values`
+function jsonListIncludesAny(column: AnyColumn, values: string[]): SQL | undefined {
+  return or(
+    isNull(column),
+    sql`json_array_length(${column}) = 0`,
+    sql`EXISTS (SELECT 1 FROM json_each(${column}) WHERE json_each.value IN (${sql.join(values.map((value) => sql`${value}`), sql`, `)}))`,
+  );
+}
+
+function buildSubsidyFilterConditions(filters: SubsidySearchFilters): SQL | undefined {
+  const conditions: (SQL | undefined)[] = [];
+
+  if (filters.ministry) {
+    conditions.push(eq(schema.subsidies.ministry, filters.ministry));
+  }
+  if (filters.targetAudience) {
+    conditions.push(eq(schema.subsidies.targetAudience, filters.targetAudience));
+  }
+  if (filters.status) {
+    conditions.push(eq(schema.subsidies.status, filters.status));
+  }
+  if (filters.deadlineFrom) {
+    conditions.push(gte(schema.subsidies.deadlineDate, filters.deadlineFrom));
+  }
+  if (filters.deadlineTo) {
+    conditions.push(lte(schema.subsidies.deadlineDate, filters.deadlineTo));
+  }
+  if (filters.amountMin !== undefined) {
+    conditions.push(gte(schema.subsidies.maxAmount, filters.amountMin));
+  }
+  if (filters.amountMax !== undefined) {
+    conditions.push(lte(schema.subsidies.maxAmount, filters.amountMax));
+  }
+
+  if (filters.targetArea) {
+    conditions.push(jsonListIncludesAny(schema.subsidies.targetAreas, targetAreasFor(filters.targetArea)));
+  }
+  if (filters.industry) {
+    conditions.push(jsonListIncludesAny(schema.subsidies.industries, [filters.industry]));
+  }
+  if (filters.usePurpose) {
+    conditions.push(jsonListIncludesAny(schema.subsidies.usePurposes, [filters.usePurpose]));
+  }
+  if (filters.employeeCount !== undefined) {
+    // Unrecognized brackets are kept rather than guessed at
+    conditions.push(or(
+      isNull(schema.subsidies.targetNumberOfEmployees),
+      notInArray(schema.subsidies.targetNumberOfEmployees, JGRANTS_EMPLOYEE_LIMITS),
+      inArray(schema.subsidies.targetNumberOfEmployees, acceptedEmployeeLimits(filters.employeeCount)),
+    ));
+  }
+
+  for (const keyword of filters.keywords ?? []) {
+    const pattern = likePattern(keyword);
+    conditions.push(or(
+      sql`${schema.subsidies.title} LIKE ${pattern} ESCAPE '\\'`,
+      sql`${schema.subsidies.description} LIKE ${pattern} ESCAPE '\\'`,
+      sql`${schema.subsidies.requirements} LIKE ${pattern} ESCAPE '\\'`,
+      sql`${schema.subsidies.targetAudience} LIKE ${pattern} ESCAPE '\\'`,
+    ));
+  }
+
+  return and(...conditions);
+}
+
+// The trigram tokenizer cannot MATCH terms shorter than three characters
+const FTS_MIN_TERM_LENGTH = 3;
+const SNIPPET_CONTEXT_LENGTH = 24;
+
+// Mirror a subsidy row into the subsidies_fts full-text index
+async function indexSubsidyText(db: ReturnType<typeof getDb>, subsidy: schema.Subsidy) {
+  await db.run(sql`DELETE FROM subsidies_fts WHERE jgrants_id = ${subsidy.jgrantsId}`);
+  await db.run(sql`
+    INSERT INTO subsidies_fts (jgrants_id, title, description, requirements, target_audience)
+    VALUES (${subsidy.jgrantsId}, ${subsidy.title}, ${subsidy.description}, ${subsidy.requirements}, ${subsidy.targetAudience})
+  `);
+}
+
+// Quote a term as an FTS5 string so operators in user input are not interpreted
+function ftsPhrase(term: string): string {
+  return `"${term.replace(/"/g, '""')}"`;
+}
+
+type FtsRow = { jgrants_id: string; score: number; snippet: string | null };
+
+// Query the full-text index. Terms long enough for the trigram tokenizer use
+// MATCH (ranked by BM25); shorter terms fall back to an unranked LIKE scan.
+async function selectFtsRows(
+  db: ReturnType<typeof getDb>,
+  params: {
+    matchTerms: string[];
+    likeTerms: string[];
+    any: boolean;
+    highlight: { open: string; close: string };
+    limit: number;
+  }
+): Promise<FtsRow[]> {
+  const { matchTerms, likeTerms, highlight } = params;
+  const conditions: SQL[] = [];
+
+  if (matchTerms.length > 0) {
+    const expression = matchTerms.map(ftsPhrase).join(params.any ? ' OR ' : ' ');
+    conditions.push(sql`subsidies_fts MATCH ${expression}`);
+  }
+  for (const term of likeTerms) {
+    const pattern = likePattern(term);
+    conditions.push(sql`(
+      title LIKE ${pattern} ESCAPE '\\' OR description LIKE ${pattern} ESCAPE '\\'
+      OR requirements LIKE ${pattern} ESCAPE '\\' OR target_audience LIKE ${pattern} ESCAPE '\\'
+    )`);
+  }
+
+  const ranked = matchTerms.length > 0;
+  return db.all<FtsRow>(sql`
+    SELECT
+      jgrants_id,
+      ${ranked ? sql`-bm25(subsidies_fts)` : sql`0`} AS score,
+      ${ranked
+        ? sql`snippet(subsidies_fts, -1, ${highlight.open}, ${highlight.close}, '…', 16)`
+        : sql`NULL`} AS snippet
+    FROM subsidies_fts
+    WHERE ${sql.join(conditions, params.any ? sql` OR ` : sql` AND `)}
+    ORDER BY score DESC
+    LIMIT ${params.limit}
+  `);
+}
+
+// Build a snippet in JS for queries that could not use MATCH
+function buildSnippet(
+  subsidy: schema.Subsidy,
+  terms: string[],
+  highlight: { open: string; close: string }
+): string {
+  const texts = [subsidy.description, subsidy.title, subsidy.requirements, subsidy.targetAudience];
+
+  for (const text of texts) {
+    if (!text) continue;
+    const term = terms.find((t) => text.includes(t));
+    if (!term) continue;
+
+    const index = text.indexOf(term);
+    const start = Math.max(0, index - SNIPPET_CONTEXT_LENGTH);
+    const end = Math.min(text.length, index + term.length + SNIPPET_CONTEXT_LENGTH);
+    const excerpt = text
+      .slice(start, end)
+      .split(term)
+      .join(`${highlight.open}${term}${highlight.close}`);
+
+    return `${start > 0 ? '…' : ''}${excerpt}${end < text.length ? '…' : ''}`;
+  }
+
+  return subsidy.description.slice(0, SNIPPET_CONTEXT_LENGTH * 2);
+}
+
 // Subsidy repository functions
 export const subsidyRepository = {
-  async upsert(data: schema.NewSubsidy): Promise<Result<schema.Subsidy, DatabaseError>> {
+  async upsert(input: schema.NewSubsidy): Promise<Result<schema.Subsidy, DatabaseError>> {
     try {
       const db = getDb();
+      const data = withDerivedSubsidyFields(input);
       
       // Check if exists
       const [existing] = await db
@@ -187,6 +944,7 @@ export const subsidyRepository = {
           .where(eq(schema.subsidies.jgrantsId, data.jgrantsId))
           .returning();
         
+        await indexSubsidyText(db, updated);
         return ok(updated);
       } else {
         // Insert
@@ -195,6 +953,7 @@ export const subsidyRepository = {
           .values(data)
           .returning();
         
+        await indexSubsidyText(db, inserted);
         return ok(inserted);
       }
     } catch (error) {
@@ -207,7 +966,7 @@ export const subsidyRepository = {
 
   async update(
     id: number,
-    data: Partial<Pick<schema.Subsidy, 'vectorStoreId' | 'fileId'>>
+    data: Partial<Pick<schema.Subsidy, 'vectorStoreId' | 'fileId' | 'status' | 'closedAt' | 'syncProfiles' | 'attachmentError'>>
   ): Promise<Result<void, DatabaseError>> {
     try {
       const db = getDb();
@@ -242,6 +1001,145 @@ export const subsidyRepository = {
     }
   },
 
+  async findByFileIds(fileIds: string[]): Promise<Result<schema.Subsidy[], DatabaseError>> {
+    if (fileIds.length === 0) return ok([]);
+
+    try {
+      const db = getDb();
+      const subsidies = await db
+        .select()
+        .from(schema.subsidies)
+        .where(inArray(schema.subsidies.fileId, fileIds));
+      return ok(subsidies);
+    } catch (error) {
+      return err(createDatabaseError(
+        'QUERY_ERROR',
+        `Failed to find subsidies by file ID: ${error instanceof Error ? error.message : 'Unknown error'}`
+      ));
+    }
+  },
+
+  async findWithFilters(filters: SubsidySearchFilters): Promise<Result<SubsidySearchResult, DatabaseError>> {
+    try {
+      const db = getDb();
+      const where = buildSubsidyFilterConditions(filters);
+
+      const subsidies = await db
+        .select()
+        .from(schema.subsidies)
+        .where(where)
+        .orderBy(
+          sql`${schema.subsidies.deadlineDate} IS NULL`,
+          asc(schema.subsidies.deadlineDate),
+          asc(schema.subsidies.id)
+        )
+        .limit(filters.pageSize)
+        .offset((filters.page - 1) * filters.pageSize);
+
+      const [{ total }] = await db
+        .select({ total: count() })
+        .from(schema.subsidies)
+        .where(where);
+
+      const ministryFacets = await db
+        .select({ value: schema.subsidies.ministry, count: count() })
+        .from(schema.subsidies)
+        .where(and(where, isNotNull(schema.subsidies.ministry)))
+        .groupBy(schema.subsidies.ministry)
+        .orderBy(desc(count()), asc(schema.subsidies.ministry));
+
+      const targetAudienceFacets = await db
+        .select({ value: schema.subsidies.targetAudience, count: count() })
+        .from(schema.subsidies)
+        .where(and(where, isNotNull(schema.subsidies.targetAudience)))
+        .groupBy(schema.subsidies.targetAudience)
+        .orderBy(desc(count()), asc(schema.subsidies.targetAudience));
+
+      return ok({
+        subsidies,
+        total,
+        page: filters.page,
+        pageSize: filters.pageSize,
+        facets: {
+          ministry: ministryFacets as FacetCount[],
+          targetAudience: targetAudienceFacets as FacetCount[],
+        },
+      });
+    } catch (error) {
+      return err(createDatabaseError(
+        'QUERY_ERROR',
+        `Failed to search subsidies: ${error instanceof Error ? error.message : 'Unknown error'}`
+      ));
+    }
+  },
+
+  /**
+   * Full-text search over title, description, requirements and target audience.
+   * Whitespace-separated terms are combined according to `options.match`;
+   * hits are ranked by BM25.
+   */
+  async search(
+    query: string,
+    options: SubsidyTextSearchOptions = {}
+  ): Promise<Result<SubsidySearchHit[], DatabaseError>> {
+    const limit = options.limit ?? 20;
+    const highlight = options.highlight ?? { open: '**', close: '**' };
+    const terms = query.split(/[\s　]+/).filter((term) => term.length > 0);
+
+    if (terms.length === 0) {
+      return err(createDatabaseError('INVALID_INPUT', 'Search query must not be empty'));
+    }
+
+    try {
+      const db = getDb();
+      const matchTerms = terms.filter((term) => term.length >= FTS_MIN_TERM_LENGTH);
+      const likeTerms = terms.filter((term) => term.length < FTS_MIN_TERM_LENGTH);
+
+      let rows: FtsRow[];
+      if (options.match === 'any') {
+        // MATCH cannot be OR-ed with other conditions, so query each kind separately
+        const matched = matchTerms.length > 0
+          ? await selectFtsRows(db, { matchTerms, likeTerms: [], any: true, highlight, limit })
+          : [];
+        const liked = likeTerms.length > 0
+          ? await selectFtsRows(db, { matchTerms: [], likeTerms, any: true, highlight, limit })
+          : [];
+        const seen = new Set(matched.map((row) => row.jgrants_id));
+        rows = [...matched, ...liked.filter((row) => !seen.has(row.jgrants_id))].slice(0, limit);
+      } else {
+        rows = await selectFtsRows(db, { matchTerms, likeTerms, any: false, highlight, limit });
+      }
+
+      if (rows.length === 0) {
+        return ok([]);
+      }
+
+      const subsidies = await db
+        .select()
+        .from(schema.subsidies)
+        .where(inArray(schema.subsidies.jgrantsId, rows.map((row) => row.jgrants_id)));
+      const byJgrantsId = new Map(subsidies.map((subsidy) => [subsidy.jgrantsId, subsidy]));
+
+      const hits: SubsidySearchHit[] = [];
+      for (const row of rows) {
+        const subsidy = byJgrantsId.get(row.jgrants_id);
+        if (!subsidy) continue;
+        hits.push({
+          subsidy,
+          score: Number(row.score),
+          snippet: row.snippet ?? buildSnippet(subsidy, likeTerms, highlight),
+        });
+      }
+
+      return ok(hits);
+    } catch (error) {
+      return err(createDatabaseError(
+        'QUERY_ERROR',
+        `Failed to search subsidies: ${error instanceof Error ? error.message : 'Unknown error'}`
+      ));
+    }
+  },
+
   async findUnique(where: { id?: number; jgrantsId?: string }): Promise<Result<schema.Subsidy | null, DatabaseError>> {
     try {
       const db = getDb();
@@ -266,6 +1164,263 @@ export const subsidyRepository = {
   },
 };
 
+// Subsidy revision repository functions
+export const subsidyRevisionRepository = {
+  async create(data: schema.NewSubsidyRevision): Promise<Result<schema.SubsidyRevision, DatabaseError>> {
+    try {
+      const db = getDb();
+      const [revision] = await db
+        .insert(schema.subsidyRevisions)
+        .values(data)
+        .returning();
+
+      return ok(revision);
+    } catch (error) {
+      return err(createDatabaseError(
+        'QUERY_ERROR',
+        `Failed to create subsidy revision: ${error instanceof Error ? error.message : 'Unknown error'}`
+      ));
+    }
+  },
+
+  async findMany(jgrantsId?: string): Promise<Result<schema.SubsidyRevision[], DatabaseError>> {
+    try {
+      const db = getDb();
+      const revisions = await db
+        .select()
+        .from(schema.subsidyRevisions)
+        .where(jgrantsId ? eq(schema.subsidyRevisions.jgrantsId, jgrantsId) : undefined)
+        .orderBy(asc(schema.subsidyRevisions.id));
+
+      return ok(revisions);
+    } catch (error) {
+      return err(createDatabaseError(
+        'QUERY_ERROR',
+        `Failed to find subsidy revisions: ${error instanceof Error ? error.message : 'Unknown error'}`
+      ));
+    }
+  },
+};
+
+export const subsidyAttachmentRepository = {
+  async upsert(data: schema.NewSubsidyAttachment): Promise<Result<schema.SubsidyAttachment, DatabaseError>> {
+    try {
+      const db = getDb();
+      const [attachment] = await db
+        .insert(schema.subsidyAttachments)
+        .values(data)
+        .onConflictDoUpdate({
+          target: [
+            schema.subsidyAttachments.jgrantsId,
+            schema.subsidyAttachments.category,
+            schema.subsidyAttachments.name,
+          ],
+          set: {
+            ...data,
+            updatedAt: new Date().toISOString(),
+          },
+        })
+        .returning();
+
+      return ok(attachment);
+    } catch (error) {
+      return err(createDatabaseError(
+        'QUERY_ERROR',
+        `Failed to upsert subsidy attachment: ${error instanceof Error ? error.message : 'Unknown error'}`
+      ));
+    }
+  },
+
+  async findMany(jgrantsId: string): Promise<Result<schema.SubsidyAttachment[], DatabaseError>> {
+    try {
+      const db = getDb();
+      const attachments = await db
+        .select()
+        .from(schema.subsidyAttachments)
+        .where(eq(schema.subsidyAttachments.jgrantsId, jgrantsId))
+        .orderBy(asc(schema.subsidyAttachments.id));
+
+      return ok(attachments);
+    } catch (error) {
+      return err(createDatabaseError(
+        'QUERY_ERROR',
+        `Failed to find subsidy attachments: ${error instanceof Error ? error.message : 'Unknown error'}`
+      ));
+    }
+  },
+
+  async delete(id: number): Promise<Result<void, DatabaseError>> {
+    try {
+      const db = getDb();
+      await db
+        .delete(schema.subsidyAttachments)
+        .where(eq(schema.subsidyAttachments.id, id));
+
+      return ok(undefined);
+    } catch (error) {
+      return err(createDatabaseError(
+        'QUERY_ERROR',
+        `Failed to delete subsidy attachment: ${error instanceof Error ? error.message : 'Unknown error'}`
+      ));
+    }
+  },
+};
+
+// Bookmark repository functions
+export const bookmarkRepository = {
+  async upsert(data: { userId: string; jgrantsId: string; remindDaysBefore?: number }): Promise<Result<schema.Bookmark, DatabaseError>> {
+    try {
+      const db = getDb();
+      const [bookmark] = await db
+        .insert(schema.bookmarks)
+        .values(data)
+        .onConflictDoUpdate({
+          target: [schema.bookmarks.userId, schema.bookmarks.jgrantsId],
+          set: { remindDaysBefore: data.remindDaysBefore ?? 7 },
+        })
+        .returning();
+
+      return ok(bookmark);
+    } catch (error) {
+      return err(createDatabaseError(
+        'QUERY_ERROR',
+        `Failed to save bookmark: ${error instanceof Error ? error.message : 'Unknown error'}`
+      ));
+    }
+  },
+
+  async findUnique(userId: string, jgrantsId: string): Promise<Result<schema.Bookmark | null, DatabaseError>> {
+    try {
+      const db = getDb();
+      const [bookmark] = await db
+        .select()
+        .from(schema.bookmarks)
+        .where(and(eq(schema.bookmarks.userId, userId), eq(schema.bookmarks.jgrantsId, jgrantsId)))
+        .limit(1);
+
+      return ok(bookmark || null);
+    } catch (error) {
+      return err(createDatabaseError(
+        'QUERY_ERROR',
+        `Failed to find bookmark: ${error instanceof Error ? error.message : 'Unknown error'}`
+      ));
+    }
+  },
+
+  // A user's bookmarks with their subsidies, nearest deadline first
+  async findByUser(userId: string): Promise<Result<Array<{ bookmark: schema.Bookmark; subsidy: schema.Subsidy }>, DatabaseError>> {
+    try {
+      const db = getDb();
+      const rows = await db
+        .select({ bookmark: schema.bookmarks, subsidy: schema.subsidies })
+        .from(schema.bookmarks)
+        .innerJoin(schema.subsidies, eq(schema.bookmarks.jgrantsId, schema.subsidies.jgrantsId))
+        .where(eq(schema.bookmarks.userId, userId))
+        .orderBy(
+          sql`${schema.subsidies.deadlineDate} IS NULL`,
+          asc(schema.subsidies.deadlineDate),
+          asc(schema.bookmarks.id)
+        );
+
+      return ok(rows);
+    } catch (error) {
+      return err(createDatabaseError(
+        'QUERY_ERROR',
+        `Failed to find bookmarks: ${error instanceof Error ? error.message : 'Unknown error'}`
+      ));
+    }
+  },
+
+  // Bookmarks of subsidies still listed by jGrants, for the reminder scheduler
+  async findOpen(): Promise<Result<Array<{ bookmark: schema.Bookmark; subsidy: schema.Subsidy; user: schema.User }>, DatabaseError>> {
+    try {
+      const db = getDb();
+      const rows = await db
+        .select({ bookmark: schema.bookmarks, subsidy: schema.subsidies, user: schema.users })
+        .from(schema.bookmarks)
+        .innerJoin(schema.subsidies, eq(schema.bookmarks.jgrantsId, schema.subsidies.jgrantsId))
+        .innerJoin(schema.users, eq(schema.bookmarks.userId, schema.users.id))
+        .where(eq(schema.subsidies.status, 'open'))
+        .orderBy(asc(schema.bookmarks.id));
+
+      return ok(rows);
+    } catch (error) {
+      return err(createDatabaseError(
+        'QUERY_ERROR',
+        `Failed to find bookmarks: ${error instanceof Error ? error.message : 'Unknown error'}`
+      ));
+    }
+  },
+
+  // Returns false when the user had not bookmarked the subsidy
+  async delete(userId: string, jgrantsId: string): Promise<Result<boolean, DatabaseError>> {
+    try {
+      const db = getDb();
+      const deleted = await db.transaction(async (tx) => {
+        const [bookmark] = await tx
+          .select()
+          .from(schema.bookmarks)
+          .where(and(eq(schema.bookmarks.userId, userId), eq(schema.bookmarks.jgrantsId, jgrantsId)))
+          .limit(1);
+        if (!bookmark) return false;
+
+        await tx.delete(schema.reminderDeliveries).where(eq(schema.reminderDeliveries.bookmarkId, bookmark.id));
+        await tx.delete(schema.bookmarks).where(eq(schema.bookmarks.id, bookmark.id));
+        return true;
+      });
+
+      return ok(deleted);
+    } catch (error) {
+      return err(createDatabaseError(
+        'QUERY_ERROR',
+        `Failed to delete bookmark: ${error instanceof Error ? error.message : 'Unknown error'}`
+      ));
+    }
+  },
+};
+
+// Reminder delivery repository functions
+export type ReminderDeliveryKey = Pick<schema.ReminderDelivery, 'bookmarkId' | 'kind' | 'eventAt' | 'channel'>;
+
+export const reminderDeliveryRepository = {
+  async exists(key: ReminderDeliveryKey): Promise<Result<boolean, DatabaseError>> {
+    try {
+      const db = getDb();
+      const [delivery] = await db
+        .select({ id: schema.reminderDeliveries.id })
+        .from(schema.reminderDeliveries)
+        .where(and(
+          eq(schema.reminderDeliveries.bookmarkId, key.bookmarkId),
+          eq(schema.reminderDeliveries.kind, key.kind),
+          eq(schema.reminderDeliveries.eventAt, key.eventAt),
+          eq(schema.reminderDeliveries.channel, key.channel)
+        ))
+        .limit(1);
+
+      return ok(Boolean(delivery));
+    } catch (error) {
+      return err(createDatabaseError(
+        'QUERY_ERROR',
+        `Failed to find reminder delivery: ${error instanceof Error ? error.message : 'Unknown error'}`
+      ));
+    }
+  },
+
+  async create(key: ReminderDeliveryKey): Promise<Result<void, DatabaseError>> {
+    try {
+      const db = getDb();
+      await db.insert(schema.reminderDeliveries).values(key).onConflictDoNothing();
+
+      return ok(undefined);
+    } catch (error) {
+      return err(createDatabaseError(
+        'QUERY_ERROR',
+        `Failed to record reminder delivery: ${error instanceof Error ? error.message : 'Unknown error'}`
+      ));
+    }
+  },
+};
+
 // Export db wrapper for direct access
 export const db = {
   subsidy: {
@@ -301,11 +1456,27 @@ export const prisma = {
       }
       return result.value;
     },
-    findMany: async (args?: { where?: { userId?: string }; orderBy?: { updatedAt: 'desc' } }) => {
-      const result = await threadRepository.findMany(args?.where?.userId);
+    findMany: async (args?: { where?: { userId?: string }; orderBy?: ThreadOrderBy }) => {
+      const result = await threadRepository.findMany(args?.where?.userId, args?.orderBy);
       if (!result.ok) throw new Error(result.error.message);
       return result.value;
     },
+    update: async (args: { where: { threadId: string }; data: { title: string } }) => {
+      const result = await threadRepository.update(args.where.threadId, args.data);
+      if (!result.ok) {
+        if (result.error.type === 'NOT_FOUND') return null;
+        throw new Error(result.error.message);
+      }
+      return result.value;
+    },
+    delete: async (args: { where: { threadId: string } }) => {
+      const result = await threadRepository.delete(args.where.threadId);
+      if (!result.ok) {
+        if (result.error.type === 'NOT_FOUND') return false;
+        throw new Error(result.error.message);
+      }
+      return true;
+    },
   },
   message: {
     create: async (args: { data: any }) => {
@@ -3,18 +3,61 @@
  * Following functional programming patterns
  */
 
-import { sqliteTable, text, integer } from 'drizzle-orm/sqlite-core';
+import { sqliteTable, text, integer, real, index, uniqueIndex } from 'drizzle-orm/sqlite-core';
 import { sql } from 'drizzle-orm';
+import type { Citation } from '../types/chat';
+import type { EligibilityRules } from '../types/eligibility';
+
+// Users table. IDs are UUIDs so they can be stored in threads.user_id as-is
+export const users = sqliteTable('users', {
+  id: text('id').primaryKey(),
+  email: text('email').notNull().unique(),
+  // scrypt hash; null for accounts that only sign in with magic links
+  passwordHash: text('password_hash'),
+  createdAt: text('created_at').default(sql`CURRENT_TIMESTAMP`).notNull(),
+  updatedAt: text('updated_at').default(sql`CURRENT_TIMESTAMP`).notNull(),
+});
+
+// One-time magic link login tokens; only the SHA-256 of the token is stored
+export const magicLinkTokens = sqliteTable('magic_link_tokens', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  userId: text('user_id').notNull().references(() => users.id),
+  tokenHash: text('token_hash').notNull().unique(),
+  expiresAt: text('expires_at').notNull(),
+  usedAt: text('used_at'),
+  createdAt: text('created_at').default(sql`CURRENT_TIMESTAMP`).notNull(),
+});
+
+// Business profile a user fills in once; fields line up with jGrants search
+// filters (target_area_search, industry, target_number_of_employees, use_purpose)
+export const companyProfiles = sqliteTable('company_profiles', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  userId: text('user_id').notNull().unique().references(() => users.id),
+  prefecture: text('prefecture'),
+  industry: text('industry'),
+  employeeCount: integer('employee_count'),
+  // Yen
+  capital: integer('capital'),
+  // ISO date (YYYY-MM-DD)
+  foundedOn: text('founded_on'),
+  investmentPurpose: text('investment_purpose'),
+  createdAt: text('created_at').default(sql`CURRENT_TIMESTAMP`).notNull(),
+  updatedAt: text('updated_at').default(sql`CURRENT_TIMESTAMP`).notNull(),
+});
 
 // Threads table
 export const threads = sqliteTable('threads', {
   id: integer('id').primaryKey({ autoIncrement: true }),
   threadId: text('thread_id').notNull().unique(),
   userId: text('user_id'),
+  // Defaults to the start of the first user message; renamable from the sidebar
+  title: text('title'),
   metadata: text('metadata'),
   createdAt: text('created_at').default(sql`CURRENT_TIMESTAMP`).notNull(),
   updatedAt: text('updated_at').default(sql`CURRENT_TIMESTAMP`).notNull(),
-});
+}, (table) => ({
+  userIdIndex: index('idx_threads_user_id').on(table.userId),
+}));
 
 // Messages table
 export const messages = sqliteTable('messages', {
@@ -22,8 +65,35 @@ export const messages = sqliteTable('messages', {
   threadId: text('thread_id').notNull().references(() => threads.threadId),
   role: text('role', { enum: ['user', 'assistant'] }).notNull(),
   content: text('content').notNull(),
+  // File Search sources referenced from content as footnotes
+  citations: text('citations', { mode: 'json' }).$type<Citation[]>(),
   createdAt: text('created_at').default(sql`CURRENT_TIMESTAMP`).notNull(),
-});
+}, (table) => ({
+  threadIdIndex: index('idx_messages_thread_id').on(table.threadId),
+}));
+
+// Assistant runs, one per reply requested from the LLM provider
+export const runs = sqliteTable('runs', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  threadId: text('thread_id').notNull().references(() => threads.threadId),
+  // The provider's ID (OpenAI run or chat completion); null until the provider reports it
+  runId: text('run_id'),
+  provider: text('provider').notNull(),
+  model: text('model'),
+  // expired: stopped by the run timeout
+  status: text('status', {
+    enum: ['in_progress', 'completed', 'incomplete', 'cancelled', 'expired', 'failed'],
+  }).notNull(),
+  error: text('error'),
+  promptTokens: integer('prompt_tokens'),
+  completionTokens: integer('completion_tokens'),
+  totalTokens: integer('total_tokens'),
+  durationMs: integer('duration_ms'),
+  createdAt: text('created_at').default(sql`CURRENT_TIMESTAMP`).notNull(),
+  completedAt: text('completed_at'),
+}, (table) => ({
+  threadIdIndex: index('idx_runs_thread_id').on(table.threadId),
+}));
 
 // Subsidies table
 export const subsidies = sqliteTable('subsidies', {
@@ -33,20 +103,126 @@ export const subsidies = sqliteTable('subsidies', {
   description: text('description').notNull(),
   targetAudience: text('target_audience'),
   amount: text('amount'),
+  maxAmount: integer('max_amount'),
   deadline: text('deadline'),
+  deadlineDate: text('deadline_date'),
+  // Fiscal year (starting in April) and subsidy rate range as ratios, derived on upsert
+  fiscalYear: integer('fiscal_year'),
+  subsidyRateMin: real('subsidy_rate_min'),
+  subsidyRateMax: real('subsidy_rate_max'),
   requirements: text('requirements'),
   applicationUrl: text('application_url'),
   ministry: text('ministry'),
+  // Typed fields imported from jGrants subsidy details
+  subsidyRate: text('subsidy_rate'),
+  acceptanceStart: text('acceptance_start'),
+  acceptanceEnd: text('acceptance_end'),
+  targetAreas: text('target_areas', { mode: 'json' }).$type<string[]>(),
+  targetAreaDetail: text('target_area_detail'),
+  industries: text('industries', { mode: 'json' }).$type<string[]>(),
+  usePurposes: text('use_purposes', { mode: 'json' }).$type<string[]>(),
+  targetNumberOfEmployees: text('target_number_of_employees'),
+  // Criteria parsed from the fields above for the eligibility evaluator
+  eligibilityRules: text('eligibility_rules', { mode: 'json' }).$type<EligibilityRules>(),
+  // Set by the jGrants sync; rows without a hash are not managed by it
+  contentHash: text('content_hash'),
+  // Query profiles that listed the subsidy in the last sync that saw it
+  syncProfiles: text('sync_profiles', { mode: 'json' }).$type<string[]>(),
+  // Why storing the attachments failed in the last sync; the next sync retries them
+  attachmentError: text('attachment_error'),
+  status: text('status', { enum: ['open', 'closed'] }).default('open').notNull(),
+  closedAt: text('closed_at'),
   vectorStoreId: text('vector_store_id'),
   fileId: text('file_id'),
   createdAt: text('created_at').default(sql`CURRENT_TIMESTAMP`).notNull(),
   updatedAt: text('updated_at').default(sql`CURRENT_TIMESTAMP`).notNull(),
-});
+}, (table) => ({
+  ministryIndex: index('idx_subsidies_ministry').on(table.ministry),
+  deadlineDateIndex: index('idx_subsidies_deadline_date').on(table.deadlineDate),
+  fiscalYearIndex: index('idx_subsidies_fiscal_year').on(table.fiscalYear),
+  acceptanceEndIndex: index('idx_subsidies_acceptance_end').on(table.acceptanceEnd),
+}));
+
+// Subsidy revisions table (change history written by the jGrants sync)
+export const subsidyRevisions = sqliteTable('subsidy_revisions', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  jgrantsId: text('jgrants_id').notNull().references(() => subsidies.jgrantsId),
+  changeType: text('change_type', { enum: ['created', 'updated', 'closed', 'reopened'] }).notNull(),
+  changedFields: text('changed_fields', { mode: 'json' }).$type<string[]>().notNull(),
+  previousHash: text('previous_hash'),
+  contentHash: text('content_hash'),
+  createdAt: text('created_at').default(sql`CURRENT_TIMESTAMP`).notNull(),
+}, (table) => ({
+  jgrantsIdIndex: index('idx_subsidy_revisions_jgrants_id').on(table.jgrantsId),
+}));
+
+// Subsidy attachments table (募集要項 etc. decoded from jGrants details)
+export const subsidyAttachments = sqliteTable('subsidy_attachments', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  jgrantsId: text('jgrants_id').notNull().references(() => subsidies.jgrantsId),
+  category: text('category', {
+    enum: ['application_guidelines', 'outline_of_grant', 'application_form'],
+  }).notNull(),
+  name: text('name').notNull(),
+  // Relative to the project root, e.g. data/attachments/<jgrantsId>/<name>
+  filePath: text('file_path').notNull(),
+  mimeType: text('mime_type'),
+  size: integer('size').notNull(),
+  sha256: text('sha256').notNull(),
+  extractedText: text('extracted_text'),
+  extractionStatus: text('extraction_status', {
+    enum: ['extracted', 'unsupported', 'failed'],
+  }).notNull(),
+  extractionError: text('extraction_error'),
+  createdAt: text('created_at').default(sql`CURRENT_TIMESTAMP`).notNull(),
+  updatedAt: text('updated_at').default(sql`CURRENT_TIMESTAMP`).notNull(),
+}, (table) => ({
+  attachmentKey: uniqueIndex('idx_subsidy_attachments_key').on(table.jgrantsId, table.category, table.name),
+}));
+
+// Subsidies a user follows for deadline and opening reminders
+export const bookmarks = sqliteTable('bookmarks', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  userId: text('user_id').notNull().references(() => users.id),
+  jgrantsId: text('jgrants_id').notNull().references(() => subsidies.jgrantsId),
+  // Days before the acceptance deadline to send the reminder
+  remindDaysBefore: integer('remind_days_before').default(7).notNull(),
+  createdAt: text('created_at').default(sql`CURRENT_TIMESTAMP`).notNull(),
+}, (table) => ({
+  bookmarkKey: uniqueIndex('idx_bookmarks_user_subsidy').on(table.userId, table.jgrantsId),
+}));
+
+// Reminders already delivered, one row per bookmark, event and channel. The
+// event date is part of the key so a moved deadline is reminded again.
+export const reminderDeliveries = sqliteTable('reminder_deliveries', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  bookmarkId: integer('bookmark_id').notNull().references(() => bookmarks.id),
+  kind: text('kind', { enum: ['deadline', 'opened'] }).notNull(),
+  // ISO datetime of the deadline or acceptance start the reminder was about
+  eventAt: text('event_at').notNull(),
+  channel: text('channel').notNull(),
+  createdAt: text('created_at').default(sql`CURRENT_TIMESTAMP`).notNull(),
+}, (table) => ({
+  deliveryKey: uniqueIndex('idx_reminder_deliveries_key').on(table.bookmarkId, table.kind, table.eventAt, table.channel),
+}));
 
 // Type exports for TypeScript
+export type User = typeof users.$inferSelect;
+export type NewUser = typeof users.$inferInsert;
+export type MagicLinkToken = typeof magicLinkTokens.$inferSelect;
+export type CompanyProfile = typeof companyProfiles.$inferSelect;
+export type NewCompanyProfile = typeof companyProfiles.$inferInsert;
 export type Thread = typeof threads.$inferSelect;
 export type NewThread = typeof threads.$inferInsert;
 export type Message = typeof messages.$inferSelect;
 export type NewMessage = typeof messages.$inferInsert;
+export type Run = typeof runs.$inferSelect;
+export type NewRun = typeof runs.$inferInsert;
 export type Subsidy = typeof subsidies.$inferSelect;
-export type NewSubsidy = typeof subsidies.$inferInsert;
\ No newline at end of file
+export type NewSubsidy = typeof subsidies.$inferInsert;
+export type SubsidyRevision = typeof subsidyRevisions.$inferSelect;
+export type NewSubsidyRevision = typeof subsidyRevisions.$inferInsert;
+export type SubsidyAttachment = typeof subsidyAttachments.$inferSelect;
+export type NewSubsidyAttachment = typeof subsidyAttachments.$inferInsert;
+export type Bookmark = typeof bookmarks.$inferSelect;
+export type ReminderDelivery = typeof reminderDeliveries.$inferSelect;
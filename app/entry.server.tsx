@@ -12,10 +12,22 @@ import { RemixServer } from "@remix-run/react";
 import isbot from "isbot";
 import { renderToPipeableStream } from "react-dom/server";
 
+import { loadDatabaseConfig, migrateDatabase } from "~/db.server";
+
 // Load environment variables
 import * as dotenv from 'dotenv';
 dotenv.config();
 
+// Fail fast on a misconfigured DATABASE_URL, then bring the schema up to date
+const databaseConfig = loadDatabaseConfig();
+if (!databaseConfig.ok) {
+  throw new Error(databaseConfig.error.message);
+}
+const migration = await migrateDatabase();
+if (!migration.ok) {
+  throw new Error(migration.error.message);
+}
+
 const ABORT_DELAY = 5_000;
 
 export default function handleRequest(
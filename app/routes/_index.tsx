@@ -1,5 +1,9 @@
-import type { MetaFunction } from '@remix-run/node';
+import { json, type LoaderFunctionArgs, type MetaFunction } from '@remix-run/node';
+import { useLoaderData } from '@remix-run/react';
 import { ChatInterface } from '~/components/ChatInterface';
+import { subsidyRepository } from '~/db.server';
+import { requireUser } from '~/services/session.server';
+import type { SubsidyReference } from '~/types/chat';
 
 export const meta: MetaFunction = () => {
   return [
@@ -8,6 +12,28 @@ export const meta: MetaFunction = () => {
   ];
 };
 
+// `?subsidy=<jgrantsId>` starts the chat scoped to that subsidy
+export async function loader({ request }: LoaderFunctionArgs) {
+  const user = await requireUser(request);
+  const account = { email: user.email };
+
+  const jgrantsId = new URL(request.url).searchParams.get('subsidy');
+  if (!jgrantsId) {
+    return json({ account, subsidy: null });
+  }
+
+  const result = await subsidyRepository.findUnique({ jgrantsId });
+  if (!result.ok) {
+    console.error('Subsidy lookup error:', result.error);
+  }
+
+  const subsidy: SubsidyReference | null =
+    result.ok && result.value ? { jgrantsId: result.value.jgrantsId, title: result.value.title } : null;
+  return json({ account, subsidy });
+}
+
 export default function Index() {
-  return <ChatInterface />;
-}
\ No newline at end of file
+  const { account, subsidy } = useLoaderData<typeof loader>();
+  // Remount when the subsidy changes so the prefilled question is reset
+  return <ChatInterface key={subsidy?.jgrantsId ?? ''} account={account} subsidy={subsidy} />;
+}
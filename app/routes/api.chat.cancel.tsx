@@ -0,0 +1,39 @@
+import { json, type ActionFunctionArgs } from "@remix-run/node";
+import { assistantErrorResponse, createAssistantServiceFromEnv } from "../services/assistant.server";
+import { findOwnedThread, requireApiUser } from "../services/session.server";
+
+// Stop generating: cancels the run answering in the thread. The chat request
+// then finishes with the partial reply and runStatus "cancelled".
+export async function action({ request }: ActionFunctionArgs) {
+  if (request.method !== "POST") {
+    return json({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  const user = await requireApiUser(request);
+
+  try {
+    const { threadId } = await request.json();
+
+    if (!threadId) {
+      return json({ error: "threadId is required" }, { status: 400 });
+    }
+    if (!(await findOwnedThread(threadId, user.id))) {
+      return json({ error: "Thread not found" }, { status: 404 });
+    }
+
+    const assistantService = createAssistantServiceFromEnv();
+    if (!assistantService.ok) {
+      return assistantErrorResponse(assistantService.error);
+    }
+
+    // False when the run had already finished
+    const cancelled = assistantService.value.cancelRun(threadId);
+    if (!cancelled.ok) {
+      return assistantErrorResponse(cancelled.error);
+    }
+    return json({ cancelled: cancelled.value });
+  } catch (error) {
+    console.error("Chat cancel error:", error);
+    return json({ error: "Failed to cancel the reply" }, { status: 500 });
+  }
+}
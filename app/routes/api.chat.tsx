@@ -1,6 +1,84 @@
 import { json, type ActionFunctionArgs } from "@remix-run/node";
-import { AssistantService } from "../services/assistant.server";
-import type { ChatResponse } from "~/types/chat";
+import {
+  assistantErrorResponse,
+  createAssistantServiceFromEnv,
+  describeAssistantError,
+  type AssistantService,
+} from "../services/assistant.server";
+import { buildLocalSearchReply } from "../services/subsidies/local-search.server";
+import { buildRunInstructions } from "../services/subsidies/context.server";
+import { findOwnedThread, requireApiUser } from "../services/session.server";
+import { createSseResponse } from "~/utils/sse";
+import type { AssistantError } from "~/types/errors";
+import type { AssistantRunResult, ChatResponse, ChatStreamEvent } from "~/types/chat";
+
+function replyResponse(threadId: string, { status, reply }: AssistantRunResult): ChatResponse {
+  return {
+    threadId,
+    messages: reply ? [reply.text] : [],
+    citations: reply?.citations,
+    success: true,
+    runStatus: status,
+  };
+}
+
+// Answer from the local full-text index when the assistant is unavailable
+async function buildFallbackResponse(
+  threadId: string,
+  message: string,
+  error: AssistantError
+): Promise<ChatResponse | null> {
+  console.error("Assistant run failed, falling back to local search:", error.message);
+  const fallback = await buildLocalSearchReply(message);
+  if (!fallback.ok) {
+    return null;
+  }
+
+  return {
+    threadId,
+    messages: [fallback.value],
+    success: true,
+    fallback: true,
+  };
+}
+
+function streamChat(
+  assistantService: AssistantService,
+  threadId: string,
+  message: string,
+  instructions: string,
+  signal: AbortSignal
+): Response {
+  return createSseResponse<ChatStreamEvent>(async (send, disconnected) => {
+    send({ type: "thread", threadId });
+
+    let streamedText = false;
+    // A client that goes away stops the run instead of leaving it to the timeout
+    const updates = assistantService.streamAssistant(threadId, instructions, disconnected);
+    let next = await updates.next();
+    while (!next.done) {
+      if (next.value.type === "delta") streamedText = true;
+      send(next.value);
+      next = await updates.next();
+    }
+
+    const reply = next.value;
+    if (reply.ok) {
+      send({ type: "done", response: replyResponse(threadId, reply.value) });
+      return;
+    }
+
+    // Only fall back before any text was shown; otherwise the client
+    // would see two different answers merged together
+    const fallback = streamedText ? null : await buildFallbackResponse(threadId, message, reply.error);
+    if (fallback) {
+      send({ type: "done", response: fallback });
+    } else {
+      console.error("Chat stream error:", reply.error.message);
+      send({ type: "error", error: describeAssistantError(reply.error).message });
+    }
+  }, signal);
+}
 
 export async function action({ request }: ActionFunctionArgs) {
   
@@ -8,73 +86,55 @@ export async function action({ request }: ActionFunctionArgs) {
     return json({ error: "Method not allowed" }, { status: 405 });
   }
 
+  const user = await requireApiUser(request);
+
   try {
-    const { threadId, message, userId } = await request.json();
+    const { threadId, message, stream, subsidyId } = await request.json();
 
     if (!message) {
       return json({ error: "Message is required" }, { status: 400 });
     }
 
-    const assistantService = new AssistantService();
+    // Users may only append to their own threads
+    if (threadId && !(await findOwnedThread(threadId, user.id))) {
+      return json({ error: "Thread not found" }, { status: 404 });
+    }
+
+    const assistantService = createAssistantServiceFromEnv();
+    if (!assistantService.ok) {
+      return assistantErrorResponse(assistantService.error);
+    }
 
     let currentThreadId = threadId;
 
     if (!currentThreadId) {
-      const thread = await assistantService.createThread(userId);
-      currentThreadId = thread.id;
+      const thread = await assistantService.value.createThread(
+        user.id,
+        subsidyId ? { jgrantsId: subsidyId } : undefined
+      );
+      if (!thread.ok) {
+        return assistantErrorResponse(thread.error);
+      }
+      currentThreadId = thread.value.id;
     }
 
-    await assistantService.addMessage(currentThreadId, message, "user");
-
-    const additionalInstructions = `
-      あなたは日本の補助金・助成金の専門アドバイザーです。
-      ユーザーの質問に対して、File Searchツールを使用して関連する補助金情報を検索し、
-      適切な補助金を提案してください。
-
-      回答する際は：
-      1. ユーザーのニーズに最も適した補助金を優先的に提案する
-      2. 各補助金の概要、対象者、金額、申請期限を明確に説明する
-      3. 申請に必要な要件や注意点も含める
-      4. 必要に応じて複数の選択肢を提示する
-
-      常に日本語で回答してください。
-    `;
-
-    const result = await assistantService.runAssistant(
-      currentThreadId,
-      additionalInstructions
-    );
-
-    // Get only the new assistant message(s) created in this run
-    // OpenAI returns messages in reverse chronological order (newest first)
-    let newAssistantMessage = null;
-    
-    // Find the first assistant message that's newer than the last one we saw
-    for (const msg of result.messages.data) {
-      if (msg.role === "assistant") {
-        if (!result.lastAssistantMessageIdBefore || msg.id !== result.lastAssistantMessageIdBefore) {
-          newAssistantMessage = msg;
-          break;
-        } else {
-          // We've reached the last message from before, stop here
-          break;
-        }
-      }
+    const added = await assistantService.value.addMessage(currentThreadId, message, "user");
+    if (!added.ok) {
+      return assistantErrorResponse(added.error);
+    }
+    const instructions = await buildRunInstructions(currentThreadId, user.id);
+
+    if (stream === true) {
+      return streamChat(assistantService.value, currentThreadId, message, instructions, request.signal);
     }
-    
-    // Get the content of the new message
-    const latestMessageContent = newAssistantMessage && newAssistantMessage.content[0].type === "text"
-      ? newAssistantMessage.content[0].text.value 
-      : "";
-    
-
-    const response: ChatResponse = {
-      threadId: currentThreadId,
-      messages: latestMessageContent ? [latestMessageContent] : [],
-      success: true,
-    };
-    
-    return json(response);
+
+    const reply = await assistantService.value.runAssistant(currentThreadId, instructions);
+    if (!reply.ok) {
+      const fallback = await buildFallbackResponse(currentThreadId, message, reply.error);
+      return fallback ? json(fallback) : assistantErrorResponse(reply.error);
+    }
+
+    return json(replyResponse(currentThreadId, reply.value));
   } catch (error) {
     console.error("Chat error:", error);
     return json({ error: "Failed to process chat message" }, { status: 500 });
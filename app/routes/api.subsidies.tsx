@@ -0,0 +1,39 @@
+import { json, type LoaderFunctionArgs } from '@remix-run/node';
+import { companyProfileRepository, subsidyRepository } from '~/db.server';
+import { applyCompanyProfile } from '~/services/subsidies/company-profile';
+import { parseSubsidySearchParams } from '~/services/subsidies/search-params';
+import { requireApiUser } from '~/services/session.server';
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  const url = new URL(request.url);
+
+  const filters = parseSubsidySearchParams(url.searchParams);
+  if (!filters.ok) {
+    return json({ error: filters.error.message }, { status: 400 });
+  }
+
+  // `profile=1` narrows the search with the signed-in user's business profile
+  let searchFilters = filters.value;
+  if (url.searchParams.get('profile') === '1') {
+    const user = await requireApiUser(request);
+    const profile = await companyProfileRepository.findByUserId(user.id);
+    if (!profile.ok) {
+      console.error('Company profile fetch error:', profile.error);
+      return json({ error: 'Failed to load company profile' }, { status: 500 });
+    }
+    if (profile.value) {
+      searchFilters = applyCompanyProfile(searchFilters, profile.value);
+    }
+  }
+
+  const result = await subsidyRepository.findWithFilters(searchFilters);
+  if (!result.ok) {
+    console.error('Subsidy search error:', result.error);
+    return json(
+      { error: 'Failed to search subsidies' },
+      { status: 500 }
+    );
+  }
+
+  return json(result.value);
+}
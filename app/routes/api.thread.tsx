@@ -1,26 +1,31 @@
 import { json, type ActionFunctionArgs, type LoaderFunctionArgs } from '@remix-run/node';
-import { AssistantService } from '~/services/assistant.server';
+import { threadRepository } from '~/db.server';
+import { assistantErrorResponse, createAssistantServiceFromEnv } from '~/services/assistant.server';
+import { findOwnedThread, requireApiUser } from '~/services/session.server';
+import type { User } from '~/db/schema';
 
-export async function loader({ request, params }: LoaderFunctionArgs) {
+// Threads are always scoped to the signed-in user. Listing and renaming only
+// touch the database, so they work without an LLM configuration.
+export async function loader({ request }: LoaderFunctionArgs) {
+  const user = await requireApiUser(request);
   const url = new URL(request.url);
   const threadId = url.searchParams.get('threadId');
-  const userId = url.searchParams.get('userId');
-
-  const assistantService = new AssistantService();
 
   try {
     if (threadId) {
-      const thread = await assistantService.getThread(threadId);
+      const thread = await findOwnedThread(threadId, user.id);
+      if (!thread) {
+        return json({ error: 'Thread not found' }, { status: 404 });
+      }
       return json({ thread });
     }
 
-    if (userId) {
-      const threads = await assistantService.listThreads(userId);
-      return json({ threads });
+    const threads = await threadRepository.findMany(user.id);
+    if (!threads.ok) {
+      console.error('Thread fetch error:', threads.error.message);
+      return json({ error: 'Failed to fetch thread(s)' }, { status: 500 });
     }
-
-    const threads = await assistantService.listThreads();
-    return json({ threads });
+    return json({ threads: threads.value });
   } catch (error) {
     console.error('Thread fetch error:', error);
     return json(
@@ -30,23 +35,92 @@ export async function loader({ request, params }: LoaderFunctionArgs) {
   }
 }
 
-export async function action({ request }: ActionFunctionArgs) {
-  if (request.method !== 'POST') {
-    return json({ error: 'Method not allowed' }, { status: 405 });
+const MAX_TITLE_LENGTH = 100;
+
+async function renameThread(request: Request, user: User) {
+  const { threadId, title } = await request.json();
+  const trimmed = typeof title === 'string' ? title.trim() : '';
+
+  if (!threadId) {
+    return json({ error: 'threadId is required' }, { status: 400 });
+  }
+  if (!trimmed || trimmed.length > MAX_TITLE_LENGTH) {
+    return json(
+      { error: `title must be between 1 and ${MAX_TITLE_LENGTH} characters` },
+      { status: 400 }
+    );
   }
 
+  if (!(await findOwnedThread(threadId, user.id))) {
+    return json({ error: 'Thread not found' }, { status: 404 });
+  }
+
+  const thread = await threadRepository.update(threadId, { title: trimmed });
+  if (!thread.ok) {
+    console.error('Thread rename error:', thread.error.message);
+    return thread.error.type === 'NOT_FOUND'
+      ? json({ error: 'Thread not found' }, { status: 404 })
+      : json({ error: 'Failed to update thread' }, { status: 500 });
+  }
+
+  return json({ thread: thread.value, success: true });
+}
+
+async function deleteThread(request: Request, user: User) {
+  const { threadId } = await request.json();
+
+  if (!threadId) {
+    return json({ error: 'threadId is required' }, { status: 400 });
+  }
+  if (!(await findOwnedThread(threadId, user.id))) {
+    return json({ error: 'Thread not found' }, { status: 404 });
+  }
+
+  const assistantService = createAssistantServiceFromEnv();
+  if (!assistantService.ok) {
+    return assistantErrorResponse(assistantService.error);
+  }
+
+  const deleted = await assistantService.value.deleteThread(threadId);
+  if (!deleted.ok) {
+    return assistantErrorResponse(deleted.error);
+  }
+
+  return json({ success: true });
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+  const user = await requireApiUser(request);
+
   try {
-    const { userId, metadata } = await request.json();
+    switch (request.method) {
+      case 'POST': {
+        const { metadata } = await request.json();
 
-    const assistantService = new AssistantService();
-    const thread = await assistantService.createThread(userId, metadata);
+        const assistantService = createAssistantServiceFromEnv();
+        if (!assistantService.ok) {
+          return assistantErrorResponse(assistantService.error);
+        }
 
-    return json({ thread, success: true });
+        const thread = await assistantService.value.createThread(user.id, metadata);
+        if (!thread.ok) {
+          return assistantErrorResponse(thread.error);
+        }
+
+        return json({ thread: thread.value, success: true });
+      }
+      case 'PATCH':
+        return await renameThread(request, user);
+      case 'DELETE':
+        return await deleteThread(request, user);
+      default:
+        return json({ error: 'Method not allowed' }, { status: 405 });
+    }
   } catch (error) {
-    console.error('Thread creation error:', error);
+    console.error('Thread update error:', error);
     return json(
-      { error: 'Failed to create thread' },
+      { error: 'Failed to update thread' },
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
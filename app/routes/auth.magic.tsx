@@ -0,0 +1,35 @@
+import { json, type LoaderFunctionArgs } from '@remix-run/node';
+import { Link, useLoaderData } from '@remix-run/react';
+import { verifyMagicLink } from '~/services/auth.server';
+import { createUserSession, safeRedirect } from '~/services/session.server';
+
+// Target of the link sent by sendMagicLink: /auth/magic?token=...&redirectTo=...
+export async function loader({ request }: LoaderFunctionArgs) {
+  const { searchParams } = new URL(request.url);
+  const token = searchParams.get('token') ?? '';
+
+  const user = await verifyMagicLink(token);
+  if (!user.ok) {
+    if (user.error.type === 'QUERY_ERROR') {
+      console.error('Magic link verification error:', user.error);
+    }
+    return json({ error: user.error.message }, { status: 400 });
+  }
+
+  return createUserSession(request, user.value.id, safeRedirect(searchParams.get('redirectTo')));
+}
+
+export default function MagicLink() {
+  const { error } = useLoaderData<typeof loader>();
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-gray-50 px-4">
+      <div className="w-full max-w-sm rounded-lg border border-gray-200 bg-white p-6 text-center shadow-sm">
+        <p className="mb-4 text-sm text-red-600">{error}</p>
+        <Link to="/login" className="text-blue-700 underline">
+          ログイン画面に戻る
+        </Link>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+import { json, type LoaderFunctionArgs, type MetaFunction } from '@remix-run/node';
+import { Link, useLoaderData } from '@remix-run/react';
+import { bookmarkRepository } from '~/db.server';
+import { requireUser } from '~/services/session.server';
+import { formatAcceptancePeriod } from '~/services/subsidies/normalize';
+import { subsidyPath } from '~/utils/subsidy-links';
+
+export const meta: MetaFunction = () => {
+  return [{ title: 'ブックマーク - 補助金検索システム' }];
+};
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  const user = await requireUser(request);
+
+  const bookmarks = await bookmarkRepository.findByUser(user.id);
+  if (!bookmarks.ok) {
+    console.error('Bookmark list error:', bookmarks.error);
+    throw json({ error: 'Failed to load bookmarks' }, { status: 500 });
+  }
+
+  return json({ bookmarks: bookmarks.value });
+}
+
+export default function Bookmarks() {
+  const { bookmarks } = useLoaderData<typeof loader>();
+
+  return (
+    <div className="min-h-screen bg-white">
+      <div className="flex items-center justify-between border-b border-gray-200 px-4 py-2">
+        <h1 className="text-lg font-semibold text-gray-900">ブックマーク</h1>
+        <Link to="/" className="text-sm text-gray-600 hover:text-gray-900 transition-colors">
+          アシスタントに相談
+        </Link>
+      </div>
+
+      <div className="mx-auto max-w-3xl px-4 py-6">
+        {bookmarks.length === 0 ? (
+          <p className="text-sm text-gray-600">
+            ブックマークした補助金はまだありません。
+            <Link to="/subsidies" className="text-blue-700 underline">補助金一覧</Link>
+            の詳細ページからブックマークすると、締切前と受付開始時に通知します。
+          </p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {bookmarks.map(({ bookmark, subsidy }) => {
+              const acceptancePeriod = formatAcceptancePeriod(subsidy.acceptanceStart, subsidy.acceptanceEnd);
+              return (
+                <li key={bookmark.id} className="py-4">
+                  <Link to={subsidyPath(subsidy.jgrantsId)} className="font-semibold text-gray-900 hover:underline">
+                    {subsidy.title}
+                  </Link>
+                  {subsidy.status === 'closed' && (
+                    <span className="ml-2 rounded bg-gray-200 px-2 py-0.5 text-xs text-gray-700">受付終了</span>
+                  )}
+                  <div className="mt-1 flex flex-wrap gap-x-4 text-xs text-gray-600">
+                    {acceptancePeriod && <span>受付期間: {acceptancePeriod}</span>}
+                    {!acceptancePeriod && subsidy.deadline && <span>申請期限: {subsidy.deadline}</span>}
+                    <span>締切の{bookmark.remindDaysBefore}日前に通知</span>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
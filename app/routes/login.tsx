@@ -0,0 +1,128 @@
+import {
+  json,
+  redirect,
+  type ActionFunctionArgs,
+  type LoaderFunctionArgs,
+  type MetaFunction,
+} from '@remix-run/node';
+import { Form, Link, useActionData, useNavigation, useSearchParams } from '@remix-run/react';
+import { authenticateWithPassword, sendMagicLink } from '~/services/auth.server';
+import { createSmtpMailer, loadAppUrl } from '~/services/mailer.server';
+import { createUserSession, getUserId, safeRedirect } from '~/services/session.server';
+
+export const meta: MetaFunction = () => {
+  return [{ title: 'ログイン - 補助金検索システム' }];
+};
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  if (await getUserId(request)) {
+    return redirect('/');
+  }
+  return json({});
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+  const form = await request.formData();
+  const intent = form.get('intent');
+  const email = String(form.get('email') ?? '');
+  const redirectTo = safeRedirect(form.get('redirectTo'));
+
+  if (intent === 'magic-link') {
+    const appUrl = loadAppUrl();
+    if (!appUrl.ok) {
+      console.error('Magic link error:', appUrl.error);
+      return json(
+        { error: 'ログインリンクを送信できませんでした。時間をおいて再度お試しください。', sent: false },
+        { status: 500 }
+      );
+    }
+
+    const result = await sendMagicLink(email, {
+      mailer: createSmtpMailer(),
+      baseUrl: appUrl.value,
+      redirectTo,
+    });
+    if (!result.ok) {
+      console.error('Magic link error:', result.error);
+      const message = result.error.type === 'INVALID_INPUT'
+        ? result.error.message
+        : 'ログインリンクを送信できませんでした。時間をおいて再度お試しください。';
+      return json({ error: message, sent: false }, { status: 400 });
+    }
+    return json({ error: null, sent: true });
+  }
+
+  const user = await authenticateWithPassword(email, String(form.get('password') ?? ''));
+  if (!user.ok) {
+    return json({ error: user.error.message, sent: false }, { status: 400 });
+  }
+
+  return createUserSession(request, user.value.id, redirectTo);
+}
+
+export default function Login() {
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const [searchParams] = useSearchParams();
+  const redirectTo = searchParams.get('redirectTo') ?? '/';
+  const isSubmitting = navigation.state === 'submitting';
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-gray-50 px-4">
+      <div className="w-full max-w-sm rounded-lg border border-gray-200 bg-white p-6 shadow-sm">
+        <h1 className="mb-6 text-xl font-semibold text-gray-900">ログイン</h1>
+
+        {actionData?.error && <p className="mb-4 text-sm text-red-600">{actionData.error}</p>}
+        {actionData?.sent && (
+          <p className="mb-4 text-sm text-emerald-700">
+            ログイン用のリンクをメールで送信しました。メールのリンクを開いてください。
+          </p>
+        )}
+
+        <Form method="post" className="space-y-3">
+          <input type="hidden" name="redirectTo" value={redirectTo} />
+          <input
+            type="email"
+            name="email"
+            required
+            autoComplete="email"
+            placeholder="メールアドレス"
+            className="w-full rounded-md border border-gray-300 px-3 py-2 text-gray-900"
+          />
+          <input
+            type="password"
+            name="password"
+            autoComplete="current-password"
+            placeholder="パスワード"
+            className="w-full rounded-md border border-gray-300 px-3 py-2 text-gray-900"
+          />
+          <button
+            type="submit"
+            name="intent"
+            value="password"
+            disabled={isSubmitting}
+            className="w-full rounded-md bg-gray-900 px-4 py-2 text-white hover:bg-gray-700 disabled:opacity-50"
+          >
+            パスワードでログイン
+          </button>
+          <button
+            type="submit"
+            name="intent"
+            value="magic-link"
+            disabled={isSubmitting}
+            className="w-full rounded-md border border-gray-300 px-4 py-2 text-gray-900 hover:bg-gray-50 disabled:opacity-50"
+          >
+            ログインリンクをメールで受け取る
+          </button>
+        </Form>
+
+        <p className="mt-6 text-center text-sm text-gray-600">
+          アカウントをお持ちでない方は
+          <Link to={`/signup?${new URLSearchParams({ redirectTo })}`} className="text-blue-700 underline">
+            新規登録
+          </Link>
+        </p>
+      </div>
+    </div>
+  );
+}
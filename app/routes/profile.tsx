@@ -0,0 +1,149 @@
+import {
+  json,
+  type ActionFunctionArgs,
+  type LoaderFunctionArgs,
+  type MetaFunction,
+} from '@remix-run/node';
+import { Form, Link, useActionData, useLoaderData, useNavigation } from '@remix-run/react';
+import { companyProfileRepository } from '~/db.server';
+import {
+  JGRANTS_INDUSTRIES,
+  JGRANTS_USE_PURPOSES,
+  PREFECTURES,
+  parseCompanyProfileForm,
+} from '~/services/subsidies/company-profile';
+import { requireUser } from '~/services/session.server';
+
+export const meta: MetaFunction = () => {
+  return [{ title: '事業者情報 - 補助金検索システム' }];
+};
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  const user = await requireUser(request);
+
+  const profile = await companyProfileRepository.findByUserId(user.id);
+  if (!profile.ok) {
+    console.error('Company profile fetch error:', profile.error);
+    throw json({ error: 'Failed to load company profile' }, { status: 500 });
+  }
+
+  return json({ profile: profile.value });
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+  const user = await requireUser(request);
+
+  const input = parseCompanyProfileForm(await request.formData());
+  if (!input.ok) {
+    return json({ error: input.error.message, saved: false }, { status: 400 });
+  }
+
+  const saved = await companyProfileRepository.upsert(user.id, input.value);
+  if (!saved.ok) {
+    console.error('Company profile save error:', saved.error);
+    return json({ error: '保存に失敗しました。時間をおいて再度お試しください。', saved: false }, { status: 500 });
+  }
+
+  return json({ error: null, saved: true });
+}
+
+const fieldClassName = 'w-full rounded-md border border-gray-300 px-3 py-2 text-gray-900';
+
+export default function CompanyProfile() {
+  const { profile } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+
+  return (
+    <div className="min-h-screen bg-white">
+      <div className="flex items-center justify-between border-b border-gray-200 px-4 py-2">
+        <h1 className="text-lg font-semibold text-gray-900">事業者情報</h1>
+        <Link to="/" className="text-sm text-gray-600 hover:text-gray-900 transition-colors">
+          アシスタントに相談
+        </Link>
+      </div>
+
+      <div className="mx-auto max-w-xl px-4 py-6">
+        <p className="mb-6 text-sm text-gray-600">
+          登録した情報はアシスタントへの相談時に毎回伝えられ、補助金一覧の絞り込みにも使えます。
+          すべての項目は任意です。
+        </p>
+
+        {actionData?.error && <p className="mb-4 text-sm text-red-600">{actionData.error}</p>}
+        {actionData?.saved && <p className="mb-4 text-sm text-emerald-700">保存しました</p>}
+
+        <Form method="post" className="space-y-4">
+          <label className="block text-sm text-gray-700">
+            所在地（都道府県）
+            <select name="prefecture" defaultValue={profile?.prefecture ?? ''} className={fieldClassName}>
+              <option value="">未選択</option>
+              {PREFECTURES.map((prefecture) => (
+                <option key={prefecture} value={prefecture}>{prefecture}</option>
+              ))}
+            </select>
+          </label>
+          <label className="block text-sm text-gray-700">
+            業種
+            <select name="industry" defaultValue={profile?.industry ?? ''} className={fieldClassName}>
+              <option value="">未選択</option>
+              {JGRANTS_INDUSTRIES.map((industry) => (
+                <option key={industry} value={industry}>{industry}</option>
+              ))}
+            </select>
+          </label>
+          <label className="block text-sm text-gray-700">
+            従業員数（名）
+            <input
+              type="number"
+              name="employeeCount"
+              min={0}
+              defaultValue={profile?.employeeCount ?? ''}
+              className={fieldClassName}
+            />
+          </label>
+          <label className="block text-sm text-gray-700">
+            資本金（万円）
+            <input
+              type="number"
+              name="capital"
+              min={0}
+              defaultValue={profile?.capital != null ? Math.round(profile.capital / 10000) : ''}
+              className={fieldClassName}
+            />
+          </label>
+          <label className="block text-sm text-gray-700">
+            設立日
+            <input type="date" name="foundedOn" defaultValue={profile?.foundedOn ?? ''} className={fieldClassName} />
+          </label>
+          <label className="block text-sm text-gray-700">
+            予定している投資の目的
+            <select
+              name="investmentPurpose"
+              defaultValue={profile?.investmentPurpose ?? ''}
+              className={fieldClassName}
+            >
+              <option value="">未選択</option>
+              {JGRANTS_USE_PURPOSES.map((purpose) => (
+                <option key={purpose} value={purpose}>{purpose}</option>
+              ))}
+            </select>
+          </label>
+          <div className="flex items-center gap-4">
+            <button
+              type="submit"
+              disabled={navigation.state === 'submitting'}
+              className="rounded-md bg-gray-900 px-4 py-2 text-white hover:bg-gray-700 disabled:opacity-50"
+            >
+              保存する
+            </button>
+            {profile && (
+              <Link to="/subsidies?profile=1" className="text-sm text-blue-700 underline">
+                この条件で補助金一覧を絞り込む
+              </Link>
+            )}
+          </div>
+        </Form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+import {
+  json,
+  redirect,
+  type ActionFunctionArgs,
+  type LoaderFunctionArgs,
+  type MetaFunction,
+} from '@remix-run/node';
+import { Form, Link, useActionData, useNavigation, useSearchParams } from '@remix-run/react';
+import { MIN_PASSWORD_LENGTH, registerWithPassword } from '~/services/auth.server';
+import { createUserSession, getUserId, safeRedirect } from '~/services/session.server';
+
+export const meta: MetaFunction = () => {
+  return [{ title: '新規登録 - 補助金検索システム' }];
+};
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  if (await getUserId(request)) {
+    return redirect('/');
+  }
+  return json({});
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+  const form = await request.formData();
+
+  const user = await registerWithPassword(
+    String(form.get('email') ?? ''),
+    String(form.get('password') ?? '')
+  );
+  if (!user.ok) {
+    if (user.error.type === 'QUERY_ERROR') {
+      console.error('Signup error:', user.error);
+      return json({ error: '登録に失敗しました。時間をおいて再度お試しください。' }, { status: 500 });
+    }
+    return json({ error: user.error.message }, { status: 400 });
+  }
+
+  return createUserSession(request, user.value.id, safeRedirect(form.get('redirectTo')));
+}
+
+export default function Signup() {
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const [searchParams] = useSearchParams();
+  const redirectTo = searchParams.get('redirectTo') ?? '/';
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-gray-50 px-4">
+      <div className="w-full max-w-sm rounded-lg border border-gray-200 bg-white p-6 shadow-sm">
+        <h1 className="mb-6 text-xl font-semibold text-gray-900">新規登録</h1>
+
+        {actionData?.error && <p className="mb-4 text-sm text-red-600">{actionData.error}</p>}
+
+        <Form method="post" className="space-y-3">
+          <input type="hidden" name="redirectTo" value={redirectTo} />
+          <input
+            type="email"
+            name="email"
+            required
+            autoComplete="email"
+            placeholder="メールアドレス"
+            className="w-full rounded-md border border-gray-300 px-3 py-2 text-gray-900"
+          />
+          <input
+            type="password"
+            name="password"
+            required
+            minLength={MIN_PASSWORD_LENGTH}
+            autoComplete="new-password"
+            placeholder={`パスワード（${MIN_PASSWORD_LENGTH}文字以上）`}
+            className="w-full rounded-md border border-gray-300 px-3 py-2 text-gray-900"
+          />
+          <button
+            type="submit"
+            disabled={navigation.state === 'submitting'}
+            className="w-full rounded-md bg-gray-900 px-4 py-2 text-white hover:bg-gray-700 disabled:opacity-50"
+          >
+            登録する
+          </button>
+        </Form>
+
+        <p className="mt-6 text-center text-sm text-gray-600">
+          登録済みの方は
+          <Link to={`/login?${new URLSearchParams({ redirectTo })}`} className="text-blue-700 underline">
+            ログイン
+          </Link>
+        </p>
+      </div>
+    </div>
+  );
+}
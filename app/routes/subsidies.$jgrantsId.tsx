@@ -0,0 +1,238 @@
+import {
+  json,
+  type ActionFunctionArgs,
+  type LoaderFunctionArgs,
+  type MetaFunction,
+} from '@remix-run/node';
+import { Form, Link, useActionData, useLoaderData } from '@remix-run/react';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { bookmarkRepository, companyProfileRepository, subsidyRepository } from '~/db.server';
+import { FileStoreService } from '~/services/filestore.server';
+import {
+  ELIGIBILITY_CRITERION_LABELS,
+  ELIGIBILITY_STATUS_LABELS,
+  evaluateSubsidyEligibility,
+} from '~/services/subsidies/eligibility';
+import {
+  DEFAULT_REMIND_DAYS_BEFORE,
+  MAX_REMIND_DAYS_BEFORE,
+  parseRemindDaysBefore,
+} from '~/services/reminders.server';
+import { getUserId, requireUser } from '~/services/session.server';
+import { formatAcceptancePeriod, formatYen } from '~/services/subsidies/normalize';
+import { askAssistantPath } from '~/utils/subsidy-links';
+
+export const meta: MetaFunction<typeof loader> = ({ data }) => {
+  return [{ title: data ? `${data.subsidy.title} - 補助金検索システム` : '補助金が見つかりません' }];
+};
+
+export async function loader({ params, request }: LoaderFunctionArgs) {
+  const jgrantsId = params.jgrantsId;
+  if (!jgrantsId) {
+    throw json({ error: 'Subsidy not found' }, { status: 404 });
+  }
+
+  const result = await subsidyRepository.findUnique({ jgrantsId });
+  if (!result.ok) {
+    console.error('Subsidy fetch error:', result.error);
+    throw json({ error: 'Failed to load subsidy' }, { status: 500 });
+  }
+  if (!result.value) {
+    throw json({ error: 'Subsidy not found' }, { status: 404 });
+  }
+
+  const markdown = await new FileStoreService().readSubsidyMarkdown(jgrantsId);
+
+  // Eligibility is shown to signed-in users who have filled in a business profile
+  const userId = await getUserId(request);
+  const profile = userId ? await companyProfileRepository.findByUserId(userId) : null;
+  if (profile && !profile.ok) {
+    console.error('Company profile fetch error:', profile.error);
+  }
+  const eligibility = profile?.ok && profile.value
+    ? evaluateSubsidyEligibility(profile.value, result.value)
+    : null;
+
+  const bookmark = userId ? await bookmarkRepository.findUnique(userId, jgrantsId) : null;
+  if (bookmark && !bookmark.ok) {
+    console.error('Bookmark fetch error:', bookmark.error);
+  }
+
+  return json({
+    subsidy: result.value,
+    markdown,
+    eligibility,
+    signedIn: userId !== null,
+    bookmark: bookmark?.ok ? bookmark.value : null,
+  });
+}
+
+// Bookmark (or update the reminder timing of) and unbookmark the subsidy
+export async function action({ params, request }: ActionFunctionArgs) {
+  const user = await requireUser(request);
+  const jgrantsId = params.jgrantsId;
+  if (!jgrantsId) {
+    throw json({ error: 'Subsidy not found' }, { status: 404 });
+  }
+
+  const form = await request.formData();
+  if (form.get('intent') === 'unbookmark') {
+    const deleted = await bookmarkRepository.delete(user.id, jgrantsId);
+    if (!deleted.ok) {
+      console.error('Bookmark delete error:', deleted.error);
+      return json({ error: 'ブックマークの解除に失敗しました' }, { status: 500 });
+    }
+    return json({ error: null });
+  }
+
+  const remindDaysBefore = parseRemindDaysBefore(form.get('remindDaysBefore'));
+  if (!remindDaysBefore.ok) {
+    return json({ error: remindDaysBefore.error.message }, { status: 400 });
+  }
+
+  const subsidy = await subsidyRepository.findUnique({ jgrantsId });
+  if (!subsidy.ok || !subsidy.value) {
+    throw json({ error: 'Subsidy not found' }, { status: 404 });
+  }
+
+  const saved = await bookmarkRepository.upsert({
+    userId: user.id,
+    jgrantsId,
+    remindDaysBefore: remindDaysBefore.value,
+  });
+  if (!saved.ok) {
+    console.error('Bookmark save error:', saved.error);
+    return json({ error: 'ブックマークに失敗しました' }, { status: 500 });
+  }
+  return json({ error: null });
+}
+
+export default function SubsidyDetail() {
+  const { subsidy, markdown, eligibility, signedIn, bookmark } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const acceptancePeriod = formatAcceptancePeriod(subsidy.acceptanceStart, subsidy.acceptanceEnd);
+  const amount = subsidy.amount ?? (subsidy.maxAmount !== null ? formatYen(subsidy.maxAmount) : null);
+
+  return (
+    <div className="min-h-screen bg-white">
+      <div className="flex items-center justify-between border-b border-gray-200 px-4 py-2">
+        <Link to="/subsidies" className="text-sm text-gray-600 hover:text-gray-900 transition-colors">
+          ← 補助金一覧
+        </Link>
+        <Link to="/" className="text-sm text-gray-600 hover:text-gray-900 transition-colors">
+          アシスタントに相談
+        </Link>
+      </div>
+
+      <div className="mx-auto max-w-3xl px-4 py-6">
+        <h1 className="text-2xl font-bold text-gray-900">{subsidy.title}</h1>
+        {subsidy.status === 'closed' && (
+          <p className="mt-2 text-sm text-gray-600">受付終了（jGrantsの募集一覧に掲載されていません）</p>
+        )}
+
+        <dl className="mt-6 grid grid-cols-[8rem_1fr] gap-x-4 gap-y-2 text-sm">
+          <dt className="text-gray-600">受付期間</dt>
+          <dd className="text-gray-900">{acceptancePeriod ?? subsidy.deadline ?? '未定'}</dd>
+          <dt className="text-gray-600">補助金額</dt>
+          <dd className="text-gray-900">{amount ?? '未定'}</dd>
+          {subsidy.subsidyRate && (
+            <>
+              <dt className="text-gray-600">補助率</dt>
+              <dd className="text-gray-900">{subsidy.subsidyRate}</dd>
+            </>
+          )}
+          {subsidy.applicationUrl && (
+            <>
+              <dt className="text-gray-600">申請URL</dt>
+              <dd>
+                <a
+                  href={subsidy.applicationUrl}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="break-all text-blue-700 underline"
+                >
+                  {subsidy.applicationUrl}
+                </a>
+              </dd>
+            </>
+          )}
+        </dl>
+
+        {eligibility ? (
+          <section className="mt-6 rounded-md border border-gray-200 p-4">
+            <h2 className="text-sm font-semibold text-gray-900">
+              申請資格の判定: {ELIGIBILITY_STATUS_LABELS[eligibility.status]}
+            </h2>
+            <ul className="mt-2 space-y-1 text-sm">
+              {eligibility.criteria.map((criterion) => (
+                <li key={criterion.criterion} className="text-gray-700">
+                  <span className={criterion.status === 'not_eligible' ? 'text-red-600' : 'text-gray-900'}>
+                    {ELIGIBILITY_CRITERION_LABELS[criterion.criterion]}: {ELIGIBILITY_STATUS_LABELS[criterion.status]}
+                  </span>
+                  {' '}— {criterion.reason}
+                </li>
+              ))}
+            </ul>
+          </section>
+        ) : signedIn && (
+          <p className="mt-6 text-sm text-gray-600">
+            <Link to="/profile" className="text-blue-700 underline">事業者情報</Link>
+            を登録すると申請資格を判定します
+          </p>
+        )}
+
+        {signedIn && (
+          <Form method="post" className="mt-6 flex flex-wrap items-center gap-2 text-sm">
+            <label className="text-gray-700">
+              締切の
+              <input
+                type="number"
+                name="remindDaysBefore"
+                min={1}
+                max={MAX_REMIND_DAYS_BEFORE}
+                defaultValue={bookmark?.remindDaysBefore ?? DEFAULT_REMIND_DAYS_BEFORE}
+                className="mx-1 w-16 rounded-md border border-gray-300 px-2 py-1 text-gray-900"
+              />
+              日前と受付開始時に通知
+            </label>
+            <button
+              type="submit"
+              name="intent"
+              value="bookmark"
+              className="rounded-md border border-gray-300 px-3 py-1 text-gray-900 hover:bg-gray-100"
+            >
+              {bookmark ? '通知日数を更新' : '☆ ブックマーク'}
+            </button>
+            {bookmark && (
+              <button
+                type="submit"
+                name="intent"
+                value="unbookmark"
+                className="rounded-md border border-gray-300 px-3 py-1 text-gray-900 hover:bg-gray-100"
+              >
+                ★ ブックマークを解除
+              </button>
+            )}
+            {actionData?.error && <span className="text-red-600">{actionData.error}</span>}
+          </Form>
+        )}
+
+        <Link
+          to={askAssistantPath(subsidy.jgrantsId)}
+          className="mt-6 inline-block rounded-md bg-emerald-600 px-4 py-2 text-white hover:bg-emerald-700"
+        >
+          この補助金についてアシスタントに質問する
+        </Link>
+
+        {markdown ? (
+          <div className="markdown prose prose-gray mt-8 max-w-none">
+            <ReactMarkdown remarkPlugins={[remarkGfm]}>{markdown}</ReactMarkdown>
+          </div>
+        ) : (
+          <p className="mt-8 whitespace-pre-wrap text-gray-800">{subsidy.description}</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+import { json, type LoaderFunctionArgs, type MetaFunction } from '@remix-run/node';
+import { Form, Link, useLoaderData, useSearchParams } from '@remix-run/react';
+import { companyProfileRepository, subsidyRepository } from '~/db.server';
+import { applyCompanyProfile } from '~/services/subsidies/company-profile';
+import { parseSubsidySearchParams } from '~/services/subsidies/search-params';
+import { requireUser } from '~/services/session.server';
+import { formatAcceptancePeriod, formatYen } from '~/services/subsidies/normalize';
+import { subsidyPath } from '~/utils/subsidy-links';
+
+export const meta: MetaFunction = () => {
+  return [{ title: '補助金一覧 - 補助金検索システム' }];
+};
+
+// Accepts the same query parameters as GET /api/subsidies
+export async function loader({ request }: LoaderFunctionArgs) {
+  const url = new URL(request.url);
+
+  const filters = parseSubsidySearchParams(url.searchParams);
+  if (!filters.ok) {
+    return json({ error: filters.error.message, result: null, profileApplied: false }, { status: 400 });
+  }
+
+  let searchFilters = filters.value;
+  let profileApplied = false;
+  if (url.searchParams.get('profile') === '1') {
+    const user = await requireUser(request);
+    const profile = await companyProfileRepository.findByUserId(user.id);
+    if (!profile.ok) {
+      console.error('Company profile fetch error:', profile.error);
+      throw json({ error: 'Failed to load company profile' }, { status: 500 });
+    }
+    if (profile.value) {
+      searchFilters = applyCompanyProfile(searchFilters, profile.value);
+      profileApplied = true;
+    }
+  }
+
+  const result = await subsidyRepository.findWithFilters(searchFilters);
+  if (!result.ok) {
+    console.error('Subsidy list error:', result.error);
+    throw json({ error: 'Failed to load subsidies' }, { status: 500 });
+  }
+
+  return json({ error: null, result: result.value, profileApplied });
+}
+
+export default function SubsidyList() {
+  const { error, result, profileApplied } = useLoaderData<typeof loader>();
+  const [searchParams] = useSearchParams();
+
+  const pageLink = (page: number) => {
+    const params = new URLSearchParams(searchParams);
+    params.set('page', String(page));
+    return `?${params}`;
+  };
+  const lastPage = result ? Math.max(1, Math.ceil(result.total / result.pageSize)) : 1;
+
+  return (
+    <div className="min-h-screen bg-white">
+      <div className="flex items-center justify-between border-b border-gray-200 px-4 py-2">
+        <h1 className="text-lg font-semibold text-gray-900">補助金一覧</h1>
+        <Link to="/" className="text-sm text-gray-600 hover:text-gray-900 transition-colors">
+          アシスタントに相談
+        </Link>
+      </div>
+
+      <div className="mx-auto max-w-3xl px-4 py-6">
+        <Form method="get" className="mb-6 flex flex-wrap gap-2">
+          <input
+            type="search"
+            name="q"
+            defaultValue={searchParams.get('q') ?? ''}
+            placeholder="キーワード"
+            className="flex-1 rounded-md border border-gray-300 px-3 py-2 text-gray-900"
+          />
+          <select
+            name="ministry"
+            defaultValue={searchParams.get('ministry') ?? ''}
+            className="rounded-md border border-gray-300 px-3 py-2 text-gray-900"
+          >
+            <option value="">すべての管轄</option>
+            {result?.facets.ministry.map((facet) => (
+              <option key={facet.value} value={facet.value}>
+                {facet.value}（{facet.count}）
+              </option>
+            ))}
+          </select>
+          <label className="flex items-center gap-1 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              name="profile"
+              value="1"
+              defaultChecked={searchParams.get('profile') === '1'}
+            />
+            事業者情報で絞り込む
+          </label>
+          <button type="submit" className="rounded-md bg-gray-900 px-4 py-2 text-white hover:bg-gray-700">
+            検索
+          </button>
+        </Form>
+
+        {searchParams.get('profile') === '1' && !profileApplied && !error && (
+          <p className="mb-4 text-sm text-gray-600">
+            事業者情報が未登録です。<Link to="/profile" className="text-blue-700 underline">登録する</Link>
+          </p>
+        )}
+
+        {error && <p className="mb-4 text-sm text-red-600">{error}</p>}
+
+        {result && (
+          <>
+            <p className="mb-4 text-sm text-gray-600">{result.total}件</p>
+            <ul className="divide-y divide-gray-200">
+              {result.subsidies.map((subsidy) => {
+                const acceptancePeriod = formatAcceptancePeriod(subsidy.acceptanceStart, subsidy.acceptanceEnd);
+                const amount = subsidy.amount ?? (subsidy.maxAmount !== null ? formatYen(subsidy.maxAmount) : null);
+                return (
+                  <li key={subsidy.jgrantsId} className="py-4">
+                    <Link
+                      to={subsidyPath(subsidy.jgrantsId)}
+                      className="font-semibold text-gray-900 hover:underline"
+                    >
+                      {subsidy.title}
+                    </Link>
+                    {subsidy.status === 'closed' && (
+                      <span className="ml-2 rounded bg-gray-200 px-2 py-0.5 text-xs text-gray-700">受付終了</span>
+                    )}
+                    <p className="mt-1 line-clamp-2 text-sm text-gray-700">{subsidy.description}</p>
+                    <div className="mt-1 flex flex-wrap gap-x-4 text-xs text-gray-600">
+                      {amount && <span>補助金額: {amount}</span>}
+                      {acceptancePeriod && <span>受付期間: {acceptancePeriod}</span>}
+                      {!acceptancePeriod && subsidy.deadline && <span>申請期限: {subsidy.deadline}</span>}
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+
+            {lastPage > 1 && (
+              <div className="mt-6 flex justify-between text-sm">
+                {result.page > 1 ? <Link to={pageLink(result.page - 1)}>前へ</Link> : <span />}
+                <span className="text-gray-600">{result.page} / {lastPage}</span>
+                {result.page < lastPage ? <Link to={pageLink(result.page + 1)}>次へ</Link> : <span />}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
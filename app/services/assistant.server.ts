@@ -1,237 +1,414 @@
-import OpenAI from "openai";
-import { prisma } from "../db.server";
+/**
+ * Chat assistant service
+ * Threads and messages are stored in the database and replies come from the
+ * configured LLM provider, with each run tracked by the run manager;
+ * assistant and vector store management go to OpenAI. Every operation
+ * returns a Result, and routes turn failures into responses with
+ * assistantErrorResponse.
+ */
+
+import OpenAI from 'openai';
+import { json } from '@remix-run/node';
+import { messageRepository, threadRepository } from '../db.server';
+import type { Thread, Message } from '../db/schema';
+import { Result, ok, err } from '../types/result';
+import { AssistantError, DatabaseError, createAssistantError } from '../types/errors';
+import type { AssistantId, ThreadId, VectorStoreId } from '../types/assistant';
+import type { AssistantRunResult, AssistantStreamUpdate } from '../types/chat';
+import {
+  DEFAULT_ASSISTANT_MODEL,
+  createLlmProvider,
+  createOpenAIClient,
+  loadLlmConfig,
+  type LlmProvider,
+  type LlmRunResult,
+} from './llm/index.server';
+import {
+  DEFAULT_RUN_TIMEOUT_SECONDS,
+  createRunManager,
+  loadRunManagerConfig,
+  type RunManager,
+} from './run-manager.server';
+import { SUBSIDY_TOOLS } from './subsidies/tools.server';
+
+export interface AssistantServiceDeps {
+  // Produces the replies; required for chatting
+  provider?: LlmProvider;
+  // Assistant and vector store management; required for those operations
+  openai?: OpenAI;
+  // Assistant whose file search updateAssistantVectorStore points at
+  assistantId?: AssistantId;
+  // Tracks runs and their timeout; defaults to the default timeout
+  runs?: RunManager;
+}
 
-export class AssistantServiceError extends Error {
-  constructor(message: string, public code: string) {
-    super(message);
-    this.name = "AssistantServiceError";
-  }
+// HTTP status and user-facing message for each failure
+const ERROR_RESPONSES: Record<AssistantError['type'], { status: number; message: string }> = {
+  MISSING_ASSISTANT_ID: { status: 503, message: 'AIアシスタントが設定されていません。管理者にお問い合わせください。' },
+  CONFIG_ERROR: { status: 503, message: 'AIアシスタントが設定されていません。管理者にお問い合わせください。' },
+  INVALID_PARAMS: { status: 400, message: '入力内容を確認してください。' },
+  THREAD_NOT_FOUND: { status: 404, message: '会話が見つかりません。' },
+  CREATE_ASSISTANT_FAILED: { status: 502, message: 'AIアシスタントに接続できませんでした。しばらくしてからもう一度お試しください。' },
+  CREATE_THREAD_FAILED: { status: 502, message: 'AIアシスタントに接続できませんでした。しばらくしてからもう一度お試しください。' },
+  ADD_MESSAGE_FAILED: { status: 502, message: 'AIアシスタントに接続できませんでした。しばらくしてからもう一度お試しください。' },
+  RUN_FAILED: { status: 502, message: 'AIアシスタントが回答を生成できませんでした。もう一度お試しください。' },
+  RUN_TIMEOUT: { status: 504, message: 'AIアシスタントの回答に時間がかかりすぎたため中断しました。もう一度お試しください。' },
+  DELETE_THREAD_FAILED: { status: 502, message: '会話を削除できませんでした。しばらくしてからもう一度お試しください。' },
+  VECTOR_STORE_ERROR: { status: 502, message: '補助金データを更新できませんでした。' },
+  FILE_UPLOAD_ERROR: { status: 502, message: '補助金データを更新できませんでした。' },
+  DATABASE_ERROR: { status: 500, message: '会話を保存できませんでした。もう一度お試しください。' },
+};
+
+export function describeAssistantError(error: AssistantError): { status: number; message: string } {
+  return ERROR_RESPONSES[error.type];
+}
+
+/**
+ * JSON error response for a failed assistant operation. The details are
+ * logged; users only see the message for the error type.
+ */
+export function assistantErrorResponse(error: AssistantError) {
+  const { status, message } = describeAssistantError(error);
+  console.error(`Assistant error (${error.type}):`, error.message);
+  return json({ error: message }, { status });
 }
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Unknown error';
+}
+
+function fromDatabaseError(error: DatabaseError): AssistantError {
+  return error.type === 'NOT_FOUND'
+    ? createAssistantError('THREAD_NOT_FOUND', error.message)
+    : createAssistantError('DATABASE_ERROR', error.message);
+}
 
-export class AssistantService {
-  private assistantId: string;
+export function createAssistantService(deps: AssistantServiceDeps) {
+  const runs = deps.runs ?? createRunManager({ timeoutMs: DEFAULT_RUN_TIMEOUT_SECONDS * 1000 });
 
-  constructor() {
-    const assistantId = process.env.OPENAI_ASSISTANT_ID;
-    if (!assistantId) {
-      throw new AssistantServiceError(
-        "OPENAI_ASSISTANT_ID is not set in environment variables",
-        "MISSING_ASSISTANT_ID"
-      );
-    }
-    this.assistantId = assistantId;
+  function requireProvider(): Result<LlmProvider, AssistantError> {
+    return deps.provider
+      ? ok(deps.provider)
+      : err(createAssistantError('CONFIG_ERROR', 'No LLM provider is configured'));
   }
 
-  async createAssistant(
+  function requireOpenAI(): Result<OpenAI, AssistantError> {
+    return deps.openai
+      ? ok(deps.openai)
+      : err(createAssistantError('CONFIG_ERROR', 'OPENAI_API_KEY is not set in environment variables'));
+  }
+
+  async function createAssistant(
     name: string,
     instructions: string,
-    vectorStoreId?: string
-  ) {
+    vectorStoreId?: VectorStoreId,
+    model: string = deps.provider?.model ?? DEFAULT_ASSISTANT_MODEL
+  ): Promise<Result<OpenAI.Beta.Assistant, AssistantError>> {
     if (!name || !instructions) {
-      throw new AssistantServiceError(
-        "Name and instructions are required to create an assistant",
-        "INVALID_PARAMS"
-      );
+      return err(createAssistantError(
+        'INVALID_PARAMS',
+        'Name and instructions are required to create an assistant'
+      ));
     }
+    const openai = requireOpenAI();
+    if (!openai.ok) return openai;
 
     try {
-      const tools = [
-        { type: "file_search" as const },
-      ];
-
-      const toolResources = vectorStoreId
-        ? {
-            file_search: {
-              vector_store_ids: [vectorStoreId],
-            },
-          }
-        : undefined;
-
-      const assistant = await openai.beta.assistants.create({
+      const assistant = await openai.value.beta.assistants.create({
         name,
         instructions,
-        model: "gpt-4-turbo-preview",
-        tools,
-        tool_resources: toolResources,
+        model,
+        tools: [
+          { type: 'file_search' },
+          ...SUBSIDY_TOOLS.map((definition) => ({ type: 'function' as const, function: definition })),
+        ],
+        tool_resources: vectorStoreId
+          ? { file_search: { vector_store_ids: [vectorStoreId] } }
+          : undefined,
       });
-
-      this.assistantId = assistant.id;
-      return assistant;
+      return ok(assistant);
     } catch (error) {
-      throw new AssistantServiceError(
-        `Failed to create assistant: ${
-          error instanceof Error ? error.message : "Unknown error"
-        }`,
-        "CREATE_ASSISTANT_FAILED"
-      );
+      return err(createAssistantError(
+        'CREATE_ASSISTANT_FAILED',
+        `Failed to create assistant: ${errorMessage(error)}`
+      ));
     }
   }
 
-  async createThread(userId?: string, metadata?: Record<string, any>) {
+  async function createThread(
+    userId?: string,
+    metadata?: Record<string, unknown>
+  ): Promise<Result<{ id: ThreadId }, AssistantError>> {
+    const provider = requireProvider();
+    if (!provider.ok) return provider;
+
     const threadMetadata: Record<string, string> = {};
-    if (userId) {
-      threadMetadata.userId = userId;
+    if (userId) threadMetadata.userId = userId;
+    for (const [key, value] of Object.entries(metadata ?? {})) {
+      threadMetadata[key] = String(value);
     }
-    if (metadata) {
-      Object.entries(metadata).forEach(([key, value]) => {
-        threadMetadata[key] = String(value);
-      });
+
+    let thread: { id: ThreadId };
+    try {
+      thread = await provider.value.createThread(threadMetadata);
+    } catch (error) {
+      return err(createAssistantError(
+        'CREATE_THREAD_FAILED',
+        `Failed to create thread: ${errorMessage(error)}`
+      ));
     }
-    
-    const thread = await openai.beta.threads.create(
-      Object.keys(threadMetadata).length > 0 ? { metadata: threadMetadata } : {}
-    );
-
-    await prisma.thread.create({
-      data: {
-        threadId: thread.id,
-        userId,
-        metadata: metadata ? JSON.stringify(metadata) : null,
-      },
-    });
 
-    return thread;
+    const saved = await threadRepository.create({
+      threadId: thread.id,
+      userId,
+      metadata: metadata ? JSON.stringify(metadata) : undefined,
+    });
+    return saved.ok ? ok(thread) : err(fromDatabaseError(saved.error));
   }
 
-  async addMessage(
-    threadId: string,
+  async function addMessage(
+    threadId: ThreadId,
     content: string,
-    role: "user" | "assistant" = "user"
-  ) {
+    role: 'user' | 'assistant' = 'user'
+  ): Promise<Result<{ id: string }, AssistantError>> {
     if (!threadId || !content) {
-      throw new AssistantServiceError(
-        "Thread ID and content are required",
-        "INVALID_PARAMS"
-      );
+      return err(createAssistantError('INVALID_PARAMS', 'Thread ID and content are required'));
     }
+    const provider = requireProvider();
+    if (!provider.ok) return provider;
 
+    let message: { id: string };
     try {
-      const message = await openai.beta.threads.messages.create(threadId, {
-        role,
-        content,
-      });
+      message = await provider.value.appendMessage(threadId, role, content);
+    } catch (error) {
+      return err(createAssistantError(
+        'ADD_MESSAGE_FAILED',
+        `Failed to add message: ${errorMessage(error)}`
+      ));
+    }
+
+    const saved = await messageRepository.create({ threadId, role, content });
+    return saved.ok ? ok(message) : err(fromDatabaseError(saved.error));
+  }
 
-      await prisma.message.create({
-        data: {
-          threadId,
-          role,
-          content,
-        },
+  // Only the reply of this run is stored, partial or not; nothing when the run produced none
+  async function saveReply(
+    threadId: ThreadId,
+    finished: Result<LlmRunResult, AssistantError>
+  ): Promise<Result<AssistantRunResult, AssistantError>> {
+    if (!finished.ok) return finished;
+    const { status, reply } = finished.value;
+    if (!reply) return ok({ status, reply });
+
+    const saved = await messageRepository.create({
+      threadId,
+      role: 'assistant',
+      content: reply.text,
+      citations: reply.citations,
+    });
+    return saved.ok ? ok({ status, reply }) : err(fromDatabaseError(saved.error));
+  }
+
+  async function runAssistant(
+    threadId: ThreadId,
+    additionalInstructions?: string
+  ): Promise<Result<AssistantRunResult, AssistantError>> {
+    const provider = requireProvider();
+    if (!provider.ok) return provider;
+    const run = await runs.start(threadId, provider.value);
+    if (!run.ok) return run;
+
+    let result: LlmRunResult;
+    try {
+      result = await provider.value.run(threadId, {
+        instructions: additionalInstructions,
+        signal: run.value.signal,
+        onRunCreated: run.value.onRunCreated,
       });
+    } catch (error) {
+      return err(await run.value.fail(error));
+    }
+    return saveReply(threadId, await run.value.finish(result));
+  }
 
-      return message;
+  /**
+   * Streaming variant of runAssistant: yields text deltas and retrieval
+   * progress as the run produces them, then stores the reply and returns it.
+   * The run is cancelled when `signal` aborts, e.g. when the client disconnects.
+   */
+  async function* streamAssistant(
+    threadId: ThreadId,
+    additionalInstructions?: string,
+    signal?: AbortSignal
+  ): AsyncGenerator<AssistantStreamUpdate, Result<AssistantRunResult, AssistantError>> {
+    const provider = requireProvider();
+    if (!provider.ok) return provider;
+    const run = await runs.start(threadId, provider.value, signal);
+    if (!run.ok) return run;
+
+    let result: LlmRunResult;
+    try {
+      result = yield* provider.value.stream(threadId, {
+        instructions: additionalInstructions,
+        signal: run.value.signal,
+        onRunCreated: run.value.onRunCreated,
+      });
     } catch (error) {
-      throw new AssistantServiceError(
-        `Failed to add message: ${
-          error instanceof Error ? error.message : "Unknown error"
-        }`,
-        "ADD_MESSAGE_FAILED"
-      );
+      return err(await run.value.fail(error));
     }
+    return saveReply(threadId, await run.value.finish(result));
   }
 
-  async runAssistant(threadId: string, additionalInstructions?: string) {
-    // Get the ID of the last assistant message before running
-    const messagesBefore = await openai.beta.threads.messages.list(threadId);
-    const lastAssistantMessageId = messagesBefore.data.find(
-      (msg) => msg.role === "assistant"
-    )?.id;
+  /**
+   * Stop the thread's run in progress; it ends as cancelled with the reply
+   * so far. False when there is none, e.g. because it has just finished.
+   */
+  function cancelRun(threadId: ThreadId): Result<boolean, AssistantError> {
+    if (!threadId) {
+      return err(createAssistantError('INVALID_PARAMS', 'Thread ID is required'));
+    }
+    return ok(runs.cancel(threadId));
+  }
 
-    const run = await openai.beta.threads.runs.create(threadId, {
-      assistant_id: this.assistantId,
-      additional_instructions: additionalInstructions,
-    });
+  async function getThread(threadId: ThreadId): Promise<Result<Thread & { messages: Message[] }, AssistantError>> {
+    const thread = await threadRepository.findUnique(threadId);
+    return thread.ok ? thread : err(fromDatabaseError(thread.error));
+  }
 
-    const result = await this.waitForRunCompletion(threadId, run.id);
-    
-    // Return the messages along with the last message ID from before
-    return {
-      messages: result,
-      lastAssistantMessageIdBefore: lastAssistantMessageId
-    };
+  async function listThreads(userId?: string): Promise<Result<Thread[], AssistantError>> {
+    const threads = await threadRepository.findMany(userId);
+    return threads.ok ? threads : err(fromDatabaseError(threads.error));
   }
 
-  private async waitForRunCompletion(threadId: string, runId: string) {
-    let run = await openai.beta.threads.runs.retrieve(threadId, runId);
+  async function renameThread(threadId: ThreadId, title: string): Promise<Result<Thread, AssistantError>> {
+    const thread = await threadRepository.update(threadId, { title });
+    return thread.ok ? thread : err(fromDatabaseError(thread.error));
+  }
 
-    while (run.status === "queued" || run.status === "in_progress") {
-      await new Promise((resolve) => setTimeout(resolve, 1000));
-      run = await openai.beta.threads.runs.retrieve(threadId, runId);
-    }
+  /**
+   * Delete a thread from the provider and the database. A thread that is
+   * already gone on the provider's side is still removed locally.
+   */
+  async function deleteThread(threadId: ThreadId): Promise<Result<void, AssistantError>> {
+    const provider = requireProvider();
+    if (!provider.ok) return provider;
 
-    if (run.status === "completed") {
-      const messages = await openai.beta.threads.messages.list(threadId);
-      const assistantMessages = messages.data.filter(
-        (msg) => msg.role === "assistant"
-      );
-
-      if (assistantMessages.length > 0) {
-        const latestMessage = assistantMessages[0];
-        const content = latestMessage.content[0];
-
-        if (content.type === "text") {
-          await prisma.message.create({
-            data: {
-              threadId,
-              role: "assistant",
-              content: content.text.value,
-            },
-          });
-        }
-      }
-
-      return messages;
+    try {
+      await provider.value.deleteThread(threadId);
+    } catch (error) {
+      return err(createAssistantError(
+        'DELETE_THREAD_FAILED',
+        `Failed to delete thread: ${errorMessage(error)}`
+      ));
     }
 
-    throw new Error(`Run failed with status: ${run.status}`);
+    const deleted = await threadRepository.delete(threadId);
+    return deleted.ok ? deleted : err(fromDatabaseError(deleted.error));
   }
 
-  async getThread(threadId: string) {
-    return await prisma.thread.findUnique({
-      where: { threadId },
-      include: { messages: true },
-    });
-  }
+  async function createVectorStore(name: string): Promise<Result<OpenAI.VectorStore, AssistantError>> {
+    const openai = requireOpenAI();
+    if (!openai.ok) return openai;
 
-  async listThreads(userId?: string) {
-    return await prisma.thread.findMany({
-      where: userId ? { userId } : undefined,
-      orderBy: { updatedAt: "desc" },
-    });
+    try {
+      return ok(await openai.value.vectorStores.create({ name }));
+    } catch (error) {
+      return err(createAssistantError(
+        'VECTOR_STORE_ERROR',
+        `Failed to create vector store: ${errorMessage(error)}`
+      ));
+    }
   }
 
-  async createVectorStore(name: string) {
-    return await openai.vectorStores.create({
-      name,
-    });
+  async function uploadFileToVectorStore(
+    vectorStoreId: VectorStoreId,
+    file: File
+  ): Promise<Result<OpenAI.FileObject, AssistantError>> {
+    const openai = requireOpenAI();
+    if (!openai.ok) return openai;
+
+    try {
+      const openaiFile = await openai.value.files.create({ file, purpose: 'assistants' });
+      await openai.value.vectorStores.files.create(vectorStoreId, { file_id: openaiFile.id });
+      return ok(openaiFile);
+    } catch (error) {
+      return err(createAssistantError(
+        'FILE_UPLOAD_ERROR',
+        `Failed to upload file: ${errorMessage(error)}`
+      ));
+    }
   }
 
-  async uploadFileToVectorStore(vectorStoreId: string, file: File) {
-    const fileStream = file.stream();
+  async function updateAssistantVectorStore(
+    vectorStoreId: VectorStoreId
+  ): Promise<Result<OpenAI.Beta.Assistant, AssistantError>> {
+    if (!deps.assistantId) {
+      return err(createAssistantError(
+        'MISSING_ASSISTANT_ID',
+        'OPENAI_ASSISTANT_ID is not set in environment variables'
+      ));
+    }
+    const openai = requireOpenAI();
+    if (!openai.ok) return openai;
 
-    const openaiFile = await openai.files.create({
-      file: fileStream as any, // Type mismatch between Web File API and Node.js streams
-      purpose: "assistants",
-    });
+    try {
+      return ok(await openai.value.beta.assistants.update(deps.assistantId, {
+        tool_resources: { file_search: { vector_store_ids: [vectorStoreId] } },
+      }));
+    } catch (error) {
+      return err(createAssistantError(
+        'VECTOR_STORE_ERROR',
+        `Failed to update assistant vector store: ${errorMessage(error)}`
+      ));
+    }
+  }
 
-    await openai.vectorStores.files.create(vectorStoreId, {
-      file_id: openaiFile.id,
-    });
+  return {
+    createAssistant,
+    createThread,
+    addMessage,
+    runAssistant,
+    streamAssistant,
+    cancelRun,
+    getThread,
+    listThreads,
+    renameThread,
+    deleteThread,
+    createVectorStore,
+    uploadFileToVectorStore,
+    updateAssistantVectorStore,
+  };
+}
 
-    return openaiFile;
+export type AssistantService = ReturnType<typeof createAssistantService>;
+
+/**
+ * The service for the provider selected by LLM_PROVIDER. The OpenAI client for
+ * assistant and vector store management is the provider's own for the
+ * Assistants API and otherwise exists only when OPENAI_API_KEY is set.
+ */
+export function createAssistantServiceFromEnv(
+  env: Record<string, string | undefined> = process.env
+): Result<AssistantService, AssistantError> {
+  const config = loadLlmConfig(env);
+  if (!config.ok) return config;
+  const runConfig = loadRunManagerConfig(env);
+  if (!runConfig.ok) return runConfig;
+  const runs = createRunManager(runConfig.value);
+
+  if (config.value.provider === 'openai-assistants') {
+    const openai = createOpenAIClient(config.value);
+    return ok(createAssistantService({
+      provider: createLlmProvider(config.value, openai),
+      openai,
+      assistantId: config.value.assistantId,
+      runs,
+    }));
   }
 
-  async updateAssistantVectorStore(vectorStoreId: string) {
-    return await openai.beta.assistants.update(this.assistantId, {
-      tool_resources: {
-        file_search: {
-          vector_store_ids: [vectorStoreId],
-        },
-      },
-    });
-  }
+  return ok(createAssistantService({
+    provider: createLlmProvider(config.value),
+    openai: env.OPENAI_API_KEY ? createOpenAIClient({ apiKey: env.OPENAI_API_KEY }) : undefined,
+    runs,
+  }));
 }
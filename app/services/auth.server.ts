@@ -0,0 +1,186 @@
+/**
+ * User accounts: password and magic link sign-in
+ */
+
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { magicLinkTokenRepository, userRepository } from '../db.server';
+import type { User } from '../db/schema';
+import { Result, ok, err } from '../types/result';
+import { AuthError, DatabaseError, createAuthError } from '../types/errors';
+import type { Mailer } from './mailer.server';
+
+export const MIN_PASSWORD_LENGTH = 8;
+export const MAGIC_LINK_TTL_MS = 15 * 60 * 1000;
+
+const SCRYPT_PARAMS = { N: 16384, r: 8, p: 1 };
+const SCRYPT_KEY_LENGTH = 64;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+function deriveKey(password: string, salt: Buffer, params: typeof SCRYPT_PARAMS): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, SCRYPT_KEY_LENGTH, params, (error, key) => {
+      if (error) reject(error);
+      else resolve(key);
+    });
+  });
+}
+
+/**
+ * scrypt hash stored as `scrypt$N$r$p$<salt>$<key>` (base64), so the cost
+ * parameters can be raised later without invalidating existing hashes
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const key = await deriveKey(password, salt, SCRYPT_PARAMS);
+  const { N, r, p } = SCRYPT_PARAMS;
+  return ['scrypt', N, r, p, salt.toString('base64'), key.toString('base64')].join('$');
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [algorithm, N, r, p, salt, key] = stored.split('$');
+  if (algorithm !== 'scrypt' || !salt || !key) return false;
+
+  const expected = Buffer.from(key, 'base64');
+  const actual = await deriveKey(password, Buffer.from(salt, 'base64'), {
+    N: Number(N),
+    r: Number(r),
+    p: Number(p),
+  });
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+export function normalizeEmail(email: string): string | null {
+  const normalized = email.trim().toLowerCase();
+  return EMAIL_PATTERN.test(normalized) ? normalized : null;
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export async function registerWithPassword(
+  email: string,
+  password: string
+): Promise<Result<User, AuthError>> {
+  const normalized = normalizeEmail(email);
+  if (!normalized) {
+    return err(createAuthError('INVALID_INPUT', 'メールアドレスの形式が正しくありません'));
+  }
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    return err(createAuthError('INVALID_INPUT', `パスワードは${MIN_PASSWORD_LENGTH}文字以上にしてください`));
+  }
+
+  const existing = await userRepository.findUnique({ email: normalized });
+  if (!existing.ok) return err(createAuthError('QUERY_ERROR', existing.error.message));
+  if (existing.value) {
+    return err(createAuthError('EMAIL_TAKEN', 'このメールアドレスは既に登録されています'));
+  }
+
+  const created = await userRepository.create({
+    email: normalized,
+    passwordHash: await hashPassword(password),
+  });
+  return created.ok ? created : err(createAuthError('QUERY_ERROR', created.error.message));
+}
+
+export async function authenticateWithPassword(
+  email: string,
+  password: string
+): Promise<Result<User, AuthError>> {
+  const invalid = createAuthError('INVALID_CREDENTIALS', 'メールアドレスまたはパスワードが正しくありません');
+
+  const normalized = normalizeEmail(email);
+  if (!normalized) return err(invalid);
+
+  const user = await userRepository.findUnique({ email: normalized });
+  if (!user.ok) return err(createAuthError('QUERY_ERROR', user.error.message));
+  if (!user.value?.passwordHash) return err(invalid);
+
+  return (await verifyPassword(password, user.value.passwordHash)) ? ok(user.value) : err(invalid);
+}
+
+export interface MagicLinkOptions {
+  mailer: Mailer;
+  // Origin the link points at, e.g. https://example.com
+  baseUrl: string;
+  // Path to return to after signing in; carried on the link
+  redirectTo?: string;
+  ttlMs?: number;
+  now?: () => Date;
+}
+
+/**
+ * Email a one-time login link, creating the account on first use
+ */
+export async function sendMagicLink(
+  email: string,
+  options: MagicLinkOptions
+): Promise<Result<void, AuthError>> {
+  const normalized = normalizeEmail(email);
+  if (!normalized) {
+    return err(createAuthError('INVALID_INPUT', 'メールアドレスの形式が正しくありません'));
+  }
+
+  const existing = await userRepository.findUnique({ email: normalized });
+  if (!existing.ok) return err(createAuthError('QUERY_ERROR', existing.error.message));
+
+  const user: Result<User, DatabaseError> = existing.value
+    ? ok(existing.value)
+    : await userRepository.create({ email: normalized });
+  if (!user.ok) return err(createAuthError('QUERY_ERROR', user.error.message));
+
+  const token = randomBytes(32).toString('base64url');
+  const now = options.now?.() ?? new Date();
+  const saved = await magicLinkTokenRepository.create({
+    userId: user.value.id,
+    tokenHash: hashToken(token),
+    expiresAt: new Date(now.getTime() + (options.ttlMs ?? MAGIC_LINK_TTL_MS)).toISOString(),
+  });
+  if (!saved.ok) return err(createAuthError('QUERY_ERROR', saved.error.message));
+
+  const link = new URL('/auth/magic', options.baseUrl);
+  link.searchParams.set('token', token);
+  if (options.redirectTo && options.redirectTo !== '/') {
+    link.searchParams.set('redirectTo', options.redirectTo);
+  }
+
+  try {
+    await options.mailer.send({
+      to: normalized,
+      subject: '補助金検索アシスタントへのログイン',
+      text: [
+        '以下のリンクからログインしてください。',
+        link.toString(),
+        '',
+        `このリンクは${Math.round((options.ttlMs ?? MAGIC_LINK_TTL_MS) / 60000)}分間、1回だけ有効です。`,
+        '心当たりがない場合はこのメールを破棄してください。',
+      ].join('\n'),
+    });
+  } catch (error) {
+    return err(createAuthError(
+      'MAIL_FAILED',
+      `Failed to send magic link: ${error instanceof Error ? error.message : 'Unknown error'}`
+    ));
+  }
+
+  return ok(undefined);
+}
+
+/**
+ * Exchange a magic link token for its user; each token works once
+ */
+export async function verifyMagicLink(
+  token: string,
+  now: Date = new Date()
+): Promise<Result<User, AuthError>> {
+  const invalid = createAuthError('INVALID_TOKEN', 'ログインリンクが無効か、有効期限が切れています');
+  if (!token) return err(invalid);
+
+  const consumed = await magicLinkTokenRepository.consume(hashToken(token), now);
+  if (!consumed.ok) return err(createAuthError('QUERY_ERROR', consumed.error.message));
+  if (!consumed.value) return err(invalid);
+
+  const user = await userRepository.findUnique({ id: consumed.value.userId });
+  if (!user.ok) return err(createAuthError('QUERY_ERROR', user.error.message));
+  return user.value ? ok(user.value) : err(invalid);
+}
@@ -0,0 +1,94 @@
+/**
+ * Resolution of File Search annotations to the subsidies they cite
+ */
+
+import type { Annotation } from 'openai/resources/beta/threads/messages';
+import { subsidyRepository } from '../db.server';
+import type { Subsidy } from '../db/schema';
+import type { AssistantReply, Citation } from '../types/chat';
+
+export interface CitationResolverOptions {
+  // Fallback for files no longer recorded in subsidies.fileId, e.g. an
+  // uploaded file's name (`<jgrantsId>.md`) looked up through the OpenAI API
+  resolveFileName?: (fileId: string) => Promise<string | null>;
+}
+
+type FileCitation = Extract<Annotation, { type: 'file_citation' }>;
+
+async function findCitedSubsidies(
+  fileIds: string[],
+  options: CitationResolverOptions
+): Promise<Map<string, Subsidy>> {
+  const subsidies = new Map<string, Subsidy>();
+
+  const byFileId = await subsidyRepository.findByFileIds(fileIds);
+  if (byFileId.ok) {
+    for (const subsidy of byFileId.value) {
+      if (subsidy.fileId) subsidies.set(subsidy.fileId, subsidy);
+    }
+  }
+
+  if (!options.resolveFileName) return subsidies;
+
+  for (const fileId of fileIds) {
+    if (subsidies.has(fileId)) continue;
+
+    const fileName = await options.resolveFileName(fileId).catch(() => null);
+    const jgrantsId = fileName?.replace(/\.md$/, '');
+    if (!jgrantsId) continue;
+
+    const byName = await subsidyRepository.findUnique({ jgrantsId });
+    if (byName.ok && byName.value) {
+      subsidies.set(fileId, byName.value);
+    }
+  }
+
+  return subsidies;
+}
+
+/**
+ * Replace `【4:0†source】` style markers with GFM footnote references (`[^1]`)
+ * and resolve each cited file to its subsidy. Citations of the same file
+ * share one footnote number; numbers follow the order of first appearance.
+ */
+export async function resolveCitations(
+  text: string,
+  annotations: Annotation[],
+  options: CitationResolverOptions = {}
+): Promise<AssistantReply> {
+  const fileCitations = annotations
+    .filter((annotation): annotation is FileCitation => annotation.type === 'file_citation')
+    .sort((a, b) => a.start_index - b.start_index);
+
+  if (fileCitations.length === 0) {
+    return { text, citations: [] };
+  }
+
+  const fileIds = [...new Set(fileCitations.map((annotation) => annotation.file_citation.file_id))];
+  const subsidies = await findCitedSubsidies(fileIds, options);
+
+  const citations: Citation[] = fileIds.map((fileId, position) => {
+    const subsidy = subsidies.get(fileId);
+    return {
+      index: position + 1,
+      fileId,
+      jgrantsId: subsidy?.jgrantsId ?? null,
+      title: subsidy?.title ?? null,
+    };
+  });
+
+  // Replace from the end so earlier indices stay valid
+  let resolved = text;
+  for (const annotation of [...fileCitations].reverse()) {
+    const index = fileIds.indexOf(annotation.file_citation.file_id) + 1;
+    const reference = `[^${index}]`;
+
+    if (resolved.slice(annotation.start_index, annotation.end_index) === annotation.text) {
+      resolved = resolved.slice(0, annotation.start_index) + reference + resolved.slice(annotation.end_index);
+    } else {
+      resolved = resolved.replace(annotation.text, reference);
+    }
+  }
+
+  return { text: resolved, citations };
+}
@@ -1,13 +1,22 @@
 import { writeFile, readFile, mkdir } from 'fs/promises';
 import { join } from 'path';
-import { db } from '~/db';
-import type { Subsidy } from '~/db/schema';
+import { db, subsidyAttachmentRepository } from '~/db';
+import type { Subsidy, SubsidyAttachment } from '~/db/schema';
+import {
+  formatAcceptancePeriod,
+  formatFiscalYear,
+  formatJapaneseDate,
+  formatSubsidyRate,
+  formatYen,
+  parseJapaneseDate,
+} from '~/services/subsidies/normalize';
+import { ATTACHMENT_CATEGORY_LABELS } from '~/services/subsidies/attachments.server';
 
 export class FileStoreService {
   private dataDir: string;
 
-  constructor() {
-    this.dataDir = join(process.cwd(), 'data', 'subsidies');
+  constructor(dataDir: string = join(process.cwd(), 'data', 'subsidies')) {
+    this.dataDir = dataDir;
   }
 
   async ensureDataDirectory() {
@@ -21,7 +30,7 @@ export class FileStoreService {
   async saveSubsidyAsMarkdown(subsidy: Subsidy) {
     await this.ensureDataDirectory();
     
-    const content = this.generateMarkdownContent(subsidy);
+    const content = await this.renderSubsidyMarkdown(subsidy);
     const fileName = `${subsidy.jgrantsId}.md`;
     const filePath = join(this.dataDir, fileName);
     
@@ -43,6 +52,12 @@ export class FileStoreService {
     }
   }
 
+  // Markdown for a subsidy as it would be saved, without touching the disk
+  async renderSubsidyMarkdown(subsidy: Subsidy) {
+    const attachments = await this.findAttachments(subsidy.jgrantsId);
+    return this.generateMarkdownContent(subsidy, attachments);
+  }
+
   async getAllSubsidyFiles() {
     await this.ensureDataDirectory();
     
@@ -64,25 +79,67 @@ export class FileStoreService {
     return files;
   }
 
-  private generateMarkdownContent(subsidy: Subsidy): string {
+  private async findAttachments(jgrantsId: string): Promise<SubsidyAttachment[]> {
+    const result = await subsidyAttachmentRepository.findMany(jgrantsId);
+    if (!result.ok) {
+      console.error('Error loading subsidy attachments:', result.error.message);
+      return [];
+    }
+    return result.value;
+  }
+
+  private generateAttachmentSections(attachments: SubsidyAttachment[]): string[] {
+    const sections = ['## 添付資料', ''];
+
+    for (const attachment of attachments) {
+      sections.push(`### ${ATTACHMENT_CATEGORY_LABELS[attachment.category]}: ${attachment.name}`);
+      sections.push(
+        attachment.extractedText || '（本文を抽出できませんでした。jGrantsの原本を確認してください）',
+        ''
+      );
+    }
+
+    return sections;
+  }
+
+  private generateMarkdownContent(subsidy: Subsidy, attachments: SubsidyAttachment[] = []): string {
     const sections = [
       `# ${subsidy.title}`,
       '',
-      '## 概要',
-      subsidy.description,
-      '',
     ];
 
+    if (subsidy.status === 'closed') {
+      sections.push('## 募集状況', '受付終了（jGrantsの募集一覧に掲載されていません）', '');
+    }
+
+    sections.push('## 概要', subsidy.description, '');
+
     if (subsidy.targetAudience) {
       sections.push('## 対象者', subsidy.targetAudience, '');
     }
 
-    if (subsidy.amount) {
-      sections.push('## 補助金額', subsidy.amount, '');
+    const amountLines = [
+      subsidy.amount,
+      subsidy.maxAmount !== null && `- 補助上限額: ${formatYen(subsidy.maxAmount)}`,
+      subsidy.subsidyRateMin !== null &&
+        subsidy.subsidyRateMax !== null &&
+        `- 補助率: ${formatSubsidyRate({ min: subsidy.subsidyRateMin, max: subsidy.subsidyRateMax })}`,
+    ].filter((line): line is string => Boolean(line));
+    if (amountLines.length > 0) {
+      sections.push('## 補助金額', ...amountLines, '');
     }
 
-    if (subsidy.deadline) {
-      sections.push('## 申請期限', subsidy.deadline, '');
+    if (subsidy.deadline || subsidy.deadlineDate) {
+      sections.push('## 申請期限', subsidy.deadline ?? formatJapaneseDate(subsidy.deadlineDate!), '');
+    }
+
+    const acceptancePeriod = formatAcceptancePeriod(subsidy.acceptanceStart, subsidy.acceptanceEnd);
+    if (acceptancePeriod) {
+      sections.push('## 受付期間', acceptancePeriod, '');
+    }
+
+    if (subsidy.usePurposes && subsidy.usePurposes.length > 0) {
+      sections.push('## 利用目的', ...subsidy.usePurposes.map((purpose) => `- ${purpose}`), '');
     }
 
     if (subsidy.requirements) {
@@ -97,14 +154,24 @@ export class FileStoreService {
       sections.push('## 申請URL', subsidy.applicationUrl, '');
     }
 
+    if (attachments.length > 0) {
+      sections.push(...this.generateAttachmentSections(attachments));
+    }
+
     sections.push(
       '',
       '---',
       '',
       '### メタデータ',
       `- ID: ${subsidy.jgrantsId}`,
-      `- 更新日: ${subsidy.updatedAt.split('T')[0]}`,
     );
+    if (subsidy.fiscalYear !== null) {
+      sections.push(`- 年度: ${formatFiscalYear(subsidy.fiscalYear)}`);
+    }
+    if (subsidy.deadlineDate) {
+      sections.push(`- 締切日: ${subsidy.deadlineDate}`);
+    }
+    sections.push(`- 更新日: ${parseJapaneseDate(subsidy.updatedAt) ?? subsidy.updatedAt}`);
 
     return sections.join('\n');
   }
@@ -118,7 +185,7 @@ export class FileStoreService {
       return null;
     }
 
-    const content = this.generateMarkdownContent(subsidy);
+    const content = await this.renderSubsidyMarkdown(subsidy);
     const blob = new Blob([content], { type: 'text/markdown' });
     const file = new File([blob], `${subsidy.jgrantsId}.md`, { type: 'text/markdown' });
 
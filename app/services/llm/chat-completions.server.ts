@@ -0,0 +1,192 @@
+/**
+ * LLM provider backed by a Chat Completions endpoint
+ * Used with OpenAI (`openai-chat`) and with local OpenAI-compatible servers
+ * (`local`). There is no server-side thread: each run sends the stored
+ * conversation, with the subsidies the local full-text index finds for the
+ * latest question as numbered sources the model cites as `[^n]`.
+ */
+
+import { APIUserAbortError, type OpenAI } from 'openai';
+import type { ChatCompletion, ChatCompletionMessageParam } from 'openai/resources/chat/completions';
+import { randomUUID } from 'crypto';
+import { threadRepository } from '../../db.server';
+import type { AssistantReply, AssistantStreamUpdate, Citation, RunStatus } from '../../types/chat';
+import type { SubsidySearchHit } from '../../types/subsidy';
+import { findRelevantSubsidies } from '../subsidies/local-search.server';
+import { ASSISTANT_INSTRUCTIONS } from './instructions';
+import type { LlmProvider, LlmRunOptions, LlmRunResult, TokenUsage } from './types';
+
+// Earlier turns beyond this are left out of the prompt
+const MAX_HISTORY_MESSAGES = 20;
+const MAX_SOURCES = 5;
+// Reported as the tool of the retrieval step, like file_search for Assistants
+const RETRIEVAL_TOOL = 'local_search';
+
+interface ChatCompletionsProviderConfig {
+  name: 'openai-chat' | 'local';
+  openai: Pick<OpenAI, 'chat'>;
+  model: string;
+}
+
+interface PreparedRun {
+  messages: ChatCompletionMessageParam[];
+  sources: SubsidySearchHit[];
+}
+
+function generateId(prefix: string): string {
+  return `${prefix}_${randomUUID().replace(/-/g, '')}`;
+}
+
+function toUsage(usage: ChatCompletion['usage'] | null | undefined): TokenUsage | null {
+  return usage
+    ? { promptTokens: usage.prompt_tokens, completionTokens: usage.completion_tokens, totalTokens: usage.total_tokens }
+    : null;
+}
+
+// Replies cut off by the token limit or the content filter are incomplete
+function statusOf(finishReason: string | null | undefined): RunStatus {
+  return finishReason === 'length' || finishReason === 'content_filter' ? 'incomplete' : 'completed';
+}
+
+function formatSources(sources: SubsidySearchHit[]): string | null {
+  if (sources.length === 0) return null;
+
+  const entries = sources.map(({ subsidy, snippet }, position) => {
+    const lines = [`[^${position + 1}] ${subsidy.title}（${subsidy.jgrantsId}）`, snippet];
+    if (subsidy.amount) lines.push(`- 補助金額: ${subsidy.amount}`);
+    if (subsidy.deadline) lines.push(`- 申請期限: ${subsidy.deadline}`);
+    if (subsidy.applicationUrl) lines.push(`- 申請URL: ${subsidy.applicationUrl}`);
+    return lines.join('\n');
+  });
+
+  return [
+    '## 参考資料',
+    '登録済みの補助金データから質問に関連するものを検索した結果です。回答に使った資料は、該当する文の末尾に [^番号] の形式で出典を示してください。',
+    '',
+    entries.join('\n\n'),
+  ].join('\n');
+}
+
+/**
+ * Citations for the sources the reply refers to, numbered as in the prompt
+ */
+export function citeSources(text: string, sources: SubsidySearchHit[]): AssistantReply {
+  const cited = new Set([...text.matchAll(/\[\^(\d+)\]/g)].map((match) => Number(match[1])));
+
+  const citations: Citation[] = sources
+    .map(({ subsidy }, position) => ({
+      index: position + 1,
+      fileId: subsidy.fileId ?? subsidy.jgrantsId,
+      jgrantsId: subsidy.jgrantsId,
+      title: subsidy.title,
+    }))
+    .filter((citation) => cited.has(citation.index));
+
+  return { text, citations };
+}
+
+export function createChatCompletionsProvider(config: ChatCompletionsProviderConfig): LlmProvider {
+  const { openai, model } = config;
+
+  async function prepare(threadId: string, options: LlmRunOptions): Promise<PreparedRun> {
+    const thread = await threadRepository.findUnique(threadId);
+    if (!thread.ok) {
+      throw new Error(thread.error.message);
+    }
+
+    const history = thread.value.messages.slice(-MAX_HISTORY_MESSAGES);
+    const question = history.filter((message) => message.role === 'user').at(-1)?.content ?? '';
+    const found = await findRelevantSubsidies(question, MAX_SOURCES);
+    // Answer without sources rather than not at all
+    const sources = found.ok ? found.value : [];
+
+    const system = [ASSISTANT_INSTRUCTIONS, formatSources(sources), options.instructions]
+      .filter((part): part is string => Boolean(part))
+      .join('\n\n');
+
+    return {
+      messages: [
+        { role: 'system', content: system },
+        ...history.map((message) => ({ role: message.role, content: message.content })),
+      ],
+      sources,
+    };
+  }
+
+  return {
+    name: config.name,
+    model,
+
+    async createThread() {
+      return { id: generateId('thread') };
+    },
+
+    // The conversation is read back from the database on each run
+    async appendMessage() {
+      return { id: generateId('msg') };
+    },
+
+    // The completion ID is only known once it has answered
+    async run(threadId, options = {}) {
+      const { messages, sources } = await prepare(threadId, options);
+      let completion: ChatCompletion;
+      try {
+        completion = await openai.chat.completions.create({ model, messages }, { signal: options.signal });
+      } catch (error) {
+        if (error instanceof APIUserAbortError) return { status: 'cancelled', reply: null, usage: null };
+        throw error;
+      }
+      options.onRunCreated?.(completion.id);
+
+      const choice = completion.choices[0];
+      const text = choice?.message?.content;
+      return {
+        status: statusOf(choice?.finish_reason),
+        reply: text ? citeSources(text, sources) : null,
+        usage: toUsage(completion.usage),
+      };
+    },
+
+    async *stream(threadId, options = {}): AsyncGenerator<AssistantStreamUpdate, LlmRunResult> {
+      yield { type: 'tool', status: 'in_progress', tools: [RETRIEVAL_TOOL] };
+      const { messages, sources } = await prepare(threadId, options);
+      yield { type: 'tool', status: 'completed', tools: [RETRIEVAL_TOOL] };
+
+      let text = '';
+      let status: RunStatus = 'completed';
+      let usage: TokenUsage | null = null;
+      try {
+        const stream = await openai.chat.completions.create(
+          { model, messages, stream: true, stream_options: { include_usage: true } },
+          { signal: options.signal }
+        );
+        let created = false;
+        for await (const chunk of stream) {
+          if (!created) {
+            created = true;
+            options.onRunCreated?.(chunk.id);
+          }
+          // The usage arrives in a last chunk without choices
+          usage = toUsage(chunk.usage) ?? usage;
+          const choice = chunk.choices[0];
+          if (choice?.finish_reason) status = statusOf(choice.finish_reason);
+          if (choice?.delta?.content) {
+            text += choice.delta.content;
+            yield { type: 'delta', text: choice.delta.content };
+          }
+        }
+        // An aborted stream ends without an error
+        if (options.signal?.aborted) status = 'cancelled';
+      } catch (error) {
+        if (!(error instanceof APIUserAbortError)) throw error;
+        status = 'cancelled';
+      }
+
+      return { status, reply: text ? citeSources(text, sources) : null, usage };
+    },
+
+    async deleteThread() {
+      // Nothing is stored outside the database
+    },
+  };
+}
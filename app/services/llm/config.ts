@@ -0,0 +1,73 @@
+/**
+ * Language model selection
+ * LLM_PROVIDER picks the backend: `openai-assistants` (default; File Search
+ * over the OpenAI vector store), `openai-chat` (Chat Completions grounded in
+ * the local full-text index) or `local` (the same against an OpenAI-compatible
+ * server such as llama.cpp or Ollama at LLM_BASE_URL, with no network access).
+ * LLM_MODEL overrides the provider's default model.
+ */
+
+import { Result, ok, err } from '../../types/result';
+import { AssistantError, createAssistantError } from '../../types/errors';
+import type { LlmConfig, LlmProviderName } from './types';
+
+const PROVIDERS: LlmProviderName[] = ['openai-assistants', 'openai-chat', 'local'];
+
+// Used when creating the assistant; runs otherwise use the assistant's own model
+export const DEFAULT_ASSISTANT_MODEL = 'gpt-4-turbo-preview';
+export const DEFAULT_CHAT_MODEL = 'gpt-4o-mini';
+export const DEFAULT_LOCAL_MODEL = 'llama3.1';
+// Ollama's OpenAI-compatible endpoint
+export const DEFAULT_LOCAL_BASE_URL = 'http://127.0.0.1:11434/v1';
+
+function isLlmProviderName(name: string): name is LlmProviderName {
+  return (PROVIDERS as string[]).includes(name);
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const { protocol } = new URL(value);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+export function loadLlmConfig(
+  env: Record<string, string | undefined> = process.env
+): Result<LlmConfig, AssistantError> {
+  const provider = env.LLM_PROVIDER?.trim() || 'openai-assistants';
+  if (!isLlmProviderName(provider)) {
+    return err(createAssistantError(
+      'CONFIG_ERROR',
+      `Unknown LLM_PROVIDER: ${provider} (use ${PROVIDERS.join(', ')})`
+    ));
+  }
+
+  const model = env.LLM_MODEL?.trim() || null;
+  const baseUrl = env.LLM_BASE_URL?.trim() || (provider === 'local' ? DEFAULT_LOCAL_BASE_URL : undefined);
+  if (baseUrl && !isHttpUrl(baseUrl)) {
+    return err(createAssistantError('CONFIG_ERROR', `LLM_BASE_URL must be an http(s) URL: ${baseUrl}`));
+  }
+
+  if (provider !== 'local' && !env.OPENAI_API_KEY) {
+    return err(createAssistantError('CONFIG_ERROR', 'OPENAI_API_KEY is not set in environment variables'));
+  }
+
+  switch (provider) {
+    case 'openai-assistants': {
+      if (!env.OPENAI_ASSISTANT_ID) {
+        return err(createAssistantError(
+          'MISSING_ASSISTANT_ID',
+          'OPENAI_ASSISTANT_ID is not set in environment variables'
+        ));
+      }
+      return ok({ provider, model, apiKey: env.OPENAI_API_KEY, baseUrl, assistantId: env.OPENAI_ASSISTANT_ID });
+    }
+    case 'openai-chat':
+      return ok({ provider, model: model ?? DEFAULT_CHAT_MODEL, apiKey: env.OPENAI_API_KEY, baseUrl });
+    case 'local':
+      // Local servers ignore the key, but the client requires one
+      return ok({ provider, model: model ?? DEFAULT_LOCAL_MODEL, apiKey: env.LLM_API_KEY || 'local', baseUrl });
+  }
+}
@@ -0,0 +1,26 @@
+/**
+ * Creation of the configured LLM provider
+ */
+
+import OpenAI from 'openai';
+import { createChatCompletionsProvider } from './chat-completions.server';
+import { createOpenAIAssistantsProvider } from './openai-assistants.server';
+import type { LlmConfig, LlmProvider } from './types';
+
+export function createOpenAIClient(config: Pick<LlmConfig, 'apiKey' | 'baseUrl'>): OpenAI {
+  return new OpenAI({ apiKey: config.apiKey, baseURL: config.baseUrl });
+}
+
+export function createLlmProvider(config: LlmConfig, openai: OpenAI = createOpenAIClient(config)): LlmProvider {
+  switch (config.provider) {
+    case 'openai-assistants':
+      return createOpenAIAssistantsProvider({ openai, assistantId: config.assistantId, model: config.model });
+    case 'openai-chat':
+    case 'local':
+      return createChatCompletionsProvider({ name: config.provider, openai, model: config.model });
+  }
+}
+
+export { loadLlmConfig, DEFAULT_ASSISTANT_MODEL } from './config';
+export { ASSISTANT_INSTRUCTIONS } from './instructions';
+export type { LlmConfig, LlmProvider, LlmProviderName, LlmRunOptions, LlmRunResult, TokenUsage } from './types';
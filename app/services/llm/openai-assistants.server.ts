@@ -0,0 +1,316 @@
+/**
+ * LLM provider backed by the OpenAI Assistants API
+ * Threads live on OpenAI and retrieval is the assistant's File Search over
+ * the vector store the subsidies are published to, along with the subsidy
+ * function tools, which the run waits on while they query the database.
+ */
+
+import { APIUserAbortError, type OpenAI } from 'openai';
+import type { RequiredActionFunctionToolCall, Run } from 'openai/resources/beta/threads/runs/runs';
+import type { AssistantReply, AssistantStreamUpdate, RunStatus } from '../../types/chat';
+import { resolveCitations } from '../citations.server';
+import { callSubsidyTool } from '../subsidies/tools.server';
+import type { LlmProvider, LlmRunOptions, LlmRunResult, TokenUsage } from './types';
+
+export interface RunPollOptions {
+  // Delay before the second status check; doubled after each check up to maxIntervalMs
+  intervalMs: number;
+  maxIntervalMs: number;
+  // How long a cancelled run may take to stop before it is given up on
+  cancelGraceMs: number;
+}
+
+const DEFAULT_POLL_OPTIONS: RunPollOptions = { intervalMs: 500, maxIntervalMs: 5000, cancelGraceMs: 10_000 };
+
+// Statuses a run leaves on its own
+const ACTIVE_STATUSES: ReadonlySet<Run['status']> = new Set(['queued', 'in_progress', 'cancelling']);
+// A run waiting for tool outputs can be cancelled too
+const CANCELLABLE_STATUSES: ReadonlySet<Run['status']> = new Set(['queued', 'in_progress', 'requires_action']);
+
+// File Search markers left in streamed text that no annotation resolved
+const CITATION_MARKER = /【\d+:\d+†[^】]*】/g;
+
+interface OpenAIAssistantsProviderConfig {
+  openai: OpenAI;
+  assistantId: string;
+  // Overrides the assistant's model for each run
+  model: string | null;
+  poll?: Partial<RunPollOptions>;
+}
+
+function toUsage(usage: Run['usage'] | undefined): TokenUsage | null {
+  return usage
+    ? { promptTokens: usage.prompt_tokens, completionTokens: usage.completion_tokens, totalTokens: usage.total_tokens }
+    : null;
+}
+
+// Resolves after `ms`, or as soon as the signal aborts
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener('abort', done);
+  });
+}
+
+function runFailure(run: Pick<Run, 'status' | 'last_error'>): Error {
+  const detail = run.last_error ? ` (${run.last_error.message})` : '';
+  return new Error(`Run failed with status: ${run.status}${detail}`);
+}
+
+export function createOpenAIAssistantsProvider(config: OpenAIAssistantsProviderConfig): LlmProvider {
+  const { openai, assistantId, model } = config;
+  const poll = { ...DEFAULT_POLL_OPTIONS, ...config.poll };
+
+  function runParams(options: LlmRunOptions) {
+    return {
+      assistant_id: assistantId,
+      additional_instructions: options.instructions,
+      ...(model ? { model } : {}),
+    };
+  }
+
+  async function resolveReply(
+    text: string,
+    annotations: Parameters<typeof resolveCitations>[1] | undefined
+  ): Promise<AssistantReply> {
+    // Mocked or legacy responses may omit annotations
+    return resolveCitations(text, annotations ?? [], {
+      resolveFileName: async (fileId) => (await openai.files.retrieve(fileId)).filename,
+    });
+  }
+
+  // Null when the run had already ended and cannot be cancelled
+  async function cancelRun(threadId: string, runId: string): Promise<Run | null> {
+    try {
+      return await openai.beta.threads.runs.cancel(threadId, runId);
+    } catch {
+      return null;
+    }
+  }
+
+  // Outputs of the function calls a run is waiting on
+  async function callFunctions(toolCalls: RequiredActionFunctionToolCall[]) {
+    return Promise.all(toolCalls.map(async (call) => ({
+      tool_call_id: call.id,
+      output: await callSubsidyTool(call.function.name, call.function.arguments),
+    })));
+  }
+
+  /**
+   * Poll the run until it leaves the active statuses, backing off between
+   * checks. Once the signal aborts the run is cancelled and polled until it
+   * stops, or reported as cancelled after the grace period.
+   */
+  async function waitForRun(threadId: string, runId: string, signal?: AbortSignal): Promise<Run> {
+    let run = await openai.beta.threads.runs.retrieve(threadId, runId);
+    let interval = poll.intervalMs;
+    let cancelledAt: number | null = null;
+
+    for (;;) {
+      if (signal?.aborted && cancelledAt === null && CANCELLABLE_STATUSES.has(run.status)) {
+        cancelledAt = Date.now();
+        run = (await cancelRun(threadId, runId)) ?? run;
+      }
+      if (!ACTIVE_STATUSES.has(run.status)) {
+        return run;
+      }
+      if (cancelledAt !== null && Date.now() - cancelledAt >= poll.cancelGraceMs) {
+        return { ...run, status: 'cancelled' };
+      }
+
+      await sleep(interval, cancelledAt === null ? signal : undefined);
+      interval = Math.min(interval * 2, poll.maxIntervalMs);
+      run = await openai.beta.threads.runs.retrieve(threadId, runId);
+    }
+  }
+
+  return {
+    name: 'openai-assistants',
+    model,
+
+    async createThread(metadata) {
+      const thread = await openai.beta.threads.create(
+        Object.keys(metadata).length > 0 ? { metadata } : {}
+      );
+      return { id: thread.id };
+    },
+
+    async appendMessage(threadId, role, content) {
+      const message = await openai.beta.threads.messages.create(threadId, { role, content });
+      return { id: message.id };
+    },
+
+    async run(threadId, options = {}) {
+      // Messages are listed newest first; remember the last reply to tell the new one apart
+      const messagesBefore = await openai.beta.threads.messages.list(threadId);
+      const lastAssistantMessageId = messagesBefore.data.find((message) => message.role === 'assistant')?.id;
+
+      const created = await openai.beta.threads.runs.create(threadId, runParams(options));
+      options.onRunCreated?.(created.id);
+      let run = await waitForRun(threadId, created.id, options.signal);
+
+      // The run pauses for each round of function calls until their outputs are submitted
+      while (run.status === 'requires_action' && !options.signal?.aborted) {
+        const toolOutputs = await callFunctions(run.required_action?.submit_tool_outputs.tool_calls ?? []);
+        if (!options.signal?.aborted) {
+          await openai.beta.threads.runs.submitToolOutputs(threadId, run.id, { tool_outputs: toolOutputs });
+        }
+        run = await waitForRun(threadId, run.id, options.signal);
+      }
+
+      // Stopped while waiting on function calls: cancel the run so it does not keep the thread locked
+      if (run.status === 'requires_action') {
+        await cancelRun(threadId, run.id);
+        run = { ...run, status: 'cancelled' };
+      }
+
+      if (run.status !== 'completed' && run.status !== 'incomplete' && run.status !== 'cancelled') {
+        throw runFailure(run);
+      }
+
+      // Incomplete and cancelled runs may have left a partial reply
+      const messages = await openai.beta.threads.messages.list(threadId);
+      const latest = messages.data.find((message) => message.role === 'assistant');
+      const content = latest && latest.id !== lastAssistantMessageId ? latest.content[0] : undefined;
+
+      return {
+        status: run.status,
+        reply: content?.type === 'text' ? await resolveReply(content.text.value, content.text.annotations) : null,
+        usage: toUsage(run.usage),
+      };
+    },
+
+    async *stream(threadId, options = {}): AsyncGenerator<AssistantStreamUpdate, LlmRunResult> {
+      const { signal } = options;
+      // Replaced by the run's continuation after each round of tool outputs
+      let stream = openai.beta.threads.runs.stream(threadId, runParams(options));
+
+      let runId: string | null = null;
+      let graceTimer: ReturnType<typeof setTimeout> | undefined;
+      // The run stops with the events that confirm it; the stream is only
+      // dropped if that does not happen within the grace period
+      const cancel = () => {
+        if (!runId || graceTimer) return;
+        void cancelRun(threadId, runId);
+        graceTimer = setTimeout(() => stream.abort(), poll.cancelGraceMs);
+      };
+      signal?.addEventListener('abort', cancel);
+
+      let status: RunStatus | null = null;
+      let usage: TokenUsage | null = null;
+      let reply: AssistantReply | null = null;
+      // The partial reply when the run stops before its message is finished
+      let streamedText = '';
+      try {
+        for (;;) {
+          let required: { runId: string; toolCalls: RequiredActionFunctionToolCall[] } | null = null;
+
+          for await (const event of stream) {
+            switch (event.event) {
+              case 'thread.run.created':
+                runId = event.data.id;
+                options.onRunCreated?.(runId);
+                if (signal?.aborted) cancel();
+                break;
+
+              case 'thread.message.delta':
+                for (const part of event.data.delta.content ?? []) {
+                  if (part.type === 'text' && part.text?.value) {
+                    streamedText += part.text.value;
+                    yield { type: 'delta', text: part.text.value };
+                  }
+                }
+                break;
+
+              case 'thread.run.step.created':
+              case 'thread.run.step.completed': {
+                if (event.data.step_details.type !== 'tool_calls') break;
+                // Function calls are reported while they are run below
+                const tools = event.data.step_details.tool_calls
+                  .filter((call) => call.type !== 'function')
+                  .map((call) => call.type);
+                if (tools.length > 0) {
+                  yield {
+                    type: 'tool',
+                    status: event.event === 'thread.run.step.created' ? 'in_progress' : 'completed',
+                    tools,
+                  };
+                }
+                break;
+              }
+
+              case 'thread.message.completed':
+              case 'thread.message.incomplete': {
+                const content = event.data.content[0];
+                if (content?.type === 'text') {
+                  reply = await resolveReply(content.text.value, content.text.annotations);
+                }
+                break;
+              }
+
+              case 'thread.run.completed':
+              case 'thread.run.incomplete':
+              case 'thread.run.cancelled':
+                status = event.data.status as RunStatus;
+                usage = toUsage(event.data.usage);
+                break;
+
+              case 'thread.run.requires_action':
+                // The stream ends here; the run goes on once the outputs are submitted
+                required = {
+                  runId: event.data.id,
+                  toolCalls: event.data.required_action?.submit_tool_outputs.tool_calls ?? [],
+                };
+                break;
+
+              case 'thread.run.failed':
+              case 'thread.run.expired':
+                throw runFailure(event.data);
+
+              case 'error':
+                throw new Error(`Run stream failed: ${event.data.message ?? 'Unknown error'}`);
+            }
+          }
+          if (!required || signal?.aborted) break;
+
+          const tools = required.toolCalls.map((call) => call.function.name);
+          yield { type: 'tool', status: 'in_progress', tools };
+          const toolOutputs = await callFunctions(required.toolCalls);
+          yield { type: 'tool', status: 'completed', tools };
+          // A cancelled run no longer accepts the outputs
+          if (signal?.aborted) break;
+
+          stream = openai.beta.threads.runs.submitToolOutputsStream(threadId, required.runId, {
+            tool_outputs: toolOutputs,
+          });
+        }
+      } catch (error) {
+        // Dropped after the cancellation went unconfirmed
+        if (!(graceTimer && error instanceof APIUserAbortError)) throw error;
+        status = 'cancelled';
+      } finally {
+        signal?.removeEventListener('abort', cancel);
+        clearTimeout(graceTimer);
+      }
+
+      if (!reply && streamedText && status !== 'completed') {
+        reply = { text: streamedText.replace(CITATION_MARKER, ''), citations: [] };
+      }
+      return { status: status ?? (graceTimer ? 'cancelled' : 'completed'), reply, usage };
+    },
+
+    async deleteThread(threadId) {
+      try {
+        await openai.beta.threads.del(threadId);
+      } catch (error) {
+        const status = (error as { status?: number } | null)?.status;
+        if (status !== 404) throw error;
+      }
+    },
+  };
+}
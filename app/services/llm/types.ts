@@ -0,0 +1,60 @@
+/**
+ * Interface between the chat services and the language model backend
+ * Threads, messages and replies are persisted by AssistantService; a
+ * provider only keeps whatever state its backend needs (e.g. the OpenAI
+ * thread) and produces the assistant's replies.
+ */
+
+import type { AssistantReply, AssistantStreamUpdate, RunStatus } from '../../types/chat';
+
+export type LlmProviderName = 'openai-assistants' | 'openai-chat' | 'local';
+
+export interface LlmRunOptions {
+  // Appended to the base instructions for this run only (profile, subsidy context)
+  instructions?: string;
+  // Aborting stops the run on the backend; it then ends as cancelled
+  signal?: AbortSignal;
+  // Called with the backend's ID for the run as soon as it has one
+  onRunCreated?: (runId: string) => void;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+// How a run ended. Failures are thrown instead.
+export interface LlmRunResult {
+  status: RunStatus;
+  // Partial text unless completed
+  reply: AssistantReply | null;
+  // Null when the backend did not report it
+  usage: TokenUsage | null;
+}
+
+export interface LlmProvider {
+  name: LlmProviderName;
+  // Model the replies are generated with; for Assistants, null means the assistant's own model
+  model: string | null;
+  // Returns the ID the thread is stored under
+  createThread(metadata: Record<string, string>): Promise<{ id: string }>;
+  appendMessage(threadId: string, role: 'user' | 'assistant', content: string): Promise<{ id: string }>;
+  // Answer the latest user message, looking up subsidies to ground the answer
+  run(threadId: string, options?: LlmRunOptions): Promise<LlmRunResult>;
+  // Streaming variant of run: yields text deltas and retrieval progress
+  stream(threadId: string, options?: LlmRunOptions): AsyncGenerator<AssistantStreamUpdate, LlmRunResult>;
+  // Forget the backend's copy of the thread; missing threads are not an error
+  deleteThread(threadId: string): Promise<void>;
+}
+
+interface LlmConnection {
+  apiKey?: string;
+  // OpenAI-compatible endpoint, e.g. http://127.0.0.1:11434/v1 for Ollama
+  baseUrl?: string;
+}
+
+export type LlmConfig = LlmConnection & (
+  | { provider: 'openai-assistants'; assistantId: string; model: string | null }
+  | { provider: 'openai-chat' | 'local'; model: string }
+);
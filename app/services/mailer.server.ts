@@ -0,0 +1,67 @@
+/**
+ * Outgoing mail (magic login links)
+ * Sends through SMTP_URL; in development point it at a local SMTP stand-in
+ * such as Mailpit (`smtp://localhost:1025`, web UI on port 8025).
+ */
+
+import nodemailer from 'nodemailer';
+import { Result, ok, err } from '../types/result';
+import { ApiError, createApiError } from '../types/errors';
+
+const DEVELOPMENT_APP_URL = 'http://localhost:3000';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+interface SmtpMailerConfig {
+  url: string;
+  from: string;
+}
+
+export function createSmtpMailer(
+  config: SmtpMailerConfig = {
+    url: process.env.SMTP_URL ?? 'smtp://localhost:1025',
+    from: process.env.MAIL_FROM ?? 'subsidy-search <no-reply@localhost>',
+  }
+): Mailer {
+  const transport = nodemailer.createTransport(config.url);
+
+  return {
+    async send(message) {
+      await transport.sendMail({ from: config.from, ...message });
+    },
+  };
+}
+
+/**
+ * Public origin for links in outgoing mail, from APP_URL (required in production).
+ * Never taken from the request, whose Host header the client controls.
+ */
+export function loadAppUrl(
+  env: Record<string, string | undefined> = process.env
+): Result<string, ApiError> {
+  const value = env.APP_URL?.trim();
+  if (!value) {
+    return env.NODE_ENV === 'production'
+      ? err(createApiError('VALIDATION_ERROR', 'APP_URL is not set in environment variables'))
+      : ok(DEVELOPMENT_APP_URL);
+  }
+
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return err(createApiError('VALIDATION_ERROR', `APP_URL is not a valid URL: ${value}`));
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return err(createApiError('VALIDATION_ERROR', `APP_URL must be an http(s) URL: ${value}`));
+  }
+  return ok(url.origin);
+}
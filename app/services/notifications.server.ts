@@ -0,0 +1,89 @@
+/**
+ * Notification channels for bookmark reminders
+ * Channels are selected with REMINDER_CHANNELS (comma-separated, default
+ * `email`): `email` sends through the SMTP mailer, `webhook` POSTs JSON to
+ * REMINDER_WEBHOOK_URL.
+ */
+
+import { Result, ok, err } from '../types/result';
+import { ApiError, createApiError } from '../types/errors';
+import { createSmtpMailer, type Mailer } from './mailer.server';
+
+export interface Reminder {
+  kind: 'deadline' | 'opened';
+  bookmarkId: number;
+  // ISO datetime of the deadline or acceptance start
+  eventAt: string;
+  // Whole days until the deadline, for deadline reminders
+  daysLeft: number | null;
+  user: { id: string; email: string };
+  subsidy: { jgrantsId: string; title: string; url: string };
+  subject: string;
+  text: string;
+}
+
+export interface NotificationChannel {
+  // Recorded with each delivery so every channel is sent at most once
+  name: string;
+  send(reminder: Reminder): Promise<void>;
+}
+
+export function createEmailChannel(mailer: Mailer): NotificationChannel {
+  return {
+    name: 'email',
+    async send(reminder) {
+      await mailer.send({ to: reminder.user.email, subject: reminder.subject, text: reminder.text });
+    },
+  };
+}
+
+export function createWebhookChannel(url: string, fetchImpl: typeof fetch = fetch): NotificationChannel {
+  return {
+    name: 'webhook',
+    async send(reminder) {
+      const response = await fetchImpl(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          kind: reminder.kind,
+          eventAt: reminder.eventAt,
+          daysLeft: reminder.daysLeft,
+          email: reminder.user.email,
+          subsidy: reminder.subsidy,
+          text: reminder.text,
+        }),
+      });
+      if (!response.ok) {
+        throw new Error(`Webhook responded with ${response.status}`);
+      }
+    },
+  };
+}
+
+export function loadNotificationChannels(
+  env: Record<string, string | undefined> = process.env
+): Result<NotificationChannel[], ApiError> {
+  const names = (env.REMINDER_CHANNELS ?? 'email')
+    .split(',')
+    .map((name) => name.trim())
+    .filter(Boolean);
+
+  const channels: NotificationChannel[] = [];
+  for (const name of new Set(names)) {
+    if (name === 'email') {
+      channels.push(createEmailChannel(createSmtpMailer()));
+    } else if (name === 'webhook') {
+      if (!env.REMINDER_WEBHOOK_URL) {
+        return err(createApiError('VALIDATION_ERROR', 'REMINDER_WEBHOOK_URL is required for the webhook channel'));
+      }
+      channels.push(createWebhookChannel(env.REMINDER_WEBHOOK_URL));
+    } else {
+      return err(createApiError('VALIDATION_ERROR', `Unknown notification channel: ${name}`));
+    }
+  }
+
+  if (channels.length === 0) {
+    return err(createApiError('VALIDATION_ERROR', 'No notification channels selected'));
+  }
+  return ok(channels);
+}
@@ -0,0 +1,188 @@
+/**
+ * Bookmark reminders: a notice N days before the acceptance deadline and one
+ * when a bookmarked subsidy opens for acceptance. Run periodically by
+ * scripts/send-reminders.ts; deliveries are recorded so reruns do not repeat them.
+ */
+
+import { bookmarkRepository, reminderDeliveryRepository } from '../db.server';
+import type { Bookmark, Subsidy, User } from '../db/schema';
+import { Result, ok, err } from '../types/result';
+import { ApiError, DatabaseError, createApiError } from '../types/errors';
+import { subsidyPath } from '../utils/subsidy-links';
+import type { NotificationChannel, Reminder } from './notifications.server';
+import { toJstDate } from './subsidies/normalize';
+
+export const DEFAULT_REMIND_DAYS_BEFORE = 7;
+export const MAX_REMIND_DAYS_BEFORE = 60;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function parseRemindDaysBefore(value: FormDataEntryValue | null): Result<number, ApiError> {
+  if (value === null || value === '') return ok(DEFAULT_REMIND_DAYS_BEFORE);
+
+  const days = Number(value);
+  if (!Number.isInteger(days) || days < 1 || days > MAX_REMIND_DAYS_BEFORE) {
+    return err(createApiError('VALIDATION_ERROR', `通知日数は1〜${MAX_REMIND_DAYS_BEFORE}日で指定してください`));
+  }
+  return ok(days);
+}
+
+export interface BookmarkEntry {
+  bookmark: Bookmark;
+  subsidy: Subsidy;
+  user: User;
+}
+
+export interface ReminderReport {
+  sent: number;
+  failed: Array<{ bookmarkId: number; channel: string; message: string }>;
+}
+
+/**
+ * When acceptance closes: the jGrants end datetime, or the end of the
+ * normalized deadline date in JST for subsidies without one
+ */
+export function deadlineOf(subsidy: Pick<Subsidy, 'acceptanceEnd' | 'deadlineDate'>): string | null {
+  if (subsidy.acceptanceEnd) return subsidy.acceptanceEnd;
+  return subsidy.deadlineDate ? `${subsidy.deadlineDate}T23:59:59+09:00` : null;
+}
+
+// SQLite CURRENT_TIMESTAMP values are UTC without a zone designator
+function parseTimestamp(value: string): number {
+  return Date.parse(/[zZ]|[+-]\d{2}:?\d{2}$/.test(value) ? value : `${value.replace(' ', 'T')}Z`);
+}
+
+function buildReminder(
+  entry: BookmarkEntry,
+  kind: Reminder['kind'],
+  eventAt: string,
+  baseUrl: string,
+  now: Date
+): Reminder {
+  const { bookmark, subsidy, user } = entry;
+  const url = new URL(subsidyPath(subsidy.jgrantsId), baseUrl).toString();
+  const footer = ['', url, '', 'ブックマークを解除すると、この補助金の通知は届かなくなります。'];
+
+  if (kind === 'opened') {
+    return {
+      kind,
+      bookmarkId: bookmark.id,
+      eventAt,
+      daysLeft: null,
+      user: { id: user.id, email: user.email },
+      subsidy: { jgrantsId: subsidy.jgrantsId, title: subsidy.title, url },
+      subject: `【受付開始】${subsidy.title}`,
+      text: [`ブックマークした補助金「${subsidy.title}」の申請受付が始まりました。`, ...footer].join('\n'),
+    };
+  }
+
+  const daysLeft = Math.max(0, Math.ceil((Date.parse(eventAt) - now.getTime()) / DAY_MS));
+  return {
+    kind,
+    bookmarkId: bookmark.id,
+    eventAt,
+    daysLeft,
+    user: { id: user.id, email: user.email },
+    subsidy: { jgrantsId: subsidy.jgrantsId, title: subsidy.title, url },
+    subject: `【締切まであと${daysLeft}日】${subsidy.title}`,
+    text: [
+      `ブックマークした補助金「${subsidy.title}」の申請受付は${toJstDate(eventAt)}に締め切られます（あと${daysLeft}日）。`,
+      ...footer,
+    ].join('\n'),
+  };
+}
+
+/**
+ * Reminders due at `now`, regardless of whether they were already delivered
+ */
+export function findDueReminders(entries: BookmarkEntry[], baseUrl: string, now: Date = new Date()): Reminder[] {
+  const reminders: Reminder[] = [];
+
+  for (const entry of entries) {
+    const deadline = deadlineOf(entry.subsidy);
+    const deadlineTime = deadline ? Date.parse(deadline) : null;
+    const accepting = deadlineTime === null || now.getTime() < deadlineTime;
+
+    // Only subsidies bookmarked before they opened get an opening notice
+    const start = entry.subsidy.acceptanceStart;
+    if (
+      start &&
+      accepting &&
+      now.getTime() >= Date.parse(start) &&
+      parseTimestamp(entry.bookmark.createdAt) < Date.parse(start)
+    ) {
+      reminders.push(buildReminder(entry, 'opened', start, baseUrl, now));
+    }
+
+    if (
+      deadline &&
+      deadlineTime !== null &&
+      accepting &&
+      now.getTime() >= deadlineTime - entry.bookmark.remindDaysBefore * DAY_MS
+    ) {
+      reminders.push(buildReminder(entry, 'deadline', deadline, baseUrl, now));
+    }
+  }
+
+  return reminders;
+}
+
+export interface SendRemindersOptions {
+  channels: NotificationChannel[];
+  // Origin used for links to subsidy pages, e.g. https://example.com
+  baseUrl: string;
+  now?: Date;
+}
+
+/**
+ * Deliver every due reminder on every channel it has not yet been sent on.
+ * A failed channel is retried on the next run. Runs must not overlap, since
+ * a delivery is only recorded once it has been sent.
+ */
+export async function sendDueReminders(
+  options: SendRemindersOptions
+): Promise<Result<ReminderReport, DatabaseError>> {
+  const entries = await bookmarkRepository.findOpen();
+  if (!entries.ok) return entries;
+
+  const report: ReminderReport = { sent: 0, failed: [] };
+  for (const reminder of findDueReminders(entries.value, options.baseUrl, options.now)) {
+    for (const channel of options.channels) {
+      const key = {
+        bookmarkId: reminder.bookmarkId,
+        kind: reminder.kind,
+        eventAt: reminder.eventAt,
+        channel: channel.name,
+      };
+
+      const delivered = await reminderDeliveryRepository.exists(key);
+      if (!delivered.ok) return delivered;
+      if (delivered.value) continue;
+
+      try {
+        await channel.send(reminder);
+      } catch (error) {
+        report.failed.push({
+          bookmarkId: reminder.bookmarkId,
+          channel: channel.name,
+          message: error instanceof Error ? error.message : String(error),
+        });
+        continue;
+      }
+
+      // The reminder went out either way; an unrecorded delivery may be sent again next run
+      const recorded = await reminderDeliveryRepository.create(key);
+      if (!recorded.ok) {
+        report.failed.push({
+          bookmarkId: reminder.bookmarkId,
+          channel: channel.name,
+          message: `Sent, but failed to record the delivery: ${recorded.error.message}`,
+        });
+        continue;
+      }
+      report.sent++;
+    }
+  }
+
+  return ok(report);
+}
@@ -0,0 +1,150 @@
+/**
+ * Lifecycle of assistant runs
+ * Each run is recorded in the runs table with its provider ID, final status,
+ * token usage and duration. A run is stopped when it outlives the configured
+ * timeout or when it is cancelled, e.g. from the chat's stop button or because
+ * the streaming client disconnected. Runs in progress are tracked in memory,
+ * so only the server process that started a run can cancel it.
+ */
+
+import { runRepository } from '../db.server';
+import { Result, ok, err } from '../types/result';
+import { AssistantError, createAssistantError } from '../types/errors';
+import type { ThreadId } from '../types/assistant';
+import type { LlmProvider, LlmRunResult, TokenUsage } from './llm/index.server';
+
+export interface RunManagerConfig {
+  // Runs still going after this long are cancelled and reported as RUN_TIMEOUT
+  timeoutMs: number;
+}
+
+export const DEFAULT_RUN_TIMEOUT_SECONDS = 120;
+
+/**
+ * Load the run timeout from LLM_RUN_TIMEOUT_SECONDS
+ */
+export function loadRunManagerConfig(
+  env: Record<string, string | undefined> = process.env
+): Result<RunManagerConfig, AssistantError> {
+  const value = env.LLM_RUN_TIMEOUT_SECONDS || String(DEFAULT_RUN_TIMEOUT_SECONDS);
+  const seconds = Number(value);
+  if (!Number.isFinite(seconds) || seconds <= 0) {
+    return err(createAssistantError(
+      'CONFIG_ERROR',
+      `LLM_RUN_TIMEOUT_SECONDS must be a positive number of seconds: ${value}`
+    ));
+  }
+  return ok({ timeoutMs: seconds * 1000 });
+}
+
+type RunUpdate = Parameters<typeof runRepository.update>[1];
+
+// Abort reasons of a run's signal
+const CANCELLED = 'cancelled';
+const TIMED_OUT = 'timeout';
+
+// Runs in progress in this process, by thread
+const activeRuns = new Map<ThreadId, AbortController>();
+
+export interface TrackedRun {
+  // For the provider; aborts when the run is cancelled or times out
+  signal: AbortSignal;
+  // Record the provider's ID for the run
+  onRunCreated(runId: string): void;
+  // Record how the run ended; a run stopped by the timeout is a RUN_TIMEOUT error
+  finish(result: LlmRunResult): Promise<Result<LlmRunResult, AssistantError>>;
+  // Record the failure the provider threw
+  fail(error: unknown): Promise<AssistantError>;
+}
+
+function usageColumns(usage: TokenUsage | null): RunUpdate {
+  return usage
+    ? { promptTokens: usage.promptTokens, completionTokens: usage.completionTokens, totalTokens: usage.totalTokens }
+    : {};
+}
+
+export function createRunManager(config: RunManagerConfig) {
+  function timeoutError(): AssistantError {
+    return createAssistantError(
+      'RUN_TIMEOUT',
+      `Run did not finish within ${config.timeoutMs / 1000} seconds`
+    );
+  }
+
+  /**
+   * Record a new run of the thread and start its timeout. The run's record
+   * is kept up to date until finish or fail is called. When `signal` aborts,
+   * e.g. because the client disconnected, the run is cancelled.
+   */
+  async function start(
+    threadId: ThreadId,
+    provider: Pick<LlmProvider, 'name' | 'model'>,
+    signal?: AbortSignal
+  ): Promise<Result<TrackedRun, AssistantError>> {
+    const created = await runRepository.create({ threadId, provider: provider.name, model: provider.model });
+    if (!created.ok) {
+      return err(createAssistantError('DATABASE_ERROR', created.error.message));
+    }
+
+    const runId = created.value.id;
+    const startedAt = Date.now();
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(TIMED_OUT), config.timeoutMs);
+    const release = () => controller.abort(CANCELLED);
+    if (signal?.aborted) release();
+    signal?.addEventListener('abort', release);
+    activeRuns.set(threadId, controller);
+
+    // Updates are written in order; a record that fails to update does not fail the run
+    let updates = Promise.resolve();
+    const update = (data: RunUpdate) => {
+      updates = updates.then(async () => {
+        const updated = await runRepository.update(runId, data);
+        if (!updated.ok) console.error(`Failed to record run ${runId}:`, updated.error.message);
+      });
+      return updates;
+    };
+
+    const end = (data: RunUpdate) => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', release);
+      if (activeRuns.get(threadId) === controller) activeRuns.delete(threadId);
+      return update({ ...data, durationMs: Date.now() - startedAt, completedAt: new Date().toISOString() });
+    };
+    const timedOut = () => controller.signal.reason === TIMED_OUT;
+
+    return ok({
+      signal: controller.signal,
+
+      onRunCreated(providerRunId) {
+        void update({ runId: providerRunId });
+      },
+
+      async finish(result) {
+        await end({ status: timedOut() ? 'expired' : result.status, ...usageColumns(result.usage) });
+        return timedOut() ? err(timeoutError()) : ok(result);
+      },
+
+      async fail(error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        await end({ status: timedOut() ? 'expired' : 'failed', error: message });
+        return timedOut()
+          ? timeoutError()
+          : createAssistantError('RUN_FAILED', `Failed to run assistant: ${message}`);
+      },
+    });
+  }
+
+  // Stop the thread's run in progress; false when it has none
+  function cancel(threadId: ThreadId): boolean {
+    const controller = activeRuns.get(threadId);
+    if (!controller) return false;
+
+    controller.abort(CANCELLED);
+    return true;
+  }
+
+  return { start, cancel };
+}
+
+export type RunManager = ReturnType<typeof createRunManager>;
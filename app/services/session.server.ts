@@ -0,0 +1,114 @@
+/**
+ * Cookie sessions and authorization helpers for routes
+ */
+
+import { createCookieSessionStorage, json, redirect } from '@remix-run/node';
+import { threadRepository, userRepository } from '../db.server';
+import type { Message, Thread, User } from '../db/schema';
+
+const SESSION_MAX_AGE_SECONDS = 60 * 60 * 24 * 30;
+
+function getSessionSecret(): string {
+  const secret = process.env.SESSION_SECRET;
+  if (secret) return secret;
+
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('SESSION_SECRET is not set in environment variables');
+  }
+  return 'development-session-secret';
+}
+
+export const sessionStorage = createCookieSessionStorage({
+  cookie: {
+    name: '__session',
+    httpOnly: true,
+    path: '/',
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    secrets: [getSessionSecret()],
+    maxAge: SESSION_MAX_AGE_SECONDS,
+  },
+});
+
+const USER_ID_KEY = 'userId';
+
+/**
+ * Only allow redirects to paths on this site (no `//evil.example` or absolute URLs)
+ */
+export function safeRedirect(to: FormDataEntryValue | string | null | undefined, fallback = '/'): string {
+  if (typeof to !== 'string' || !to.startsWith('/') || to.startsWith('//') || to.startsWith('/\\')) {
+    return fallback;
+  }
+  return to;
+}
+
+export async function getUserId(request: Request): Promise<string | null> {
+  const session = await sessionStorage.getSession(request.headers.get('Cookie'));
+  const userId = session.get(USER_ID_KEY);
+  return typeof userId === 'string' ? userId : null;
+}
+
+export async function getUser(request: Request): Promise<User | null> {
+  const userId = await getUserId(request);
+  if (!userId) return null;
+
+  const user = await userRepository.findUnique({ id: userId });
+  return user.ok ? user.value : null;
+}
+
+/**
+ * Signed-in user for page loaders; redirects to the login page otherwise
+ */
+export async function requireUser(request: Request): Promise<User> {
+  const user = await getUser(request);
+  if (!user) {
+    const url = new URL(request.url);
+    const params = new URLSearchParams({ redirectTo: `${url.pathname}${url.search}` });
+    throw redirect(`/login?${params}`);
+  }
+  return user;
+}
+
+/**
+ * Signed-in user for API routes; responds 401 otherwise
+ */
+export async function requireApiUser(request: Request): Promise<User> {
+  const user = await getUser(request);
+  if (!user) {
+    throw json({ error: 'Authentication required' }, { status: 401 });
+  }
+  return user;
+}
+
+export async function createUserSession(request: Request, userId: string, redirectTo: string) {
+  const session = await sessionStorage.getSession(request.headers.get('Cookie'));
+  session.set(USER_ID_KEY, userId);
+
+  return redirect(safeRedirect(redirectTo), {
+    headers: { 'Set-Cookie': await sessionStorage.commitSession(session) },
+  });
+}
+
+export async function logout(request: Request) {
+  const session = await sessionStorage.getSession(request.headers.get('Cookie'));
+
+  return redirect('/login', {
+    headers: { 'Set-Cookie': await sessionStorage.destroySession(session) },
+  });
+}
+
+/**
+ * The thread with its messages if it belongs to the user. Threads of other
+ * users are reported the same as missing ones so their IDs are not disclosed.
+ */
+export async function findOwnedThread(
+  threadId: string,
+  userId: string
+): Promise<(Thread & { messages: Message[] }) | null> {
+  const thread = await threadRepository.findUnique(threadId);
+  if (!thread.ok) {
+    if (thread.error.type === 'NOT_FOUND') return null;
+    throw new Error(thread.error.message);
+  }
+  return thread.value.userId === userId ? thread.value : null;
+}
@@ -1,4 +1,7 @@
-interface SubsidySummary {
+import { Result, ok, err, mapResult } from "../../types/result";
+import { ApiError, createApiError } from "../../types/errors";
+
+export interface SubsidySummary {
   id: string;
   name: string;
   title?: string;
@@ -9,7 +12,7 @@ interface SubsidySummary {
   target_number_of_employees?: string;
 }
 
-interface SubsidyDetail extends SubsidySummary {
+export interface SubsidyDetail extends SubsidySummary {
   subsidy_catch_phrase?: string;
   detail?: string;
   use_purpose?: string;
@@ -44,77 +47,433 @@ interface ApiResponse<T> {
   result: T[];
 }
 
+/**
+ * 補助金一覧の検索条件（jGrants APIのクエリパラメータに対応）
+ */
+export interface JGrantsQuery {
+  // jGrantsでは2文字以上のキーワードが必須
+  keyword: string;
+  sort?: "created_date" | "acceptance_start_datetime" | "acceptance_end_datetime";
+  order?: "ASC" | "DESC";
+  // true: 募集期間内のもののみ / false: すべて
+  acceptingOnly?: boolean;
+  targetArea?: string;
+  industry?: string;
+  usePurpose?: string;
+  targetNumberOfEmployees?: string;
+}
+
 const API_BASE_URL = "https://api.jgrants-portal.go.jp/exp/v1/public";
 
+export const TOKYO_QUERY: JGrantsQuery = {
+  keyword: "東京",
+  sort: "acceptance_end_datetime",
+  order: "ASC",
+  acceptingOnly: true,
+  targetArea: "東京都",
+};
+
+/**
+ * Progress of a detail fetch, persisted so an interrupted run can resume
+ * without re-requesting details it already has.
+ */
+export interface DetailFetchCheckpoint {
+  details: SubsidyDetail[];
+  updatedAt: string;
+}
+
+export interface CheckpointStore {
+  load(): Promise<DetailFetchCheckpoint | null>;
+  save(checkpoint: DetailFetchCheckpoint): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export interface JGrantsClientOptions {
+  baseUrl?: string;
+  // Number of detail requests in flight at once
+  concurrency?: number;
+  // Token bucket: sustained request rate and burst size
+  requestsPerSecond?: number;
+  burst?: number;
+  // Retries on 429, 5xx, timeouts and network errors (exponential backoff)
+  maxRetries?: number;
+  retryBaseDelayMs?: number;
+  retryMaxDelayMs?: number;
+  timeoutMs?: number;
+  // Save the checkpoint after this many completed detail requests
+  checkpointInterval?: number;
+  // Checkpoints older than this are ignored instead of resumed
+  checkpointMaxAgeMs?: number;
+  checkpointStore?: CheckpointStore;
+  fetch?: typeof fetch;
+  // Clock and timer hooks, overridable in tests
+  now?: () => number;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+export interface DetailFetchResult {
+  details: SubsidyDetail[];
+  failed: Array<{ id: string; error: ApiError }>;
+  // Details restored from the checkpoint instead of requested again
+  resumed: number;
+}
+
+const defaultSleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+function buildQueryParams(query: JGrantsQuery): URLSearchParams {
+  const params = new URLSearchParams({
+    keyword: query.keyword,
+    sort: query.sort ?? "acceptance_end_datetime",
+    order: query.order ?? "ASC",
+    acceptance: query.acceptingOnly === false ? "0" : "1",
+  });
+
+  if (query.targetArea) params.set("target_area_search", query.targetArea);
+  if (query.industry) params.set("industry", query.industry);
+  if (query.usePurpose) params.set("use_purpose", query.usePurpose);
+  if (query.targetNumberOfEmployees) {
+    params.set("target_number_of_employees", query.targetNumberOfEmployees);
+  }
+
+  return params;
+}
+
+function isRetryable(error: ApiError): boolean {
+  return (
+    error.type === "RATE_LIMITED" ||
+    error.type === "SERVER_ERROR" ||
+    error.type === "TIMEOUT" ||
+    error.type === "NETWORK_ERROR"
+  );
+}
+
+function errorForStatus(status: number, message: string): ApiError {
+  if (status === 429) return createApiError("RATE_LIMITED", message);
+  if (status === 404) return createApiError("NOT_FOUND", message);
+  if (status === 401 || status === 403) return createApiError("UNAUTHORIZED", message);
+  if (status >= 500) return createApiError("SERVER_ERROR", message);
+  return createApiError("VALIDATION_ERROR", message);
+}
+
+// Retry-After is either delta-seconds or an HTTP date
+function parseRetryAfter(value: string | null, now: number): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Token bucket shared by every request made through one client
+ */
+class TokenBucket {
+  private tokens: number;
+  private lastRefill: number;
+
+  constructor(
+    private readonly ratePerSecond: number,
+    private readonly capacity: number,
+    private readonly now: () => number,
+    private readonly sleep: (ms: number) => Promise<void>
+  ) {
+    this.tokens = capacity;
+    this.lastRefill = now();
+  }
+
+  async take(): Promise<void> {
+    for (;;) {
+      const current = this.now();
+      const elapsed = (current - this.lastRefill) / 1000;
+      this.tokens = Math.min(this.capacity, this.tokens + elapsed * this.ratePerSecond);
+      this.lastRefill = current;
+
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+      await this.sleep(Math.ceil(((1 - this.tokens) / this.ratePerSecond) * 1000));
+    }
+  }
+}
+
 export class JGrantsApiClient {
+  private readonly baseUrl: string;
+  private readonly concurrency: number;
+  private readonly maxRetries: number;
+  private readonly retryBaseDelayMs: number;
+  private readonly retryMaxDelayMs: number;
+  private readonly timeoutMs: number;
+  private readonly checkpointInterval: number;
+  private readonly checkpointMaxAgeMs: number;
+  private readonly checkpointStore?: CheckpointStore;
+  private readonly fetchFn: typeof fetch;
+  private readonly now: () => number;
+  private readonly sleep: (ms: number) => Promise<void>;
+  private readonly bucket: TokenBucket;
+  private checkpointWrites: Promise<void> = Promise.resolve();
+
+  constructor(options: JGrantsClientOptions = {}) {
+    this.baseUrl = options.baseUrl ?? API_BASE_URL;
+    this.concurrency = Math.max(1, options.concurrency ?? 4);
+    this.maxRetries = options.maxRetries ?? 3;
+    this.retryBaseDelayMs = options.retryBaseDelayMs ?? 1000;
+    this.retryMaxDelayMs = options.retryMaxDelayMs ?? 30000;
+    this.timeoutMs = options.timeoutMs ?? 30000;
+    this.checkpointInterval = Math.max(1, options.checkpointInterval ?? 5);
+    this.checkpointMaxAgeMs = options.checkpointMaxAgeMs ?? 24 * 60 * 60 * 1000;
+    this.checkpointStore = options.checkpointStore;
+    this.fetchFn = options.fetch ?? ((input, init) => fetch(input, init));
+    this.now = options.now ?? Date.now;
+    this.sleep = options.sleep ?? defaultSleep;
+    this.bucket = new TokenBucket(
+      options.requestsPerSecond ?? 2,
+      Math.max(1, options.burst ?? this.concurrency),
+      this.now,
+      this.sleep
+    );
+  }
+
+  /**
+   * Single GET with timeout; no retries
+   */
+  private async requestOnce<T>(
+    path: string
+  ): Promise<{ result: Result<ApiResponse<T>, ApiError>; retryAfterMs?: number }> {
+    await this.bucket.take();
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+    try {
+      const response = await this.fetchFn(`${this.baseUrl}${path}`, {
+        method: "GET",
+        headers: {
+          Accept: "application/json",
+          "Content-Type": "application/json",
+        },
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        const error = errorForStatus(
+          response.status,
+          `API request failed: ${response.status} ${response.statusText}`
+        );
+        return {
+          result: err(error),
+          retryAfterMs: parseRetryAfter(response.headers.get("Retry-After"), this.now()),
+        };
+      }
+
+      try {
+        return { result: ok(await response.json()) };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        return { result: err(createApiError("SERVER_ERROR", `Invalid JSON response: ${message}`)) };
+      }
+    } catch (error) {
+      if (controller.signal.aborted) {
+        return { result: err(createApiError("TIMEOUT", `API request timed out after ${this.timeoutMs}ms`)) };
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      return { result: err(createApiError("NETWORK_ERROR", `API request failed: ${message}`)) };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * GET with exponential backoff on retryable failures
+   */
+  private async request<T>(path: string): Promise<Result<ApiResponse<T>, ApiError>> {
+    for (let attempt = 0; ; attempt++) {
+      const { result, retryAfterMs } = await this.requestOnce<T>(path);
+      if (result.ok || !isRetryable(result.error) || attempt >= this.maxRetries) {
+        return result;
+      }
+
+      const backoff = Math.min(this.retryMaxDelayMs, this.retryBaseDelayMs * 2 ** attempt);
+      await this.sleep(Math.max(backoff, retryAfterMs ?? 0));
+    }
+  }
+
+  /**
+   * 条件を指定して補助金一覧を取得
+   *
+   * jGrantsの一覧APIはページングを持たず、条件に合う全件を1回で返す
+   */
+  async fetchSubsidies(query: JGrantsQuery): Promise<Result<SubsidySummary[], ApiError>> {
+    const result = await this.request<SubsidySummary>(`/subsidies?${buildQueryParams(query)}`);
+    return mapResult(result, (data) => data.result);
+  }
+
   /**
    * 東京都の補助金一覧を取得
    */
-  async fetchTokyoSubsidies(): Promise<SubsidySummary[]> {
-    const params = new URLSearchParams({
-      keyword: "東京",
-      sort: "acceptance_end_datetime",
-      order: "ASC",
-      acceptance: "1", // 募集期間内のものに絞る
-      target_area_search: "東京都",
-    });
+  async fetchTokyoSubsidies(): Promise<Result<SubsidySummary[], ApiError>> {
+    return this.fetchSubsidies(TOKYO_QUERY);
+  }
 
-    const response = await fetch(`${API_BASE_URL}/subsidies?${params}`, {
-      method: "GET",
-      headers: {
-        Accept: "application/json",
-        "Content-Type": "application/json",
-      },
-    });
+  /**
+   * 複数の検索条件で一覧を取得し、jGrants IDで重複を除いて結合
+   *
+   * いずれかの条件で失敗した場合は部分的な一覧を返さずにエラーとする
+   */
+  async fetchSubsidiesForQueries(
+    queries: JGrantsQuery[]
+  ): Promise<Result<SubsidySummary[], ApiError>> {
+    const merged = new Map<string, SubsidySummary>();
+
+    for (const query of queries) {
+      const result = await this.fetchSubsidies(query);
+      if (!result.ok) return result;
 
-    if (!response.ok) {
-      throw new Error(
-        `API request failed: ${response.status} ${response.statusText}`
-      );
+      for (const subsidy of result.value) {
+        if (!merged.has(subsidy.id)) {
+          merged.set(subsidy.id, subsidy);
+        }
+      }
     }
 
-    const data: ApiResponse<SubsidySummary> = await response.json();
-    return data.result;
+    return ok([...merged.values()]);
   }
 
   /**
    * 補助金の詳細情報を取得
    */
-  async fetchSubsidyDetail(id: string): Promise<SubsidyDetail | null> {
-    const response = await fetch(`${API_BASE_URL}/subsidies/id/${id}`, {
-      method: "GET",
-      headers: {
-        Accept: "application/json",
-        "Content-Type": "application/json",
-      },
-    });
+  async fetchSubsidyDetail(id: string): Promise<Result<SubsidyDetail, ApiError>> {
+    const result = await this.request<SubsidyDetail>(`/subsidies/id/${encodeURIComponent(id)}`);
+    if (!result.ok) return result;
 
-    if (!response.ok) {
-      console.error(
-        `Failed to fetch subsidy detail for ID ${id}: ${response.status}`
-      );
-      return null;
+    const detail = result.value.result[0];
+    if (!detail) {
+      return err(createApiError("NOT_FOUND", `Subsidy not found: ${id}`));
+    }
+    return ok(detail);
+  }
+
+  /**
+   * 一覧で取得した補助金の詳細情報をまとめて取得
+   *
+   * 個別の失敗は `failed` に集約する。チェックポイントがあれば取得済みの
+   * 詳細を再利用する（`checkpointMaxAgeMs` より古いものは使わない）。
+   * 再試行で解消しうる失敗が残らなければチェックポイントを削除する。
+   */
+  async fetchSubsidyDetails(
+    subsidies: SubsidySummary[]
+  ): Promise<Result<DetailFetchResult, ApiError>> {
+    const ids = [...new Set(subsidies.map((subsidy) => subsidy.id))];
+    const fetched = new Map<string, SubsidyDetail>();
+
+    const checkpoint = await this.loadCheckpoint();
+    for (const detail of checkpoint?.details ?? []) {
+      if (ids.includes(detail.id)) fetched.set(detail.id, detail);
+    }
+    const resumed = fetched.size;
+
+    const pending = ids.filter((id) => !fetched.has(id));
+    const failed: DetailFetchResult["failed"] = [];
+    let completed = 0;
+    let fatal: ApiError | undefined;
+
+    const worker = async () => {
+      while (pending.length > 0 && !fatal) {
+        const id = pending.shift()!;
+        const result = await this.fetchSubsidyDetail(id);
+
+        if (result.ok) {
+          fetched.set(id, result.value);
+        } else if (result.error.type === "UNAUTHORIZED") {
+          // Every remaining request would fail the same way
+          fatal = result.error;
+        } else {
+          failed.push({ id, error: result.error });
+        }
+
+        completed++;
+        if (completed % this.checkpointInterval === 0) {
+          await this.saveCheckpoint(fetched);
+        }
+      }
+    };
+
+    await Promise.all(
+      Array.from({ length: Math.min(this.concurrency, pending.length) }, worker)
+    );
+
+    if (fatal) {
+      await this.saveCheckpoint(fetched);
+      return err(fatal);
+    }
+
+    // NOT_FOUND and VALIDATION_ERROR fail the same way on a rerun, so they do not keep the checkpoint
+    if (failed.some(({ error }) => isRetryable(error))) {
+      await this.saveCheckpoint(fetched);
+    } else {
+      await this.clearCheckpoint();
     }
 
-    const data: ApiResponse<SubsidyDetail> = await response.json();
-    return data.result[0] || null;
+    // Keep the order of the input list
+    const details = ids
+      .map((id) => fetched.get(id))
+      .filter((detail): detail is SubsidyDetail => detail !== undefined);
+
+    return ok({ details, failed, resumed });
   }
 
   /**
    * 東京都の全補助金の詳細情報を取得
    */
-  async fetchAllTokyoSubsidyDetails(): Promise<SubsidyDetail[]> {
-    // まず一覧を取得
+  async fetchAllTokyoSubsidyDetails(): Promise<Result<DetailFetchResult, ApiError>> {
     const subsidies = await this.fetchTokyoSubsidies();
+    if (!subsidies.ok) return subsidies;
+    return this.fetchSubsidyDetails(subsidies.value);
+  }
 
-    // 各補助金の詳細を並行して取得
-    const detailPromises = subsidies.map((subsidy) =>
-      this.fetchSubsidyDetail(subsidy.id)
-    );
+  // Checkpoints only speed up reruns, so storage errors never fail a fetch
+  private async loadCheckpoint(): Promise<DetailFetchCheckpoint | null> {
+    if (!this.checkpointStore) return null;
+    try {
+      const checkpoint = await this.checkpointStore.load();
+      if (!checkpoint) return null;
 
-    const details = await Promise.all(detailPromises);
+      const age = this.now() - Date.parse(checkpoint.updatedAt);
+      // An unparseable timestamp is treated as stale
+      if (!(age <= this.checkpointMaxAgeMs)) return null;
+      return checkpoint;
+    } catch (error) {
+      console.error("Failed to load fetch checkpoint:", error);
+      return null;
+    }
+  }
 
-    // nullを除外して返す
-    return details.filter((detail): detail is SubsidyDetail => detail !== null);
+  private async saveCheckpoint(fetched: Map<string, SubsidyDetail>): Promise<void> {
+    const checkpoint: DetailFetchCheckpoint = {
+      details: [...fetched.values()],
+      updatedAt: new Date(this.now()).toISOString(),
+    };
+    await this.writeCheckpoint("save", (store) => store.save(checkpoint));
+  }
+
+  private async clearCheckpoint(): Promise<void> {
+    await this.writeCheckpoint("clear", (store) => store.clear());
+  }
+
+  // Concurrent workers save checkpoints, so writes are chained to run one at a time in call order
+  private writeCheckpoint(
+    action: string,
+    write: (store: CheckpointStore) => Promise<void>
+  ): Promise<void> {
+    const store = this.checkpointStore;
+    if (!store) return Promise.resolve();
+
+    this.checkpointWrites = this.checkpointWrites.then(async () => {
+      try {
+        await write(store);
+      } catch (error) {
+        console.error(`Failed to ${action} fetch checkpoint:`, error);
+      }
+    });
+    return this.checkpointWrites;
   }
 }
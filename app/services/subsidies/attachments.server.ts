@@ -0,0 +1,282 @@
+/**
+ * jGrants attachment storage and text extraction
+ * Decodes the base64 application guidelines / outline / forms attached to a
+ * subsidy detail, stores them under data/attachments and extracts their text
+ * so the subsidy markdown (and therefore the vector store) can include it.
+ */
+
+import { createHash } from 'crypto';
+import { mkdir, unlink, writeFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import { extname, join, relative, resolve } from 'path';
+import { subsidyAttachmentRepository } from '../../db.server';
+import type { SubsidyAttachment } from '../../db/schema';
+import { Result, ok } from '../../types/result';
+import type { DatabaseError } from '../../types/errors';
+import type { SubsidyDetail } from './api-server';
+
+export type AttachmentCategory = SubsidyAttachment['category'];
+
+export const ATTACHMENT_CATEGORY_LABELS: Record<AttachmentCategory, string> = {
+  application_guidelines: '公募要領',
+  outline_of_grant: '交付要綱',
+  application_form: '申請様式',
+};
+
+const ATTACHMENT_CATEGORIES = Object.keys(ATTACHMENT_CATEGORY_LABELS) as AttachmentCategory[];
+
+export interface AttachmentDigest {
+  category: AttachmentCategory;
+  name: string;
+  sha256: string;
+}
+
+export interface ExtractionResult {
+  status: SubsidyAttachment['extractionStatus'];
+  mimeType: string | null;
+  text: string | null;
+  error: string | null;
+}
+
+export interface AttachmentStoreOptions {
+  // Defaults to data/attachments under the working directory
+  baseDir?: string;
+}
+
+export interface AttachmentStoreReport {
+  saved: SubsidyAttachment[];
+  unchanged: SubsidyAttachment[];
+  removed: string[];
+  failed: Array<{ name: string; message: string }>;
+}
+
+interface DecodedAttachment extends AttachmentDigest {
+  data: Buffer;
+}
+
+const MIME_TYPES: Record<string, string> = {
+  '.pdf': 'application/pdf',
+  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  '.doc': 'application/msword',
+  '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  '.xlsm': 'application/vnd.ms-excel.sheet.macroEnabled.12',
+  '.xls': 'application/vnd.ms-excel',
+  '.txt': 'text/plain',
+  '.csv': 'text/csv',
+};
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// Collapse runs of blank lines and trailing spaces left by the extractors
+function cleanExtractedText(text: string): string {
+  return text
+    .split('\n')
+    .map((line) => line.replace(/[ \t　]+$/, ''))
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * File name safe for every platform; keeps Japanese characters as-is
+ */
+export function sanitizeFileName(name: string): string {
+  const sanitized = name
+    .replace(/[\\/:*?"<>|\x00-\x1f]/g, '_')
+    .replace(/^\.+/, '')
+    .trim();
+  return sanitized || 'attachment';
+}
+
+function detectExtension(name: string, data: Buffer): string {
+  const extension = extname(name).toLowerCase();
+  if (extension) return extension;
+  if (data.subarray(0, 5).toString('latin1') === '%PDF-') return '.pdf';
+  return '';
+}
+
+async function extractPdfText(data: Buffer): Promise<string> {
+  const { extractText, getDocumentProxy } = await import('unpdf');
+  const pdf = await getDocumentProxy(new Uint8Array(data));
+  const { text } = await extractText(pdf, { mergePages: true });
+  return text;
+}
+
+async function extractDocxText(data: Buffer): Promise<string> {
+  const mammoth = await import('mammoth');
+  const { value } = await mammoth.extractRawText({ buffer: data });
+  return value;
+}
+
+// Quote a CSV field when it contains a delimiter, quote or line break
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+async function extractSpreadsheetText(data: Buffer): Promise<string> {
+  // exceljs is CommonJS, so Node's ESM loader only exposes it as the default export
+  const { Workbook } = (await import('exceljs')).default;
+  const workbook = new Workbook();
+  await workbook.xlsx.load(data);
+
+  return workbook.worksheets.map((worksheet) => {
+    const rows: string[] = [];
+    worksheet.eachRow((row) => {
+      const cells: string[] = [];
+      for (let column = 1; column <= row.cellCount; column++) {
+        cells.push(csvField(row.getCell(column).text));
+      }
+      rows.push(cells.join(','));
+    });
+    return `【${worksheet.name}】\n${rows.join('\n')}`;
+  }).join('\n\n');
+}
+
+/**
+ * Extract plain text from a PDF, Word (.docx) or Excel attachment.
+ * Formats without an extractor (e.g. legacy .doc and .xls, images) are reported as unsupported.
+ */
+export async function extractAttachmentText(name: string, data: Buffer): Promise<ExtractionResult> {
+  const extension = detectExtension(name, data);
+  const mimeType = MIME_TYPES[extension] ?? null;
+
+  const extractors: Record<string, (data: Buffer) => Promise<string>> = {
+    '.pdf': extractPdfText,
+    '.docx': extractDocxText,
+    '.xlsx': extractSpreadsheetText,
+    '.xlsm': extractSpreadsheetText,
+    '.txt': async (buffer) => buffer.toString('utf-8'),
+    '.csv': async (buffer) => buffer.toString('utf-8'),
+  };
+
+  const extractor = extractors[extension];
+  if (!extractor) {
+    return { status: 'unsupported', mimeType, text: null, error: null };
+  }
+
+  try {
+    const text = cleanExtractedText(await extractor(data));
+    return { status: 'extracted', mimeType, text, error: null };
+  } catch (error) {
+    return { status: 'failed', mimeType, text: null, error: errorMessage(error) };
+  }
+}
+
+function decodeAttachments(detail: SubsidyDetail): DecodedAttachment[] {
+  const decoded: DecodedAttachment[] = [];
+
+  for (const category of ATTACHMENT_CATEGORIES) {
+    for (const attachment of detail[category] ?? []) {
+      if (!attachment.name || !attachment.data) continue;
+
+      const data = Buffer.from(attachment.data, 'base64');
+      decoded.push({
+        category,
+        name: attachment.name,
+        sha256: createHash('sha256').update(data).digest('hex'),
+        data,
+      });
+    }
+  }
+
+  return decoded;
+}
+
+function compareDigests(a: AttachmentDigest, b: AttachmentDigest): number {
+  return `${a.category}/${a.name}`.localeCompare(`${b.category}/${b.name}`);
+}
+
+/**
+ * Identity of every attachment in a detail, in a stable order.
+ * Used by the sync to detect attachment changes without touching the disk.
+ */
+export function digestAttachments(detail: SubsidyDetail): AttachmentDigest[] {
+  return decodeAttachments(detail)
+    .map(({ category, name, sha256 }) => ({ category, name, sha256 }))
+    .sort(compareDigests);
+}
+
+export function digestStoredAttachments(attachments: SubsidyAttachment[]): AttachmentDigest[] {
+  return attachments
+    .map(({ category, name, sha256 }) => ({ category, name, sha256 }))
+    .sort(compareDigests);
+}
+
+/**
+ * Write the attachments of a subsidy detail to disk and record them in
+ * subsidy_attachments. Unchanged files (same SHA-256) are not re-extracted,
+ * and attachments no longer present in the detail are removed.
+ */
+export async function storeSubsidyAttachments(
+  detail: SubsidyDetail,
+  options: AttachmentStoreOptions = {}
+): Promise<Result<AttachmentStoreReport, DatabaseError>> {
+  const baseDir = options.baseDir ?? join(process.cwd(), 'data', 'attachments');
+  const report: AttachmentStoreReport = { saved: [], unchanged: [], removed: [], failed: [] };
+
+  const existingResult = await subsidyAttachmentRepository.findMany(detail.id);
+  if (!existingResult.ok) return existingResult;
+  const existing = existingResult.value;
+
+  const attachments = decodeAttachments(detail);
+  const subsidyDir = join(baseDir, sanitizeFileName(detail.id));
+
+  for (const attachment of attachments) {
+    const absolutePath = join(subsidyDir, attachment.category, sanitizeFileName(attachment.name));
+    const previous = existing.find(
+      (row) => row.category === attachment.category && row.name === attachment.name
+    );
+
+    if (previous && previous.sha256 === attachment.sha256 && existsSync(resolve(previous.filePath))) {
+      report.unchanged.push(previous);
+      continue;
+    }
+
+    try {
+      await mkdir(join(subsidyDir, attachment.category), { recursive: true });
+      await writeFile(absolutePath, attachment.data);
+    } catch (error) {
+      report.failed.push({ name: attachment.name, message: errorMessage(error) });
+      continue;
+    }
+
+    const extraction = await extractAttachmentText(attachment.name, attachment.data);
+    const saved = await subsidyAttachmentRepository.upsert({
+      jgrantsId: detail.id,
+      category: attachment.category,
+      name: attachment.name,
+      filePath: relative(process.cwd(), absolutePath),
+      mimeType: extraction.mimeType,
+      size: attachment.data.length,
+      sha256: attachment.sha256,
+      extractedText: extraction.text,
+      extractionStatus: extraction.status,
+      extractionError: extraction.error,
+    });
+
+    if (saved.ok) {
+      report.saved.push(saved.value);
+    } else {
+      report.failed.push({ name: attachment.name, message: saved.error.message });
+    }
+  }
+
+  for (const row of existing) {
+    const stillAttached = attachments.some(
+      (attachment) => attachment.category === row.category && attachment.name === row.name
+    );
+    if (stillAttached) continue;
+
+    const deleted = await subsidyAttachmentRepository.delete(row.id);
+    if (!deleted.ok) {
+      report.failed.push({ name: row.name, message: deleted.error.message });
+      continue;
+    }
+    await unlink(resolve(row.filePath)).catch(() => undefined);
+    report.removed.push(row.name);
+  }
+
+  return ok(report);
+}
@@ -0,0 +1,33 @@
+/**
+ * File-backed checkpoints for resumable jGrants detail fetches
+ */
+
+import { randomUUID } from 'crypto';
+import { existsSync } from 'fs';
+import { mkdir, readFile, rename, unlink, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import type { CheckpointStore, DetailFetchCheckpoint } from './api-server';
+
+export function createFileCheckpointStore(filePath: string): CheckpointStore {
+  return {
+    async load(): Promise<DetailFetchCheckpoint | null> {
+      if (!existsSync(filePath)) return null;
+      return JSON.parse(await readFile(filePath, 'utf-8'));
+    },
+
+    async save(checkpoint: DetailFetchCheckpoint): Promise<void> {
+      await mkdir(dirname(filePath), { recursive: true });
+      // Write to a temp file first so an interrupted save never corrupts the checkpoint;
+      // the name is unique per write so overlapping saves never share a temp file
+      const tempPath = `${filePath}.${randomUUID()}.tmp`;
+      await writeFile(tempPath, JSON.stringify(checkpoint, null, 2));
+      await rename(tempPath, filePath);
+    },
+
+    async clear(): Promise<void> {
+      if (existsSync(filePath)) {
+        await unlink(filePath);
+      }
+    },
+  };
+}
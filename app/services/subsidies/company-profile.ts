@@ -0,0 +1,249 @@
+/**
+ * Business profiles used to personalize recommendations and pre-filter search
+ * Values use the jGrants vocabulary for target_area_search, industry,
+ * target_number_of_employees and use_purpose so they can be matched against
+ * imported subsidies directly.
+ */
+
+import { Result, ok, err } from '../../types/result';
+import { ApiError, createApiError } from '../../types/errors';
+import type { SubsidySearchFilters } from '../../types/subsidy';
+import { formatYen } from './normalize';
+
+export interface CompanyProfileInput {
+  prefecture: string | null;
+  industry: string | null;
+  employeeCount: number | null;
+  // Yen
+  capital: number | null;
+  // ISO date (YYYY-MM-DD)
+  foundedOn: string | null;
+  investmentPurpose: string | null;
+}
+
+// jGrants target_area_search regions and the prefectures they cover
+export const JGRANTS_REGIONS: Record<string, string[]> = {
+  '北海道地方': ['北海道'],
+  '東北地方': ['青森県', '岩手県', '宮城県', '秋田県', '山形県', '福島県'],
+  '関東・甲信越地方': ['茨城県', '栃木県', '群馬県', '埼玉県', '千葉県', '東京都', '神奈川県', '新潟県', '山梨県', '長野県'],
+  '東海・北陸地方': ['富山県', '石川県', '福井県', '岐阜県', '静岡県', '愛知県', '三重県'],
+  '近畿地方': ['滋賀県', '京都府', '大阪府', '兵庫県', '奈良県', '和歌山県'],
+  '中国地方': ['鳥取県', '島根県', '岡山県', '広島県', '山口県'],
+  '四国地方': ['徳島県', '香川県', '愛媛県', '高知県'],
+  '九州・沖縄地方': ['福岡県', '佐賀県', '長崎県', '熊本県', '大分県', '宮崎県', '鹿児島県', '沖縄県'],
+};
+
+export const NATIONWIDE_AREA = '全国';
+
+export const PREFECTURES = [
+  '北海道', '青森県', '岩手県', '宮城県', '秋田県', '山形県', '福島県',
+  '茨城県', '栃木県', '群馬県', '埼玉県', '千葉県', '東京都', '神奈川県',
+  '新潟県', '富山県', '石川県', '福井県', '山梨県', '長野県', '岐阜県',
+  '静岡県', '愛知県', '三重県', '滋賀県', '京都府', '大阪府', '兵庫県',
+  '奈良県', '和歌山県', '鳥取県', '島根県', '岡山県', '広島県', '山口県',
+  '徳島県', '香川県', '愛媛県', '高知県', '福岡県', '佐賀県', '長崎県',
+  '熊本県', '大分県', '宮崎県', '鹿児島県', '沖縄県',
+];
+
+export const JGRANTS_INDUSTRIES = [
+  '農業，林業',
+  '漁業',
+  '鉱業，採石業，砂利採取業',
+  '建設業',
+  '製造業',
+  '電気・ガス・熱供給・水道業',
+  '情報通信業',
+  '運輸業，郵便業',
+  '卸売業，小売業',
+  '金融業，保険業',
+  '不動産業，物品賃貸業',
+  '学術研究，専門・技術サービス業',
+  '宿泊業，飲食サービス業',
+  '生活関連サービス業，娯楽業',
+  '教育，学習支援業',
+  '医療，福祉',
+  '複合サービス事業',
+  'サービス業（他に分類されないもの）',
+  '公務（他に分類されるものを除く）',
+  '分類不能の産業',
+];
+
+export const JGRANTS_USE_PURPOSES = [
+  '新たな事業を行いたい',
+  '販路拡大・海外展開をしたい',
+  'イベント・事業運営支援がほしい',
+  '事業を引き継ぎたい',
+  '研究開発・実証事業を行いたい',
+  '人材育成を行いたい',
+  '資金繰りを改善したい',
+  '設備整備・IT導入をしたい',
+  '雇用・職場環境を改善したい',
+  'エコ・SDGs活動支援がほしい',
+  '災害（自然災害、感染症等）支援がほしい',
+  '教育・子育て・少子化支援がほしい',
+  'スポーツ・文化支援がほしい',
+  '安全・防災対策支援がほしい',
+  'まちづくり・地域振興支援がほしい',
+];
+
+export const NO_EMPLOYEE_LIMIT = '従業員数の制約なし';
+const EMPLOYEE_UPPER_LIMITS = [5, 20, 50, 100, 300, 900];
+const EMPLOYEE_LOWER_LIMIT = 901;
+
+// Every target_number_of_employees value jGrants uses
+export const JGRANTS_EMPLOYEE_LIMITS = [
+  NO_EMPLOYEE_LIMIT,
+  ...EMPLOYEE_UPPER_LIMITS.map((limit) => `${limit}名以下`),
+  `${EMPLOYEE_LOWER_LIMIT}名以上`,
+];
+
+/**
+ * Narrowest jGrants employee bracket a company of this size falls into
+ */
+export function employeeLimitFor(employeeCount: number): string {
+  const limit = EMPLOYEE_UPPER_LIMITS.find((upper) => employeeCount <= upper);
+  return limit !== undefined ? `${limit}名以下` : `${EMPLOYEE_LOWER_LIMIT}名以上`;
+}
+
+/**
+ * target_number_of_employees values whose subsidies a company of this size can apply for
+ */
+export function acceptedEmployeeLimits(employeeCount: number): string[] {
+  return [
+    NO_EMPLOYEE_LIMIT,
+    ...EMPLOYEE_UPPER_LIMITS.filter((upper) => employeeCount <= upper).map((upper) => `${upper}名以下`),
+    ...(employeeCount >= EMPLOYEE_LOWER_LIMIT ? [`${EMPLOYEE_LOWER_LIMIT}名以上`] : []),
+  ];
+}
+
+/**
+ * target_area_search values that cover a prefecture: itself, its region and 全国
+ */
+export function targetAreasFor(prefecture: string): string[] {
+  const region = Object.keys(JGRANTS_REGIONS).find((name) => JGRANTS_REGIONS[name].includes(prefecture));
+  return [NATIONWIDE_AREA, ...(region ? [region] : []), prefecture];
+}
+
+/**
+ * Structured search filters implied by a profile. Explicit filters from the
+ * request take precedence.
+ */
+export function applyCompanyProfile(
+  filters: SubsidySearchFilters,
+  profile: CompanyProfileInput
+): SubsidySearchFilters {
+  return {
+    ...filters,
+    targetArea: filters.targetArea ?? profile.prefecture ?? undefined,
+    industry: filters.industry ?? profile.industry ?? undefined,
+    usePurpose: filters.usePurpose ?? profile.investmentPurpose ?? undefined,
+    employeeCount: filters.employeeCount ?? profile.employeeCount ?? undefined,
+  };
+}
+
+function optionalField(form: FormData, name: string): string | null {
+  const value = form.get(name);
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+function parseChoice(
+  label: string,
+  value: string | null,
+  choices: string[]
+): Result<string | null, ApiError> {
+  if (value === null || choices.includes(value)) return ok(value);
+  return err(createApiError('VALIDATION_ERROR', `${label}の値が正しくありません`));
+}
+
+function parseCount(label: string, value: string | null): Result<number | null, ApiError> {
+  if (value === null) return ok(null);
+  const parsed = Number(value.replace(/,/g, ''));
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    return err(createApiError('VALIDATION_ERROR', `${label}は0以上の整数で入力してください`));
+  }
+  return ok(parsed);
+}
+
+/**
+ * Validate the profile form. Every field is optional; capital is entered in 万円.
+ */
+export function parseCompanyProfileForm(
+  form: FormData,
+  now: Date = new Date()
+): Result<CompanyProfileInput, ApiError> {
+  const prefecture = parseChoice('所在地', optionalField(form, 'prefecture'), PREFECTURES);
+  if (!prefecture.ok) return prefecture;
+
+  const industry = parseChoice('業種', optionalField(form, 'industry'), JGRANTS_INDUSTRIES);
+  if (!industry.ok) return industry;
+
+  const investmentPurpose = parseChoice(
+    '投資目的',
+    optionalField(form, 'investmentPurpose'),
+    JGRANTS_USE_PURPOSES
+  );
+  if (!investmentPurpose.ok) return investmentPurpose;
+
+  const employeeCount = parseCount('従業員数', optionalField(form, 'employeeCount'));
+  if (!employeeCount.ok) return employeeCount;
+
+  const capitalManYen = parseCount('資本金', optionalField(form, 'capital'));
+  if (!capitalManYen.ok) return capitalManYen;
+
+  const foundedOn = optionalField(form, 'foundedOn');
+  if (foundedOn !== null) {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(foundedOn) || Number.isNaN(Date.parse(foundedOn))) {
+      return err(createApiError('VALIDATION_ERROR', '設立日はYYYY-MM-DD形式で入力してください'));
+    }
+    if (foundedOn > now.toISOString().slice(0, 10)) {
+      return err(createApiError('VALIDATION_ERROR', '設立日に未来の日付は指定できません'));
+    }
+  }
+
+  return ok({
+    prefecture: prefecture.value,
+    industry: industry.value,
+    employeeCount: employeeCount.value,
+    capital: capitalManYen.value === null ? null : capitalManYen.value * 10000,
+    foundedOn,
+    investmentPurpose: investmentPurpose.value,
+  });
+}
+
+function yearsSince(isoDate: string, now: Date): number {
+  const founded = new Date(isoDate);
+  let years = now.getUTCFullYear() - founded.getUTCFullYear();
+  const anniversary = new Date(founded);
+  anniversary.setUTCFullYear(now.getUTCFullYear());
+  if (anniversary > now) years -= 1;
+  return Math.max(0, years);
+}
+
+/**
+ * Additional run instructions describing the user's business. Null when no
+ * field has been filled in.
+ */
+export function buildCompanyProfileInstructions(
+  profile: CompanyProfileInput,
+  now: Date = new Date()
+): string | null {
+  const lines: string[] = [];
+  if (profile.prefecture) lines.push(`- 所在地: ${profile.prefecture}`);
+  if (profile.industry) lines.push(`- 業種: ${profile.industry}`);
+  if (profile.employeeCount !== null) {
+    lines.push(`- 従業員数: ${profile.employeeCount}名（jGrantsの区分: ${employeeLimitFor(profile.employeeCount)}）`);
+  }
+  if (profile.capital !== null) lines.push(`- 資本金: ${formatYen(profile.capital)}`);
+  if (profile.foundedOn) {
+    lines.push(`- 設立日: ${profile.foundedOn}（設立${yearsSince(profile.foundedOn, now)}年）`);
+  }
+  if (profile.investmentPurpose) lines.push(`- 予定している投資の目的: ${profile.investmentPurpose}`);
+
+  if (lines.length === 0) return null;
+
+  return [
+    '以下はユーザーの事業者情報です。対象地域・業種・従業員数・資本金・創業年数の要件を満たす補助金を優先し、',
+    '要件を満たさない可能性がある場合はその理由を明記してください。登録済みの情報を改めて質問する必要はありません。',
+    ...lines,
+  ].join('\n');
+}
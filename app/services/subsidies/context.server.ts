@@ -0,0 +1,168 @@
+/**
+ * Run context for chat threads: the subsidy a thread was opened from, the
+ * user's business profile and the rule-based eligibility decision for the two
+ */
+
+import { companyProfileRepository, threadRepository, subsidyRepository } from '../../db.server';
+import { Result, ok } from '../../types/result';
+import type { DatabaseError } from '../../types/errors';
+import { FileStoreService } from '../filestore.server';
+import { buildCompanyProfileInstructions } from './company-profile';
+import { evaluateSubsidyEligibility, formatEligibilityInstructions } from './eligibility';
+
+// Keeps long attachment text from crowding out the File Search results
+export const MAX_SUBSIDY_CONTEXT_LENGTH = 12000;
+
+function parseThreadMetadata(metadata: string | null): Record<string, unknown> {
+  if (!metadata) return {};
+  try {
+    const parsed = JSON.parse(metadata);
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * jGrants ID a thread was scoped to when it was created, if any
+ */
+export async function findThreadSubsidyId(
+  threadId: string
+): Promise<Result<string | null, DatabaseError>> {
+  const thread = await threadRepository.findUnique(threadId);
+  if (!thread.ok) {
+    return thread.error.type === 'NOT_FOUND' ? ok(null) : thread;
+  }
+
+  const { jgrantsId } = parseThreadMetadata(thread.value.metadata);
+  return ok(typeof jgrantsId === 'string' && jgrantsId ? jgrantsId : null);
+}
+
+/**
+ * Additional run instructions that put a subsidy's markdown in front of the
+ * assistant. Null when the subsidy does not exist.
+ */
+export async function buildSubsidyContext(
+  jgrantsId: string,
+  fileStore: FileStoreService = new FileStoreService()
+): Promise<Result<string | null, DatabaseError>> {
+  const subsidy = await subsidyRepository.findUnique({ jgrantsId });
+  if (!subsidy.ok) return subsidy;
+  if (!subsidy.value) return ok(null);
+
+  const markdown =
+    (await fileStore.readSubsidyMarkdown(jgrantsId)) ??
+    (await fileStore.renderSubsidyMarkdown(subsidy.value));
+  const content = markdown.length > MAX_SUBSIDY_CONTEXT_LENGTH
+    ? `${markdown.slice(0, MAX_SUBSIDY_CONTEXT_LENGTH)}\n\n（以下省略）`
+    : markdown;
+
+  return ok([
+    `このスレッドでは、ユーザーは補助金「${subsidy.value.title}」（ID: ${jgrantsId}）について相談しています。`,
+    'この補助金を前提に回答し、他の補助金は比較や代替案として必要な場合にのみ提案してください。',
+    '',
+    `<subsidy id="${jgrantsId}">`,
+    content,
+    '</subsidy>',
+  ].join('\n'));
+}
+
+/**
+ * Subsidy context for the next run of a thread, or null for unscoped threads
+ */
+export async function loadThreadSubsidyContext(
+  threadId: string
+): Promise<Result<string | null, DatabaseError>> {
+  const jgrantsId = await findThreadSubsidyId(threadId);
+  if (!jgrantsId.ok || !jgrantsId.value) return jgrantsId;
+
+  return buildSubsidyContext(jgrantsId.value);
+}
+
+/**
+ * Business profile context for every run of a user's threads, or null when
+ * the user has not filled in a profile
+ */
+export async function loadCompanyProfileContext(
+  userId: string,
+  now: Date = new Date()
+): Promise<Result<string | null, DatabaseError>> {
+  const profile = await companyProfileRepository.findByUserId(userId);
+  if (!profile.ok || !profile.value) return profile.ok ? ok(null) : profile;
+
+  return ok(buildCompanyProfileInstructions(profile.value, now));
+}
+
+/**
+ * Eligibility decision for the subsidy a thread is scoped to, or null for
+ * unscoped threads and users without a business profile
+ */
+export async function loadThreadEligibilityContext(
+  threadId: string,
+  userId: string,
+  now: Date = new Date()
+): Promise<Result<string | null, DatabaseError>> {
+  const jgrantsId = await findThreadSubsidyId(threadId);
+  if (!jgrantsId.ok || !jgrantsId.value) return jgrantsId;
+
+  const profile = await companyProfileRepository.findByUserId(userId);
+  if (!profile.ok || !profile.value) return profile.ok ? ok(null) : profile;
+
+  const subsidy = await subsidyRepository.findUnique({ jgrantsId: jgrantsId.value });
+  if (!subsidy.ok || !subsidy.value) return subsidy.ok ? ok(null) : subsidy;
+
+  const evaluation = evaluateSubsidyEligibility(profile.value, subsidy.value, now);
+  return ok(formatEligibilityInstructions(subsidy.value.title, evaluation));
+}
+
+const ADDITIONAL_INSTRUCTIONS = `
+      あなたは日本の補助金・助成金の専門アドバイザーです。
+      ユーザーの質問に対して、File Searchツールを使用して関連する補助金情報を検索し、
+      適切な補助金を提案してください。
+
+      回答する際は：
+      1. ユーザーのニーズに最も適した補助金を優先的に提案する
+      2. 各補助金の概要、対象者、金額、申請期限を明確に説明する
+      3. 申請に必要な要件や注意点も含める
+      4. 必要に応じて複数の選択肢を提示する
+
+      常に日本語で回答してください。
+    `;
+
+/**
+ * Additional instructions for a run on a chat thread. Threads opened from a
+ * subsidy page carry that subsidy and the user's eligibility for it into
+ * every run; the business profile personalizes every run. Without a user
+ * (e.g. from the CLI) only the subsidy context is added. Context that fails
+ * to load is logged and left out rather than failing the run.
+ */
+export async function buildRunInstructions(threadId: string, userId?: string): Promise<string> {
+  const sections = [ADDITIONAL_INSTRUCTIONS];
+
+  if (userId) {
+    const profile = await loadCompanyProfileContext(userId);
+    if (!profile.ok) {
+      console.error('Failed to load company profile:', profile.error);
+    } else if (profile.value) {
+      sections.push(profile.value);
+    }
+  }
+
+  const context = await loadThreadSubsidyContext(threadId);
+  if (!context.ok) {
+    console.error('Failed to load subsidy context:', context.error);
+  } else if (context.value) {
+    sections.push(context.value);
+  }
+
+  if (userId) {
+    const eligibility = await loadThreadEligibilityContext(threadId, userId);
+    if (!eligibility.ok) {
+      console.error('Failed to evaluate eligibility:', eligibility.error);
+    } else if (eligibility.value) {
+      sections.push(eligibility.value);
+    }
+  }
+
+  return sections.join('\n');
+}
@@ -0,0 +1,243 @@
+/**
+ * Deterministic eligibility rules for subsidies
+ * Criteria are parsed once from the jGrants fields into EligibilityRules and
+ * evaluated against a company profile, with a reason for every criterion so
+ * a decision can be explained and unit tested.
+ */
+
+import type { NewSubsidy, Subsidy } from '../../db/schema';
+import type {
+  CriterionResult,
+  EligibilityResult,
+  EligibilityRules,
+  EligibilityStatus,
+  FoundingAgeRule,
+} from '../../types/eligibility';
+import { NO_EMPLOYEE_LIMIT, targetAreasFor, type CompanyProfileInput } from './company-profile';
+import { normalizeWidth, toJstDate } from './normalize';
+
+export type EligibilitySource = Partial<Pick<
+  NewSubsidy,
+  | 'description'
+  | 'requirements'
+  | 'targetAudience'
+  | 'targetAreaDetail'
+  | 'targetAreas'
+  | 'industries'
+  | 'targetNumberOfEmployees'
+  | 'acceptanceStart'
+  | 'acceptanceEnd'
+>>;
+
+export const ELIGIBILITY_STATUS_LABELS: Record<EligibilityStatus, string> = {
+  eligible: '対象',
+  not_eligible: '対象外',
+  unknown: '判定不可',
+};
+
+export const ELIGIBILITY_CRITERION_LABELS: Record<CriterionResult['criterion'], string> = {
+  area: '対象地域',
+  employees: '従業員数',
+  industry: '業種',
+  acceptance: '受付期間',
+  foundingAge: '創業年数',
+};
+
+// e.g. 創業5年以内, 設立後3年未満, 創業・設立から1年以上経過
+const FOUNDING_AGE_PATTERN =
+  /(?:創業|設立|開業)(?:[・／/](?:創業|設立|開業))*(?:後|から|して)?\s*(\d+)\s*年\s*(以内|未満|以上|を経過|経過)/;
+
+function parseFoundingAge(texts: Array<string | null | undefined>): FoundingAgeRule | null {
+  for (const text of texts) {
+    if (!text) continue;
+    const match = normalizeWidth(text).match(FOUNDING_AGE_PATTERN);
+    if (!match) continue;
+
+    const operator =
+      match[2] === '以内' ? 'within'
+      : match[2] === '未満' ? 'under'
+      : 'atLeast';
+    return { operator, years: Number(match[1]), text: match[0] };
+  }
+  return null;
+}
+
+function parseEmployeeLimit(value: string | null | undefined): EligibilityRules['employees'] {
+  if (!value) return null;
+  if (value === NO_EMPLOYEE_LIMIT) return {};
+
+  const match = normalizeWidth(value).match(/(\d+)\s*(?:名|人)\s*(以下|以上)/);
+  if (!match) return null;
+  return match[2] === '以下' ? { max: Number(match[1]) } : { min: Number(match[1]) };
+}
+
+/**
+ * Structured criteria from the typed jGrants fields of a subsidy. The founding
+ * age is only stated in prose, so it is looked for in the text fields.
+ */
+export function parseEligibilityRules(source: EligibilitySource): EligibilityRules {
+  const hasAcceptance = Boolean(source.acceptanceStart || source.acceptanceEnd);
+
+  return {
+    areas: source.targetAreas && source.targetAreas.length > 0 ? source.targetAreas : null,
+    industries: source.industries && source.industries.length > 0 ? source.industries : null,
+    employees: parseEmployeeLimit(source.targetNumberOfEmployees),
+    acceptance: hasAcceptance
+      ? { start: source.acceptanceStart ?? null, end: source.acceptanceEnd ?? null }
+      : null,
+    foundingAge: parseFoundingAge([
+      source.description,
+      source.requirements,
+      source.targetAudience,
+      source.targetAreaDetail,
+    ]),
+  };
+}
+
+function result(criterion: CriterionResult['criterion'], status: EligibilityStatus, reason: string): CriterionResult {
+  return { criterion, status, reason };
+}
+
+function evaluateArea(profile: CompanyProfileInput, areas: string[] | null): CriterionResult {
+  if (!areas) return result('area', 'unknown', '補助金の対象地域が不明です');
+  if (!profile.prefecture) return result('area', 'unknown', '事業者情報に所在地が登録されていません');
+
+  const covering = targetAreasFor(profile.prefecture).find((area) => areas.includes(area));
+  return covering
+    ? result('area', 'eligible', `${profile.prefecture}は対象地域（${covering}）に含まれます`)
+    : result('area', 'not_eligible', `${profile.prefecture}は対象地域（${areas.join('、')}）に含まれません`);
+}
+
+function evaluateEmployees(
+  profile: CompanyProfileInput,
+  employees: EligibilityRules['employees']
+): CriterionResult {
+  if (!employees) return result('employees', 'unknown', '補助金の従業員数要件が不明です');
+  if (employees.max === undefined && employees.min === undefined) {
+    return result('employees', 'eligible', '従業員数の制約はありません');
+  }
+  if (profile.employeeCount === null) {
+    return result('employees', 'unknown', '事業者情報に従業員数が登録されていません');
+  }
+
+  const count = profile.employeeCount;
+  if (employees.max !== undefined && count > employees.max) {
+    return result('employees', 'not_eligible', `従業員数${count}名は上限（${employees.max}名以下）を超えています`);
+  }
+  if (employees.min !== undefined && count < employees.min) {
+    return result('employees', 'not_eligible', `従業員数${count}名は下限（${employees.min}名以上）に達していません`);
+  }
+  const limit = employees.max !== undefined ? `${employees.max}名以下` : `${employees.min}名以上`;
+  return result('employees', 'eligible', `従業員数${count}名は要件（${limit}）を満たします`);
+}
+
+function evaluateIndustry(profile: CompanyProfileInput, industries: string[] | null): CriterionResult {
+  if (!industries) return result('industry', 'unknown', '補助金の対象業種が不明です');
+  if (!profile.industry) return result('industry', 'unknown', '事業者情報に業種が登録されていません');
+
+  return industries.includes(profile.industry)
+    ? result('industry', 'eligible', `${profile.industry}は対象業種です`)
+    : result('industry', 'not_eligible', `${profile.industry}は対象業種（${industries.join('、')}）に含まれません`);
+}
+
+function evaluateAcceptance(acceptance: EligibilityRules['acceptance'], now: Date): CriterionResult {
+  if (!acceptance) return result('acceptance', 'unknown', '受付期間が不明です');
+
+  if (acceptance.start && now.getTime() < Date.parse(acceptance.start)) {
+    return result('acceptance', 'not_eligible', `受付開始前です（${toJstDate(acceptance.start)}開始）`);
+  }
+  if (acceptance.end && now.getTime() > Date.parse(acceptance.end)) {
+    return result('acceptance', 'not_eligible', `受付は終了しています（${toJstDate(acceptance.end)}締切）`);
+  }
+  return acceptance.end
+    ? result('acceptance', 'eligible', `受付期間中です（${toJstDate(acceptance.end)}締切）`)
+    : result('acceptance', 'eligible', '受付期間中です（締切未定）');
+}
+
+function addYears(isoDate: string, years: number): Date {
+  const date = new Date(`${isoDate}T00:00:00+09:00`);
+  date.setUTCFullYear(date.getUTCFullYear() + years);
+  return date;
+}
+
+function evaluateFoundingAge(
+  profile: CompanyProfileInput,
+  rule: FoundingAgeRule | null,
+  now: Date
+): CriterionResult {
+  if (!rule) return result('foundingAge', 'eligible', '創業年数の要件は記載されていません');
+  if (!profile.foundedOn) {
+    return result('foundingAge', 'unknown', `事業者情報に設立日が登録されていません（要件: ${rule.text}）`);
+  }
+
+  const threshold = addYears(profile.foundedOn, rule.years).getTime();
+  const satisfied =
+    rule.operator === 'within' ? now.getTime() <= threshold
+    : rule.operator === 'under' ? now.getTime() < threshold
+    : now.getTime() >= threshold;
+
+  return satisfied
+    ? result('foundingAge', 'eligible', `設立日${profile.foundedOn}は要件（${rule.text}）を満たします`)
+    : result('foundingAge', 'not_eligible', `設立日${profile.foundedOn}は要件（${rule.text}）を満たしません`);
+}
+
+/**
+ * Evaluate every criterion of the rules against a profile
+ */
+export function evaluateEligibility(
+  profile: CompanyProfileInput,
+  rules: EligibilityRules,
+  now: Date = new Date()
+): EligibilityResult {
+  const criteria = [
+    evaluateArea(profile, rules.areas),
+    evaluateEmployees(profile, rules.employees),
+    evaluateIndustry(profile, rules.industries),
+    evaluateAcceptance(rules.acceptance, now),
+    evaluateFoundingAge(profile, rules.foundingAge, now),
+  ];
+
+  const status: EligibilityStatus =
+    criteria.some((criterion) => criterion.status === 'not_eligible') ? 'not_eligible'
+    : criteria.some((criterion) => criterion.status === 'unknown') ? 'unknown'
+    : 'eligible';
+
+  return { status, criteria };
+}
+
+/**
+ * Evaluate a stored subsidy, parsing rules for rows imported before rules
+ * were stored. Subsidies no longer listed by jGrants are closed for applications.
+ */
+export function evaluateSubsidyEligibility(
+  profile: CompanyProfileInput,
+  subsidy: Subsidy,
+  now: Date = new Date()
+): EligibilityResult {
+  const evaluation = evaluateEligibility(profile, subsidy.eligibilityRules ?? parseEligibilityRules(subsidy), now);
+  if (subsidy.status !== 'closed') return evaluation;
+
+  return {
+    status: 'not_eligible',
+    criteria: evaluation.criteria.map((criterion) =>
+      criterion.criterion === 'acceptance'
+        ? result('acceptance', 'not_eligible', '受付は終了しています（jGrantsの募集一覧に掲載されていません）')
+        : criterion
+    ),
+  };
+}
+
+/**
+ * Additional run instructions stating the rule-based decision so the assistant
+ * explains it instead of judging eligibility from the prose
+ */
+export function formatEligibilityInstructions(subsidyTitle: string, evaluation: EligibilityResult): string {
+  return [
+    `登録済みの事業者情報に基づく補助金「${subsidyTitle}」の申請資格の判定結果です（ルールによる判定）。`,
+    '申請資格についてはこの判定と理由に沿って説明し、判定不可の項目は確認が必要な点として伝えてください。',
+    `総合判定: ${ELIGIBILITY_STATUS_LABELS[evaluation.status]}`,
+    ...evaluation.criteria.map((criterion) =>
+      `- ${ELIGIBILITY_CRITERION_LABELS[criterion.criterion]}: ${ELIGIBILITY_STATUS_LABELS[criterion.status]}（${criterion.reason}）`
+    ),
+  ].join('\n');
+}
@@ -0,0 +1,100 @@
+/**
+ * Import jGrants subsidy details into the normalized subsidies table
+ */
+
+import { subsidyRepository } from '../../db.server';
+import type { NewSubsidy } from '../../db/schema';
+import type { SubsidyDetail } from './api-server';
+import { storeSubsidyAttachments, type AttachmentStoreOptions } from './attachments.server';
+import { parseEligibilityRules } from './eligibility';
+import { formatJapaneseDate, formatYen, splitListField, stripHtml, toJstDate } from './normalize';
+
+export interface ImportSummary {
+  imported: number;
+  failed: Array<{ jgrantsId: string; message: string }>;
+}
+
+function buildAmountText(detail: SubsidyDetail): string | undefined {
+  if (!detail.subsidy_max_limit) {
+    return detail.subsidy_rate ? `補助率${detail.subsidy_rate}` : undefined;
+  }
+
+  const amount = `最大${formatYen(detail.subsidy_max_limit)}`;
+  return detail.subsidy_rate ? `${amount}（補助率${detail.subsidy_rate}）` : amount;
+}
+
+function buildRequirementsText(detail: SubsidyDetail): string | undefined {
+  const lines: string[] = [];
+
+  if (detail.target_area_search) lines.push(`・対象地域: ${detail.target_area_search}`);
+  if (detail.target_area_detail) lines.push(`・対象地域（詳細）: ${detail.target_area_detail}`);
+  if (detail.target_number_of_employees) lines.push(`・従業員数: ${detail.target_number_of_employees}`);
+  if (detail.is_enable_multiple_request !== undefined) {
+    lines.push(`・複数回申請: ${detail.is_enable_multiple_request ? '可' : '不可'}`);
+  }
+
+  return lines.length > 0 ? lines.join('\n') : undefined;
+}
+
+/**
+ * Map a jGrants subsidy detail onto a subsidies row
+ */
+export function mapSubsidyDetail(detail: SubsidyDetail): NewSubsidy {
+  const deadlineDate = toJstDate(detail.acceptance_end_datetime);
+  const industries = splitListField(detail.industry);
+  const description = stripHtml(detail.detail) || detail.subsidy_catch_phrase || detail.title || detail.name;
+
+  const subsidy: NewSubsidy = {
+    jgrantsId: detail.id,
+    title: detail.title || detail.name,
+    description,
+    targetAudience: industries.length > 0 ? industries.join('、') : undefined,
+    amount: buildAmountText(detail),
+    maxAmount: detail.subsidy_max_limit ?? null,
+    deadline: deadlineDate ? formatJapaneseDate(deadlineDate) : undefined,
+    deadlineDate,
+    requirements: buildRequirementsText(detail),
+    applicationUrl: detail.front_subsidy_detail_page_url,
+    subsidyRate: detail.subsidy_rate,
+    acceptanceStart: detail.acceptance_start_datetime,
+    acceptanceEnd: detail.acceptance_end_datetime,
+    targetAreas: splitListField(detail.target_area_search),
+    targetAreaDetail: detail.target_area_detail,
+    industries,
+    usePurposes: splitListField(detail.use_purpose),
+    targetNumberOfEmployees: detail.target_number_of_employees,
+  };
+
+  return { ...subsidy, eligibilityRules: parseEligibilityRules(subsidy) };
+}
+
+/**
+ * Upsert every detail and store its attachments, collecting failures instead
+ * of stopping at the first one
+ */
+export async function importSubsidyDetails(
+  details: SubsidyDetail[],
+  attachmentOptions: AttachmentStoreOptions = {}
+): Promise<ImportSummary> {
+  const summary: ImportSummary = { imported: 0, failed: [] };
+
+  for (const detail of details) {
+    const result = await subsidyRepository.upsert(mapSubsidyDetail(detail));
+    if (!result.ok) {
+      summary.failed.push({ jgrantsId: detail.id, message: result.error.message });
+      continue;
+    }
+    summary.imported++;
+
+    const stored = await storeSubsidyAttachments(detail, attachmentOptions);
+    if (!stored.ok) {
+      summary.failed.push({ jgrantsId: detail.id, message: stored.error.message });
+      continue;
+    }
+    for (const failure of stored.value.failed) {
+      summary.failed.push({ jgrantsId: detail.id, message: `${failure.name}: ${failure.message}` });
+    }
+  }
+
+  return summary;
+}
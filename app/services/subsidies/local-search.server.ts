@@ -0,0 +1,68 @@
+/**
+ * Local full-text search used when the OpenAI assistant is unavailable, and
+ * as the retrieval step of the Chat Completions providers
+ */
+
+import { subsidyRepository } from '../../db.server';
+import { Result, ok } from '../../types/result';
+import type { DatabaseError } from '../../types/errors';
+import type { SubsidySearchHit } from '../../types/subsidy';
+
+const MAX_FALLBACK_RESULTS = 5;
+
+/**
+ * Pull search terms out of a natural-language question by keeping runs of
+ * kanji, katakana and alphanumerics (particles and okurigana are dropped),
+ * e.g. `IT企業が使える助成金はある？` -> `IT企業 助成金`.
+ */
+export function extractSearchTerms(text: string): string[] {
+  const terms = text.match(/[\p{Script=Han}\p{Script=Katakana}ーA-Za-z0-9Ａ-Ｚａ-ｚ０-９]{2,}/gu) ?? [];
+  return [...new Set(terms)];
+}
+
+/**
+ * Subsidies matching any of the search terms in a chat message, best first
+ */
+export async function findRelevantSubsidies(
+  message: string,
+  limit: number = MAX_FALLBACK_RESULTS
+): Promise<Result<SubsidySearchHit[], DatabaseError>> {
+  const terms = extractSearchTerms(message);
+  if (terms.length === 0) return ok([]);
+
+  return subsidyRepository.search(terms.join(' '), { limit, match: 'any' });
+}
+
+function formatHit(hit: SubsidySearchHit, index: number): string {
+  const { subsidy } = hit;
+  const lines = [`### ${index + 1}. ${subsidy.title}`, '', hit.snippet, ''];
+
+  if (subsidy.amount) lines.push(`- 補助金額: ${subsidy.amount}`);
+  if (subsidy.deadline) lines.push(`- 申請期限: ${subsidy.deadline}`);
+  if (subsidy.applicationUrl) lines.push(`- 申請URL: ${subsidy.applicationUrl}`);
+
+  return lines.join('\n');
+}
+
+/**
+ * Answer a chat message from the local index instead of the assistant
+ */
+export async function buildLocalSearchReply(
+  message: string
+): Promise<Result<string, DatabaseError>> {
+  const terms = extractSearchTerms(message);
+  const header = 'AIアシスタントに接続できなかったため、登録済みの補助金データから検索した結果を表示しています。';
+
+  if (terms.length === 0) {
+    return ok(`${header}\n\n検索キーワードを特定できませんでした。補助金の分野や目的を含めて質問してください。`);
+  }
+
+  const result = await findRelevantSubsidies(message);
+  if (!result.ok) return result;
+
+  if (result.value.length === 0) {
+    return ok(`${header}\n\n「${terms.join(' ')}」に該当する補助金は見つかりませんでした。`);
+  }
+
+  return ok([header, '', ...result.value.map(formatHit)].join('\n'));
+}
@@ -0,0 +1,351 @@
+/**
+ * Normalization helpers for free-text subsidy fields
+ * Pure functions so they can be shared by the repository, scripts and tests
+ */
+
+/**
+ * Convert full-width digits, latin letters and symbols to their half-width
+ * forms (`４５０万円` -> `450万円`, `１／２` -> `1/2`, `％` -> `%`)
+ */
+export function normalizeWidth(text: string): string {
+  return text.normalize('NFKC');
+}
+
+const ERA_START_YEARS: Record<string, number> = {
+  明治: 1868,
+  大正: 1912,
+  昭和: 1926,
+  平成: 1989,
+  令和: 2019,
+};
+
+// Abbreviations used in forms, e.g. R6.12.31
+const ERA_ABBREVIATIONS: Record<string, string> = {
+  M: '明治',
+  T: '大正',
+  S: '昭和',
+  H: '平成',
+  R: '令和',
+};
+
+const ERA_NAMES = Object.keys(ERA_START_YEARS).join('|');
+
+/**
+ * Western year of a Japanese era year, e.g. (令和, 7) -> 2025.
+ * `元` (the first year) is accepted as 1.
+ */
+export function eraToWesternYear(era: string, year: number | string): number | null {
+  const startYear = ERA_START_YEARS[era] ?? ERA_START_YEARS[ERA_ABBREVIATIONS[era.toUpperCase()]];
+  const eraYear = year === '元' ? 1 : Number(year);
+  if (startYear === undefined || !Number.isInteger(eraYear) || eraYear < 1) return null;
+
+  return startYear + eraYear - 1;
+}
+
+// Alternatives are tried in order at each position, so the longer forms come first
+const DATE_PATTERN = new RegExp(
+  [
+    String.raw`(?<timestamp>\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2}))`,
+    String.raw`(?<era>${ERA_NAMES})\s*(?<eraYear>元|\d{1,2})\s*年\s*(?<eraMonth>\d{1,2})\s*月\s*(?<eraDay>\d{1,2})\s*日`,
+    String.raw`(?<![A-Za-z])(?<abbr>[MTSHR])\s*(?<abbrYear>\d{1,2})\.(?<abbrMonth>\d{1,2})\.(?<abbrDay>\d{1,2})`,
+    String.raw`(?<year>\d{4})\s*[年\-/.]\s*(?<month>\d{1,2})\s*[月\-/.]\s*(?<day>\d{1,2})`,
+    // The year is carried over from the previous date, e.g. the end of 2024年4月1日〜6月30日
+    String.raw`(?<shortMonth>\d{1,2})\s*月\s*(?<shortDay>\d{1,2})\s*日`,
+  ].join('|'),
+  'g'
+);
+
+/**
+ * Every date mentioned in a text, as ISO dates (YYYY-MM-DD) in order of
+ * appearance. Understands `2024年12月31日`, `2024/12/31`, `令和6年12月31日`,
+ * `R6.12.31` and ISO timestamps, which are converted to the date in Japan time.
+ */
+export function findJapaneseDates(text: string | null | undefined): string[] {
+  if (!text) return [];
+
+  const dates: string[] = [];
+  let previous: string | null = null;
+
+  for (const match of normalizeWidth(text).matchAll(DATE_PATTERN)) {
+    const groups = match.groups ?? {};
+    let date: string | null = null;
+
+    if (groups.timestamp) {
+      date = toJstDate(groups.timestamp);
+    } else if (groups.era) {
+      const year = eraToWesternYear(groups.era, groups.eraYear);
+      date = year === null ? null : toIsoDate(year, Number(groups.eraMonth), Number(groups.eraDay));
+    } else if (groups.abbr) {
+      const year = eraToWesternYear(groups.abbr, groups.abbrYear);
+      date = year === null ? null : toIsoDate(year, Number(groups.abbrMonth), Number(groups.abbrDay));
+    } else if (groups.year) {
+      date = toIsoDate(Number(groups.year), Number(groups.month), Number(groups.day));
+    } else if (previous) {
+      const year = Number(previous.slice(0, 4));
+      date = toIsoDate(year, Number(groups.shortMonth), Number(groups.shortDay));
+      // A range that crosses the new year, e.g. 2024年12月1日〜1月31日
+      if (date && date < previous) {
+        date = toIsoDate(year + 1, Number(groups.shortMonth), Number(groups.shortDay));
+      }
+    }
+
+    if (date) {
+      dates.push(date);
+      previous = date;
+    }
+  }
+
+  return dates;
+}
+
+/**
+ * The first date mentioned in a text as an ISO date (YYYY-MM-DD), or null
+ */
+export function parseJapaneseDate(text: string | null | undefined): string | null {
+  return findJapaneseDates(text)[0] ?? null;
+}
+
+/**
+ * Convert a deadline such as `2024年12月31日`, `令和6年12月31日` or
+ * `2024-12-31` into an ISO date (YYYY-MM-DD). For a period such as
+ * `2024年4月1日〜6月30日` the end date is returned. Null when the text
+ * cannot be parsed.
+ */
+export function parseDeadlineDate(text: string | null | undefined): string | null {
+  const dates = findJapaneseDates(text);
+  return dates.length > 0 ? dates[dates.length - 1] : null;
+}
+
+/**
+ * Format an ISO date the way guidelines write it, e.g. `2024-12-31` -> `2024年12月31日`
+ */
+export function formatJapaneseDate(isoDate: string): string {
+  const [year, month, day] = isoDate.split('-').map(Number);
+  return `${year}年${month}月${day}日`;
+}
+
+const FISCAL_YEAR_PATTERN = new RegExp(
+  String.raw`(?:(?<era>${ERA_NAMES})\s*(?<eraYear>元|\d{1,2})|(?<![A-Za-z])(?<abbr>[HR])\s*(?<abbrYear>\d{1,2})|(?<year>\d{4}))\s*年度`
+);
+
+/**
+ * Fiscal year mentioned in a text such as `令和7年度` or `2025年度`,
+ * as a Western year (2025). Null when no fiscal year is mentioned.
+ */
+export function parseFiscalYear(text: string | null | undefined): number | null {
+  if (!text) return null;
+
+  const groups = normalizeWidth(text).match(FISCAL_YEAR_PATTERN)?.groups;
+  if (!groups) return null;
+
+  if (groups.year) return Number(groups.year);
+  return groups.era
+    ? eraToWesternYear(groups.era, groups.eraYear)
+    : eraToWesternYear(groups.abbr, groups.abbrYear);
+}
+
+/**
+ * Label a fiscal year in both calendars, e.g. 2025 -> `2025年度（令和7年度）`
+ */
+export function formatFiscalYear(fiscalYear: number): string {
+  const era = Object.entries(ERA_START_YEARS)
+    .filter(([, startYear]) => startYear <= fiscalYear)
+    .pop();
+  if (!era) return `${fiscalYear}年度`;
+
+  const eraYear = fiscalYear - era[1] + 1;
+  return `${fiscalYear}年度（${era[0]}${eraYear === 1 ? '元' : eraYear}年度）`;
+}
+
+/**
+ * Japanese fiscal year (starting in April) of an ISO date, e.g. `2025-03-31` -> 2024
+ */
+export function fiscalYearOf(isoDate: string): number {
+  const [year, month] = isoDate.split('-').map(Number);
+  return month >= 4 ? year : year - 1;
+}
+
+/**
+ * First and last day of a fiscal year as ISO dates
+ */
+export function fiscalYearRange(fiscalYear: number): { start: string; end: string } {
+  return { start: `${fiscalYear}-04-01`, end: `${fiscalYear + 1}-03-31` };
+}
+
+const UNIT_MULTIPLIERS: Record<string, number> = {
+  億: 100_000_000,
+  千万: 10_000_000,
+  万: 10_000,
+  千: 1_000,
+};
+
+// A yen amount, possibly in compound units such as 1億5,000万円 or 5千万円
+const AMOUNT_PATTERN = /((?:\d[\d,]*(?:\.\d+)?\s*(?:億|千万|万|千)\s*)*(?:\d[\d,]*(?:\.\d+)?)?)\s*円/g;
+const AMOUNT_TERM_PATTERN = /(\d[\d,]*(?:\.\d+)?)\s*(億|千万|万|千)?/g;
+
+/**
+ * Every yen amount mentioned in a text, in order of appearance
+ */
+export function parseYenAmounts(text: string | null | undefined): number[] {
+  if (!text) return [];
+
+  const amounts: number[] = [];
+  for (const match of normalizeWidth(text).matchAll(AMOUNT_PATTERN)) {
+    if (!match[1]) continue;
+
+    let amount = 0;
+    for (const term of match[1].matchAll(AMOUNT_TERM_PATTERN)) {
+      const value = Number(term[1].replace(/,/g, ''));
+      amount += value * (term[2] ? UNIT_MULTIPLIERS[term[2]] : 1);
+    }
+    if (Number.isFinite(amount)) {
+      amounts.push(Math.round(amount));
+    }
+  }
+
+  return amounts;
+}
+
+/**
+ * Extract the largest yen amount mentioned in a text such as
+ * `最大450万円（補助率1/2〜3/4）`. Returns null when no amount is found.
+ */
+export function parseMaxAmount(text: string | null | undefined): number | null {
+  const amounts = parseYenAmounts(text);
+  return amounts.length > 0 ? Math.max(...amounts) : null;
+}
+
+/**
+ * Share of the eligible costs covered, as ratios between 0 and 1.
+ * `1/2〜3/4` is { min: 0.5, max: 0.75 }; a single rate has min === max.
+ */
+export interface SubsidyRate {
+  min: number;
+  max: number;
+}
+
+const RATE_PATTERN = /(\d+)\s*\/\s*(\d+)|(\d+)\s*分の\s*(\d+)|(\d+(?:\.\d+)?)\s*%/g;
+
+/**
+ * Parse a subsidy rate such as `1/2〜3/4`, `2分の1以内` or `50%`. In an
+ * amount text like `最大450万円（補助率1/2〜3/4）` only the part after
+ * `補助率` is read. Null for fixed-amount (定額) subsidies or when no rate
+ * is found.
+ */
+export function parseSubsidyRate(text: string | null | undefined): SubsidyRate | null {
+  if (!text) return null;
+
+  const normalized = normalizeWidth(text);
+  const labelIndex = normalized.indexOf('補助率');
+  const rateText = labelIndex === -1 ? normalized : normalized.slice(labelIndex);
+
+  const ratios: number[] = [];
+  for (const match of rateText.matchAll(RATE_PATTERN)) {
+    const ratio = match[1] !== undefined
+      ? Number(match[1]) / Number(match[2])
+      : match[3] !== undefined
+        ? Number(match[4]) / Number(match[3])
+        : Number(match[5]) / 100;
+    if (ratio > 0 && ratio <= 1) {
+      ratios.push(ratio);
+    }
+  }
+
+  if (ratios.length === 0) return null;
+  return { min: Math.min(...ratios), max: Math.max(...ratios) };
+}
+
+/**
+ * Format a subsidy rate as percentages, e.g. `50%〜75%` or `66.7%`
+ */
+export function formatSubsidyRate(rate: SubsidyRate): string {
+  const percent = (ratio: number) => `${Math.round(ratio * 1000) / 10}%`;
+  return rate.min === rate.max ? percent(rate.min) : `${percent(rate.min)}〜${percent(rate.max)}`;
+}
+
+/**
+ * Format a calendar date as YYYY-MM-DD, rejecting impossible dates
+ */
+export function toIsoDate(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (
+    date.getUTCFullYear() !== year ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day
+  ) {
+    return null;
+  }
+
+  return date.toISOString().split('T')[0];
+}
+
+const JST_OFFSET_MS = 9 * 60 * 60 * 1000;
+
+/**
+ * Calendar date in Japan time (YYYY-MM-DD) for an ISO timestamp such as
+ * `2025-07-31T07:00:00.000Z`. jGrants reports acceptance windows in UTC.
+ */
+export function toJstDate(timestamp: string | null | undefined): string | null {
+  if (!timestamp) return null;
+
+  const time = Date.parse(timestamp);
+  if (Number.isNaN(time)) return null;
+
+  return new Date(time + JST_OFFSET_MS).toISOString().split('T')[0];
+}
+
+/**
+ * Acceptance window in Japan time, e.g. `2025-04-01 〜 2025-07-31`.
+ * Null when jGrants reported neither end.
+ */
+export function formatAcceptancePeriod(
+  start: string | null | undefined,
+  end: string | null | undefined
+): string | null {
+  if (!start && !end) return null;
+  return `${toJstDate(start) ?? '未定'} 〜 ${toJstDate(end) ?? '未定'}`;
+}
+
+/**
+ * Format a yen amount the way subsidy guidelines do, e.g. 4500000 -> `450万円`
+ */
+export function formatYen(amount: number): string {
+  if (amount >= UNIT_MULTIPLIERS.億 && amount % UNIT_MULTIPLIERS.億 === 0) {
+    return `${(amount / UNIT_MULTIPLIERS.億).toLocaleString('ja-JP')}億円`;
+  }
+  if (amount >= UNIT_MULTIPLIERS.万 && amount % UNIT_MULTIPLIERS.万 === 0) {
+    return `${(amount / UNIT_MULTIPLIERS.万).toLocaleString('ja-JP')}万円`;
+  }
+  return `${amount.toLocaleString('ja-JP')}円`;
+}
+
+/**
+ * Split a jGrants multi-value field such as `製造業 / 情報通信業` into a list
+ */
+export function splitListField(value: string | null | undefined): string[] {
+  if (!value) return [];
+  return value
+    .split(/\s*[/／]\s*/)
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+}
+
+/**
+ * Convert an HTML fragment from jGrants into plain text
+ */
+export function stripHtml(html: string | null | undefined): string {
+  if (!html) return '';
+  return html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li|h[1-6])>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
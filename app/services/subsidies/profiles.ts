@@ -0,0 +1,163 @@
+/**
+ * Named jGrants query profiles used by the fetch and sync scripts
+ */
+
+import { readFileSync } from 'fs';
+import { Result, ok, err } from '../../types/result';
+import { ApiError, createApiError } from '../../types/errors';
+import { TOKYO_QUERY, type JGrantsQuery } from './api-server';
+
+export interface JGrantsQueryProfile {
+  name: string;
+  description?: string;
+  query: JGrantsQuery;
+}
+
+const SORT_VALUES = ['created_date', 'acceptance_start_datetime', 'acceptance_end_datetime'];
+const ORDER_VALUES = ['ASC', 'DESC'];
+
+export const DEFAULT_QUERY_PROFILES: JGrantsQueryProfile[] = [
+  { name: 'tokyo', description: '東京都の募集中の補助金', query: TOKYO_QUERY },
+  {
+    name: 'kanagawa',
+    description: '神奈川県の募集中の補助金',
+    query: { keyword: '神奈川', acceptingOnly: true, targetArea: '神奈川県' },
+  },
+  {
+    name: 'osaka',
+    description: '大阪府の募集中の補助金',
+    query: { keyword: '大阪', acceptingOnly: true, targetArea: '大阪府' },
+  },
+  {
+    name: 'aichi',
+    description: '愛知県の募集中の補助金',
+    query: { keyword: '愛知', acceptingOnly: true, targetArea: '愛知県' },
+  },
+  {
+    name: 'fukuoka',
+    description: '福岡県の募集中の補助金',
+    query: { keyword: '福岡', acceptingOnly: true, targetArea: '福岡県' },
+  },
+];
+
+const DEFAULT_PROFILE_NAMES = ['tokyo'];
+
+function isOptionalString(value: unknown): boolean {
+  return value === undefined || typeof value === 'string';
+}
+
+function validateProfile(value: unknown): Result<JGrantsQueryProfile, ApiError> {
+  if (typeof value !== 'object' || value === null) {
+    return err(createApiError('VALIDATION_ERROR', 'Profile must be an object'));
+  }
+
+  const { name, description, query } = value as Record<string, unknown>;
+  if (typeof name !== 'string' || name.length === 0) {
+    return err(createApiError('VALIDATION_ERROR', 'Profile name must be a non-empty string'));
+  }
+  if (typeof query !== 'object' || query === null) {
+    return err(createApiError('VALIDATION_ERROR', `Profile ${name}: query must be an object`));
+  }
+
+  const q = query as Record<string, unknown>;
+  // jGrants rejects keywords shorter than 2 characters
+  if (typeof q.keyword !== 'string' || q.keyword.length < 2) {
+    return err(createApiError('VALIDATION_ERROR', `Profile ${name}: keyword must be at least 2 characters`));
+  }
+  if (q.sort !== undefined && !SORT_VALUES.includes(q.sort as string)) {
+    return err(createApiError('VALIDATION_ERROR', `Profile ${name}: sort must be one of ${SORT_VALUES.join(', ')}`));
+  }
+  if (q.order !== undefined && !ORDER_VALUES.includes(q.order as string)) {
+    return err(createApiError('VALIDATION_ERROR', `Profile ${name}: order must be ASC or DESC`));
+  }
+  if (q.acceptingOnly !== undefined && typeof q.acceptingOnly !== 'boolean') {
+    return err(createApiError('VALIDATION_ERROR', `Profile ${name}: acceptingOnly must be a boolean`));
+  }
+  const stringFields = ['targetArea', 'industry', 'usePurpose', 'targetNumberOfEmployees'];
+  const invalidField = stringFields.find((field) => !isOptionalString(q[field]));
+  if (invalidField) {
+    return err(createApiError('VALIDATION_ERROR', `Profile ${name}: ${invalidField} must be a string`));
+  }
+
+  return ok({
+    name,
+    description: typeof description === 'string' ? description : undefined,
+    query: q as unknown as JGrantsQuery,
+  });
+}
+
+/**
+ * Parses a JSON array of profiles, e.g. the contents of JGRANTS_PROFILES_FILE.
+ */
+export function parseQueryProfiles(json: string): Result<JGrantsQueryProfile[], ApiError> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return err(createApiError('VALIDATION_ERROR', `Invalid profiles JSON: ${message}`));
+  }
+
+  if (!Array.isArray(parsed)) {
+    return err(createApiError('VALIDATION_ERROR', 'Profiles must be a JSON array'));
+  }
+
+  const profiles: JGrantsQueryProfile[] = [];
+  for (const entry of parsed) {
+    const result = validateProfile(entry);
+    if (!result.ok) return result;
+    if (profiles.some((profile) => profile.name === result.value.name)) {
+      return err(createApiError('VALIDATION_ERROR', `Duplicate profile name: ${result.value.name}`));
+    }
+    profiles.push(result.value);
+  }
+  return ok(profiles);
+}
+
+/**
+ * Picks the profiles to fetch. JGRANTS_PROFILES_FILE replaces the built-in
+ * definitions and JGRANTS_PROFILES selects profiles by name (comma-separated,
+ * or "all"). Without JGRANTS_PROFILES only the Tokyo profile is used, unless a
+ * profiles file is given, in which case all of its profiles are used.
+ */
+export function loadQueryProfiles(
+  env: Record<string, string | undefined> = process.env
+): Result<JGrantsQueryProfile[], ApiError> {
+  let available = DEFAULT_QUERY_PROFILES;
+  let defaultNames = DEFAULT_PROFILE_NAMES;
+
+  if (env.JGRANTS_PROFILES_FILE) {
+    let content: string;
+    try {
+      content = readFileSync(env.JGRANTS_PROFILES_FILE, 'utf-8');
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return err(createApiError('VALIDATION_ERROR', `Failed to read profiles file: ${message}`));
+    }
+
+    const parsed = parseQueryProfiles(content);
+    if (!parsed.ok) return parsed;
+    available = parsed.value;
+    defaultNames = available.map((profile) => profile.name);
+  }
+
+  const selection = env.JGRANTS_PROFILES?.trim();
+  const names =
+    !selection ? defaultNames
+    : selection === 'all' ? available.map((profile) => profile.name)
+    : selection.split(',').map((name) => name.trim()).filter(Boolean);
+
+  const profiles: JGrantsQueryProfile[] = [];
+  for (const name of names) {
+    const profile = available.find((candidate) => candidate.name === name);
+    if (!profile) {
+      return err(createApiError('VALIDATION_ERROR', `Unknown jGrants profile: ${name}`));
+    }
+    profiles.push(profile);
+  }
+
+  if (profiles.length === 0) {
+    return err(createApiError('VALIDATION_ERROR', 'No jGrants profiles selected'));
+  }
+  return ok(profiles);
+}
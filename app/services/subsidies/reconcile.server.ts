@@ -0,0 +1,122 @@
+/**
+ * Vector store reconciliation
+ * Brings the files attached to the vector store back in line with
+ * subsidies.fileId: stale, duplicate and orphaned files are deleted and
+ * subsidies without a live file are uploaded again.
+ */
+
+import { subsidyRepository } from '../../db.server';
+import type { Subsidy } from '../../db/schema';
+import { Result, ok, err } from '../../types/result';
+import { AssistantError, createAssistantError } from '../../types/errors';
+import type { VectorStoreFileInfo, VectorStoreService } from '../vectorstore.server';
+import type { SubsidyPublisher } from './sync.server';
+
+export interface ReconciliationPlan {
+  // Subsidies whose recorded file is attached to the vector store
+  keep: Array<{ jgrantsId: string; fileId: string }>;
+  delete: Array<{ fileId: string; filename: string | null; reason: 'duplicate' | 'orphan' }>;
+  upload: Subsidy[];
+}
+
+export interface ReconciliationReport {
+  kept: number;
+  deleted: string[];
+  uploaded: string[];
+  failed: Array<{ target: string; message: string }>;
+  dryRun: boolean;
+}
+
+export function subsidyFileName(jgrantsId: string): string {
+  return `${jgrantsId}.md`;
+}
+
+/**
+ * Decide what to keep, delete and upload without touching anything
+ */
+export function planReconciliation(
+  subsidies: Subsidy[],
+  files: VectorStoreFileInfo[],
+  vectorStoreId: string
+): ReconciliationPlan {
+  const plan: ReconciliationPlan = { keep: [], delete: [], upload: [] };
+  const fileIds = new Set(files.map((file) => file.id));
+  const claimed = new Set<string>();
+
+  for (const subsidy of subsidies) {
+    const recorded =
+      subsidy.fileId &&
+      fileIds.has(subsidy.fileId) &&
+      (!subsidy.vectorStoreId || subsidy.vectorStoreId === vectorStoreId);
+
+    if (recorded && subsidy.fileId) {
+      plan.keep.push({ jgrantsId: subsidy.jgrantsId, fileId: subsidy.fileId });
+      claimed.add(subsidy.fileId);
+    } else {
+      plan.upload.push(subsidy);
+    }
+  }
+
+  const subsidyFileNames = new Set(subsidies.map((subsidy) => subsidyFileName(subsidy.jgrantsId)));
+  for (const file of files) {
+    if (claimed.has(file.id)) continue;
+
+    // Unclaimed copies of a subsidy's markdown are outdated uploads of that subsidy
+    const reason = file.filename && subsidyFileNames.has(file.filename) ? 'duplicate' : 'orphan';
+    plan.delete.push({ fileId: file.id, filename: file.filename, reason });
+  }
+
+  return plan;
+}
+
+/**
+ * Compare subsidies with the vector store and apply the resulting plan
+ */
+export async function reconcileVectorStore(options: {
+  vectorStore: VectorStoreService;
+  publish: SubsidyPublisher;
+  dryRun?: boolean;
+}): Promise<Result<ReconciliationReport, AssistantError>> {
+  const { vectorStore, publish, dryRun = false } = options;
+
+  const subsidiesResult = await subsidyRepository.findMany();
+  if (!subsidiesResult.ok) {
+    return err(createAssistantError('VECTOR_STORE_ERROR', subsidiesResult.error.message));
+  }
+
+  const filesResult = await vectorStore.listFiles();
+  if (!filesResult.ok) return filesResult;
+
+  const plan = planReconciliation(subsidiesResult.value, filesResult.value, vectorStore.vectorStoreId);
+  const report: ReconciliationReport = {
+    kept: plan.keep.length,
+    deleted: plan.delete.map((file) => file.fileId),
+    uploaded: plan.upload.map((subsidy) => subsidy.jgrantsId),
+    failed: [],
+    dryRun,
+  };
+
+  if (dryRun) {
+    return ok(report);
+  }
+
+  // Delete first so a failed upload never leaves two copies behind
+  for (const file of plan.delete) {
+    const removed = await vectorStore.deleteFile(file.fileId);
+    if (!removed.ok) {
+      report.deleted = report.deleted.filter((id) => id !== file.fileId);
+      report.failed.push({ target: file.fileId, message: removed.error.message });
+    }
+  }
+
+  for (const subsidy of plan.upload) {
+    // The recorded file is gone, so the publisher must not try to delete it
+    const published = await publish({ ...subsidy, fileId: null });
+    if (!published.ok) {
+      report.uploaded = report.uploaded.filter((id) => id !== subsidy.jgrantsId);
+      report.failed.push({ target: subsidy.jgrantsId, message: published.error.message });
+    }
+  }
+
+  return ok(report);
+}
@@ -0,0 +1,100 @@
+/**
+ * Parsing and validation of structured subsidy search parameters
+ */
+
+import { Result, ok, err } from '../../types/result';
+import { ApiError, createApiError } from '../../types/errors';
+import type { SubsidySearchFilters } from '../../types/subsidy';
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function parseIsoDateParam(
+  name: string,
+  value: string | null
+): Result<string | undefined, ApiError> {
+  if (!value) return ok(undefined);
+  if (!ISO_DATE_PATTERN.test(value) || Number.isNaN(Date.parse(value))) {
+    return err(createApiError('VALIDATION_ERROR', `${name} must be a date in YYYY-MM-DD format`));
+  }
+  return ok(value);
+}
+
+function parseIntegerParam(
+  name: string,
+  value: string | null,
+  bounds: { min: number; max?: number }
+): Result<number | undefined, ApiError> {
+  if (!value) return ok(undefined);
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < bounds.min || (bounds.max !== undefined && parsed > bounds.max)) {
+    const range = bounds.max !== undefined ? `between ${bounds.min} and ${bounds.max}` : `>= ${bounds.min}`;
+    return err(createApiError('VALIDATION_ERROR', `${name} must be an integer ${range}`));
+  }
+  return ok(parsed);
+}
+
+/**
+ * Build search filters from URL query parameters:
+ * `q`, `ministry`, `targetAudience`, `deadlineFrom`, `deadlineTo`,
+ * `amountMin`, `amountMax`, `targetArea`, `industry`, `usePurpose`,
+ * `employeeCount`, `page` and `pageSize`.
+ */
+export function parseSubsidySearchParams(
+  params: URLSearchParams
+): Result<SubsidySearchFilters, ApiError> {
+  const deadlineFrom = parseIsoDateParam('deadlineFrom', params.get('deadlineFrom'));
+  if (!deadlineFrom.ok) return deadlineFrom;
+
+  const deadlineTo = parseIsoDateParam('deadlineTo', params.get('deadlineTo'));
+  if (!deadlineTo.ok) return deadlineTo;
+
+  const amountMin = parseIntegerParam('amountMin', params.get('amountMin'), { min: 0 });
+  if (!amountMin.ok) return amountMin;
+
+  const amountMax = parseIntegerParam('amountMax', params.get('amountMax'), { min: 0 });
+  if (!amountMax.ok) return amountMax;
+
+  const employeeCount = parseIntegerParam('employeeCount', params.get('employeeCount'), { min: 0 });
+  if (!employeeCount.ok) return employeeCount;
+
+  const page = parseIntegerParam('page', params.get('page'), { min: 1 });
+  if (!page.ok) return page;
+
+  const pageSize = parseIntegerParam('pageSize', params.get('pageSize'), { min: 1, max: MAX_PAGE_SIZE });
+  if (!pageSize.ok) return pageSize;
+
+  if (deadlineFrom.value && deadlineTo.value && deadlineFrom.value > deadlineTo.value) {
+    return err(createApiError('VALIDATION_ERROR', 'deadlineFrom must not be after deadlineTo'));
+  }
+  if (
+    amountMin.value !== undefined &&
+    amountMax.value !== undefined &&
+    amountMin.value > amountMax.value
+  ) {
+    return err(createApiError('VALIDATION_ERROR', 'amountMin must not be greater than amountMax'));
+  }
+
+  const keywords = (params.get('q') ?? '')
+    .split(/[\s　]+/)
+    .filter((keyword) => keyword.length > 0);
+
+  return ok({
+    ministry: params.get('ministry') || undefined,
+    targetAudience: params.get('targetAudience') || undefined,
+    deadlineFrom: deadlineFrom.value,
+    deadlineTo: deadlineTo.value,
+    amountMin: amountMin.value,
+    amountMax: amountMax.value,
+    keywords: keywords.length > 0 ? keywords : undefined,
+    targetArea: params.get('targetArea') || undefined,
+    industry: params.get('industry') || undefined,
+    usePurpose: params.get('usePurpose') || undefined,
+    employeeCount: employeeCount.value,
+    page: page.value ?? 1,
+    pageSize: pageSize.value ?? DEFAULT_PAGE_SIZE,
+  });
+}
@@ -0,0 +1,302 @@
+/**
+ * Incremental jGrants sync
+ * Detects changed subsidies by content hash, records revisions and only
+ * re-publishes records whose content actually changed.
+ */
+
+import { createHash } from 'crypto';
+import {
+  subsidyAttachmentRepository,
+  subsidyRepository,
+  subsidyRevisionRepository,
+} from '../../db.server';
+import type { NewSubsidy, Subsidy } from '../../db/schema';
+import { Result, ok, err } from '../../types/result';
+import {
+  AssistantError,
+  DatabaseError,
+  createAssistantError,
+} from '../../types/errors';
+import { FileStoreService } from '../filestore.server';
+import type { VectorStoreService } from '../vectorstore.server';
+import type { SubsidyDetail } from './api-server';
+import {
+  type AttachmentDigest,
+  digestAttachments,
+  digestStoredAttachments,
+  storeSubsidyAttachments,
+} from './attachments.server';
+import { mapSubsidyDetail } from './importer.server';
+
+export type SubsidyPublisher = (subsidy: Subsidy) => Promise<Result<string, AssistantError>>;
+
+export interface SubsidySyncOptions {
+  details: SubsidyDetail[];
+  // IDs currently listed by jGrants (defaults to the IDs in `details`).
+  // Listed subsidies whose details could not be fetched are left as they are.
+  listedIds?: string[];
+  // The query profiles the listing was fetched with and the IDs each one
+  // listed. When given, only subsidies last listed by one of these profiles
+  // are closed, so removing a profile does not close its subsidies.
+  listings?: SubsidyListing[];
+  // Called for every subsidy whose content changed; returns the new file ID
+  publish?: SubsidyPublisher;
+  // Where decoded attachments are written (defaults to data/attachments)
+  attachmentsDir?: string;
+  now?: Date;
+}
+
+export interface SubsidyListing {
+  profile: string;
+  ids: string[];
+}
+
+export interface SubsidySyncReport {
+  created: string[];
+  updated: string[];
+  reopened: string[];
+  closed: string[];
+  unchanged: string[];
+  published: string[];
+  failed: Array<{ jgrantsId: string; message: string }>;
+}
+
+// Normalize undefined to null so hashes and diffs do not depend on key presence
+function comparableValue(value: unknown): string {
+  return JSON.stringify(value ?? null);
+}
+
+/**
+ * Stable hash of the content fields of a mapped subsidy and its attachments
+ */
+export function computeContentHash(subsidy: NewSubsidy, attachments: AttachmentDigest[] = []): string {
+  const entries: unknown[] = Object.keys(subsidy)
+    .sort()
+    .map((key) => [key, subsidy[key as keyof NewSubsidy] ?? null]);
+  // Only part of the hash when present, so hashes of subsidies without attachments stay stable
+  if (attachments.length > 0) {
+    entries.push(['attachments', attachments]);
+  }
+
+  return createHash('sha256').update(JSON.stringify(entries)).digest('hex');
+}
+
+/**
+ * Names of the fields whose values differ between the stored row and the new content
+ */
+export function diffSubsidyFields(previous: Subsidy | undefined, next: NewSubsidy): string[] {
+  return Object.keys(next).filter((key) => {
+    if (key === 'jgrantsId') return false;
+    const nextValue = next[key as keyof NewSubsidy];
+    if (!previous) return nextValue !== undefined && nextValue !== null;
+    return comparableValue(previous[key as keyof Subsidy]) !== comparableValue(nextValue);
+  });
+}
+
+/**
+ * Publisher that writes the subsidy markdown, uploads it to the vector store,
+ * records the new file ID and removes the file it replaces
+ */
+export function createVectorStorePublisher(
+  vectorStore: VectorStoreService,
+  fileStore: FileStoreService = new FileStoreService()
+): SubsidyPublisher {
+  return async (subsidy) => {
+    await fileStore.saveSubsidyAsMarkdown(subsidy);
+    const file = await fileStore.createFileForOpenAI(subsidy.id.toString());
+    if (!file) {
+      return err(createAssistantError('FILE_UPLOAD_ERROR', `Subsidy not found: ${subsidy.jgrantsId}`));
+    }
+
+    const uploaded = await vectorStore.uploadFile(file);
+    if (!uploaded.ok) return uploaded;
+
+    const updated = await subsidyRepository.update(subsidy.id, {
+      fileId: uploaded.value,
+      vectorStoreId: vectorStore.vectorStoreId,
+    });
+    if (!updated.ok) {
+      return err(createAssistantError('VECTOR_STORE_ERROR', updated.error.message));
+    }
+
+    if (subsidy.fileId && subsidy.fileId !== uploaded.value) {
+      // A failed delete leaves an orphan that vector store reconciliation removes
+      const removed = await vectorStore.deleteFile(subsidy.fileId);
+      if (!removed.ok) {
+        console.error(`Failed to remove previous file for ${subsidy.jgrantsId}:`, removed.error.message);
+      }
+    }
+
+    return ok(uploaded.value);
+  };
+}
+
+async function attachmentsChanged(jgrantsId: string, next: AttachmentDigest[]): Promise<boolean> {
+  const stored = await subsidyAttachmentRepository.findMany(jgrantsId);
+  const previous = stored.ok ? digestStoredAttachments(stored.value) : [];
+  return JSON.stringify(previous) !== JSON.stringify(next);
+}
+
+async function publishChanged(
+  subsidy: Subsidy,
+  options: SubsidySyncOptions,
+  report: SubsidySyncReport
+) {
+  if (!options.publish) return;
+
+  const published = await options.publish(subsidy);
+  if (published.ok) {
+    report.published.push(subsidy.jgrantsId);
+    return;
+  }
+
+  // Forget the outdated file so reconciliation re-uploads the subsidy
+  await subsidyRepository.update(subsidy.id, { fileId: null });
+  report.failed.push({ jgrantsId: subsidy.jgrantsId, message: published.error.message });
+}
+
+// Profiles that listed each subsidy, in listing order
+function profilesById(listings: SubsidyListing[]): Map<string, string[]> {
+  const profiles = new Map<string, string[]>();
+  for (const listing of listings) {
+    for (const id of listing.ids) {
+      const names = profiles.get(id) ?? [];
+      if (!names.includes(listing.profile)) names.push(listing.profile);
+      profiles.set(id, names);
+    }
+  }
+  return profiles;
+}
+
+/**
+ * Sync fetched jGrants details into the subsidies table.
+ *
+ * Subsidies that were previously synced but are missing from the listing
+ * (`listedIds` and `listings`, or `details` when both are omitted) are
+ * marked as closed. Rows without a content hash (e.g. seeded sample data)
+ * are never closed, nor, when `listings` is given, rows that were last
+ * listed only by profiles no longer synced.
+ */
+export async function syncSubsidyDetails(
+  options: SubsidySyncOptions
+): Promise<Result<SubsidySyncReport, DatabaseError>> {
+  const now = (options.now ?? new Date()).toISOString();
+  const report: SubsidySyncReport = {
+    created: [],
+    updated: [],
+    reopened: [],
+    closed: [],
+    unchanged: [],
+    published: [],
+    failed: [],
+  };
+
+  const existingResult = await subsidyRepository.findMany();
+  if (!existingResult.ok) return existingResult;
+  const existing = new Map(existingResult.value.map((subsidy) => [subsidy.jgrantsId, subsidy]));
+
+  const listedBy = options.listings ? profilesById(options.listings) : null;
+  const listed = new Set<string>([...(options.listedIds ?? []), ...(listedBy?.keys() ?? [])]);
+  const synced = new Set<string>();
+  for (const detail of options.details) {
+    if (synced.has(detail.id)) continue;
+    synced.add(detail.id);
+    listed.add(detail.id);
+
+    const content = mapSubsidyDetail(detail);
+    const attachments = digestAttachments(detail);
+    const contentHash = computeContentHash(content, attachments);
+    const previous = existing.get(detail.id);
+    // Kept as they were when the listings do not say
+    const syncProfiles = listedBy ? listedBy.get(detail.id) ?? [] : previous?.syncProfiles ?? null;
+
+    if (
+      previous &&
+      previous.contentHash === contentHash &&
+      previous.status === 'open' &&
+      !previous.attachmentError
+    ) {
+      if (comparableValue(previous.syncProfiles) !== comparableValue(syncProfiles)) {
+        const updated = await subsidyRepository.update(previous.id, { syncProfiles });
+        if (!updated.ok) report.failed.push({ jgrantsId: detail.id, message: updated.error.message });
+      }
+      report.unchanged.push(detail.id);
+      continue;
+    }
+
+    const changeType = !previous ? 'created' : previous.status === 'closed' ? 'reopened' : 'updated';
+    const changedFields = diffSubsidyFields(previous, content);
+    if (await attachmentsChanged(detail.id, attachments)) changedFields.push('attachments');
+    if (changeType === 'reopened') changedFields.push('status');
+
+    const saved = await subsidyRepository.upsert({
+      ...content,
+      contentHash,
+      syncProfiles,
+      attachmentError: null,
+      status: 'open',
+      closedAt: null,
+    });
+    if (!saved.ok) {
+      report.failed.push({ jgrantsId: detail.id, message: saved.error.message });
+      continue;
+    }
+
+    const revision = await subsidyRevisionRepository.create({
+      jgrantsId: detail.id,
+      changeType,
+      changedFields,
+      previousHash: previous?.contentHash ?? null,
+      contentHash,
+    });
+    if (!revision.ok) {
+      report.failed.push({ jgrantsId: detail.id, message: revision.error.message });
+    }
+
+    const stored = await storeSubsidyAttachments(detail, { baseDir: options.attachmentsDir });
+    const attachmentFailure = !stored.ok
+      ? stored.error.message
+      : stored.value.failed.map((failure) => `${failure.name}: ${failure.message}`).join('; ');
+    if (attachmentFailure) {
+      // Recorded so the next sync retries the attachments even if the content is unchanged
+      await subsidyRepository.update(saved.value.id, { attachmentError: attachmentFailure });
+      report.failed.push({ jgrantsId: detail.id, message: `Failed to store attachments: ${attachmentFailure}` });
+    }
+
+    report[changeType].push(detail.id);
+    await publishChanged(saved.value, options, report);
+  }
+
+  const syncedProfiles = new Set(options.listings?.map((listing) => listing.profile));
+  const stillTracked = (subsidy: Subsidy) =>
+    !options.listings || (subsidy.syncProfiles ?? []).some((profile) => syncedProfiles.has(profile));
+
+  for (const subsidy of existing.values()) {
+    if (listed.has(subsidy.jgrantsId) || !subsidy.contentHash || subsidy.status === 'closed') {
+      continue;
+    }
+    if (!stillTracked(subsidy)) continue;
+
+    const closed = await subsidyRepository.update(subsidy.id, { status: 'closed', closedAt: now });
+    if (!closed.ok) {
+      report.failed.push({ jgrantsId: subsidy.jgrantsId, message: closed.error.message });
+      continue;
+    }
+
+    const revision = await subsidyRevisionRepository.create({
+      jgrantsId: subsidy.jgrantsId,
+      changeType: 'closed',
+      changedFields: ['status'],
+      previousHash: subsidy.contentHash,
+      contentHash: subsidy.contentHash,
+    });
+    if (!revision.ok) {
+      report.failed.push({ jgrantsId: subsidy.jgrantsId, message: revision.error.message });
+    }
+
+    report.closed.push(subsidy.jgrantsId);
+    await publishChanged({ ...subsidy, status: 'closed', closedAt: now }, options, report);
+  }
+
+  return ok(report);
+}
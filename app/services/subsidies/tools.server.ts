@@ -0,0 +1,268 @@
+/**
+ * Function tools the assistant calls to look subsidies up in the database
+ * File Search finds passages by similarity; these return the stored fields
+ * (amounts, dates, target areas) and the rule-based eligibility decision, so
+ * answers quote exact values. Every call returns JSON for the model, with
+ * invalid arguments and failures reported as `{ "error": ... }` so the model
+ * can correct itself instead of the run failing.
+ */
+
+import type { FunctionDefinition } from 'openai/resources/shared';
+import { subsidyRepository } from '../../db.server';
+import type { Subsidy } from '../../db/schema';
+import type { SubsidySearchFilters } from '../../types/subsidy';
+import { subsidyResourceUri } from '../../utils/subsidy-links';
+import {
+  JGRANTS_INDUSTRIES,
+  JGRANTS_USE_PURPOSES,
+  PREFECTURES,
+  parseCompanyProfileForm,
+} from './company-profile';
+import {
+  ELIGIBILITY_CRITERION_LABELS,
+  ELIGIBILITY_STATUS_LABELS,
+  evaluateSubsidyEligibility,
+} from './eligibility';
+import { formatAcceptancePeriod, toJstDate } from './normalize';
+import { parseSubsidySearchParams } from './search-params';
+
+// Keeps tool outputs small enough to leave room for the answer
+export const MAX_TOOL_RESULTS = 10;
+
+const ISO_DATE = { type: 'string', description: 'YYYY-MM-DD形式の日付' };
+const JGRANTS_ID = { type: 'string', description: '補助金のjGrants ID（検索結果の jgrantsId）' };
+
+export const SUBSIDY_TOOLS: FunctionDefinition[] = [
+  {
+    name: 'search_subsidies',
+    description: '登録済みの補助金を条件で検索します。金額や締切など正確な値が必要なときに使います。',
+    parameters: {
+      type: 'object',
+      properties: {
+        q: { type: 'string', description: 'キーワード（空白区切りですべてを含むものに一致）' },
+        ministry: { type: 'string', description: '所管省庁' },
+        targetArea: { type: 'string', enum: PREFECTURES, description: '事業所の所在地（その地方と全国対象も含む）' },
+        industry: { type: 'string', enum: JGRANTS_INDUSTRIES, description: '業種' },
+        usePurpose: { type: 'string', enum: JGRANTS_USE_PURPOSES, description: '利用目的' },
+        employeeCount: { type: 'integer', minimum: 0, description: '従業員数' },
+        amountMin: { type: 'integer', minimum: 0, description: '補助上限額の下限（円）' },
+        amountMax: { type: 'integer', minimum: 0, description: '補助上限額の上限（円）' },
+        deadlineFrom: { ...ISO_DATE, description: 'この日以降に締め切るもの（YYYY-MM-DD）' },
+        deadlineTo: { ...ISO_DATE, description: 'この日までに締め切るもの（YYYY-MM-DD）' },
+        limit: { type: 'integer', minimum: 1, maximum: MAX_TOOL_RESULTS, description: '取得する件数' },
+      },
+    },
+  },
+  {
+    name: 'get_subsidy',
+    description: '補助金1件の詳細（概要、対象者、要件、補助額、補助率、受付期間、申請URL）を取得します。',
+    parameters: {
+      type: 'object',
+      properties: { jgrantsId: JGRANTS_ID },
+      required: ['jgrantsId'],
+    },
+  },
+  {
+    name: 'list_open_subsidies',
+    description: '現在募集中で締切が過ぎていない補助金を締切の近い順に一覧します。',
+    parameters: {
+      type: 'object',
+      properties: {
+        area: { type: 'string', enum: PREFECTURES, description: '事業所の所在地（その地方と全国対象も含む）' },
+        deadlineBefore: { ...ISO_DATE, description: 'この日までに締め切るものに限る（YYYY-MM-DD）' },
+      },
+    },
+  },
+  {
+    name: 'check_eligibility',
+    description: '事業者情報が補助金の申請要件（地域、従業員数、業種、受付期間、創業年数）を満たすかをルールで判定します。',
+    parameters: {
+      type: 'object',
+      properties: {
+        profile: {
+          type: 'object',
+          description: '事業者情報。分からない項目は省略します。',
+          properties: {
+            prefecture: { type: 'string', enum: PREFECTURES, description: '所在地' },
+            industry: { type: 'string', enum: JGRANTS_INDUSTRIES, description: '業種' },
+            employeeCount: { type: 'integer', minimum: 0, description: '従業員数' },
+            capital: { type: 'integer', minimum: 0, description: '資本金（万円）' },
+            foundedOn: { ...ISO_DATE, description: '設立日（YYYY-MM-DD）' },
+            investmentPurpose: { type: 'string', enum: JGRANTS_USE_PURPOSES, description: '予定している投資の目的' },
+          },
+        },
+        jgrantsId: JGRANTS_ID,
+      },
+      required: ['profile', 'jgrantsId'],
+    },
+  },
+];
+
+type ToolArguments = Record<string, unknown>;
+
+class ToolArgumentError extends Error {}
+
+function parseArguments(json: string): ToolArguments {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json || '{}');
+  } catch {
+    throw new ToolArgumentError('Arguments must be a JSON object');
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new ToolArgumentError('Arguments must be a JSON object');
+  }
+  return parsed as ToolArguments;
+}
+
+function requireString(args: ToolArguments, name: string): string {
+  const value = args[name];
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new ToolArgumentError(`${name} is required`);
+  }
+  return value.trim();
+}
+
+// Scalar arguments as strings, to be validated like query or form parameters
+function toParams(args: ToolArguments, names: Record<string, string>): [string, string][] {
+  return Object.entries(names).flatMap(([argName, paramName]) => {
+    const value = args[argName];
+    return typeof value === 'string' || typeof value === 'number' ? [[paramName, String(value)]] : [];
+  });
+}
+
+function parseFilters(params: [string, string][]): SubsidySearchFilters {
+  const filters = parseSubsidySearchParams(new URLSearchParams(params));
+  if (!filters.ok) throw new ToolArgumentError(filters.error.message);
+  return filters.value;
+}
+
+function summarizeSubsidy(subsidy: Subsidy) {
+  return {
+    jgrantsId: subsidy.jgrantsId,
+    title: subsidy.title,
+    // Link to the subsidy's page when citing it
+    uri: subsidyResourceUri(subsidy.jgrantsId),
+    ministry: subsidy.ministry,
+    amount: subsidy.amount,
+    maxAmountYen: subsidy.maxAmount,
+    subsidyRate: subsidy.subsidyRate,
+    deadline: subsidy.deadlineDate ?? subsidy.deadline,
+    acceptancePeriod: formatAcceptancePeriod(subsidy.acceptanceStart, subsidy.acceptanceEnd),
+    status: subsidy.status,
+  };
+}
+
+function describeSubsidy(subsidy: Subsidy) {
+  return {
+    ...summarizeSubsidy(subsidy),
+    description: subsidy.description,
+    targetAudience: subsidy.targetAudience,
+    requirements: subsidy.requirements,
+    targetAreas: subsidy.targetAreas,
+    targetAreaDetail: subsidy.targetAreaDetail,
+    industries: subsidy.industries,
+    usePurposes: subsidy.usePurposes,
+    targetNumberOfEmployees: subsidy.targetNumberOfEmployees,
+    fiscalYear: subsidy.fiscalYear,
+    applicationUrl: subsidy.applicationUrl,
+  };
+}
+
+async function searchSubsidies(filters: SubsidySearchFilters) {
+  const result = await subsidyRepository.findWithFilters(filters);
+  if (!result.ok) throw new Error(result.error.message);
+  return { total: result.value.total, subsidies: result.value.subsidies.map(summarizeSubsidy) };
+}
+
+async function findSubsidy(args: ToolArguments): Promise<Subsidy> {
+  const jgrantsId = requireString(args, 'jgrantsId');
+  const subsidy = await subsidyRepository.findUnique({ jgrantsId });
+  if (!subsidy.ok) throw new Error(subsidy.error.message);
+  if (!subsidy.value) throw new ToolArgumentError(`Subsidy not found: ${jgrantsId}`);
+  return subsidy.value;
+}
+
+type ToolHandler = (args: ToolArguments, now: Date) => Promise<unknown>;
+
+const TOOL_HANDLERS: Record<string, ToolHandler> = {
+  async search_subsidies(args) {
+    const limit = typeof args.limit === 'number' ? Math.min(args.limit, MAX_TOOL_RESULTS) : MAX_TOOL_RESULTS;
+    const params = toParams(args, {
+      q: 'q',
+      ministry: 'ministry',
+      targetArea: 'targetArea',
+      industry: 'industry',
+      usePurpose: 'usePurpose',
+      employeeCount: 'employeeCount',
+      amountMin: 'amountMin',
+      amountMax: 'amountMax',
+      deadlineFrom: 'deadlineFrom',
+      deadlineTo: 'deadlineTo',
+    });
+    return searchSubsidies(parseFilters([...params, ['pageSize', String(limit)]]));
+  },
+
+  async get_subsidy(args) {
+    return describeSubsidy(await findSubsidy(args));
+  },
+
+  async list_open_subsidies(args, now) {
+    const today = toJstDate(now.toISOString())!;
+    const params = toParams(args, { area: 'targetArea', deadlineBefore: 'deadlineTo' });
+    if (typeof args.deadlineBefore === 'string' && args.deadlineBefore < today) {
+      throw new ToolArgumentError(`deadlineBefore must not be before today (${today})`);
+    }
+    const filters = parseFilters([...params, ['deadlineFrom', today], ['pageSize', String(MAX_TOOL_RESULTS)]]);
+    return { today, ...(await searchSubsidies({ ...filters, status: 'open' })) };
+  },
+
+  async check_eligibility(args, now) {
+    const subsidy = await findSubsidy(args);
+    const profileArgs = args.profile && typeof args.profile === 'object' ? (args.profile as ToolArguments) : {};
+    const form = new FormData();
+    for (const [name, value] of toParams(profileArgs, {
+      prefecture: 'prefecture',
+      industry: 'industry',
+      employeeCount: 'employeeCount',
+      capital: 'capital',
+      foundedOn: 'foundedOn',
+      investmentPurpose: 'investmentPurpose',
+    })) {
+      form.set(name, value);
+    }
+    const profile = parseCompanyProfileForm(form, now);
+    if (!profile.ok) throw new ToolArgumentError(profile.error.message);
+
+    const evaluation = evaluateSubsidyEligibility(profile.value, subsidy, now);
+    return {
+      jgrantsId: subsidy.jgrantsId,
+      title: subsidy.title,
+      status: ELIGIBILITY_STATUS_LABELS[evaluation.status],
+      criteria: evaluation.criteria.map((criterion) => ({
+        criterion: ELIGIBILITY_CRITERION_LABELS[criterion.criterion],
+        status: ELIGIBILITY_STATUS_LABELS[criterion.status],
+        reason: criterion.reason,
+      })),
+    };
+  },
+};
+
+/**
+ * Run one of SUBSIDY_TOOLS with the JSON arguments the model sent, returning
+ * the output to submit for the call
+ */
+export async function callSubsidyTool(name: string, args: string, now: Date = new Date()): Promise<string> {
+  if (!Object.hasOwn(TOOL_HANDLERS, name)) {
+    return JSON.stringify({ error: `Unknown function: ${name}` });
+  }
+
+  try {
+    return JSON.stringify(await TOOL_HANDLERS[name](parseArguments(args), now));
+  } catch (error) {
+    if (!(error instanceof ToolArgumentError)) {
+      console.error(`Subsidy tool ${name} failed:`, error);
+    }
+    return JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * Vector store file management
+ * Keeps track of the OpenAI files attached to the subsidy vector store
+ */
+
+import OpenAI from 'openai';
+import { Result, ok, err } from '../types/result';
+import { AssistantError, createAssistantError } from '../types/errors';
+import type { VectorStoreId } from '../types/assistant';
+
+export interface VectorStoreFileInfo {
+  id: string;
+  // null when the vector store references a file that no longer exists
+  filename: string | null;
+  createdAt: number;
+}
+
+interface VectorStoreServiceConfig {
+  openai: OpenAI;
+  vectorStoreId: VectorStoreId;
+}
+
+export function createVectorStoreService(config: VectorStoreServiceConfig) {
+  const { openai, vectorStoreId } = config;
+
+  // Upload a file and attach it to the vector store, returning the file ID
+  async function uploadFile(file: File): Promise<Result<string, AssistantError>> {
+    try {
+      const openaiFile = await openai.files.create({
+        file,
+        purpose: 'assistants',
+      });
+
+      await openai.vectorStores.files.create(vectorStoreId, {
+        file_id: openaiFile.id,
+      });
+
+      return ok(openaiFile.id);
+    } catch (error) {
+      return err(createAssistantError(
+        'FILE_UPLOAD_ERROR',
+        `Failed to upload ${file.name}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      ));
+    }
+  }
+
+  // Detach a file from the vector store and delete it from OpenAI
+  async function deleteFile(fileId: string): Promise<Result<void, AssistantError>> {
+    try {
+      await openai.vectorStores.files.del(vectorStoreId, fileId);
+      await openai.files.del(fileId);
+      return ok(undefined);
+    } catch (error) {
+      return err(createAssistantError(
+        'VECTOR_STORE_ERROR',
+        `Failed to delete file ${fileId}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      ));
+    }
+  }
+
+  // List every file attached to the vector store together with its filename
+  async function listFiles(): Promise<Result<VectorStoreFileInfo[], AssistantError>> {
+    try {
+      const filenames = new Map<string, string>();
+      for await (const file of openai.files.list({ purpose: 'assistants' })) {
+        filenames.set(file.id, file.filename);
+      }
+
+      const files: VectorStoreFileInfo[] = [];
+      for await (const file of openai.vectorStores.files.list(vectorStoreId)) {
+        files.push({
+          id: file.id,
+          filename: filenames.get(file.id) ?? null,
+          createdAt: file.created_at,
+        });
+      }
+
+      return ok(files);
+    } catch (error) {
+      return err(createAssistantError(
+        'VECTOR_STORE_ERROR',
+        `Failed to list vector store files: ${error instanceof Error ? error.message : 'Unknown error'}`
+      ));
+    }
+  }
+
+  return {
+    vectorStoreId,
+    uploadFile,
+    deleteFile,
+    listFiles,
+  };
+}
+
+export type VectorStoreService = ReturnType<typeof createVectorStoreService>;
@@ -4,6 +4,33 @@ export interface Message {
   role: 'user' | 'assistant';
   content: string;
   timestamp: Date;
+  citations?: Citation[];
+}
+
+// A File Search source resolved to the subsidy it was generated from.
+// The message text references it as a GFM footnote `[^index]`.
+export interface Citation {
+  index: number;
+  fileId: string;
+  // Null when the cited file no longer maps to a stored subsidy
+  jgrantsId: string | null;
+  title: string | null;
+}
+
+// Final assistant text with File Search markers replaced by footnote references
+export interface AssistantReply {
+  text: string;
+  citations: Citation[];
+}
+
+// How a run that produced its reply ended; failed and timed out runs are errors
+export type RunStatus = 'completed' | 'incomplete' | 'cancelled';
+
+// Result of AssistantService.runAssistant and streamAssistant
+export interface AssistantRunResult {
+  status: RunStatus;
+  // Partial text unless completed; null when the run produced no text
+  reply: AssistantReply | null;
 }
 
 export interface ChatResponse {
@@ -11,10 +38,53 @@ export interface ChatResponse {
   messages?: string[];
   error?: string;
   success?: boolean;
+  // True when the reply came from local search because the assistant failed
+  fallback?: boolean;
+  // Sources of messages[0]
+  citations?: Citation[];
+  // How the run ended; messages[0] is cut short unless completed
+  runStatus?: RunStatus;
 }
 
 export interface ChatRequest {
   message: string;
   threadId: string;
   userId: string;
-}
\ No newline at end of file
+  // Respond with server-sent events (ChatStreamEvent) instead of a single JSON body
+  stream?: boolean;
+  // Scope a new thread to this subsidy (jGrants ID); ignored for existing threads
+  subsidyId?: string;
+}
+
+// Entry of the conversation history sidebar (a row of GET /api/thread?userId=)
+export interface ThreadSummary {
+  threadId: string;
+  title: string | null;
+  updatedAt: string;
+}
+
+// Stored message as returned by GET /api/thread?threadId=
+export interface StoredMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  citations: Citation[] | null;
+  createdAt: string;
+}
+
+// Subsidy a chat thread was opened from
+export interface SubsidyReference {
+  jgrantsId: string;
+  title: string;
+}
+
+// Progress of an assistant run, yielded by AssistantService.streamAssistant
+export type AssistantStreamUpdate =
+  | { type: 'delta'; text: string }
+  | { type: 'tool'; status: 'in_progress' | 'completed'; tools: string[] };
+
+// Events sent by /api/chat in streaming mode
+export type ChatStreamEvent =
+  | { type: 'thread'; threadId: string }
+  | AssistantStreamUpdate
+  | { type: 'done'; response: ChatResponse }
+  | { type: 'error'; error: string };
\ No newline at end of file
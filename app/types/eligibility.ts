@@ -0,0 +1,40 @@
+// Shared type definitions for subsidy eligibility rules
+
+// Founding age requirement found in the subsidy text, e.g. 創業5年以内
+export interface FoundingAgeRule {
+  // within: at most `years`, under: less than `years`, atLeast: `years` or more
+  operator: 'within' | 'under' | 'atLeast';
+  years: number;
+  // The phrase the rule was parsed from
+  text: string;
+}
+
+// Structured criteria parsed from jGrants detail fields, stored with the subsidy.
+// Null means the subsidy data does not say, so the criterion cannot be decided.
+export interface EligibilityRules {
+  // target_area_search values (prefectures, regions or 全国)
+  areas: string[] | null;
+  industries: string[] | null;
+  // Bounds from target_number_of_employees; {} when there is no limit
+  employees: { min?: number; max?: number } | null;
+  // ISO datetimes
+  acceptance: { start: string | null; end: string | null } | null;
+  // Null when the text states no founding age requirement
+  foundingAge: FoundingAgeRule | null;
+}
+
+export type EligibilityStatus = 'eligible' | 'not_eligible' | 'unknown';
+
+export type EligibilityCriterion = 'area' | 'employees' | 'industry' | 'acceptance' | 'foundingAge';
+
+export interface CriterionResult {
+  criterion: EligibilityCriterion;
+  status: EligibilityStatus;
+  reason: string;
+}
+
+// Not eligible if any criterion fails, unknown if any cannot be decided
+export interface EligibilityResult {
+  status: EligibilityStatus;
+  criteria: CriterionResult[];
+}
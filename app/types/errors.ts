@@ -5,16 +5,23 @@
 // Assistant service errors
 export type AssistantError =
   | { type: 'MISSING_ASSISTANT_ID'; message: string }
+  | { type: 'CONFIG_ERROR'; message: string }
   | { type: 'INVALID_PARAMS'; message: string }
   | { type: 'CREATE_ASSISTANT_FAILED'; message: string }
+  | { type: 'CREATE_THREAD_FAILED'; message: string }
+  | { type: 'THREAD_NOT_FOUND'; message: string }
   | { type: 'ADD_MESSAGE_FAILED'; message: string }
   | { type: 'RUN_FAILED'; message: string }
+  | { type: 'RUN_TIMEOUT'; message: string }
+  | { type: 'DELETE_THREAD_FAILED'; message: string }
   | { type: 'VECTOR_STORE_ERROR'; message: string }
-  | { type: 'FILE_UPLOAD_ERROR'; message: string };
+  | { type: 'FILE_UPLOAD_ERROR'; message: string }
+  | { type: 'DATABASE_ERROR'; message: string };
 
 // Database errors
 export type DatabaseError =
   | { type: 'CONNECTION_ERROR'; message: string }
+  | { type: 'CONFIG_ERROR'; message: string }
   | { type: 'QUERY_ERROR'; message: string }
   | { type: 'NOT_FOUND'; message: string }
   | { type: 'INVALID_INPUT'; message: string };
@@ -24,7 +31,19 @@ export type ApiError =
   | { type: 'NETWORK_ERROR'; message: string }
   | { type: 'VALIDATION_ERROR'; message: string }
   | { type: 'UNAUTHORIZED'; message: string }
-  | { type: 'SERVER_ERROR'; message: string };
+  | { type: 'SERVER_ERROR'; message: string }
+  | { type: 'RATE_LIMITED'; message: string }
+  | { type: 'TIMEOUT'; message: string }
+  | { type: 'NOT_FOUND'; message: string };
+
+// Authentication errors
+export type AuthError =
+  | { type: 'INVALID_INPUT'; message: string }
+  | { type: 'INVALID_CREDENTIALS'; message: string }
+  | { type: 'EMAIL_TAKEN'; message: string }
+  | { type: 'INVALID_TOKEN'; message: string }
+  | { type: 'MAIL_FAILED'; message: string }
+  | { type: 'QUERY_ERROR'; message: string };
 
 // Helper function to create error messages
 export function createAssistantError(
@@ -46,4 +65,11 @@ export function createApiError(
   message: string
 ): ApiError {
   return { type, message } as ApiError;
-}
\ No newline at end of file
+}
+
+export function createAuthError(
+  type: AuthError['type'],
+  message: string
+): AuthError {
+  return { type, message } as AuthError;
+}
@@ -0,0 +1,59 @@
+// Shared type definitions for structured subsidy search
+import type { Subsidy } from '../db/schema';
+
+export interface SubsidySearchFilters {
+  ministry?: string;
+  targetAudience?: string;
+  // ISO dates (YYYY-MM-DD), inclusive
+  deadlineFrom?: string;
+  deadlineTo?: string;
+  // Bounds on the subsidy's maximum amount in yen, inclusive
+  amountMin?: number;
+  amountMax?: number;
+  keywords?: string[];
+  // Business profile filters in jGrants vocabulary. Subsidies without the
+  // corresponding data are kept, since they may still apply.
+  // A prefecture; also matches its region and 全国
+  targetArea?: string;
+  industry?: string;
+  usePurpose?: string;
+  // Excludes subsidies whose target_number_of_employees bracket is smaller
+  employeeCount?: number;
+  // Open: still listed by jGrants; closed: withdrawn from its listing
+  status?: Subsidy['status'];
+  page: number;
+  pageSize: number;
+}
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+export interface SubsidyFacets {
+  ministry: FacetCount[];
+  targetAudience: FacetCount[];
+}
+
+export interface SubsidySearchResult {
+  subsidies: Subsidy[];
+  total: number;
+  page: number;
+  pageSize: number;
+  facets: SubsidyFacets;
+}
+
+export interface SubsidySearchHit {
+  subsidy: Subsidy;
+  // Relevance score, higher is better (0 when ranking is unavailable)
+  score: number;
+  // Excerpt around the matched terms, with matches wrapped in highlight markers
+  snippet: string;
+}
+
+export interface SubsidyTextSearchOptions {
+  limit?: number;
+  // 'all' requires every term to match (default), 'any' requires at least one
+  match?: 'all' | 'any';
+  highlight?: { open: string; close: string };
+}
@@ -0,0 +1,111 @@
+/**
+ * Server-sent events helpers shared by streaming routes and their clients
+ */
+
+export interface SseEvent {
+  type: string;
+}
+
+/**
+ * Serialize an event as an SSE frame; the event name is the `type` field
+ */
+export function formatSseEvent(event: SseEvent): string {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+/**
+ * Build a text/event-stream response fed by `producer`.
+ * Events sent after the client disconnected are dropped. The signal given to
+ * the producer aborts when that happens, whether the request is aborted or
+ * the response stream is cancelled.
+ */
+export function createSseResponse<T extends SseEvent>(
+  producer: (send: (event: T) => void, disconnected: AbortSignal) => Promise<void>,
+  signal?: AbortSignal
+): Response {
+  const encoder = new TextEncoder();
+  const disconnect = new AbortController();
+  let closed = false;
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        controller.close();
+      };
+      const abort = () => {
+        close();
+        disconnect.abort(signal?.reason);
+      };
+      signal?.addEventListener('abort', abort);
+
+      const send = (event: T) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(formatSseEvent(event)));
+      };
+
+      try {
+        await producer(send, disconnect.signal);
+      } finally {
+        signal?.removeEventListener('abort', abort);
+        close();
+      }
+    },
+
+    cancel(reason) {
+      // The stream is already closed for the producer's remaining events
+      closed = true;
+      disconnect.abort(reason);
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      // Disable proxy buffering (nginx) so deltas reach the browser immediately
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
+
+/**
+ * Parse the `data` payloads of an SSE response body as JSON events
+ */
+export async function* readSseEvents<T extends SseEvent>(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<T> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      buffer += decoder.decode(value, { stream: !done });
+
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        const frame = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+
+        const data = frame
+          .split('\n')
+          .filter((line) => line.startsWith('data:'))
+          .map((line) => line.slice(5).trimStart())
+          .join('\n');
+        if (data) {
+          yield JSON.parse(data) as T;
+        }
+
+        boundary = buffer.indexOf('\n\n');
+      }
+
+      if (done) return;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
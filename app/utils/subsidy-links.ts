@@ -0,0 +1,44 @@
+/**
+ * Addresses of a subsidy across the app: the detail page, the MCP resource
+ * URI (`subsidy:///<jgrantsId>`) and the chat pre-seeded with the subsidy
+ */
+
+export const SUBSIDY_RESOURCE_PREFIX = 'subsidy:///';
+
+export function subsidyPath(jgrantsId: string): string {
+  return `/subsidies/${encodeURIComponent(jgrantsId)}`;
+}
+
+export function subsidyResourceUri(jgrantsId: string): string {
+  return `${SUBSIDY_RESOURCE_PREFIX}${encodeURIComponent(jgrantsId)}`;
+}
+
+/**
+ * jGrants ID addressed by a `subsidy:///` URI, or null for any other URI
+ */
+export function parseSubsidyResourceUri(uri: string): string | null {
+  if (!uri.startsWith(SUBSIDY_RESOURCE_PREFIX)) return null;
+
+  const id = uri.slice(SUBSIDY_RESOURCE_PREFIX.length).replace(/\/+$/, '');
+  if (!id) return null;
+
+  try {
+    return decodeURIComponent(id);
+  } catch {
+    return null;
+  }
+}
+
+// Chat page with a new thread scoped to the subsidy
+export function askAssistantPath(jgrantsId: string): string {
+  return `/?subsidy=${encodeURIComponent(jgrantsId)}`;
+}
+
+/**
+ * Link target for a URL found in assistant markdown: subsidy resource URIs
+ * become detail page paths, everything else is returned unchanged
+ */
+export function resolveSubsidyHref(url: string): string {
+  const jgrantsId = parseSubsidyResourceUri(url);
+  return jgrantsId ? subsidyPath(jgrantsId) : url;
+}
@@ -3,8 +3,10 @@ import type { Config } from 'drizzle-kit';
 export default {
   schema: './app/db/schema.ts',
   out: './drizzle',
+  // The libsql migrator runs one statement at a time
+  breakpoints: true,
   driver: 'libsql',
   dbCredentials: {
-    url: process.env.DATABASE_URL?.replace('file:', 'file:') || 'file:./prisma/dev.db',
+    url: process.env.DATABASE_URL || 'file:./prisma/dev.db',
   },
 } satisfies Config;
\ No newline at end of file
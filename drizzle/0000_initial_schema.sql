@@ -0,0 +1,149 @@
+CREATE TABLE `bookmarks` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`user_id` text NOT NULL,
+	`jgrants_id` text NOT NULL,
+	`remind_days_before` integer DEFAULT 7 NOT NULL,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`jgrants_id`) REFERENCES `subsidies`(`jgrants_id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE TABLE `company_profiles` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`user_id` text NOT NULL,
+	`prefecture` text,
+	`industry` text,
+	`employee_count` integer,
+	`capital` integer,
+	`founded_on` text,
+	`investment_purpose` text,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	`updated_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE TABLE `magic_link_tokens` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`user_id` text NOT NULL,
+	`token_hash` text NOT NULL,
+	`expires_at` text NOT NULL,
+	`used_at` text,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE TABLE `messages` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`thread_id` text NOT NULL,
+	`role` text NOT NULL,
+	`content` text NOT NULL,
+	`citations` text,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	FOREIGN KEY (`thread_id`) REFERENCES `threads`(`thread_id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE TABLE `reminder_deliveries` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`bookmark_id` integer NOT NULL,
+	`kind` text NOT NULL,
+	`event_at` text NOT NULL,
+	`channel` text NOT NULL,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	FOREIGN KEY (`bookmark_id`) REFERENCES `bookmarks`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE TABLE `subsidies` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`jgrants_id` text NOT NULL,
+	`title` text NOT NULL,
+	`description` text NOT NULL,
+	`target_audience` text,
+	`amount` text,
+	`max_amount` integer,
+	`deadline` text,
+	`deadline_date` text,
+	`fiscal_year` integer,
+	`subsidy_rate_min` real,
+	`subsidy_rate_max` real,
+	`requirements` text,
+	`application_url` text,
+	`ministry` text,
+	`subsidy_rate` text,
+	`acceptance_start` text,
+	`acceptance_end` text,
+	`target_areas` text,
+	`target_area_detail` text,
+	`industries` text,
+	`use_purposes` text,
+	`target_number_of_employees` text,
+	`eligibility_rules` text,
+	`content_hash` text,
+	`status` text DEFAULT 'open' NOT NULL,
+	`closed_at` text,
+	`vector_store_id` text,
+	`file_id` text,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	`updated_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE `subsidy_attachments` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`jgrants_id` text NOT NULL,
+	`category` text NOT NULL,
+	`name` text NOT NULL,
+	`file_path` text NOT NULL,
+	`mime_type` text,
+	`size` integer NOT NULL,
+	`sha256` text NOT NULL,
+	`extracted_text` text,
+	`extraction_status` text NOT NULL,
+	`extraction_error` text,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	`updated_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	FOREIGN KEY (`jgrants_id`) REFERENCES `subsidies`(`jgrants_id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE TABLE `subsidy_revisions` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`jgrants_id` text NOT NULL,
+	`change_type` text NOT NULL,
+	`changed_fields` text NOT NULL,
+	`previous_hash` text,
+	`content_hash` text,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	FOREIGN KEY (`jgrants_id`) REFERENCES `subsidies`(`jgrants_id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE TABLE `threads` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`thread_id` text NOT NULL,
+	`user_id` text,
+	`title` text,
+	`metadata` text,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	`updated_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE `users` (
+	`id` text PRIMARY KEY NOT NULL,
+	`email` text NOT NULL,
+	`password_hash` text,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	`updated_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `idx_bookmarks_user_subsidy` ON `bookmarks` (`user_id`,`jgrants_id`);--> statement-breakpoint
+CREATE UNIQUE INDEX `company_profiles_user_id_unique` ON `company_profiles` (`user_id`);--> statement-breakpoint
+CREATE UNIQUE INDEX `magic_link_tokens_token_hash_unique` ON `magic_link_tokens` (`token_hash`);--> statement-breakpoint
+CREATE INDEX `idx_messages_thread_id` ON `messages` (`thread_id`);--> statement-breakpoint
+CREATE UNIQUE INDEX `idx_reminder_deliveries_key` ON `reminder_deliveries` (`bookmark_id`,`kind`,`event_at`,`channel`);--> statement-breakpoint
+CREATE UNIQUE INDEX `subsidies_jgrants_id_unique` ON `subsidies` (`jgrants_id`);--> statement-breakpoint
+CREATE INDEX `idx_subsidies_ministry` ON `subsidies` (`ministry`);--> statement-breakpoint
+CREATE INDEX `idx_subsidies_deadline_date` ON `subsidies` (`deadline_date`);--> statement-breakpoint
+CREATE INDEX `idx_subsidies_fiscal_year` ON `subsidies` (`fiscal_year`);--> statement-breakpoint
+CREATE INDEX `idx_subsidies_acceptance_end` ON `subsidies` (`acceptance_end`);--> statement-breakpoint
+CREATE UNIQUE INDEX `idx_subsidy_attachments_key` ON `subsidy_attachments` (`jgrants_id`,`category`,`name`);--> statement-breakpoint
+CREATE INDEX `idx_subsidy_revisions_jgrants_id` ON `subsidy_revisions` (`jgrants_id`);--> statement-breakpoint
+CREATE UNIQUE INDEX `threads_thread_id_unique` ON `threads` (`thread_id`);--> statement-breakpoint
+CREATE INDEX `idx_threads_user_id` ON `threads` (`user_id`);--> statement-breakpoint
+CREATE UNIQUE INDEX `users_email_unique` ON `users` (`email`);
\ No newline at end of file
@@ -0,0 +1,14 @@
+-- Full-text index mirrored from subsidies by subsidyRepository.upsert.
+-- Virtual tables are not part of the Drizzle schema, so this migration is hand-written.
+-- The trigram tokenizer works for Japanese text without word segmentation.
+CREATE VIRTUAL TABLE `subsidies_fts` USING fts5(
+	jgrants_id UNINDEXED,
+	title,
+	description,
+	requirements,
+	target_audience,
+	tokenize = 'trigram'
+);
+--> statement-breakpoint
+INSERT INTO `subsidies_fts` (jgrants_id, title, description, requirements, target_audience)
+SELECT jgrants_id, title, description, requirements, target_audience FROM `subsidies`;
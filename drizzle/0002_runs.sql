@@ -0,0 +1,18 @@
+CREATE TABLE `runs` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`thread_id` text NOT NULL,
+	`run_id` text,
+	`provider` text NOT NULL,
+	`model` text,
+	`status` text NOT NULL,
+	`error` text,
+	`prompt_tokens` integer,
+	`completion_tokens` integer,
+	`total_tokens` integer,
+	`duration_ms` integer,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	`completed_at` text,
+	FOREIGN KEY (`thread_id`) REFERENCES `threads`(`thread_id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `idx_runs_thread_id` ON `runs` (`thread_id`);
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE subsidies ADD `sync_profiles` text;
\ No newline at end of file
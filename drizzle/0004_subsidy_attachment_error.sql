@@ -0,0 +1 @@
+ALTER TABLE subsidies ADD `attachment_error` text;
\ No newline at end of file
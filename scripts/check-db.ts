@@ -1,29 +1,33 @@
-import { createClient } from '@libsql/client';
-import { resolve } from 'path';
-import { fileURLToPath } from 'url';
-import { dirname } from 'path';
+import { checkDatabase, prisma } from '../app/db.server';
 
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = dirname(__filename);
-
-const dbPath = resolve(__dirname, '../prisma/dev.db');
+async function checkDb() {
+  try {
+    const report = await checkDatabase();
+    if (!report.ok) {
+      throw new Error(report.error.message);
+    }
 
-async function checkDatabase() {
-  const client = createClient({
-    url: `file:${dbPath}`,
-  });
+    for (const table of report.value.tables) {
+      console.log(`${table.name}: ${table.rows}`);
+    }
+    for (const problem of report.value.problems) {
+      console.error(`Problem: ${problem}`);
+    }
 
-  try {
-    const tables = await client.execute(
-      "SELECT name FROM sqlite_master WHERE type='table'"
-    );
-    
-    const subsidies = await client.execute('SELECT COUNT(*) as count FROM subsidies');
-  } catch (error) {
-    console.error('Error:', error);
+    return report.value;
   } finally {
-    client.close();
+    await prisma.$disconnect();
   }
 }
 
-checkDatabase();
\ No newline at end of file
+// Run if called directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  checkDb()
+    .then((report) => process.exit(report.problems.length > 0 ? 1 : 0))
+    .catch((error) => {
+      console.error('Error checking database:', error);
+      process.exit(1);
+    });
+}
+
+export { checkDb };
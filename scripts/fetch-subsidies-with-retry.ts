@@ -1,126 +1,86 @@
 import { JGrantsApiClient } from '../app/services/subsidies/api-server';
-import { writeFile, readFile, mkdir } from 'fs/promises';
-import { join } from 'path';
-import { existsSync } from 'fs';
+import { createFileCheckpointStore } from '../app/services/subsidies/checkpoint.server';
+import { loadQueryProfiles } from '../app/services/subsidies/profiles';
+import { writeFile, mkdir } from 'fs/promises';
+import { join, resolve } from 'path';
+import dotenv from 'dotenv';
 
-// Add delay between requests to avoid rate limiting
-const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
-
-interface FetchState {
-  subsidies: any[];
-  details: any[];
-  failedIds: string[];
-  lastProcessedIndex: number;
-}
-
-async function loadState(statePath: string): Promise<FetchState | null> {
-  if (existsSync(statePath)) {
-    const content = await readFile(statePath, 'utf-8');
-    return JSON.parse(content);
-  }
-  return null;
-}
-
-async function saveState(statePath: string, state: FetchState) {
-  await writeFile(statePath, JSON.stringify(state, null, 2));
-}
+dotenv.config({ path: resolve(process.cwd(), '.env') });
 
+/**
+ * Slow, resumable fetch for large profile sets: one request at a time at
+ * 0.5 requests/second, with progress checkpointed to fetch-state.json so an
+ * interrupted run picks up where it stopped.
+ */
 async function main() {
   
-  const client = new JGrantsApiClient();
   const outputDir = join(process.cwd(), 'data', 'api-responses');
-  const statePath = join(outputDir, 'fetch-state.json');
+  const client = new JGrantsApiClient({
+    concurrency: 1,
+    requestsPerSecond: 0.5,
+    burst: 1,
+    maxRetries: 5,
+    checkpointStore: createFileCheckpointStore(join(outputDir, 'fetch-state.json')),
+  });
   
   try {
     // Create output directory if it doesn't exist
     await mkdir(outputDir, { recursive: true });
     
-    // Load previous state if exists
-    let state = await loadState(statePath);
+    const profiles = loadQueryProfiles();
+    if (!profiles.ok) {
+      throw new Error(profiles.error.message);
+    }
     
-    if (!state) {
-      // First run - fetch subsidies list
-      const subsidies = await client.fetchTokyoSubsidies();
-      
-      // Save subsidies list
-      const subsidiesPath = join(outputDir, 'tokyo-subsidies-list.json');
-      await writeFile(subsidiesPath, JSON.stringify(subsidies, null, 2));
-      
-      state = {
-        subsidies,
-        details: [],
-        failedIds: [],
-        lastProcessedIndex: -1
-      };
-      await saveState(statePath, state);
-    } else {
+    // Fetch subsidies list for every profile
+    const listed = await client.fetchSubsidiesForQueries(
+      profiles.value.map(profile => profile.query)
+    );
+    if (!listed.ok) {
+      throw new Error(listed.error.message);
     }
+    const subsidies = listed.value;
     
-    // Fetch details with rate limiting
-    const delayMs = 2000; // 2 seconds between requests
+    // Save subsidies list
+    const subsidiesPath = join(outputDir, 'subsidies-list.json');
+    await writeFile(subsidiesPath, JSON.stringify(subsidies, null, 2));
     
-    for (let i = state.lastProcessedIndex + 1; i < state.subsidies.length; i++) {
-      const subsidy = state.subsidies[i];
-      
-      try {
-        const detail = await client.fetchSubsidyDetail(subsidy.id);
-        if (detail) {
-          state.details.push(detail);
-        } else {
-          state.failedIds.push(subsidy.id);
-        }
-      } catch (error) {
-        state.failedIds.push(subsidy.id);
-      }
-      
-      state.lastProcessedIndex = i;
-      
-      // Save state every 5 subsidies
-      if (i % 5 === 0) {
-        await saveState(statePath, state);
-      }
-      
-      // Rate limiting delay
-      if (i < state.subsidies.length - 1) {
-        await delay(delayMs);
-      }
+    // Fetch details, reusing any checkpointed progress
+    const fetched = await client.fetchSubsidyDetails(subsidies);
+    if (!fetched.ok) {
+      throw new Error(fetched.error.message);
     }
-    
-    // Save final state
-    await saveState(statePath, state);
+    const { details, failed } = fetched.value;
     
     // Save all subsidy details
-    const detailsPath = join(outputDir, 'tokyo-subsidies-details-complete.json');
-    await writeFile(detailsPath, JSON.stringify(state.details, null, 2));
+    const detailsPath = join(outputDir, 'subsidies-details-complete.json');
+    await writeFile(detailsPath, JSON.stringify(details, null, 2));
     
     // Create final summary
     const summary = {
       fetchedAt: new Date().toISOString(),
-      totalSubsidies: state.subsidies.length,
-      detailsFetched: state.details.length,
-      failedCount: state.failedIds.length,
-      failedIds: state.failedIds,
-      subsidySummary: state.subsidies.map(s => ({
+      profiles: profiles.value.map(profile => profile.name),
+      totalSubsidies: subsidies.length,
+      detailsFetched: details.length,
+      resumedFromCheckpoint: fetched.value.resumed,
+      failedCount: failed.length,
+      failed: failed.map(f => ({ id: f.id, error: f.error.type, message: f.error.message })),
+      subsidySummary: subsidies.map(s => ({
         id: s.id,
         name: s.name,
         title: s.title,
         maxLimit: s.subsidy_max_limit,
         acceptanceEnd: s.acceptance_end_datetime,
-        detailFetched: state.details.some(d => d.id === s.id)
+        detailFetched: details.some(d => d.id === s.id)
       }))
     };
     
     const summaryPath = join(outputDir, 'fetch-summary-complete.json');
     await writeFile(summaryPath, JSON.stringify(summary, null, 2));
     
-    
-    // Clean up state file
-    if (state.details.length + state.failedIds.length === state.subsidies.length) {
-      await writeFile(statePath + '.completed', JSON.stringify(state, null, 2));
-      if (existsSync(statePath)) {
-        const { unlink } = await import('fs/promises');
-        await unlink(statePath);
-      }
+    if (failed.length > 0) {
+      // Retryable failures keep the checkpoint; rerun to retry only the failed IDs
+      process.exit(1);
     }
     
   } catch (error) {
@@ -132,4 +92,4 @@ async function main() {
 // Run if called directly
 if (import.meta.url === `file://${process.argv[1]}`) {
   main();
-}
\ No newline at end of file
+}
@@ -1,55 +1,79 @@
 import { JGrantsApiClient } from '../app/services/subsidies/api-server';
+import { loadQueryProfiles } from '../app/services/subsidies/profiles';
 import { writeFile, mkdir } from 'fs/promises';
-import { join } from 'path';
+import { join, resolve } from 'path';
+import dotenv from 'dotenv';
 
-async function main() {
-  
+dotenv.config({ path: resolve(process.cwd(), '.env') });
+
+/**
+ * Fetch the subsidy list and details for the configured query profiles and
+ * save them under data/api-responses for import-subsidies.ts
+ */
+async function fetchSubsidies() {
   const client = new JGrantsApiClient();
   const outputDir = join(process.cwd(), 'data', 'api-responses');
-  
-  try {
-    // Create output directory if it doesn't exist
-    await mkdir(outputDir, { recursive: true });
-    
-    // Fetch Tokyo subsidies list
-    const subsidies = await client.fetchTokyoSubsidies();
-    
-    // Save subsidies list
-    const subsidiesPath = join(outputDir, 'tokyo-subsidies-list.json');
-    await writeFile(subsidiesPath, JSON.stringify(subsidies, null, 2));
-    
-    // Fetch all subsidy details
-    const subsidyDetails = await client.fetchAllTokyoSubsidyDetails();
-    
-    // Save all subsidy details
-    const detailsPath = join(outputDir, 'tokyo-subsidies-details.json');
-    await writeFile(detailsPath, JSON.stringify(subsidyDetails, null, 2));
-    
-    // Create a summary file
-    const summary = {
-      fetchedAt: new Date().toISOString(),
-      totalSubsidies: subsidies.length,
-      detailsFetched: subsidyDetails.length,
-      subsidySummary: subsidies.map(s => ({
-        id: s.id,
-        name: s.name,
-        title: s.title,
-        maxLimit: s.subsidy_max_limit,
-        acceptanceEnd: s.acceptance_end_datetime,
-      }))
-    };
-    
-    const summaryPath = join(outputDir, 'fetch-summary.json');
-    await writeFile(summaryPath, JSON.stringify(summary, null, 2));
-    
-    
-  } catch (error) {
-    console.error('Error fetching subsidies:', error);
-    process.exit(1);
+
+  // Create output directory if it doesn't exist
+  await mkdir(outputDir, { recursive: true });
+
+  const profiles = loadQueryProfiles();
+  if (!profiles.ok) {
+    throw new Error(profiles.error.message);
+  }
+
+  // Fetch subsidies list for every profile, merged by jGrants id
+  const listed = await client.fetchSubsidiesForQueries(
+    profiles.value.map(profile => profile.query)
+  );
+  if (!listed.ok) {
+    throw new Error(listed.error.message);
+  }
+  const subsidies = listed.value;
+
+  // Save subsidies list
+  const subsidiesPath = join(outputDir, 'subsidies-list.json');
+  await writeFile(subsidiesPath, JSON.stringify(subsidies, null, 2));
+
+  // Fetch all subsidy details
+  const fetched = await client.fetchSubsidyDetails(subsidies);
+  if (!fetched.ok) {
+    throw new Error(fetched.error.message);
   }
+  const subsidyDetails = fetched.value.details;
+
+  // Save all subsidy details
+  const detailsPath = join(outputDir, 'subsidies-details.json');
+  await writeFile(detailsPath, JSON.stringify(subsidyDetails, null, 2));
+
+  // Create a summary file
+  const summary = {
+    fetchedAt: new Date().toISOString(),
+    profiles: profiles.value.map(profile => profile.name),
+    totalSubsidies: subsidies.length,
+    detailsFetched: subsidyDetails.length,
+    failed: fetched.value.failed.map(f => ({ id: f.id, error: f.error.type })),
+    subsidySummary: subsidies.map(s => ({
+      id: s.id,
+      name: s.name,
+      title: s.title,
+      maxLimit: s.subsidy_max_limit,
+      acceptanceEnd: s.acceptance_end_datetime,
+    }))
+  };
+
+  const summaryPath = join(outputDir, 'fetch-summary.json');
+  await writeFile(summaryPath, JSON.stringify(summary, null, 2));
+
+  return summary;
 }
 
 // Run if called directly
 if (import.meta.url === `file://${process.argv[1]}`) {
-  main();
-}
\ No newline at end of file
+  fetchSubsidies().catch((error) => {
+    console.error('Error fetching subsidies:', error);
+    process.exit(1);
+  });
+}
+
+export { fetchSubsidies };
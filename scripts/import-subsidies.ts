@@ -0,0 +1,82 @@
+import { JGrantsApiClient, type SubsidyDetail } from '../app/services/subsidies/api-server';
+import { importSubsidyDetails } from '../app/services/subsidies/importer.server';
+import { loadQueryProfiles } from '../app/services/subsidies/profiles';
+import { prisma } from '../app/db.server';
+import { readFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import { join, resolve } from 'path';
+import dotenv from 'dotenv';
+
+dotenv.config({ path: resolve(process.cwd(), '.env') });
+
+// Detail files written by fetch-subsidies.ts and fetch-subsidies-with-retry.ts,
+// in order of preference (tokyo-* are from the Tokyo-only fetch scripts)
+const DETAIL_FILES = [
+  'subsidies-details-complete.json',
+  'subsidies-details.json',
+  'tokyo-subsidies-details-complete.json',
+  'tokyo-subsidies-details.json',
+];
+
+async function loadDetails(inputPath?: string): Promise<SubsidyDetail[]> {
+  if (inputPath) {
+    return JSON.parse(await readFile(resolve(process.cwd(), inputPath), 'utf-8'));
+  }
+
+  const outputDir = join(process.cwd(), 'data', 'api-responses');
+  for (const fileName of DETAIL_FILES) {
+    const filePath = join(outputDir, fileName);
+    if (existsSync(filePath)) {
+      return JSON.parse(await readFile(filePath, 'utf-8'));
+    }
+  }
+
+  // Nothing on disk yet - fetch from the API
+  const profiles = loadQueryProfiles();
+  if (!profiles.ok) {
+    throw new Error(profiles.error.message);
+  }
+  const client = new JGrantsApiClient();
+  const subsidies = await client.fetchSubsidiesForQueries(
+    profiles.value.map((profile) => profile.query)
+  );
+  if (!subsidies.ok) {
+    throw new Error(`Failed to fetch subsidy list: ${subsidies.error.message}`);
+  }
+
+  const fetched = await client.fetchSubsidyDetails(subsidies.value);
+  if (!fetched.ok) {
+    throw new Error(`Failed to fetch subsidy details: ${fetched.error.message}`);
+  }
+  for (const failure of fetched.value.failed) {
+    console.error(`Failed to fetch ${failure.id}: ${failure.error.message}`);
+  }
+  return fetched.value.details;
+}
+
+async function importSubsidies(inputPath?: string) {
+  try {
+    const details = await loadDetails(inputPath);
+    const summary = await importSubsidyDetails(details);
+
+    for (const failure of summary.failed) {
+      console.error(`Failed to import ${failure.jgrantsId}: ${failure.message}`);
+    }
+
+    return summary;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// Run if called directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  importSubsidies(process.argv[2])
+    .then((summary) => process.exit(summary.failed.length > 0 ? 1 : 0))
+    .catch((error) => {
+      console.error('Error importing subsidies:', error);
+      process.exit(1);
+    });
+}
+
+export { importSubsidies };
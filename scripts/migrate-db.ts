@@ -0,0 +1,44 @@
+/**
+ * Apply pending database migrations from drizzle/
+ * Migrations are generated from app/db/schema.ts with `npm run db:generate`
+ */
+
+import { migrateDatabase, prisma } from '../app/db.server';
+
+async function migrateDb() {
+  try {
+    const report = await migrateDatabase();
+    if (!report.ok) {
+      throw new Error(report.error.message);
+    }
+
+    for (const name of report.value.upgraded) {
+      console.log(`Added to the existing database: ${name}`);
+    }
+    for (const tag of report.value.baselined) {
+      console.log(`Recorded as applied: ${tag}`);
+    }
+    for (const tag of report.value.applied) {
+      console.log(`Applied: ${tag}`);
+    }
+    if (report.value.applied.length === 0) {
+      console.log('Database is up to date');
+    }
+
+    return report.value;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// Run if called directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  migrateDb()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error('Failed to migrate database:', error);
+      process.exit(1);
+    });
+}
+
+export { migrateDb };
@@ -0,0 +1,59 @@
+import { prisma } from '../app/db.server';
+import OpenAI from 'openai';
+import dotenv from 'dotenv';
+import { resolve } from 'path';
+import { createVectorStoreService } from '../app/services/vectorstore.server';
+import { createVectorStorePublisher } from '../app/services/subsidies/sync.server';
+import { reconcileVectorStore } from '../app/services/subsidies/reconcile.server';
+
+dotenv.config({ path: resolve(process.cwd(), '.env') });
+
+/**
+ * Remove stale, duplicate and orphaned files from the vector store and
+ * re-upload subsidies whose file is missing. Pass --dry-run to only report.
+ */
+async function reconcile(dryRun: boolean) {
+  try {
+    const vectorStoreId = process.env.OPENAI_VECTOR_STORE_ID;
+    if (!vectorStoreId) {
+      throw new Error('OPENAI_VECTOR_STORE_ID not found in environment variables');
+    }
+
+    const vectorStore = createVectorStoreService({
+      openai: new OpenAI({ apiKey: process.env.OPENAI_API_KEY }),
+      vectorStoreId,
+    });
+
+    const result = await reconcileVectorStore({
+      vectorStore,
+      publish: createVectorStorePublisher(vectorStore),
+      dryRun,
+    });
+    if (!result.ok) {
+      throw new Error(result.error.message);
+    }
+
+    for (const failure of result.value.failed) {
+      console.error(`Failed to reconcile ${failure.target}: ${failure.message}`);
+    }
+
+    return result.value;
+  } catch (error) {
+    console.error('Error reconciling vector store:', error);
+    throw error;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// Run if called directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  reconcile(process.argv.includes('--dry-run'))
+    .then((report) => {
+      console.log(JSON.stringify(report, null, 2));
+      process.exit(report.failed.length > 0 ? 1 : 0);
+    })
+    .catch(() => process.exit(1));
+}
+
+export { reconcile };
@@ -0,0 +1,72 @@
+import { prisma } from '../app/db.server';
+import dotenv from 'dotenv';
+import { resolve } from 'path';
+import { loadAppUrl } from '../app/services/mailer.server';
+import { loadNotificationChannels } from '../app/services/notifications.server';
+import { sendDueReminders } from '../app/services/reminders.server';
+
+dotenv.config({ path: resolve(process.cwd(), '.env') });
+
+/**
+ * Send due bookmark reminders once. Run it from cron, or pass
+ * `--interval <minutes>` to keep it running as a scheduler process.
+ */
+async function sendReminders() {
+  const channels = loadNotificationChannels();
+  if (!channels.ok) {
+    throw new Error(channels.error.message);
+  }
+  const appUrl = loadAppUrl();
+  if (!appUrl.ok) {
+    throw new Error(appUrl.error.message);
+  }
+
+  const result = await sendDueReminders({
+    channels: channels.value,
+    baseUrl: appUrl.value,
+  });
+  if (!result.ok) {
+    throw new Error(result.error.message);
+  }
+
+  for (const failure of result.value.failed) {
+    console.error(`Failed to send reminder for bookmark ${failure.bookmarkId} via ${failure.channel}: ${failure.message}`);
+  }
+  console.log(`Sent ${result.value.sent} reminder(s)`);
+
+  return result.value;
+}
+
+function parseInterval(args: string[]): number | null {
+  const index = args.indexOf('--interval');
+  if (index === -1) return null;
+
+  const minutes = Number(args[index + 1]);
+  if (!Number.isFinite(minutes) || minutes <= 0) {
+    throw new Error('--interval must be a positive number of minutes');
+  }
+  return minutes;
+}
+
+// Run if called directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  const interval = parseInterval(process.argv.slice(2));
+
+  if (interval === null) {
+    sendReminders()
+      .finally(() => prisma.$disconnect())
+      .then((report) => process.exit(report.failed.length > 0 ? 1 : 0))
+      .catch((error) => {
+        console.error('Error sending reminders:', error);
+        process.exit(1);
+      });
+  } else {
+    // The next pass is only scheduled once this one has finished, so passes never overlap
+    const run = (): Promise<void> => sendReminders()
+      .then(() => undefined, (error) => console.error('Error sending reminders:', error))
+      .finally(() => setTimeout(run, interval * 60 * 1000));
+    void run();
+  }
+}
+
+export { sendReminders };
@@ -0,0 +1,224 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Readable } from 'stream';
+import { CommanderError } from 'commander';
+import { messageRepository, subsidyRepository, threadRepository } from '../../../app/db';
+import { createProgram } from '../../../src/cli/program';
+import type { ChatAssistant } from '../../../src/cli/context';
+import type { AssistantRunResult, AssistantStreamUpdate } from '../../../app/types/chat';
+import type { AssistantError } from '../../../app/types/errors';
+import { ok, type Result } from '../../../app/types/result';
+
+async function runCli(
+  args: string[],
+  options: { input?: string[]; assistant?: ChatAssistant } = {}
+) {
+  let stdout = '';
+  let stderr = '';
+  const program = createProgram({
+    stdout: (text) => { stdout += text; },
+    stderr: (text) => { stderr += text; },
+    stdin: Readable.from(options.input ?? []),
+    createAssistant: async () => {
+      if (!options.assistant) throw new Error('OPENAI_ASSISTANT_ID is not set in environment variables');
+      return options.assistant;
+    },
+  });
+
+  let exitCode = 0;
+  try {
+    await program.parseAsync(args, { from: 'user' });
+  } catch (error) {
+    if (!(error instanceof CommanderError)) throw error;
+    exitCode = error.exitCode;
+  }
+  return { stdout, stderr, exitCode };
+}
+
+function fakeAssistant(replyText = '回答です') {
+  let threads = 0;
+  return {
+    createThread: vi.fn(async (userId?: string) => {
+      const threadId = `thread_cli_${++threads}`;
+      await threadRepository.create({ threadId, userId });
+      return ok({ id: threadId });
+    }),
+    addMessage: vi.fn(async (threadId: string, content: string, role: 'user' | 'assistant' = 'user') => {
+      await messageRepository.create({ threadId, role, content });
+      return ok({ id: `msg_${threadId}` });
+    }),
+    streamAssistant: vi.fn(async function* (): AsyncGenerator<AssistantStreamUpdate, Result<AssistantRunResult, AssistantError>> {
+      yield { type: 'tool', status: 'in_progress', tools: ['file_search'] };
+      yield { type: 'delta', text: replyText };
+      return ok({
+        status: 'completed',
+        reply: { text: `${replyText}[1]`, citations: [{ index: 1, fileId: 'file_1', jgrantsId: 'IT-001', title: 'IT導入補助金' }] },
+      });
+    }),
+  } as unknown as ChatAssistant & { createThread: ReturnType<typeof vi.fn>; addMessage: ReturnType<typeof vi.fn> };
+}
+
+async function seedSubsidies() {
+  await subsidyRepository.upsert({
+    jgrantsId: 'IT-001',
+    title: 'IT導入補助金',
+    description: 'ITツールの導入を支援します',
+    amount: '最大450万円（補助率1/2〜3/4）',
+    deadline: '2024年12月31日',
+    ministry: '経済産業省',
+  });
+  await subsidyRepository.upsert({
+    jgrantsId: 'STARTUP-001',
+    title: '創業支援補助金',
+    description: '創業を支援します',
+    amount: '最大200万円',
+    deadline: '2024年10月31日',
+    ministry: '中小企業庁',
+  });
+}
+
+describe('search', () => {
+  it('should list matching subsidies as tab-separated lines', async () => {
+    await seedSubsidies();
+
+    const { stdout, exitCode } = await runCli(['search', '--ministry', '経済産業省']);
+
+    expect(exitCode).toBe(0);
+    expect(stdout.split('\n')).toEqual([
+      '1 subsidies (showing 1-1)',
+      'IT-001\t2024-12-31\t450万円\tIT導入補助金',
+      '',
+    ]);
+  });
+
+  it('should print the search result as JSON', async () => {
+    await seedSubsidies();
+
+    const { stdout } = await runCli(['--json', 'search', '--amount-max', '3000000']);
+
+    const result = JSON.parse(stdout);
+    expect(result.total).toBe(1);
+    expect(result.subsidies[0]).toMatchObject({ jgrantsId: 'STARTUP-001', maxAmount: 2_000_000 });
+  });
+
+  it('should reject invalid filters', async () => {
+    const { stderr, exitCode } = await runCli(['search', '--deadline-from', '2024/12/31']);
+
+    expect(exitCode).toBe(1);
+    expect(stderr).toContain('deadlineFrom must be a date in YYYY-MM-DD format');
+  });
+});
+
+describe('show', () => {
+  it('should show the normalized fields of a subsidy', async () => {
+    await seedSubsidies();
+
+    const { stdout } = await runCli(['show', 'IT-001']);
+
+    expect(stdout).toContain('Max amount: 450万円');
+    expect(stdout).toContain('Subsidy rate: 50%〜75%');
+    expect(stdout).toContain('Deadline: 2024-12-31');
+  });
+
+  it('should fail for unknown subsidies', async () => {
+    const { stderr, exitCode } = await runCli(['show', 'MISSING-001', '--json']);
+
+    expect(exitCode).toBe(1);
+    expect(stderr).toContain('Subsidy not found: MISSING-001');
+  });
+});
+
+describe('chat', () => {
+  it('should send a single message and print the reply as JSON', async () => {
+    const assistant = fakeAssistant();
+
+    const { stdout, exitCode } = await runCli(['--json', 'chat', '--message', 'IT補助金について'], { assistant });
+
+    expect(exitCode).toBe(0);
+    expect(JSON.parse(stdout)).toEqual({
+      threadId: 'thread_cli_1',
+      reply: { text: '回答です[1]', citations: [expect.objectContaining({ title: 'IT導入補助金' })] },
+      status: 'completed',
+    });
+    expect(assistant.streamAssistant).toHaveBeenCalledWith('thread_cli_1', expect.stringContaining('補助金'));
+  });
+
+  it('should keep one thread for the whole session and stop at /exit', async () => {
+    const assistant = fakeAssistant();
+
+    const { stdout, stderr } = await runCli(['chat'], { assistant, input: ['最初の質問\n', '\n', '次の質問\n', '/exit\n', '送られない\n'] });
+
+    expect(assistant.createThread).toHaveBeenCalledTimes(1);
+    expect(assistant.addMessage.mock.calls.map((call) => call[1])).toEqual(['最初の質問', '次の質問']);
+    expect(stdout).toContain('[1] IT導入補助金');
+    expect(stderr).toContain('Thread: thread_cli_1');
+
+    const thread = await threadRepository.findUnique('thread_cli_1');
+    expect(thread.ok && thread.value.title).toBe('最初の質問');
+  });
+
+  it('should fail without an assistant configuration', async () => {
+    const { stderr, exitCode } = await runCli(['chat', '-m', 'こんにちは']);
+
+    expect(exitCode).toBe(1);
+    expect(stderr).toContain('OPENAI_ASSISTANT_ID is not set');
+  });
+});
+
+describe('threads', () => {
+  async function seedThread() {
+    await threadRepository.create({ threadId: 'thread_1', title: 'IT導入の相談' });
+    await messageRepository.create({ threadId: 'thread_1', role: 'user', content: 'IT導入補助金について教えて' });
+    await messageRepository.create({
+      threadId: 'thread_1',
+      role: 'assistant',
+      content: 'IT導入補助金は…[1]',
+      citations: [{ index: 1, fileId: 'file_1', jgrantsId: 'IT-001', title: 'IT導入補助金' }],
+    });
+  }
+
+  it('should list threads', async () => {
+    await seedThread();
+
+    const { stdout } = await runCli(['threads', 'list']);
+
+    expect(stdout).toMatch(/^thread_1\t.+\tIT導入の相談\n$/);
+  });
+
+  it('should export a thread as Markdown with its sources', async () => {
+    await seedThread();
+
+    const { stdout } = await runCli(['threads', 'export', 'thread_1']);
+
+    expect(stdout).toContain('# IT導入の相談');
+    expect(stdout).toContain('## ユーザー\n\nIT導入補助金について教えて');
+    expect(stdout).toContain('[1] IT導入補助金 (/subsidies/IT-001)');
+  });
+
+  it('should export a thread as JSON', async () => {
+    await seedThread();
+
+    const { stdout } = await runCli(['threads', 'export', 'thread_1', '--json']);
+
+    expect(JSON.parse(stdout).messages).toHaveLength(2);
+  });
+
+  it('should fail for unknown threads', async () => {
+    const { stderr, exitCode } = await runCli(['threads', 'show', 'thread_missing']);
+
+    expect(exitCode).toBe(1);
+    expect(stderr).toContain('Thread not found');
+  });
+});
+
+describe('db check', () => {
+  it('should report row counts without problems', async () => {
+    await seedSubsidies();
+
+    const { stdout, exitCode } = await runCli(['--json', 'db', 'check']);
+
+    expect(exitCode).toBe(0);
+    const report = JSON.parse(stdout);
+    expect(report.tables).toContainEqual({ name: 'subsidies', rows: 2 });
+    expect(report.problems).toEqual([]);
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join, resolve } from 'path';
+import { createDatabaseClient, loadDatabaseConfig } from '../../../app/db/config';
+import { closeDb, migrateDatabase, threadRepository, messageRepository, subsidyRepository } from '../../../app/db';
+import { startSqldStandIn, type SqldStandIn } from './sqld-server';
+
+describe('loadDatabaseConfig', () => {
+  it('should default to prisma/dev.db', () => {
+    const config = loadDatabaseConfig({});
+
+    expect(config).toEqual({ ok: true, value: { mode: 'file', url: `file:${resolve('prisma', 'dev.db')}` } });
+  });
+
+  it.each([
+    ['file:./data/app.db', `file:${resolve('data', 'app.db')}`],
+    ['file:/var/lib/app.db', 'file:/var/lib/app.db'],
+    ['file:///var/lib/app.db', 'file:/var/lib/app.db'],
+  ])('should resolve %s to an absolute file path', (url, expected) => {
+    const config = loadDatabaseConfig({ DATABASE_URL: url });
+
+    expect(config.ok && config.value).toEqual({ mode: 'file', url: expected });
+  });
+
+  it.each([':memory:', 'file::memory:'])('should accept %s as an in-memory database', (url) => {
+    const config = loadDatabaseConfig({ DATABASE_URL: url });
+
+    expect(config.ok && config.value).toEqual({ mode: 'memory', url: ':memory:' });
+  });
+
+  it('should pass the auth token to remote databases', () => {
+    const config = loadDatabaseConfig({
+      DATABASE_URL: 'libsql://subsidies-example.turso.io',
+      DATABASE_AUTH_TOKEN: 'token',
+    });
+
+    expect(config.ok && config.value).toEqual({
+      mode: 'remote',
+      url: 'libsql://subsidies-example.turso.io',
+      authToken: 'token',
+    });
+  });
+
+  it('should not require a token for a server on this machine', () => {
+    const config = loadDatabaseConfig({ DATABASE_URL: 'http://127.0.0.1:8080' });
+
+    expect(config.ok && config.value).toEqual({ mode: 'remote', url: 'http://127.0.0.1:8080', authToken: undefined });
+  });
+
+  it.each([
+    ['libsql://subsidies-example.turso.io', 'DATABASE_AUTH_TOKEN is required for subsidies-example.turso.io'],
+    ['postgres://localhost/subsidies', 'Unsupported DATABASE_URL scheme: postgres: (use file:, :memory:, libsql:, https: or wss:)'],
+    ['./prisma/dev.db', 'DATABASE_URL is not a valid URL'],
+    ['file:', 'DATABASE_URL has no file path'],
+    ['file:./dev.db?mode=ro', 'DATABASE_URL must not have query parameters for a file database'],
+  ])('should reject %s', (url, message) => {
+    const config = loadDatabaseConfig({ DATABASE_URL: url });
+
+    expect(config).toEqual({ ok: false, error: { type: 'CONFIG_ERROR', message } });
+  });
+});
+
+describe('createDatabaseClient', () => {
+  it('should keep an in-memory database across transactions', async () => {
+    const client = createDatabaseClient({ mode: 'memory', url: ':memory:' });
+    await client.execute('CREATE TABLE notes (body TEXT)');
+
+    const transaction = await client.transaction('write');
+    await transaction.execute({ sql: 'INSERT INTO notes (body) VALUES (?)', args: ['committed'] });
+    await transaction.commit();
+
+    const rolledBack = await client.transaction('write');
+    await rolledBack.execute({ sql: 'INSERT INTO notes (body) VALUES (?)', args: ['rolled back'] });
+    await rolledBack.rollback();
+
+    const result = await client.execute('SELECT body FROM notes');
+    expect(result.rows.map((row) => row.body)).toEqual(['committed']);
+    client.close();
+  });
+});
+
+describe('remote database', () => {
+  const authToken = 'test-token';
+  let directory: string;
+  let server: SqldStandIn;
+  let previousUrl: string | undefined;
+
+  beforeAll(async () => {
+    directory = mkdtempSync(join(tmpdir(), 'subsidy-sqld-'));
+    server = await startSqldStandIn(join(directory, 'remote.db'), authToken);
+
+    previousUrl = process.env.DATABASE_URL;
+    process.env.DATABASE_URL = server.url;
+    process.env.DATABASE_AUTH_TOKEN = authToken;
+    closeDb();
+  });
+
+  afterAll(async () => {
+    closeDb();
+    process.env.DATABASE_URL = previousUrl;
+    delete process.env.DATABASE_AUTH_TOKEN;
+    await server.close();
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should migrate and use a libSQL server', async () => {
+    const migration = await migrateDatabase();
+    expect(migration.ok && migration.value.applied).toEqual(['0000_initial_schema', '0001_subsidies_fts', '0002_runs', '0003_subsidy_sync_profiles', '0004_subsidy_attachment_error']);
+
+    await subsidyRepository.upsert({
+      jgrantsId: 'REMOTE-001',
+      title: 'リモート補助金',
+      description: 'libSQLサーバー上の補助金',
+      amount: '最大100万円',
+    });
+    const subsidy = await subsidyRepository.findUnique({ jgrantsId: 'REMOTE-001' });
+    expect(subsidy.ok && subsidy.value).toMatchObject({ title: 'リモート補助金', maxAmount: 1_000_000 });
+
+    const hits = await subsidyRepository.search('リモート');
+    expect(hits.ok && hits.value.map((hit) => hit.subsidy.jgrantsId)).toEqual(['REMOTE-001']);
+  });
+
+  it('should run transactions on the server', async () => {
+    await threadRepository.create({ threadId: 'thread_remote' });
+    await messageRepository.create({ threadId: 'thread_remote', role: 'user', content: 'こんにちは' });
+
+    const deleted = await threadRepository.delete('thread_remote');
+
+    expect(deleted.ok).toBe(true);
+    const thread = await threadRepository.findUnique('thread_remote');
+    expect(thread.ok).toBe(false);
+  });
+
+  it('should fail with a wrong auth token', async () => {
+    process.env.DATABASE_AUTH_TOKEN = 'wrong-token';
+    closeDb();
+
+    const result = await threadRepository.findMany();
+
+    expect(result.ok).toBe(false);
+    process.env.DATABASE_AUTH_TOKEN = authToken;
+    closeDb();
+  });
+});
@@ -0,0 +1,277 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createClient, type Client } from '@libsql/client';
+import { drizzle } from 'drizzle-orm/libsql';
+import { migrate } from 'drizzle-orm/libsql/migrator';
+import { getTableConfig, SQLiteTable } from 'drizzle-orm/sqlite-core';
+import { getTableName } from 'drizzle-orm';
+import * as schema from '../../../app/db/schema';
+import { closeDb, migrateDatabase, subsidyRepository, threadRepository } from '../../../app/db';
+
+const tables = Object.values(schema as Record<string, unknown>).filter((value): value is SQLiteTable => value instanceof SQLiteTable);
+
+async function rows<T>(client: Client, query: string): Promise<T[]> {
+  const result = await client.execute(query);
+  return result.rows as unknown as T[];
+}
+
+// Columns, indexes and foreign keys of a table as declared in schema.ts
+function declaredShape(table: SQLiteTable) {
+  const config = getTableConfig(table);
+  return {
+    columns: config.columns
+      .map((column) => ({
+        name: column.name,
+        type: column.getSQLType().toUpperCase(),
+        notNull: column.notNull,
+        primaryKey: column.primary,
+      }))
+      .sort((a, b) => a.name.localeCompare(b.name)),
+    indexes: [
+      ...config.indexes.map((index) => ({
+        name: index.config.name,
+        unique: Boolean(index.config.unique),
+        columns: index.config.columns.map((column) => ('name' in column ? column.name : '')),
+      })),
+      ...config.columns
+        .filter((column) => column.isUnique)
+        .map((column) => ({ name: column.uniqueName!, unique: true, columns: [column.name] })),
+    ].sort((a, b) => a.name.localeCompare(b.name)),
+    foreignKeys: config.foreignKeys
+      .map((foreignKey) => {
+        const reference = foreignKey.reference();
+        return {
+          from: reference.columns.map((column) => column.name).join(','),
+          table: getTableName(reference.foreignTable),
+          to: reference.foreignColumns.map((column) => column.name).join(','),
+        };
+      })
+      .sort((a, b) => a.from.localeCompare(b.from)),
+  };
+}
+
+// The same shape read back from the database
+async function actualShape(client: Client, name: string) {
+  const columns = await rows<{ name: string; type: string; notnull: number; pk: number }>(
+    client,
+    `PRAGMA table_info(${name})`
+  );
+  const indexList = await rows<{ name: string; unique: number; origin: string }>(
+    client,
+    `PRAGMA index_list(${name})`
+  );
+  const indexes = await Promise.all(
+    indexList
+      .filter((index) => index.origin === 'c')
+      .map(async (index) => ({
+        name: index.name,
+        unique: Boolean(index.unique),
+        columns: (await rows<{ name: string }>(client, `PRAGMA index_info(${index.name})`)).map((column) => column.name),
+      }))
+  );
+  const foreignKeys = await rows<{ table: string; from: string; to: string }>(
+    client,
+    `PRAGMA foreign_key_list(${name})`
+  );
+
+  return {
+    columns: columns
+      .map((column) => ({
+        name: column.name,
+        type: column.type.toUpperCase(),
+        notNull: Boolean(column.notnull) || column.pk > 0,
+        primaryKey: column.pk > 0,
+      }))
+      .sort((a, b) => a.name.localeCompare(b.name)),
+    indexes: indexes.sort((a, b) => a.name.localeCompare(b.name)),
+    foreignKeys: foreignKeys
+      .map((foreignKey) => ({ from: foreignKey.from, table: foreignKey.table, to: foreignKey.to }))
+      .sort((a, b) => a.from.localeCompare(b.from)),
+  };
+}
+
+describe('Database migrations', () => {
+  let directory: string;
+  let client: Client;
+
+  beforeAll(async () => {
+    directory = mkdtempSync(join(tmpdir(), 'subsidy-migrations-'));
+    client = createClient({ url: `file:${join(directory, 'fresh.db')}` });
+    await migrate(drizzle(client), { migrationsFolder: 'drizzle' });
+  });
+
+  afterAll(() => {
+    client.close();
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it.each(tables.map((table) => [getTableName(table), table] as const))(
+    'should create %s as declared in the schema',
+    async (name, table) => {
+      expect(await actualShape(client, name)).toEqual(declaredShape(table));
+    }
+  );
+
+  it('should create no tables beyond the schema and the full-text index', async () => {
+    const created = await rows<{ name: string }>(
+      client,
+      "SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%' AND name NOT LIKE 'subsidies_fts_%' ORDER BY name"
+    );
+
+    expect(created.map((table) => table.name)).toEqual(
+      [...tables.map((table) => getTableName(table)), '__drizzle_migrations', 'subsidies_fts'].sort()
+    );
+  });
+
+  it('should create the full-text index with the trigram tokenizer', async () => {
+    const [fts] = await rows<{ sql: string }>(client, "SELECT sql FROM sqlite_master WHERE name = 'subsidies_fts'");
+
+    expect(fts.sql).toContain('fts5');
+    expect(fts.sql).toMatch(/tokenize\s*=\s*'trigram'/);
+  });
+
+  it('should leave an up-to-date database unchanged', async () => {
+    const result = await migrateDatabase();
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.value).toEqual({ applied: [], baselined: [], upgraded: [] });
+  });
+});
+
+// The tables created by the former scripts/init-db.ts
+const INIT_DB_SCHEMA = [
+  `CREATE TABLE threads (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    thread_id TEXT UNIQUE NOT NULL,
+    user_id TEXT,
+    metadata TEXT,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP NOT NULL,
+    updated_at TEXT DEFAULT CURRENT_TIMESTAMP NOT NULL
+  )`,
+  `CREATE TABLE messages (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    thread_id TEXT NOT NULL,
+    role TEXT NOT NULL CHECK (role IN ('user', 'assistant')),
+    content TEXT NOT NULL,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP NOT NULL,
+    FOREIGN KEY (thread_id) REFERENCES threads(thread_id)
+  )`,
+  `CREATE TABLE subsidies (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    jgrants_id TEXT UNIQUE NOT NULL,
+    title TEXT NOT NULL,
+    description TEXT NOT NULL,
+    target_audience TEXT,
+    amount TEXT,
+    deadline TEXT,
+    requirements TEXT,
+    application_url TEXT,
+    ministry TEXT,
+    vector_store_id TEXT,
+    file_id TEXT,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP NOT NULL,
+    updated_at TEXT DEFAULT CURRENT_TIMESTAMP NOT NULL
+  )`,
+  'CREATE INDEX idx_threads_user_id ON threads(user_id)',
+  'CREATE INDEX idx_messages_thread_id ON messages(thread_id)',
+  'CREATE INDEX idx_subsidies_jgrants_id ON subsidies(jgrants_id)',
+  "INSERT INTO threads (thread_id) VALUES ('thread_legacy')",
+  "INSERT INTO messages (thread_id, role, content) VALUES ('thread_legacy', 'user', 'ものづくり補助金について')",
+  `INSERT INTO subsidies (jgrants_id, title, description, amount)
+    VALUES ('LEGACY-001', 'ものづくり補助金', '設備投資を支援します', '最大1,000万円')`,
+];
+
+describe('Databases created by init-db', () => {
+  let directory: string;
+
+  beforeAll(() => {
+    directory = mkdtempSync(join(tmpdir(), 'subsidy-legacy-'));
+  });
+
+  afterAll(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  async function createLegacyDatabase(name: string, statements: string[]): Promise<string> {
+    const url = `file:${join(directory, name)}`;
+    const legacy = createClient({ url });
+    for (const statement of statements) {
+      await legacy.execute(statement);
+    }
+    legacy.close();
+    return url;
+  }
+
+  // Run against the given database, then go back to this file's in-memory one
+  async function withDatabase(url: string, run: () => Promise<void>) {
+    const previousUrl = process.env.DATABASE_URL;
+    process.env.DATABASE_URL = url;
+    closeDb();
+    try {
+      await run();
+    } finally {
+      closeDb();
+      process.env.DATABASE_URL = previousUrl;
+      // Closing dropped the in-memory database, so the next tests need a migrated one
+      await migrateDatabase();
+    }
+  }
+
+  it('should upgrade the init-db schema before recording the baseline migrations', async () => {
+    const url = await createLegacyDatabase('init-db.db', INIT_DB_SCHEMA);
+
+    await withDatabase(url, async () => {
+      const result = await migrateDatabase();
+
+      expect(result.ok).toBe(true);
+      if (!result.ok) return;
+      expect(result.value.baselined).toEqual(['0000_initial_schema', '0001_subsidies_fts']);
+      expect(result.value.applied).toEqual(['0002_runs', '0003_subsidy_sync_profiles', '0004_subsidy_attachment_error']);
+      expect(result.value.upgraded).toEqual(expect.arrayContaining(['threads.title', 'messages.citations', 'subsidies.status', 'users']));
+
+      const subsidy = await subsidyRepository.findUnique({ jgrantsId: 'LEGACY-001' });
+      expect(subsidy.ok && subsidy.value).toMatchObject({ title: 'ものづくり補助金', status: 'open', contentHash: null });
+      const hits = await subsidyRepository.search('ものづくり');
+      expect(hits.ok && hits.value.map((hit) => hit.subsidy.jgrantsId)).toEqual(['LEGACY-001']);
+      const thread = await threadRepository.findUnique('thread_legacy');
+      expect(thread.ok && thread.value.messages.map((message) => message.content)).toEqual(['ものづくり補助金について']);
+
+      expect(await migrateDatabase()).toEqual({ ok: true, value: { applied: [], baselined: [], upgraded: [] } });
+    });
+
+    const client = createClient({ url });
+    try {
+      for (const table of tables) {
+        const columns = await rows<{ name: string }>(client, `PRAGMA table_info(${getTableName(table)})`);
+        expect(columns.map((column) => column.name).sort()).toEqual(
+          declaredShape(table).columns.map((column) => column.name)
+        );
+      }
+    } finally {
+      client.close();
+    }
+  });
+
+  it('should refuse to baseline a schema it cannot upgrade', async () => {
+    const url = await createLegacyDatabase('partial.db', [...INIT_DB_SCHEMA, 'CREATE TABLE users (id TEXT PRIMARY KEY)']);
+
+    await withDatabase(url, async () => {
+      const result = await migrateDatabase();
+
+      expect(!result.ok && result.error.message).toContain('missing columns users.email');
+    });
+
+    const client = createClient({ url });
+    try {
+      const history = await rows<{ count: number }>(client, 'SELECT COUNT(*) AS count FROM __drizzle_migrations');
+      const threads = await rows<{ name: string }>(client, 'PRAGMA table_info(threads)');
+      expect(Number(history[0].count)).toBe(0);
+      expect(threads.map((column) => column.name)).not.toContain('title');
+    } finally {
+      client.close();
+    }
+  });
+});
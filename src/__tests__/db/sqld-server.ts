@@ -0,0 +1,257 @@
+/**
+ * A stand-in for sqld, the libSQL server, for testing the remote database mode
+ * It speaks the JSON flavour of Hrana over HTTP (the `/v2/pipeline` endpoint)
+ * and runs the statements on a local database file, one connection per
+ * stream so that transactions behave as they do on a real server.
+ */
+
+import { createServer, type IncomingMessage, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { randomUUID } from 'crypto';
+import { createClient, type Client, type InValue, type ResultSet } from '@libsql/client';
+
+type HranaValue =
+  | { type: 'null' }
+  | { type: 'integer'; value: string }
+  | { type: 'float'; value: number }
+  | { type: 'text'; value: string }
+  | { type: 'blob'; base64: string };
+
+interface HranaStmt {
+  sql?: string;
+  sql_id?: number;
+  args?: HranaValue[];
+  named_args?: Array<{ name: string; value: HranaValue }>;
+}
+
+type HranaCondition =
+  | { type: 'ok' | 'error'; step: number }
+  | { type: 'not'; cond: HranaCondition }
+  | { type: 'and' | 'or'; conds: HranaCondition[] }
+  | { type: 'is_autocommit' };
+
+type HranaRequest =
+  | { type: 'close' }
+  | { type: 'execute'; stmt: HranaStmt }
+  | { type: 'batch'; batch: { steps: Array<{ condition?: HranaCondition; stmt: HranaStmt }> } }
+  | { type: 'sequence'; sql?: string; sql_id?: number }
+  | { type: 'store_sql'; sql_id: number; sql: string }
+  | { type: 'close_sql'; sql_id: number }
+  | { type: 'get_autocommit' }
+  | { type: 'describe' };
+
+interface HranaPipelineBody {
+  baton?: string | null;
+  requests: HranaRequest[];
+}
+
+interface Stream {
+  client: Client;
+  storedSql: Map<number, string>;
+}
+
+export interface SqldStandIn {
+  url: string;
+  close(): Promise<void>;
+}
+
+function toInValue(value: HranaValue): InValue {
+  switch (value.type) {
+    case 'null': return null;
+    case 'integer': return BigInt(value.value);
+    case 'float': return value.value;
+    case 'text': return value.value;
+    case 'blob': return Buffer.from(value.base64, 'base64');
+  }
+}
+
+function toHranaValue(value: unknown): HranaValue {
+  if (value === null || value === undefined) return { type: 'null' };
+  if (typeof value === 'bigint') return { type: 'integer', value: String(value) };
+  if (typeof value === 'number') return { type: 'float', value };
+  if (typeof value === 'string') return { type: 'text', value };
+  return { type: 'blob', base64: Buffer.from(value as ArrayBuffer).toString('base64') };
+}
+
+function toStmtResult(result: ResultSet) {
+  return {
+    cols: result.columns.map((name, index) => ({ name, decltype: result.columnTypes[index] || null })),
+    rows: result.rows.map((row) => Array.from({ length: row.length }, (_, index) => toHranaValue(row[index]))),
+    affected_row_count: result.rowsAffected,
+    last_insert_rowid: result.lastInsertRowid === undefined ? null : String(result.lastInsertRowid),
+  };
+}
+
+function toError(error: unknown) {
+  return { message: error instanceof Error ? error.message : String(error), code: 'SQLITE_ERROR' };
+}
+
+async function readJson(request: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of request) {
+    chunks.push(chunk as Buffer);
+  }
+  return JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+}
+
+// Only the envelope is checked; each request is trusted to match its type like the real client sends it
+function isPipelineBody(body: unknown): body is HranaPipelineBody {
+  if (typeof body !== 'object' || body === null) return false;
+  const { baton, requests } = body as Record<string, unknown>;
+  return (
+    (baton === undefined || baton === null || typeof baton === 'string') &&
+    Array.isArray(requests) &&
+    requests.every(
+      (item: unknown) =>
+        typeof item === 'object' && item !== null && typeof (item as { type?: unknown }).type === 'string'
+    )
+  );
+}
+
+/**
+ * Starts the stand-in on a free local port. Requests must carry the given
+ * token as a bearer token.
+ */
+export async function startSqldStandIn(databasePath: string, authToken: string): Promise<SqldStandIn> {
+  const streams = new Map<string, Stream>();
+
+  async function execute(stream: Stream, stmt: HranaStmt): Promise<ResultSet> {
+    const sql = stmt.sql ?? stream.storedSql.get(stmt.sql_id!);
+    if (sql === undefined) throw new Error(`Unknown SQL text ${stmt.sql_id}`);
+
+    const args = stmt.named_args?.length
+      ? Object.fromEntries(stmt.named_args.map((arg) => [arg.name.replace(/^[:@$]/, ''), toInValue(arg.value)]))
+      : (stmt.args ?? []).map(toInValue);
+    return stream.client.execute({ sql, args });
+  }
+
+  async function isAutocommit(stream: Stream): Promise<boolean> {
+    // BEGIN fails when a transaction is already open
+    try {
+      await stream.client.execute('BEGIN');
+      await stream.client.execute('ROLLBACK');
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async function handle(stream: Stream, request: HranaRequest) {
+    switch (request.type) {
+      case 'close':
+        return { type: 'close' };
+      case 'execute':
+        return { type: 'execute', result: toStmtResult(await execute(stream, request.stmt)) };
+      case 'sequence': {
+        await stream.client.executeMultiple(request.sql ?? stream.storedSql.get(request.sql_id!) ?? '');
+        return { type: 'sequence' };
+      }
+      case 'store_sql':
+        stream.storedSql.set(request.sql_id, request.sql);
+        return { type: 'store_sql' };
+      case 'close_sql':
+        stream.storedSql.delete(request.sql_id);
+        return { type: 'close_sql' };
+      case 'get_autocommit':
+        return { type: 'get_autocommit', is_autocommit: await isAutocommit(stream) };
+      case 'batch': {
+        const results: Array<ReturnType<typeof toStmtResult> | null> = [];
+        const errors: Array<ReturnType<typeof toError> | null> = [];
+        const holds = async (condition: HranaCondition): Promise<boolean> => {
+          switch (condition.type) {
+            case 'ok': return results[condition.step] != null;
+            case 'error': return errors[condition.step] != null;
+            case 'not': return !(await holds(condition.cond));
+            case 'and': {
+              for (const cond of condition.conds) if (!(await holds(cond))) return false;
+              return true;
+            }
+            case 'or': {
+              for (const cond of condition.conds) if (await holds(cond)) return true;
+              return false;
+            }
+            case 'is_autocommit': return isAutocommit(stream);
+          }
+        };
+
+        for (const step of request.batch.steps) {
+          if (step.condition && !(await holds(step.condition))) {
+            results.push(null);
+            errors.push(null);
+            continue;
+          }
+          try {
+            results.push(toStmtResult(await execute(stream, step.stmt)));
+            errors.push(null);
+          } catch (error) {
+            results.push(null);
+            errors.push(toError(error));
+          }
+        }
+        return { type: 'batch', result: { step_results: results, step_errors: errors } };
+      }
+      default:
+        throw new Error(`Unsupported request: ${request.type}`);
+    }
+  }
+
+  const server: Server = createServer(async (request, response) => {
+    const send = (status: number, body: unknown) => {
+      response.writeHead(status, { 'Content-Type': 'application/json' });
+      response.end(JSON.stringify(body));
+    };
+
+    // Only the JSON protocol over HTTP is implemented; a 404 makes the client fall back to it
+    if (request.method !== 'POST' || request.url !== '/v2/pipeline') {
+      return send(404, { error: 'Not found' });
+    }
+    if (request.headers.authorization !== `Bearer ${authToken}`) {
+      return send(401, { error: 'Unauthorized' });
+    }
+
+    const body = await readJson(request);
+    if (!isPipelineBody(body)) {
+      return send(400, { error: 'Invalid pipeline request' });
+    }
+    let baton: string = body.baton ?? randomUUID();
+    let stream = streams.get(baton);
+    if (!stream) {
+      stream = { client: createClient({ url: `file:${databasePath}`, intMode: 'bigint' }), storedSql: new Map() };
+    }
+    streams.delete(baton);
+
+    const results = [];
+    let closed = false;
+    for (const streamRequest of body.requests) {
+      try {
+        results.push({ type: 'ok', response: await handle(stream, streamRequest) });
+      } catch (error) {
+        results.push({ type: 'error', error: toError(error) });
+      }
+      if (streamRequest.type === 'close') closed = true;
+    }
+
+    if (closed) {
+      stream.client.close();
+      send(200, { baton: null, base_url: null, results });
+    } else {
+      baton = randomUUID();
+      streams.set(baton, stream);
+      send(200, { baton, base_url: null, results });
+    }
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `libsql://127.0.0.1:${port}?tls=0`,
+    async close() {
+      for (const stream of streams.values()) {
+        stream.client.close();
+      }
+      streams.clear();
+      await new Promise<void>((resolve, reject) => server.close((error) => (error ? reject(error) : resolve())));
+    },
+  };
+}
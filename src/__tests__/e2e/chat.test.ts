@@ -0,0 +1,355 @@
+import { describe, it, expect, beforeAll, beforeEach, afterAll, afterEach, vi } from 'vitest';
+import { action } from '../../../app/routes/api.chat';
+import { action as cancelAction } from '../../../app/routes/api.chat.cancel';
+import { createUserSession } from '../../../app/services/session.server';
+import { runRepository, subsidyRepository, threadRepository, userRepository } from '../../../app/db';
+import { readSseEvents } from '../../../app/utils/sse';
+import type { ChatResponse, ChatStreamEvent } from '../../../app/types/chat';
+import { DEFAULT_REPLY, startFakeOpenAIServer, type FakeOpenAIServer } from './fake-openai-server';
+
+let server: FakeOpenAIServer;
+let cookie: string;
+
+beforeAll(async () => {
+  server = await startFakeOpenAIServer();
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+beforeEach(async () => {
+  vi.stubEnv('OPENAI_BASE_URL', server.url);
+  vi.stubEnv('OPENAI_API_KEY', 'sk-e2e');
+  vi.stubEnv('OPENAI_ASSISTANT_ID', 'asst_e2e');
+  vi.stubEnv('LLM_PROVIDER', '');
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+
+  const user = await userRepository.create({ email: 'e2e@example.com' });
+  if (!user.ok) throw new Error('Failed to seed user');
+  const session = await createUserSession(new Request('http://localhost/login'), user.value.id, '/');
+  cookie = session.headers.get('Set-Cookie')?.split(';')[0] ?? '';
+
+  await subsidyRepository.upsert({
+    jgrantsId: 'E2E-001',
+    title: 'IT導入補助金',
+    description: '中小企業のITツール導入を支援します',
+    fileId: 'file_it',
+  });
+});
+
+afterEach(() => {
+  server.reset();
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+async function chat(body: Record<string, unknown>): Promise<Response> {
+  return action({
+    request: new Request('http://localhost/api/chat', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Cookie: cookie },
+      body: JSON.stringify(body),
+    }),
+    params: {},
+    context: {},
+  });
+}
+
+async function cancel(threadId: string): Promise<Response> {
+  return cancelAction({
+    request: new Request('http://localhost/api/chat/cancel', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Cookie: cookie },
+      body: JSON.stringify({ threadId }),
+    }),
+    params: {},
+    context: {},
+  });
+}
+
+async function storedMessages(threadId: string) {
+  const thread = await threadRepository.findUnique(threadId);
+  return thread.ok ? thread.value.messages.map((message) => [message.role, message.content]) : [];
+}
+
+async function streamedEvents(response: Response): Promise<ChatStreamEvent[]> {
+  const events: ChatStreamEvent[] = [];
+  for await (const event of readSseEvents<ChatStreamEvent>(response.body!)) {
+    events.push(event);
+  }
+  return events;
+}
+
+describe('POST /api/chat against the fake OpenAI API', () => {
+  it('should create a thread, run the assistant and store both messages', async () => {
+    server.scriptRun({
+      reply: 'IT導入補助金が使えます【4:0†source】。',
+      citations: [{ marker: '【4:0†source】', fileId: 'file_it' }],
+    });
+
+    const response = await chat({ message: 'ITツールの補助金はありますか' });
+    const body = (await response.json()) as ChatResponse;
+
+    expect(response.status).toBe(200);
+    expect(body).toMatchObject({
+      success: true,
+      messages: ['IT導入補助金が使えます[^1]。'],
+      citations: [{ index: 1, fileId: 'file_it', jgrantsId: 'E2E-001', title: 'IT導入補助金' }],
+    });
+    expect(await storedMessages(body.threadId!)).toEqual([
+      ['user', 'ITツールの補助金はありますか'],
+      ['assistant', 'IT導入補助金が使えます[^1]。'],
+    ]);
+
+    const remote = server.threads.get(body.threadId!);
+    expect(remote?.messages.map((message) => message.role)).toEqual(['user', 'assistant']);
+    const runRequest = server.requests.find((request) => request.method === 'POST' && request.path.endsWith('/runs'));
+    expect(runRequest?.body).toMatchObject({
+      assistant_id: 'asst_e2e',
+      additional_instructions: expect.stringContaining('補助金・助成金の専門アドバイザー'),
+    });
+  });
+
+  it('should record the run with its status and token usage', async () => {
+    const body = (await (await chat({ message: 'こんにちは' })).json()) as ChatResponse;
+
+    const runs = await runRepository.findMany(body.threadId!);
+    expect(runs.ok && runs.value).toEqual([expect.objectContaining({
+      provider: 'openai-assistants',
+      status: 'completed',
+      totalTokens: 120,
+      durationMs: expect.any(Number),
+    })]);
+    const runId = runs.ok ? runs.value[0].runId! : '';
+    expect(server.run(runId)?.thread_id).toBe(body.threadId);
+  });
+
+  it('should poll a run until it completes', async () => {
+    server.scriptRun({ polls: 1, reply: '少々お待たせしました。' });
+
+    const body = (await (await chat({ message: '補助金について教えてください' })).json()) as ChatResponse;
+
+    expect(body.messages).toEqual(['少々お待たせしました。']);
+    const polls = server.requests.filter((request) => request.method === 'GET' && /\/runs\/run_/.test(request.path));
+    expect(polls).toHaveLength(2);
+  });
+
+  it('should answer follow-up questions in the same thread with the new reply', async () => {
+    server.scriptRun({ reply: '最初の回答です。' }, { reply: '二つ目の回答です。' });
+    const first = (await (await chat({ message: '最初の質問' })).json()) as ChatResponse;
+
+    const second = (await (await chat({ threadId: first.threadId, message: '次の質問' })).json()) as ChatResponse;
+
+    expect(second.messages).toEqual(['二つ目の回答です。']);
+    expect(await storedMessages(first.threadId!)).toEqual([
+      ['user', '最初の質問'],
+      ['assistant', '最初の回答です。'],
+      ['user', '次の質問'],
+      ['assistant', '二つ目の回答です。'],
+    ]);
+  });
+
+  it('should fall back to local search when the run fails', async () => {
+    server.scriptRun({ status: 'failed', error: 'The server had an error.' });
+
+    const body = (await (await chat({ message: 'IT導入の補助金' })).json()) as ChatResponse;
+
+    expect(body.fallback).toBe(true);
+    expect(body.messages?.[0]).toContain('IT導入補助金');
+  });
+
+  it('should run the function calls against the database and submit their outputs', async () => {
+    server.scriptRun({
+      status: 'requires_action',
+      toolCalls: [
+        { name: 'search_subsidies', arguments: { q: 'ITツール' } },
+        { name: 'get_subsidy', arguments: { jgrantsId: 'MISSING' } },
+      ],
+      afterToolOutputs: { reply: 'IT導入補助金が該当します。' },
+    });
+
+    const body = (await (await chat({ message: 'ITツールの補助金はありますか' })).json()) as ChatResponse;
+
+    expect(body).toMatchObject({ success: true, messages: ['IT導入補助金が該当します。'], runStatus: 'completed' });
+    const runs = await runRepository.findMany(body.threadId!);
+    const outputs = server.toolOutputs(runs.ok ? runs.value[0].runId! : '');
+    expect(outputs).toHaveLength(2);
+    expect(JSON.parse(outputs[0].output)).toMatchObject({ total: 1, subsidies: [{ jgrantsId: 'E2E-001' }] });
+    expect(JSON.parse(outputs[1].output)).toEqual({ error: 'Subsidy not found: MISSING' });
+  });
+
+  it('should cancel a run that reaches requires_action after it timed out', async () => {
+    vi.stubEnv('LLM_RUN_TIMEOUT_SECONDS', '0.1');
+    server.scriptRun({
+      status: 'requires_action',
+      polls: 1,
+      toolCalls: [{ name: 'get_subsidy', arguments: { jgrantsId: 'E2E-001' } }],
+    });
+    // The timeout fires during the first poll, and cancelling it then fails,
+    // so the next poll finds the run waiting on its function calls
+    server.delayRequests('GET', /^\/threads\/[^/]+\/runs\/[^/]+$/, 300);
+    server.failRequests('POST', /\/cancel$/, 400);
+
+    const body = (await (await chat({ message: 'IT導入補助金の詳細を教えて' })).json()) as ChatResponse;
+
+    expect(body.fallback).toBe(true);
+    const runs = await runRepository.findMany(body.threadId!);
+    expect(runs.ok && runs.value).toEqual([expect.objectContaining({ status: 'expired' })]);
+    const runId = runs.ok ? runs.value[0].runId! : '';
+    expect(server.run(runId)?.status).toBe('cancelling');
+    expect(server.toolOutputs(runId)).toEqual([]);
+  });
+
+  it('should stream the file search step, the text and the final reply', async () => {
+    server.scriptRun({
+      fileSearch: true,
+      reply: 'IT導入補助金をおすすめします【4:0†source】。',
+      citations: [{ marker: '【4:0†source】', fileId: 'file_it' }],
+    });
+
+    const response = await chat({ message: 'おすすめの補助金は？', stream: true });
+    const events = await streamedEvents(response);
+
+    expect(response.headers.get('Content-Type')).toContain('text/event-stream');
+    expect(events.filter((event) => event.type === 'tool')).toEqual([
+      { type: 'tool', status: 'in_progress', tools: ['file_search'] },
+      { type: 'tool', status: 'completed', tools: ['file_search'] },
+    ]);
+    const text = events.map((event) => (event.type === 'delta' ? event.text : '')).join('');
+    expect(text).toBe('IT導入補助金をおすすめします【4:0†source】。');
+
+    const done = events.at(-1);
+    expect(done).toMatchObject({
+      type: 'done',
+      response: { success: true, messages: ['IT導入補助金をおすすめします[^1]。'], citations: [{ jgrantsId: 'E2E-001' }] },
+    });
+    const threadId = events[0].type === 'thread' ? events[0].threadId : '';
+    expect(await storedMessages(threadId)).toContainEqual(['assistant', 'IT導入補助金をおすすめします[^1]。']);
+  });
+
+  it('should report the function calls of a streamed run and stream the reply that follows', async () => {
+    server.scriptRun({
+      status: 'requires_action',
+      toolCalls: [{ name: 'get_subsidy', arguments: { jgrantsId: 'E2E-001' } }],
+      afterToolOutputs: { reply: 'IT導入補助金の詳細です。' },
+    });
+
+    const events = await streamedEvents(await chat({ message: 'IT導入補助金の詳細を教えて', stream: true }));
+
+    expect(events.filter((event) => event.type === 'tool')).toEqual([
+      { type: 'tool', status: 'in_progress', tools: ['get_subsidy'] },
+      { type: 'tool', status: 'completed', tools: ['get_subsidy'] },
+    ]);
+    expect(events.at(-1)).toMatchObject({
+      type: 'done',
+      response: { success: true, messages: ['IT導入補助金の詳細です。'], runStatus: 'completed' },
+    });
+    const threadId = events[0].type === 'thread' ? events[0].threadId : '';
+    const runs = await runRepository.findMany(threadId);
+    const [output] = server.toolOutputs(runs.ok ? runs.value[0].runId! : '');
+    expect(JSON.parse(output.output)).toMatchObject({ jgrantsId: 'E2E-001', title: 'IT導入補助金' });
+  });
+
+  it('should fall back to local search when a streamed run fails before any text', async () => {
+    server.scriptRun({ status: 'failed' });
+
+    const events = await streamedEvents(await chat({ message: 'IT導入の補助金', stream: true }));
+
+    expect(events.at(-1)).toMatchObject({ type: 'done', response: { fallback: true } });
+  });
+
+  it('should return the partial reply of an incomplete run', async () => {
+    server.scriptRun({ status: 'incomplete', reply: '対象となる補助金は' });
+
+    const body = (await (await chat({ message: '補助金について教えてください' })).json()) as ChatResponse;
+
+    expect(body).toMatchObject({ success: true, messages: ['対象となる補助金は'], runStatus: 'incomplete' });
+    expect(await storedMessages(body.threadId!)).toContainEqual(['assistant', '対象となる補助金は']);
+  });
+
+  it('should stop a streamed reply from the cancel endpoint and keep the text so far', async () => {
+    server.scriptRun({ waitForCancel: true, reply: 'IT導入補助金をおすすめします。' });
+
+    const events = readSseEvents<ChatStreamEvent>((await chat({ message: 'おすすめの補助金は？', stream: true })).body!);
+    let threadId = '';
+    for (let next = await events.next(); !next.done && next.value.type !== 'delta'; next = await events.next()) {
+      if (next.value.type === 'thread') threadId = next.value.threadId;
+    }
+
+    const response = await cancel(threadId);
+    const rest: ChatStreamEvent[] = [];
+    for await (const event of events) rest.push(event);
+
+    expect(await response.json()).toEqual({ cancelled: true });
+    expect(rest.at(-1)).toMatchObject({
+      type: 'done',
+      response: { messages: ['IT導入補助金を'], runStatus: 'cancelled' },
+    });
+    expect(await storedMessages(threadId)).toContainEqual(['assistant', 'IT導入補助金を']);
+    const runs = await runRepository.findMany(threadId);
+    expect(runs.ok && runs.value.map((run) => run.status)).toEqual(['cancelled']);
+    expect(server.run(runs.ok ? runs.value[0].runId! : '')?.status).toBe('cancelled');
+  });
+
+  it('should cancel a streamed run when the client disconnects', async () => {
+    server.scriptRun({ waitForCancel: true });
+
+    const body = (await chat({ message: 'おすすめの補助金は？', stream: true })).body!;
+    const events = readSseEvents<ChatStreamEvent>(body);
+    let threadId = '';
+    for (let next = await events.next(); !next.done && next.value.type !== 'delta'; next = await events.next()) {
+      if (next.value.type === 'thread') threadId = next.value.threadId;
+    }
+    await events.return(undefined);
+    await body.cancel();
+
+    await vi.waitFor(async () => {
+      const runs = await runRepository.findMany(threadId);
+      expect(runs.ok && runs.value.map((run) => run.status)).toEqual(['cancelled']);
+    });
+    const runs = await runRepository.findMany(threadId);
+    expect(server.run(runs.ok ? runs.value[0].runId! : '')?.status).toBe('cancelled');
+    expect(await (await cancel(threadId)).json()).toEqual({ cancelled: false });
+  });
+
+  it('should report that there is no reply to stop', async () => {
+    const body = (await (await chat({ message: 'こんにちは' })).json()) as ChatResponse;
+
+    const response = await cancel(body.threadId!);
+
+    expect(await response.json()).toEqual({ cancelled: false });
+  });
+
+  it('should cancel runs exceeding LLM_RUN_TIMEOUT_SECONDS and fall back to local search', async () => {
+    vi.stubEnv('LLM_RUN_TIMEOUT_SECONDS', '0.1');
+    server.scriptRun({ waitForCancel: true });
+
+    const body = (await (await chat({ message: 'IT導入の補助金' })).json()) as ChatResponse;
+
+    expect(body.fallback).toBe(true);
+    const runs = await runRepository.findMany(body.threadId!);
+    expect(runs.ok && runs.value).toEqual([expect.objectContaining({ status: 'expired' })]);
+    expect(server.run(runs.ok ? runs.value[0].runId! : '')?.status).toBe('cancelled');
+  });
+
+  it('should reply with the canned answer when no run is scripted', async () => {
+    const body = (await (await chat({ message: 'こんにちは' })).json()) as ChatResponse;
+
+    expect(body.messages).toEqual([DEFAULT_REPLY]);
+  });
+
+  it('should not store a message OpenAI rejected', async () => {
+    server.failRequests('POST', /^\/threads\/[^/]+\/messages$/, 400);
+
+    const response = await chat({ message: '送信できない質問' });
+
+    expect(response.status).toBe(502);
+    expect(await response.json()).toEqual({
+      error: 'AIアシスタントに接続できませんでした。しばらくしてからもう一度お試しください。',
+    });
+    const threads = await threadRepository.findMany();
+    expect(threads.ok && threads.value).toHaveLength(1);
+    expect(await storedMessages(threads.ok ? threads.value[0].threadId : '')).toEqual([]);
+  });
+});
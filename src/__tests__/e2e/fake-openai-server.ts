@@ -0,0 +1,636 @@
+/**
+ * A stand-in for the OpenAI API, for end-to-end tests
+ * It implements the subset of the Assistants, Threads, Runs, Files and Vector
+ * Stores endpoints the app uses, keeps everything in memory and lets tests
+ * script how each run ends (with a reply, a failure or a function call), how
+ * many polls it stays in progress and whether it waits to be cancelled. Point
+ * the SDK at it with OPENAI_BASE_URL.
+ */
+
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { randomUUID } from 'crypto';
+import type OpenAI from 'openai';
+
+export type FakeRunStatus =
+  | 'queued'
+  | 'in_progress'
+  | 'requires_action'
+  | 'cancelling'
+  | 'cancelled'
+  | 'failed'
+  | 'completed'
+  | 'incomplete'
+  | 'expired';
+
+export interface FakeRunScript {
+  // How the run ends (default completed)
+  status?: 'completed' | 'incomplete' | 'failed' | 'cancelled' | 'expired' | 'requires_action';
+  // Assistant message added when the run completes (or, cut short, when it is incomplete)
+  reply?: string;
+  // Markers in the reply (e.g. `【4:0†source】`) that cite a file
+  citations?: Array<{ marker: string; fileId: string }>;
+  // Polls answered with in_progress before the run reaches its status
+  polls?: number;
+  // Reported as a file_search run step when streaming
+  fileSearch?: boolean;
+  // Stays in progress with the first part of the reply written until the run is cancelled
+  waitForCancel?: boolean;
+  // Function calls requested when the status is requires_action
+  toolCalls?: Array<{ name: string; arguments: Record<string, unknown> }>;
+  // How the run continues once the tool outputs are submitted
+  afterToolOutputs?: FakeRunScript;
+  // last_error message of a failed run
+  error?: string;
+}
+
+export interface FakeRequest {
+  method: string;
+  path: string;
+  // Parsed JSON or multipart body, or the query parameters of GET and DELETE requests
+  body: unknown;
+}
+
+// A multipart file upload as read by readBody
+interface FakeUpload {
+  file: { filename: string; content: string };
+  purpose: string;
+}
+
+interface FakeMessage {
+  id: string;
+  object: 'thread.message';
+  created_at: number;
+  thread_id: string;
+  role: 'user' | 'assistant';
+  content: Array<{ type: 'text'; text: { value: string; annotations: unknown[] } }>;
+  assistant_id: string | null;
+  run_id: string | null;
+  attachments: unknown[];
+  metadata: Record<string, string>;
+  status: 'in_progress' | 'incomplete' | 'completed';
+}
+
+interface FakeRun {
+  id: string;
+  object: 'thread.run';
+  created_at: number;
+  thread_id: string;
+  assistant_id: string;
+  status: FakeRunStatus;
+  model: string;
+  instructions: string | null;
+  additional_instructions: string | null;
+  required_action: unknown;
+  last_error: { code: string; message: string } | null;
+  incomplete_details: { reason: string } | null;
+  usage: typeof FAKE_USAGE | null;
+  metadata: Record<string, string>;
+  tools: unknown[];
+}
+
+interface RunState {
+  run: FakeRun;
+  script: FakeRunScript;
+  pollsLeft: number;
+  toolOutputs: Array<{ tool_call_id: string; output: string }>;
+  // Reply written so far by a run waiting to be cancelled
+  partial: FakeMessage | null;
+  // Resumes a streaming run waiting to be cancelled
+  onCancel: (() => void) | null;
+}
+
+export interface FakeFile {
+  id: string;
+  filename: string;
+  purpose: string;
+  bytes: number;
+  created_at: number;
+  content: string;
+}
+
+interface FakeThread {
+  id: string;
+  metadata: Record<string, string>;
+  messages: FakeMessage[];
+}
+
+interface FakeFailure {
+  method: string;
+  path: RegExp;
+  status: number;
+  times: number;
+}
+
+interface FakeDelay {
+  method: string;
+  path: RegExp;
+  ms: number;
+  times: number;
+}
+
+export interface FakeOpenAIServer {
+  // Base URL for the SDK, ending in /v1
+  url: string;
+  requests: FakeRequest[];
+  assistants: Map<string, Record<string, unknown>>;
+  threads: Map<string, FakeThread>;
+  files: Map<string, FakeFile>;
+  vectorStores: Map<string, { id: string; name: string; fileIds: Set<string> }>;
+  // Scripts are used by runs in the order they are created; unscripted runs complete with a canned reply
+  scriptRun(...scripts: FakeRunScript[]): void;
+  // Answer matching requests with an error status instead of handling them
+  failRequests(method: string, path: RegExp, status: number, times?: number): void;
+  // Hold matching requests for `ms` before handling them
+  delayRequests(method: string, path: RegExp, ms: number, times?: number): void;
+  run(runId: string): FakeRun | undefined;
+  toolOutputs(runId: string): Array<{ tool_call_id: string; output: string }>;
+  reset(): void;
+  close(): Promise<void>;
+}
+
+export const DEFAULT_REPLY = 'ご質問ありがとうございます。';
+
+// Token usage reported by every run that produced a reply
+export const FAKE_USAGE = { prompt_tokens: 100, completion_tokens: 20, total_tokens: 120 };
+
+// Length of each streamed delta, and of the reply written by a run waiting to be cancelled
+const DELTA_LENGTH = 8;
+
+const now = () => Math.floor(Date.now() / 1000);
+const generateId = (prefix: string) => `${prefix}_${randomUUID().replace(/-/g, '').slice(0, 24)}`;
+
+async function readBody(request: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of request) {
+    chunks.push(chunk as Buffer);
+  }
+  const body = Buffer.concat(chunks);
+  const contentType = request.headers['content-type'] ?? '';
+
+  if (contentType.startsWith('multipart/form-data')) {
+    const form = await new Response(body, { headers: { 'Content-Type': contentType } }).formData();
+    const fields: Record<string, unknown> = {};
+    for (const [name, value] of form.entries()) {
+      fields[name] = typeof value === 'string'
+        ? value
+        : { filename: value.name, content: await value.text() };
+    }
+    return fields;
+  }
+  return body.length > 0 ? JSON.parse(body.toString('utf-8')) : {};
+}
+
+function isUpload(body: unknown): body is FakeUpload {
+  const { file, purpose } = (body ?? {}) as Partial<Record<keyof FakeUpload, unknown>>;
+  return typeof purpose === 'string' && typeof file === 'object' && file !== null && 'content' in file;
+}
+
+function list<T extends { id: string }>(data: T[]) {
+  return { object: 'list', data, first_id: data[0]?.id ?? null, last_id: data.at(-1)?.id ?? null, has_more: false };
+}
+
+function textContent(value: string, annotations: unknown[] = []) {
+  return { type: 'text' as const, text: { value, annotations } };
+}
+
+/**
+ * Starts the stand-in on a free local port. Any API key is accepted.
+ */
+export async function startFakeOpenAIServer(): Promise<FakeOpenAIServer> {
+  const requests: FakeRequest[] = [];
+  const assistants = new Map<string, Record<string, unknown>>();
+  const threads = new Map<string, FakeThread>();
+  const files = new Map<string, FakeFile>();
+  const vectorStores = new Map<string, { id: string; name: string; fileIds: Set<string> }>();
+  const runs = new Map<string, RunState>();
+  const scripts: FakeRunScript[] = [];
+  const failures: FakeFailure[] = [];
+  const delays: FakeDelay[] = [];
+
+  function addMessage(
+    threadId: string,
+    role: 'user' | 'assistant',
+    content: FakeMessage['content'],
+    runId: string | null = null,
+    status: FakeMessage['status'] = 'completed'
+  ) {
+    const message: FakeMessage = {
+      id: generateId('msg'),
+      object: 'thread.message',
+      created_at: now(),
+      thread_id: threadId,
+      role,
+      content,
+      assistant_id: role === 'assistant' ? runs.get(runId ?? '')?.run.assistant_id ?? null : null,
+      run_id: runId,
+      attachments: [],
+      metadata: {},
+      status,
+    };
+    threads.get(threadId)!.messages.push(message);
+    return message;
+  }
+
+  function replyContent(script: FakeRunScript) {
+    const text = script.reply ?? DEFAULT_REPLY;
+    const annotations = (script.citations ?? []).map(({ marker, fileId }) => {
+      const start = text.indexOf(marker);
+      return { type: 'file_citation', text: marker, start_index: start, end_index: start + marker.length, file_citation: { file_id: fileId } };
+    });
+    return textContent(text, annotations);
+  }
+
+  function writePartialReply(state: RunState): FakeMessage {
+    const text = (state.script.reply ?? DEFAULT_REPLY).slice(0, DELTA_LENGTH);
+    state.partial ??= addMessage(state.run.thread_id, 'assistant', [textContent(text)], state.run.id, 'in_progress');
+    return state.partial;
+  }
+
+  function startRun(state: RunState, script: FakeRunScript) {
+    state.script = script;
+    state.pollsLeft = script.polls ?? 0;
+    state.run.status = 'queued';
+    state.run.required_action = null;
+  }
+
+  // Moves the run one poll forward; returns the assistant message if it was just added
+  function advance(state: RunState): FakeMessage | null {
+    const { run, script } = state;
+    if (run.status === 'cancelling') {
+      run.status = 'cancelled';
+      return null;
+    }
+    if (run.status !== 'queued' && run.status !== 'in_progress') return null;
+
+    if (script.waitForCancel) {
+      run.status = 'in_progress';
+      writePartialReply(state);
+      return null;
+    }
+    if (state.pollsLeft > 0) {
+      state.pollsLeft -= 1;
+      run.status = 'in_progress';
+      return null;
+    }
+
+    const status = script.status ?? 'completed';
+    run.status = status;
+    switch (status) {
+      case 'completed':
+        run.usage = FAKE_USAGE;
+        return addMessage(run.thread_id, 'assistant', [replyContent(script)], run.id);
+      case 'incomplete':
+        run.usage = FAKE_USAGE;
+        run.incomplete_details = { reason: 'max_completion_tokens' };
+        return addMessage(run.thread_id, 'assistant', [replyContent(script)], run.id, 'incomplete');
+      case 'failed':
+        run.last_error = { code: 'server_error', message: script.error ?? 'Something went wrong.' };
+        return null;
+      case 'requires_action':
+        run.required_action = {
+          type: 'submit_tool_outputs',
+          submit_tool_outputs: {
+            tool_calls: (script.toolCalls ?? []).map((call) => ({
+              id: generateId('call'),
+              type: 'function',
+              function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+            })),
+          },
+        };
+        return null;
+      default:
+        return null;
+    }
+  }
+
+  // Plays the run to the end as the server-sent events of a streaming request
+  async function streamRun(response: ServerResponse, state: RunState, created: boolean) {
+    response.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' });
+    const send = (event: string, data: unknown) => {
+      response.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+    const { run, script } = state;
+
+    send(created ? 'thread.run.created' : 'thread.run.queued', run);
+    run.status = 'in_progress';
+    send('thread.run.in_progress', run);
+
+    if (script.fileSearch) {
+      const step = {
+        id: generateId('step'),
+        object: 'thread.run.step',
+        run_id: run.id,
+        thread_id: run.thread_id,
+        type: 'tool_calls',
+        status: 'in_progress',
+        step_details: { type: 'tool_calls', tool_calls: [{ id: generateId('call'), type: 'file_search', file_search: {} }] },
+      };
+      send('thread.run.step.created', step);
+      send('thread.run.step.completed', { ...step, status: 'completed' });
+    }
+
+    const sendDeltas = (message: FakeMessage) => {
+      send('thread.message.created', { ...message, content: [], status: 'in_progress' });
+      for (const part of message.content[0].text.value.match(new RegExp(`.{1,${DELTA_LENGTH}}`, 'gs')) ?? []) {
+        send('thread.message.delta', {
+          id: message.id,
+          object: 'thread.message.delta',
+          delta: { content: [{ index: 0, type: 'text', text: { value: part, annotations: [] } }] },
+        });
+      }
+    };
+
+    if (script.waitForCancel) {
+      const partial = writePartialReply(state);
+      sendDeltas(partial);
+      await new Promise<void>((resolve) => {
+        state.onCancel = resolve;
+      });
+      send('thread.run.cancelling', run);
+      send('thread.message.incomplete', partial);
+      run.status = 'cancelled';
+    } else {
+      state.pollsLeft = 0;
+      const message = advance(state);
+      if (message) {
+        sendDeltas(message);
+        send(`thread.message.${message.status}`, message);
+      }
+    }
+    send(`thread.run.${run.status}`, run);
+
+    response.write('event: done\ndata: [DONE]\n\n');
+    response.end();
+  }
+
+  // Bodies are typed with the SDK's params for each route, as the app sends them through the SDK
+  async function handle(method: string, path: string, body: unknown, response: ServerResponse): Promise<unknown> {
+    const route = (pattern: string) => {
+      const regex = new RegExp(`^${pattern.replace(/:\w+/g, '([^/]+)')}$`);
+      return path.match(regex)?.slice(1) ?? null;
+    };
+    let params: string[] | null;
+
+    // Assistants
+    if (method === 'POST' && route('/assistants')) {
+      const params = body as OpenAI.Beta.AssistantCreateParams;
+      const assistant = { id: generateId('asst'), object: 'assistant', created_at: now(), metadata: {}, ...params };
+      assistants.set(assistant.id, assistant);
+      return assistant;
+    }
+    if (method === 'POST' && (params = route('/assistants/:id'))) {
+      const assistant = assistants.get(params[0]);
+      if (!assistant) return notFound('assistant', params[0]);
+      Object.assign(assistant, body as OpenAI.Beta.AssistantUpdateParams);
+      return assistant;
+    }
+
+    // Threads and messages
+    if (method === 'POST' && route('/threads')) {
+      const params = body as OpenAI.Beta.ThreadCreateParams;
+      const thread: FakeThread = { id: generateId('thread'), metadata: params.metadata ?? {}, messages: [] };
+      threads.set(thread.id, thread);
+      return { id: thread.id, object: 'thread', created_at: now(), metadata: thread.metadata };
+    }
+    if (method === 'DELETE' && (params = route('/threads/:id'))) {
+      if (!threads.delete(params[0])) return notFound('thread', params[0]);
+      return { id: params[0], object: 'thread.deleted', deleted: true };
+    }
+    if ((params = route('/threads/:id/messages'))) {
+      const thread = threads.get(params[0]);
+      if (!thread) return notFound('thread', params[0]);
+      if (method === 'POST') {
+        const params = body as OpenAI.Beta.Threads.MessageCreateParams;
+        if (typeof params.content !== 'string') return error(400, 'Only text message content is supported.');
+        return addMessage(thread.id, params.role, [textContent(params.content)]);
+      }
+      const messages = [...thread.messages];
+      const { order } = body as OpenAI.Beta.Threads.MessageListParams;
+      return list(order === 'asc' ? messages : messages.reverse());
+    }
+
+    // Runs
+    if (method === 'POST' && (params = route('/threads/:id/runs'))) {
+      const thread = threads.get(params[0]);
+      if (!thread) return notFound('thread', params[0]);
+      const run = body as OpenAI.Beta.Threads.RunCreateParams;
+      const state: RunState = {
+        run: {
+          id: generateId('run'),
+          object: 'thread.run',
+          created_at: now(),
+          thread_id: thread.id,
+          assistant_id: run.assistant_id,
+          status: 'queued',
+          model: run.model ?? 'gpt-4-turbo-preview',
+          instructions: run.instructions ?? null,
+          additional_instructions: run.additional_instructions ?? null,
+          required_action: null,
+          last_error: null,
+          incomplete_details: null,
+          usage: null,
+          metadata: run.metadata ?? {},
+          tools: run.tools ?? [],
+        },
+        script: {},
+        pollsLeft: 0,
+        toolOutputs: [],
+        partial: null,
+        onCancel: null,
+      };
+      startRun(state, scripts.shift() ?? {});
+      runs.set(state.run.id, state);
+      if (run.stream) return streamRun(response, state, true);
+      return state.run;
+    }
+    if (method === 'GET' && (params = route('/threads/:id/runs/:run'))) {
+      const state = runs.get(params[1]);
+      if (!state || state.run.thread_id !== params[0]) return notFound('run', params[1]);
+      advance(state);
+      return state.run;
+    }
+    if (method === 'POST' && (params = route('/threads/:id/runs/:run/cancel'))) {
+      const state = runs.get(params[1]);
+      if (!state || state.run.thread_id !== params[0]) return notFound('run', params[1]);
+      if (!['queued', 'in_progress', 'requires_action'].includes(state.run.status)) {
+        return error(400, `Cannot cancel run with status '${state.run.status}'.`);
+      }
+      state.run.status = 'cancelling';
+      if (state.partial) state.partial.status = 'incomplete';
+      state.onCancel?.();
+      return state.run;
+    }
+    if (method === 'POST' && (params = route('/threads/:id/runs/:run/submit_tool_outputs'))) {
+      const state = runs.get(params[1]);
+      if (!state || state.run.thread_id !== params[0]) return notFound('run', params[1]);
+      if (state.run.status !== 'requires_action') {
+        return error(400, `Runs in status "${state.run.status}" do not accept tool outputs.`);
+      }
+      const submitted = body as OpenAI.Beta.Threads.RunSubmitToolOutputsParams;
+      state.toolOutputs.push(...submitted.tool_outputs.map((output) => ({
+        tool_call_id: output.tool_call_id ?? '',
+        output: output.output ?? '',
+      })));
+      startRun(state, state.script.afterToolOutputs ?? {});
+      if (submitted.stream) return streamRun(response, state, false);
+      return state.run;
+    }
+
+    // Files
+    if ((params = route('/files'))) {
+      if (method === 'POST') {
+        if (!isUpload(body)) return error(400, 'Expected a multipart upload with a file and a purpose.');
+        const file: FakeFile = {
+          id: generateId('file'),
+          filename: body.file.filename,
+          purpose: body.purpose,
+          bytes: Buffer.byteLength(body.file.content),
+          created_at: now(),
+          content: body.file.content,
+        };
+        files.set(file.id, file);
+        return fileObject(file);
+      }
+      const { purpose } = body as OpenAI.FileListParams;
+      return list([...files.values()].filter((file) => !purpose || file.purpose === purpose).map(fileObject));
+    }
+    if ((params = route('/files/:id'))) {
+      const file = files.get(params[0]);
+      if (!file) return notFound('file', params[0]);
+      if (method === 'DELETE') {
+        files.delete(file.id);
+        return { id: file.id, object: 'file', deleted: true };
+      }
+      return fileObject(file);
+    }
+
+    // Vector stores
+    if (method === 'POST' && route('/vector_stores')) {
+      const { name } = body as OpenAI.VectorStoreCreateParams;
+      const store = { id: generateId('vs'), name: name ?? '', fileIds: new Set<string>() };
+      vectorStores.set(store.id, store);
+      return { id: store.id, object: 'vector_store', name: store.name, created_at: now(), status: 'completed' };
+    }
+    if ((params = route('/vector_stores/:id/files'))) {
+      const store = vectorStores.get(params[0]);
+      if (!store) return notFound('vector store', params[0]);
+      if (method === 'POST') {
+        const { file_id: fileId } = body as OpenAI.VectorStores.FileCreateParams;
+        if (!files.has(fileId)) return notFound('file', fileId);
+        store.fileIds.add(fileId);
+        return vectorStoreFile(store.id, fileId);
+      }
+      return list([...store.fileIds].map((fileId) => vectorStoreFile(store.id, fileId)));
+    }
+    if (method === 'DELETE' && (params = route('/vector_stores/:id/files/:file'))) {
+      const store = vectorStores.get(params[0]);
+      if (!store?.fileIds.delete(params[1])) return notFound('vector store file', params[1]);
+      return { id: params[1], object: 'vector_store.file.deleted', deleted: true };
+    }
+
+    return error(404, `Unknown endpoint: ${method} ${path}`);
+  }
+
+  function fileObject(file: FakeFile) {
+    const { content: _content, ...rest } = file;
+    return { ...rest, object: 'file', status: 'processed' };
+  }
+
+  function vectorStoreFile(vectorStoreId: string, fileId: string) {
+    return {
+      id: fileId,
+      object: 'vector_store.file',
+      vector_store_id: vectorStoreId,
+      created_at: files.get(fileId)?.created_at ?? now(),
+      status: 'completed',
+    };
+  }
+
+  class HttpError {
+    constructor(readonly status: number, readonly message: string) {}
+  }
+
+  function error(status: number, message: string): HttpError {
+    return new HttpError(status, message);
+  }
+
+  function notFound(kind: string, id: string): HttpError {
+    return error(404, `No ${kind} found with id '${id}'.`);
+  }
+
+  const server: Server = createServer(async (request, response) => {
+    const send = (status: number, body: unknown) => {
+      response.writeHead(status, { 'Content-Type': 'application/json' });
+      response.end(JSON.stringify(body));
+    };
+
+    const url = new URL(request.url ?? '/', 'http://localhost');
+    const method = request.method ?? 'GET';
+    const path = url.pathname.replace(/^\/v1/, '');
+    try {
+      const body = method === 'GET' || method === 'DELETE'
+        ? Object.fromEntries(url.searchParams)
+        : await readBody(request);
+      requests.push({ method, path, body });
+
+      const failure = failures.find((candidate) => candidate.method === method && candidate.path.test(path));
+      if (failure) {
+        if (--failure.times <= 0) failures.splice(failures.indexOf(failure), 1);
+        return send(failure.status, { error: { message: `Scripted failure of ${method} ${path}`, type: 'server_error' } });
+      }
+
+      const delay = delays.find((candidate) => candidate.method === method && candidate.path.test(path));
+      if (delay) {
+        if (--delay.times <= 0) delays.splice(delays.indexOf(delay), 1);
+        await new Promise((resolve) => setTimeout(resolve, delay.ms));
+      }
+
+      const result = await handle(method, path, body, response);
+      if (result instanceof HttpError) {
+        return send(result.status, { error: { message: result.message, type: 'invalid_request_error' } });
+      }
+      if (!response.headersSent) send(200, result);
+    } catch (caught) {
+      send(500, { error: { message: caught instanceof Error ? caught.message : String(caught), type: 'server_error' } });
+    }
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}/v1`,
+    requests,
+    assistants,
+    threads,
+    files,
+    vectorStores,
+    scriptRun(...next) {
+      scripts.push(...next);
+    },
+    failRequests(method, path, status, times = 1) {
+      failures.push({ method, path, status, times });
+    },
+    delayRequests(method, path, ms, times = 1) {
+      delays.push({ method, path, ms, times });
+    },
+    run(runId) {
+      return runs.get(runId)?.run;
+    },
+    toolOutputs(runId) {
+      return runs.get(runId)?.toolOutputs ?? [];
+    },
+    reset() {
+      requests.length = 0;
+      scripts.length = 0;
+      failures.length = 0;
+      delays.length = 0;
+      for (const store of [assistants, threads, files, vectorStores, runs]) store.clear();
+    },
+    async close() {
+      server.closeAllConnections();
+      await new Promise<void>((resolve, reject) => server.close((error) => (error ? reject(error) : resolve())));
+    },
+  };
+}
@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeAll, beforeEach, afterAll, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import OpenAI from 'openai';
+import { syncSubsidies } from '../../../scripts/sync-subsidies';
+import { JGrantsApiClient, type SubsidyDetail } from '../../../app/services/subsidies/api-server';
+import { FileStoreService } from '../../../app/services/filestore.server';
+import { subsidyRepository } from '../../../app/db';
+import { startFakeOpenAIServer, type FakeOpenAIServer } from './fake-openai-server';
+
+let server: FakeOpenAIServer;
+let directory: string;
+let vectorStoreId: string;
+
+beforeAll(async () => {
+  server = await startFakeOpenAIServer();
+  directory = mkdtempSync(join(tmpdir(), 'subsidy-sync-e2e-'));
+});
+
+afterAll(async () => {
+  await server.close();
+  rmSync(directory, { recursive: true, force: true });
+});
+
+beforeEach(async () => {
+  vi.stubEnv('OPENAI_BASE_URL', server.url);
+  vi.stubEnv('OPENAI_API_KEY', 'sk-e2e');
+  vi.stubEnv('JGRANTS_PROFILES', 'tokyo');
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+
+  const store = await new OpenAI().vectorStores.create({ name: 'subsidies' });
+  vectorStoreId = store.id;
+  vi.stubEnv('OPENAI_VECTOR_STORE_ID', vectorStoreId);
+});
+
+afterEach(() => {
+  server.reset();
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+// jGrants API serving the given details from its list and detail endpoints
+function jgrants(details: SubsidyDetail[]): JGrantsApiClient {
+  const respond = (result: unknown[]) =>
+    new Response(JSON.stringify({ metadata: { type: 'subsidies', resultset: { count: result.length } }, result }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  return new JGrantsApiClient({
+    sleep: async () => {},
+    fetch: async (input) => {
+      const url = String(input);
+      const id = url.split('/subsidies/id/')[1];
+      if (!id) return respond(details);
+      const detail = details.find((candidate) => candidate.id === decodeURIComponent(id));
+      return detail ? respond([detail]) : new Response('Not found', { status: 404 });
+    },
+  });
+}
+
+const detail: SubsidyDetail = {
+  id: 'E2E-SYNC-001',
+  name: 'S-001',
+  title: '販路開拓支援事業',
+  subsidy_max_limit: 1000000,
+  acceptance_end_datetime: '2025-07-31T07:00:00.000Z',
+};
+
+async function findSubsidy(jgrantsId: string) {
+  const result = await subsidyRepository.findUnique({ jgrantsId });
+  if (!result.ok || !result.value) throw new Error(`Subsidy ${jgrantsId} not found`);
+  return result.value;
+}
+
+describe('scripts/sync-subsidies against the fake OpenAI API', () => {
+  it('should upload new subsidies to the vector store and record their files', async () => {
+    const report = await syncSubsidies({ client: jgrants([detail]), fileStore: new FileStoreService(directory) });
+
+    expect(report).toMatchObject({ created: ['E2E-SYNC-001'], published: ['E2E-SYNC-001'], failed: [] });
+    const subsidy = await findSubsidy('E2E-SYNC-001');
+    const file = server.files.get(subsidy.fileId!);
+    expect(file).toMatchObject({ filename: 'E2E-SYNC-001.md', purpose: 'assistants' });
+    expect(file?.content).toContain('販路開拓支援事業');
+    expect(subsidy.vectorStoreId).toBe(vectorStoreId);
+    expect([...server.vectorStores.get(vectorStoreId)!.fileIds]).toEqual([subsidy.fileId]);
+  });
+
+  it('should replace the uploaded file when a subsidy changes', async () => {
+    await syncSubsidies({ client: jgrants([detail]), fileStore: new FileStoreService(directory) });
+    const previousFileId = (await findSubsidy('E2E-SYNC-001')).fileId!;
+
+    const report = await syncSubsidies({
+      client: jgrants([{ ...detail, subsidy_max_limit: 2000000 }]),
+      fileStore: new FileStoreService(directory),
+    });
+
+    expect(report).toMatchObject({ updated: ['E2E-SYNC-001'], published: ['E2E-SYNC-001'] });
+    const { fileId } = await findSubsidy('E2E-SYNC-001');
+    expect(fileId).not.toBe(previousFileId);
+    expect(server.files.has(previousFileId)).toBe(false);
+    expect([...server.vectorStores.get(vectorStoreId)!.fileIds]).toEqual([fileId]);
+  });
+
+  it('should report subsidies whose upload failed and leave them unpublished', async () => {
+    server.failRequests('POST', /^\/files$/, 400);
+
+    const report = await syncSubsidies({ client: jgrants([detail]), fileStore: new FileStoreService(directory) });
+
+    expect(report.created).toEqual(['E2E-SYNC-001']);
+    expect(report.failed).toEqual([{ jgrantsId: 'E2E-SYNC-001', message: expect.stringContaining('E2E-SYNC-001.md') }]);
+    expect((await findSubsidy('E2E-SYNC-001')).fileId).toBeNull();
+    expect(server.files.size).toBe(0);
+  });
+});
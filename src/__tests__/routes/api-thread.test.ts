@@ -0,0 +1,145 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { loader, action } from '../../../app/routes/api.thread';
+import { createUserSession } from '../../../app/services/session.server';
+import { messageRepository, threadRepository, userRepository } from '../../../app/db';
+
+vi.mock('openai', () => ({
+  default: vi.fn().mockImplementation(() => ({
+    beta: { threads: { del: vi.fn().mockResolvedValue({ deleted: true }) } },
+  })),
+}));
+
+async function sessionCookie(userId: string): Promise<string> {
+  const response = await createUserSession(new Request('http://localhost/login'), userId, '/');
+  return response.headers.get('Set-Cookie')?.split(';')[0] ?? '';
+}
+
+function request(path: string, init: RequestInit & { cookie?: string } = {}) {
+  const { cookie, ...rest } = init;
+  return new Request(`http://localhost${path}`, {
+    ...rest,
+    headers: { 'Content-Type': 'application/json', ...(cookie ? { Cookie: cookie } : {}) },
+  });
+}
+
+describe('/api/thread authorization', () => {
+  let aliceCookie: string;
+
+  beforeEach(async () => {
+    vi.stubEnv('OPENAI_API_KEY', 'sk-test');
+    vi.stubEnv('OPENAI_ASSISTANT_ID', 'asst_123');
+    const alice = await userRepository.create({ email: 'alice@example.com' });
+    const bob = await userRepository.create({ email: 'bob@example.com' });
+    if (!alice.ok || !bob.ok) throw new Error('Failed to seed users');
+
+    aliceCookie = await sessionCookie(alice.value.id);
+    await threadRepository.create({ threadId: 'thread_alice', userId: alice.value.id });
+    await threadRepository.create({ threadId: 'thread_bob', userId: bob.value.id });
+    await messageRepository.create({ threadId: 'thread_bob', role: 'user', content: 'bobの質問' });
+  });
+
+  it('should require a session', async () => {
+    await expect(loader({ request: request('/api/thread'), params: {}, context: {} })).rejects.toMatchObject({
+      status: 401,
+    });
+  });
+
+  it('should list only the signed-in user\'s threads, ignoring a userId parameter', async () => {
+    const response = await loader({
+      request: request('/api/thread?userId=bob', { cookie: aliceCookie }),
+      params: {},
+      context: {},
+    });
+    const body = (await response.json()) as { threads: { threadId: string }[] };
+
+    expect(body.threads.map((t: { threadId: string }) => t.threadId)).toEqual(['thread_alice']);
+  });
+
+  it('should not expose another user\'s thread', async () => {
+    const response = await loader({
+      request: request('/api/thread?threadId=thread_bob', { cookie: aliceCookie }),
+      params: {},
+      context: {},
+    });
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should not rename or delete another user\'s thread', async () => {
+    const renamed = await action({
+      request: request('/api/thread', {
+        method: 'PATCH',
+        body: JSON.stringify({ threadId: 'thread_bob', title: '乗っ取り' }),
+        cookie: aliceCookie,
+      }),
+      params: {},
+      context: {},
+    });
+    const deleted = await action({
+      request: request('/api/thread', {
+        method: 'DELETE',
+        body: JSON.stringify({ threadId: 'thread_bob' }),
+        cookie: aliceCookie,
+      }),
+      params: {},
+      context: {},
+    });
+
+    expect(renamed.status).toBe(404);
+    expect(deleted.status).toBe(404);
+    const thread = await threadRepository.findUnique('thread_bob');
+    expect(thread.ok && thread.value.title).toBe('bobの質問');
+  });
+
+  it('should answer 503 with a user-facing message when the assistant is not configured', async () => {
+    vi.stubEnv('OPENAI_ASSISTANT_ID', '');
+    const logged = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const response = await action({
+      request: request('/api/thread', { method: 'POST', body: JSON.stringify({}), cookie: aliceCookie }),
+      params: {},
+      context: {},
+    });
+    logged.mockRestore();
+
+    expect(response.status).toBe(503);
+    expect(await response.json()).toEqual({ error: 'AIアシスタントが設定されていません。管理者にお問い合わせください。' });
+  });
+
+  it('should list and rename threads without an LLM configuration', async () => {
+    vi.stubEnv('OPENAI_API_KEY', '');
+    vi.stubEnv('OPENAI_ASSISTANT_ID', '');
+
+    const renamed = await action({
+      request: request('/api/thread', {
+        method: 'PATCH',
+        body: JSON.stringify({ threadId: 'thread_alice', title: '設備投資の相談' }),
+        cookie: aliceCookie,
+      }),
+      params: {},
+      context: {},
+    });
+    const listed = await loader({ request: request('/api/thread', { cookie: aliceCookie }), params: {}, context: {} });
+
+    expect(renamed.status).toBe(200);
+    expect(listed.status).toBe(200);
+    const body = (await listed.json()) as { threads: { threadId: string; title: string }[] };
+    expect(body.threads).toEqual([expect.objectContaining({ threadId: 'thread_alice', title: '設備投資の相談' })]);
+  });
+
+  it('should delete the user\'s own thread', async () => {
+    const response = await action({
+      request: request('/api/thread', {
+        method: 'DELETE',
+        body: JSON.stringify({ threadId: 'thread_alice' }),
+        cookie: aliceCookie,
+      }),
+      params: {},
+      context: {},
+    });
+
+    expect(response.status).toBe(200);
+    const thread = await threadRepository.findUnique('thread_alice');
+    expect(!thread.ok && thread.error.type).toBe('NOT_FOUND');
+  });
+});
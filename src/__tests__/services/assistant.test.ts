@@ -1,178 +1,453 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { AssistantService } from '../../../app/services/assistant.server';
-import { prisma } from '../../../app/db.server';
+import type OpenAI from 'openai';
+import {
+  assistantErrorResponse,
+  createAssistantService,
+  createAssistantServiceFromEnv,
+  type AssistantService,
+} from '../../../app/services/assistant.server';
+import type { LlmProvider, LlmRunOptions, LlmRunResult } from '../../../app/services/llm/types';
+import { createRunManager } from '../../../app/services/run-manager.server';
+import { prisma, runRepository, threadRepository } from '../../../app/db.server';
+import type { AssistantReply, AssistantStreamUpdate } from '../../../app/types/chat';
 
-vi.mock('openai', () => ({
-  default: vi.fn().mockImplementation(() => ({
+const reply: AssistantReply = { text: 'Test response', citations: [] };
+const completed: LlmRunResult = {
+  status: 'completed',
+  reply,
+  usage: { promptTokens: 100, completionTokens: 20, totalTokens: 120 },
+};
+
+function fakeProvider() {
+  return {
+    name: 'openai-assistants',
+    model: null,
+    createThread: vi.fn().mockResolvedValue({ id: 'thread_123' }),
+    appendMessage: vi.fn().mockResolvedValue({ id: 'msg_123' }),
+    run: vi.fn(async (_threadId: string, options?: LlmRunOptions) => {
+      options?.onRunCreated?.('run_123');
+      return completed;
+    }),
+    stream: vi.fn(async function* (): AsyncGenerator<AssistantStreamUpdate, LlmRunResult> {
+      yield { type: 'tool', status: 'in_progress', tools: ['file_search'] };
+      yield { type: 'delta', text: 'Test ' };
+      yield { type: 'delta', text: 'response' };
+      return completed;
+    }),
+    deleteThread: vi.fn().mockResolvedValue(undefined),
+  } satisfies LlmProvider;
+}
+
+function fakeOpenAI() {
+  return {
     beta: {
       assistants: {
-        create: vi.fn().mockResolvedValue({
-          id: 'asst_123',
-          name: 'Test Assistant',
-        }),
-        update: vi.fn().mockResolvedValue({
-          id: 'asst_123',
-        }),
-      },
-      threads: {
-        create: vi.fn().mockResolvedValue({
-          id: 'thread_123',
-          metadata: {},
-        }),
-        messages: {
-          create: vi.fn().mockResolvedValue({
-            id: 'msg_123',
-            role: 'user',
-            content: [{ type: 'text', text: { value: 'Test message' } }],
-          }),
-          list: vi.fn().mockResolvedValue({
-            data: [
-              {
-                id: 'msg_456',
-                role: 'assistant',
-                content: [{ type: 'text', text: { value: 'Test response' } }],
-              },
-            ],
-          }),
-        },
-        runs: {
-          create: vi.fn().mockResolvedValue({
-            id: 'run_123',
-            status: 'in_progress',
-          }),
-          retrieve: vi.fn()
-            .mockResolvedValueOnce({ id: 'run_123', status: 'in_progress' })
-            .mockResolvedValueOnce({ id: 'run_123', status: 'completed' }),
-        },
-      },
-      vectorStores: {
-        create: vi.fn().mockResolvedValue({
-          id: 'vs_123',
-          name: 'Test Vector Store',
-        }),
-        files: {
-          create: vi.fn().mockResolvedValue({
-            id: 'file_123',
-          }),
-        },
+        create: vi.fn().mockResolvedValue({ id: 'asst_123', name: 'Test Assistant' }),
+        update: vi.fn().mockResolvedValue({ id: 'asst_123' }),
       },
     },
-    files: {
-      create: vi.fn().mockResolvedValue({
-        id: 'file_123',
-      }),
+    vectorStores: {
+      create: vi.fn().mockResolvedValue({ id: 'vs_123', name: 'Test Vector Store' }),
+      files: { create: vi.fn().mockResolvedValue({ id: 'file_123' }) },
     },
-  })),
-}));
+    files: { create: vi.fn().mockResolvedValue({ id: 'file_123' }) },
+  };
+}
 
-describe('AssistantService', () => {
+async function drain<T, R>(stream: AsyncGenerator<T, R>): Promise<{ updates: T[]; result: R }> {
+  const updates: T[] = [];
+  let next = await stream.next();
+  while (!next.done) {
+    updates.push(next.value);
+    next = await stream.next();
+  }
+  return { updates, result: next.value };
+}
+
+describe('createAssistantService', () => {
+  let provider: ReturnType<typeof fakeProvider>;
+  let openai: ReturnType<typeof fakeOpenAI>;
   let assistantService: AssistantService;
 
   beforeEach(() => {
-    process.env.OPENAI_ASSISTANT_ID = 'asst_test';
-    assistantService = new AssistantService();
+    provider = fakeProvider();
+    openai = fakeOpenAI();
+    assistantService = createAssistantService({
+      provider,
+      openai: openai as unknown as OpenAI,
+      assistantId: 'asst_test',
+    });
   });
 
   describe('createAssistant', () => {
-    it('should create an assistant with file search tool', async () => {
-      const assistant = await assistantService.createAssistant(
-        'Test Assistant',
-        'Test instructions'
-      );
+    it('should create an assistant with file search over the vector store and the subsidy functions', async () => {
+      const assistant = await assistantService.createAssistant('Test Assistant', 'Test instructions', 'vs_123');
 
-      expect(assistant).toHaveProperty('id', 'asst_123');
-      expect(assistant).toHaveProperty('name', 'Test Assistant');
+      expect(assistant).toEqual({ ok: true, value: { id: 'asst_123', name: 'Test Assistant' } });
+      expect(openai.beta.assistants.create).toHaveBeenCalledWith(expect.objectContaining({
+        model: 'gpt-4-turbo-preview',
+        tools: [
+          { type: 'file_search' },
+          ...['search_subsidies', 'get_subsidy', 'list_open_subsidies', 'check_eligibility'].map((name) => ({
+            type: 'function',
+            function: expect.objectContaining({ name, parameters: expect.objectContaining({ type: 'object' }) }),
+          })),
+        ],
+        tool_resources: { file_search: { vector_store_ids: ['vs_123'] } },
+      }));
     });
 
-    it('should create an assistant with vector store', async () => {
-      const assistant = await assistantService.createAssistant(
-        'Test Assistant',
-        'Test instructions',
-        'vs_123'
-      );
+    it('should require a name and instructions', async () => {
+      const assistant = await assistantService.createAssistant('', 'Test instructions');
 
-      expect(assistant).toHaveProperty('id', 'asst_123');
+      expect(!assistant.ok && assistant.error.type).toBe('INVALID_PARAMS');
+      expect(openai.beta.assistants.create).not.toHaveBeenCalled();
     });
   });
 
   describe('createThread', () => {
     it('should create a thread and save to database', async () => {
-      const thread = await assistantService.createThread('user_123', {
-        test: 'metadata',
-      });
+      const thread = await assistantService.createThread('user_123', { test: 'metadata' });
 
-      expect(thread).toHaveProperty('id', 'thread_123');
+      expect(thread).toEqual({ ok: true, value: { id: 'thread_123' } });
+      expect(provider.createThread).toHaveBeenCalledWith({ userId: 'user_123', test: 'metadata' });
 
-      const dbThread = await prisma.thread.findUnique({
-        where: { threadId: 'thread_123' },
-      });
-
-      expect(dbThread).not.toBeNull();
+      const dbThread = await prisma.thread.findUnique({ where: { threadId: 'thread_123' } });
       expect(dbThread?.userId).toBe('user_123');
       expect(dbThread?.metadata).toBe(JSON.stringify({ test: 'metadata' }));
     });
+
+    it('should not save a thread the provider failed to create', async () => {
+      provider.createThread.mockRejectedValue(new Error('Service unavailable'));
+
+      const thread = await assistantService.createThread('user_123');
+
+      expect(thread).toEqual({
+        ok: false,
+        error: { type: 'CREATE_THREAD_FAILED', message: 'Failed to create thread: Service unavailable' },
+      });
+      expect(await prisma.thread.findMany({})).toEqual([]);
+    });
   });
 
   describe('addMessage', () => {
+    beforeEach(async () => {
+      await prisma.thread.create({ data: { threadId: 'thread_123', userId: 'user_123' } });
+    });
+
     it('should add a message to thread and save to database', async () => {
-      await prisma.thread.create({
-        data: {
-          threadId: 'thread_123',
-          userId: 'user_123',
-        },
-      });
+      const message = await assistantService.addMessage('thread_123', 'Test message');
 
-      const message = await assistantService.addMessage(
-        'thread_123',
-        'Test message'
-      );
+      expect(message).toEqual({ ok: true, value: { id: 'msg_123' } });
+      const dbMessage = await prisma.message.findFirst({ where: { threadId: 'thread_123' } });
+      expect(dbMessage?.content).toBe('Test message');
+      expect(dbMessage?.role).toBe('user');
+    });
 
-      expect(message).toHaveProperty('id', 'msg_123');
+    it('should validate required parameters', async () => {
+      const message = await assistantService.addMessage('thread_123', '');
 
-      const dbMessage = await prisma.message.findFirst({
-        where: { threadId: 'thread_123' },
-      });
+      expect(!message.ok && message.error.type).toBe('INVALID_PARAMS');
+      expect(provider.appendMessage).not.toHaveBeenCalled();
+    });
 
-      expect(dbMessage).not.toBeNull();
-      expect(dbMessage?.content).toBe('Test message');
-      expect(dbMessage?.role).toBe('user');
+    it('should not save a message the provider rejected', async () => {
+      provider.appendMessage.mockRejectedValue(new Error('Thread is locked'));
+
+      const message = await assistantService.addMessage('thread_123', 'Test message');
+
+      expect(!message.ok && message.error.type).toBe('ADD_MESSAGE_FAILED');
+      expect(await prisma.message.findFirst({ where: { threadId: 'thread_123' } })).toBeNull();
     });
   });
 
   describe('runAssistant', () => {
-    it('should run assistant and save response', async () => {
-      await prisma.thread.create({
-        data: {
-          threadId: 'thread_123',
-          userId: 'user_123',
-        },
+    beforeEach(async () => {
+      await prisma.thread.create({ data: { threadId: 'thread_123', userId: 'user_123' } });
+    });
+
+    it('should run assistant and save only its reply', async () => {
+      const result = await assistantService.runAssistant('thread_123', '追加の指示');
+
+      expect(result).toEqual({ ok: true, value: { status: 'completed', reply } });
+      expect(provider.run).toHaveBeenCalledWith('thread_123', expect.objectContaining({ instructions: '追加の指示' }));
+      const thread = await threadRepository.findUnique('thread_123');
+      expect(thread.ok && thread.value.messages.map((message) => message.content)).toEqual(['Test response']);
+    });
+
+    it('should save nothing when the run produced no reply', async () => {
+      provider.run.mockResolvedValue({ status: 'completed', reply: null, usage: null });
+
+      expect(await assistantService.runAssistant('thread_123')).toEqual({ ok: true, value: { status: 'completed', reply: null } });
+      expect(await prisma.message.findFirst({ where: { threadId: 'thread_123' } })).toBeNull();
+    });
+
+    it('should report failed runs', async () => {
+      provider.run.mockRejectedValue(new Error('Run failed with status: failed'));
+
+      expect(await assistantService.runAssistant('thread_123')).toEqual({
+        ok: false,
+        error: { type: 'RUN_FAILED', message: 'Failed to run assistant: Run failed with status: failed' },
       });
+    });
+
+    it('should record the run with its provider ID, status, token usage and duration', async () => {
+      await assistantService.runAssistant('thread_123');
+
+      const runs = await runRepository.findMany('thread_123');
+      expect(runs.ok && runs.value).toEqual([expect.objectContaining({
+        runId: 'run_123',
+        provider: 'openai-assistants',
+        status: 'completed',
+        promptTokens: 100,
+        completionTokens: 20,
+        totalTokens: 120,
+        durationMs: expect.any(Number),
+        completedAt: expect.any(String),
+      })]);
+    });
+
+    it('should record failed runs with the error', async () => {
+      provider.run.mockRejectedValue(new Error('Run failed with status: failed'));
+
+      await assistantService.runAssistant('thread_123');
+
+      const runs = await runRepository.findMany('thread_123');
+      expect(runs.ok && runs.value).toEqual([
+        expect.objectContaining({ status: 'failed', error: 'Run failed with status: failed' }),
+      ]);
+    });
+
+    it('should save the partial reply of an incomplete run', async () => {
+      provider.run.mockResolvedValue({ status: 'incomplete', reply: { text: 'Test', citations: [] }, usage: null });
 
       const result = await assistantService.runAssistant('thread_123');
 
-      expect(result.messages.data).toHaveLength(1);
-      expect((result.messages.data[0].content[0] as any).text.value).toBe('Test response');
+      expect(result).toEqual({ ok: true, value: { status: 'incomplete', reply: { text: 'Test', citations: [] } } });
+      const dbMessage = await prisma.message.findFirst({ where: { threadId: 'thread_123', role: 'assistant' } });
+      expect(dbMessage?.content).toBe('Test');
+    });
+  });
+
+  describe('run lifecycle', () => {
+    // Runs until aborted, then ends as cancelled with the text so far
+    function stoppableRun(_threadId: string, options?: LlmRunOptions): Promise<LlmRunResult> {
+      return new Promise((resolve) => {
+        options?.signal?.addEventListener('abort', () => {
+          resolve({ status: 'cancelled', reply: { text: 'Test', citations: [] }, usage: null });
+        });
+      });
+    }
+
+    beforeEach(async () => {
+      await prisma.thread.create({ data: { threadId: 'thread_123', userId: 'user_123' } });
+      provider.run.mockImplementation(stoppableRun);
+    });
+
+    it('should cancel the run in progress and keep the reply so far', async () => {
+      const running = assistantService.runAssistant('thread_123');
+      await vi.waitFor(() => expect(provider.run).toHaveBeenCalled());
+
+      expect(assistantService.cancelRun('thread_123')).toEqual({ ok: true, value: true });
+      expect(await running).toEqual({ ok: true, value: { status: 'cancelled', reply: { text: 'Test', citations: [] } } });
+      const runs = await runRepository.findMany('thread_123');
+      expect(runs.ok && runs.value.map((run) => run.status)).toEqual(['cancelled']);
+    });
 
-      const dbMessage = await prisma.message.findFirst({
-        where: {
-          threadId: 'thread_123',
-          role: 'assistant',
-        },
+    it('should report that there is no run to cancel', () => {
+      expect(assistantService.cancelRun('thread_123')).toEqual({ ok: true, value: false });
+    });
+
+    it('should stop runs that exceed the timeout', async () => {
+      const service = createAssistantService({ provider, runs: createRunManager({ timeoutMs: 10 }) });
+
+      const result = await service.runAssistant('thread_123');
+
+      expect(result).toEqual({
+        ok: false,
+        error: { type: 'RUN_TIMEOUT', message: 'Run did not finish within 0.01 seconds' },
       });
+      expect(await prisma.message.findFirst({ where: { threadId: 'thread_123' } })).toBeNull();
+      const runs = await runRepository.findMany('thread_123');
+      expect(runs.ok && runs.value.map((run) => run.status)).toEqual(['expired']);
+    });
+  });
+
+  describe('streamAssistant', () => {
+    beforeEach(async () => {
+      await prisma.thread.create({ data: { threadId: 'thread_123', userId: 'user_123' } });
+    });
+
+    it('should yield deltas and tool progress and save the final message', async () => {
+      const { updates, result } = await drain(assistantService.streamAssistant('thread_123'));
 
-      expect(dbMessage).not.toBeNull();
+      expect(updates).toEqual([
+        { type: 'tool', status: 'in_progress', tools: ['file_search'] },
+        { type: 'delta', text: 'Test ' },
+        { type: 'delta', text: 'response' },
+      ]);
+      expect(result).toEqual({ ok: true, value: { status: 'completed', reply } });
+      const dbMessage = await prisma.message.findFirst({ where: { threadId: 'thread_123', role: 'assistant' } });
       expect(dbMessage?.content).toBe('Test response');
     });
+
+    it('should return a failed stream as an error after the updates it produced', async () => {
+      provider.stream = vi.fn(async function* (): AsyncGenerator<AssistantStreamUpdate, LlmRunResult> {
+        yield { type: 'delta', text: 'Test ' };
+        throw new Error('Run failed with status: expired');
+      });
+
+      const { updates, result } = await drain(assistantService.streamAssistant('thread_123'));
+
+      expect(updates).toEqual([{ type: 'delta', text: 'Test ' }]);
+      expect(!result.ok && result.error.type).toBe('RUN_FAILED');
+    });
+  });
+
+  describe('threads', () => {
+    beforeEach(async () => {
+      await prisma.thread.create({ data: { threadId: 'thread_123', userId: 'user_123' } });
+      await prisma.thread.create({ data: { threadId: 'thread_456', userId: 'user_456' } });
+    });
+
+    it('should get a thread with its messages', async () => {
+      await assistantService.addMessage('thread_123', '質問です');
+
+      const thread = await assistantService.getThread('thread_123');
+
+      expect(thread.ok && thread.value.messages.map((message) => message.content)).toEqual(['質問です']);
+    });
+
+    it('should report unknown threads as THREAD_NOT_FOUND', async () => {
+      const results = [
+        await assistantService.getThread('thread_missing'),
+        await assistantService.renameThread('thread_missing', '新しい名前'),
+        await assistantService.deleteThread('thread_missing'),
+      ];
+
+      expect(results.map((result) => !result.ok && result.error.type)).toEqual([
+        'THREAD_NOT_FOUND',
+        'THREAD_NOT_FOUND',
+        'THREAD_NOT_FOUND',
+      ]);
+    });
+
+    it('should list a user\'s threads', async () => {
+      const threads = await assistantService.listThreads('user_123');
+
+      expect(threads.ok && threads.value.map((thread) => thread.threadId)).toEqual(['thread_123']);
+    });
+
+    it('should rename a thread', async () => {
+      const thread = await assistantService.renameThread('thread_123', '新しい名前');
+
+      expect(thread.ok && thread.value.title).toBe('新しい名前');
+    });
+
+    it('should delete the thread, its messages and its runs from the database', async () => {
+      await assistantService.addMessage('thread_123', '質問です');
+      await assistantService.runAssistant('thread_123');
+
+      expect(await assistantService.deleteThread('thread_123')).toEqual({ ok: true, value: undefined });
+      expect(provider.deleteThread).toHaveBeenCalledWith('thread_123');
+      expect(await prisma.thread.findUnique({ where: { threadId: 'thread_123' } })).toBeNull();
+      expect(await prisma.message.findFirst({ where: { threadId: 'thread_123' } })).toBeNull();
+      expect(await runRepository.findMany('thread_123')).toEqual({ ok: true, value: [] });
+    });
+
+    it('should keep the thread when the provider fails to delete it', async () => {
+      provider.deleteThread.mockRejectedValue(new Error('Service unavailable'));
+
+      const deleted = await assistantService.deleteThread('thread_123');
+
+      expect(!deleted.ok && deleted.error.type).toBe('DELETE_THREAD_FAILED');
+      expect(await prisma.thread.findUnique({ where: { threadId: 'thread_123' } })).not.toBeNull();
+    });
   });
 
-  describe('createVectorStore', () => {
+  describe('vector stores', () => {
     it('should create a vector store', async () => {
-      const vectorStore = await assistantService.createVectorStore(
-        'Test Vector Store'
-      );
+      const vectorStore = await assistantService.createVectorStore('Test Vector Store');
 
-      expect(vectorStore).toHaveProperty('id', 'vs_123');
-      expect(vectorStore).toHaveProperty('name', 'Test Vector Store');
+      expect(vectorStore).toEqual({ ok: true, value: { id: 'vs_123', name: 'Test Vector Store' } });
     });
+
+    it('should upload a file and attach it to the vector store', async () => {
+      const file = new File(['# 補助金'], 'IT-001.md', { type: 'text/markdown' });
+
+      const uploaded = await assistantService.uploadFileToVectorStore('vs_123', file);
+
+      expect(uploaded.ok && uploaded.value.id).toBe('file_123');
+      expect(openai.vectorStores.files.create).toHaveBeenCalledWith('vs_123', { file_id: 'file_123' });
+    });
+
+    it('should report vector store failures', async () => {
+      openai.vectorStores.create.mockRejectedValue(new Error('Quota exceeded'));
+
+      const vectorStore = await assistantService.createVectorStore('Test Vector Store');
+
+      expect(!vectorStore.ok && vectorStore.error.type).toBe('VECTOR_STORE_ERROR');
+    });
+
+    it('should point the assistant at a new vector store', async () => {
+      const updated = await assistantService.updateAssistantVectorStore('vs_456');
+
+      expect(updated.ok).toBe(true);
+      expect(openai.beta.assistants.update).toHaveBeenCalledWith('asst_test', {
+        tool_resources: { file_search: { vector_store_ids: ['vs_456'] } },
+      });
+    });
+
+    it('should require an assistant to update', async () => {
+      const service = createAssistantService({ provider, openai: openai as unknown as OpenAI });
+
+      const updated = await service.updateAssistantVectorStore('vs_456');
+
+      expect(!updated.ok && updated.error.type).toBe('MISSING_ASSISTANT_ID');
+    });
+  });
+
+  describe('without OpenAI', () => {
+    it('should chat but report management operations as not configured', async () => {
+      const service = createAssistantService({ provider });
+
+      expect((await service.createThread()).ok).toBe(true);
+      const vectorStore = await service.createVectorStore('Test Vector Store');
+      expect(!vectorStore.ok && vectorStore.error.type).toBe('CONFIG_ERROR');
+    });
+  });
+});
+
+describe('createAssistantServiceFromEnv', () => {
+  it('should fail without an assistant for the Assistants API', () => {
+    const service = createAssistantServiceFromEnv({ OPENAI_API_KEY: 'sk-test' });
+
+    expect(!service.ok && service.error.type).toBe('MISSING_ASSISTANT_ID');
+  });
+
+  it('should work offline with the local provider', () => {
+    const service = createAssistantServiceFromEnv({ LLM_PROVIDER: 'local' });
+
+    expect(service.ok).toBe(true);
+  });
+});
+
+describe('assistantErrorResponse', () => {
+  it.each([
+    ['INVALID_PARAMS', 400],
+    ['THREAD_NOT_FOUND', 404],
+    ['DATABASE_ERROR', 500],
+    ['RUN_FAILED', 502],
+    ['RUN_TIMEOUT', 504],
+    ['CONFIG_ERROR', 503],
+  ] as const)('should answer %s with %i and a message for users', async (type, status) => {
+    vi.spyOn(console, 'error').mockImplementationOnce(() => {});
+
+    const response = assistantErrorResponse({ type, message: 'internal details' });
+    const body = (await response.json()) as { error: string };
+
+    expect(response.status).toBe(status);
+    expect(body.error).not.toContain('internal details');
+    expect(body.error.length).toBeGreaterThan(0);
   });
-});
\ No newline at end of file
+});
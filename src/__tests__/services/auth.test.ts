@@ -0,0 +1,205 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  authenticateWithPassword,
+  hashPassword,
+  registerWithPassword,
+  sendMagicLink,
+  verifyMagicLink,
+  verifyPassword,
+} from '../../../app/services/auth.server';
+import { loader as magicLinkLoader } from '../../../app/routes/auth.magic';
+import {
+  createUserSession,
+  findOwnedThread,
+  getUserId,
+  safeRedirect,
+} from '../../../app/services/session.server';
+import { loadAppUrl, type MailMessage, type Mailer } from '../../../app/services/mailer.server';
+import { threadRepository, userRepository } from '../../../app/db';
+
+function memoryMailer() {
+  const sent: MailMessage[] = [];
+  const mailer = {
+    sent,
+    send: vi.fn(async (message: MailMessage) => {
+      sent.push(message);
+    }),
+  } satisfies Mailer & { sent: MailMessage[] };
+  return mailer;
+}
+
+function linkFrom(message: MailMessage): URL {
+  const link = message.text.match(/https?:\/\/\S+/)?.[0];
+  if (!link) throw new Error('No link in message');
+  return new URL(link);
+}
+
+function tokenFrom(message: MailMessage): string {
+  return linkFrom(message).searchParams.get('token') ?? '';
+}
+
+describe('password accounts', () => {
+  it('should hash passwords with a random salt', async () => {
+    const first = await hashPassword('correct horse');
+    const second = await hashPassword('correct horse');
+
+    expect(first).toMatch(/^scrypt\$16384\$8\$1\$/);
+    expect(first).not.toBe(second);
+    expect(await verifyPassword('correct horse', first)).toBe(true);
+    expect(await verifyPassword('wrong horse', first)).toBe(false);
+    expect(await verifyPassword('correct horse', 'plain-text')).toBe(false);
+  });
+
+  it('should register and sign in with a normalized email', async () => {
+    const registered = await registerWithPassword(' Owner@Example.com ', 'password123');
+    expect(registered.ok && registered.value.email).toBe('owner@example.com');
+
+    const signedIn = await authenticateWithPassword('owner@example.com', 'password123');
+    expect(signedIn.ok && signedIn.value.id).toBe(registered.ok && registered.value.id);
+
+    const wrong = await authenticateWithPassword('owner@example.com', 'password124');
+    expect(!wrong.ok && wrong.error.type).toBe('INVALID_CREDENTIALS');
+  });
+
+  it.each([
+    ['not-an-email', 'password123', 'INVALID_INPUT'],
+    ['owner@example.com', 'short', 'INVALID_INPUT'],
+  ])('should reject %s / %s', async (email, password, type) => {
+    const result = await registerWithPassword(email, password);
+
+    expect(!result.ok && result.error.type).toBe(type);
+  });
+
+  it('should not register the same email twice', async () => {
+    await registerWithPassword('owner@example.com', 'password123');
+
+    const result = await registerWithPassword('OWNER@example.com', 'password456');
+
+    expect(!result.ok && result.error.type).toBe('EMAIL_TAKEN');
+  });
+});
+
+describe('magic links', () => {
+  const baseUrl = 'http://localhost:3000';
+
+  it('should create the account and sign in exactly once per link', async () => {
+    const mailer = memoryMailer();
+
+    const sent = await sendMagicLink('new@example.com', { mailer, baseUrl });
+
+    expect(sent.ok).toBe(true);
+    expect(mailer.sent).toHaveLength(1);
+    expect(mailer.sent[0].to).toBe('new@example.com');
+    expect(mailer.sent[0].text).toContain('http://localhost:3000/auth/magic?token=');
+
+    const token = tokenFrom(mailer.sent[0]);
+    const first = await verifyMagicLink(token);
+    const second = await verifyMagicLink(token);
+
+    expect(first.ok && first.value.email).toBe('new@example.com');
+    expect(!second.ok && second.error.type).toBe('INVALID_TOKEN');
+
+    // Magic-link-only accounts have no password to sign in with
+    const password = await authenticateWithPassword('new@example.com', '');
+    expect(password.ok).toBe(false);
+  });
+
+  it('should reject expired links', async () => {
+    const mailer = memoryMailer();
+    const issuedAt = new Date('2025-01-01T00:00:00.000Z');
+    await sendMagicLink('new@example.com', { mailer, baseUrl, now: () => issuedAt, ttlMs: 60_000 });
+
+    const result = await verifyMagicLink(tokenFrom(mailer.sent[0]), new Date('2025-01-01T00:01:00.000Z'));
+
+    expect(!result.ok && result.error.type).toBe('INVALID_TOKEN');
+  });
+
+  it('should return to redirectTo after following the link', async () => {
+    const mailer = memoryMailer();
+
+    await sendMagicLink('back@example.com', { mailer, baseUrl, redirectTo: '/subsidies/123' });
+    const link = linkFrom(mailer.sent[0]);
+    const response = await magicLinkLoader({ request: new Request(link), params: {}, context: {} });
+
+    expect(link.searchParams.get('redirectTo')).toBe('/subsidies/123');
+    expect(response.headers.get('Location')).toBe('/subsidies/123');
+  });
+
+  it('should ignore an unsafe redirectTo on the link', async () => {
+    const mailer = memoryMailer();
+
+    await sendMagicLink('evil@example.com', { mailer, baseUrl });
+    const link = linkFrom(mailer.sent[0]);
+    link.searchParams.set('redirectTo', '//evil.example.com');
+    const response = await magicLinkLoader({ request: new Request(link), params: {}, context: {} });
+
+    expect(response.headers.get('Location')).toBe('/');
+  });
+
+  it('should reuse the existing account and report mail failures', async () => {
+    const registered = await registerWithPassword('owner@example.com', 'password123');
+    const mailer = {
+      send: vi.fn(async () => {
+        throw new Error('connect ECONNREFUSED 127.0.0.1:1025');
+      }),
+    };
+
+    const result = await sendMagicLink('owner@example.com', { mailer, baseUrl });
+
+    expect(!result.ok && result.error.type).toBe('MAIL_FAILED');
+    const user = await userRepository.findUnique({ email: 'owner@example.com' });
+    expect(user.ok && user.value?.id).toBe(registered.ok && registered.value.id);
+  });
+});
+
+describe('loadAppUrl', () => {
+  it('should use the origin of APP_URL', () => {
+    const result = loadAppUrl({ APP_URL: 'https://subsidies.example.com/app', NODE_ENV: 'production' });
+
+    expect(result.ok && result.value).toBe('https://subsidies.example.com');
+  });
+
+  it('should require APP_URL in production', () => {
+    const result = loadAppUrl({ NODE_ENV: 'production' });
+
+    expect(!result.ok && result.error.message).toBe('APP_URL is not set in environment variables');
+  });
+
+  it('should default to localhost in development', () => {
+    expect(loadAppUrl({ NODE_ENV: 'development' })).toEqual({ ok: true, value: 'http://localhost:3000' });
+  });
+
+  it.each(['localhost:3000', 'javascript:alert(1)'])('should reject %s', (value) => {
+    expect(loadAppUrl({ APP_URL: value }).ok).toBe(false);
+  });
+});
+
+describe('sessions', () => {
+  it('should round-trip the user ID through the session cookie', async () => {
+    const response = await createUserSession(new Request('http://localhost/login'), 'user-1', '/subsidies');
+    const cookie = response.headers.get('Set-Cookie')?.split(';')[0] ?? '';
+
+    expect(response.status).toBe(302);
+    expect(response.headers.get('Location')).toBe('/subsidies');
+    expect(await getUserId(new Request('http://localhost/', { headers: { Cookie: cookie } }))).toBe('user-1');
+    expect(await getUserId(new Request('http://localhost/'))).toBeNull();
+  });
+
+  it.each([
+    ['/subsidies?page=2', '/subsidies?page=2'],
+    ['//evil.example.com', '/'],
+    ['https://evil.example.com', '/'],
+    ['/\\evil.example.com', '/'],
+    [null, '/'],
+  ])('should sanitize redirect %s', (to, expected) => {
+    expect(safeRedirect(to)).toBe(expected);
+  });
+
+  it('should only return threads owned by the user', async () => {
+    await threadRepository.create({ threadId: 'thread_owned', userId: 'user-1' });
+
+    expect((await findOwnedThread('thread_owned', 'user-1'))?.threadId).toBe('thread_owned');
+    expect(await findOwnedThread('thread_owned', 'user-2')).toBeNull();
+    expect(await findOwnedThread('thread_missing', 'user-1')).toBeNull();
+  });
+});
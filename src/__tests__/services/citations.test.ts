@@ -0,0 +1,79 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Annotation } from 'openai/resources/beta/threads/messages';
+import { resolveCitations } from '../../../app/services/citations.server';
+import { subsidyRepository } from '../../../app/db';
+
+function citation(text: string, marker: string, fileId: string): Annotation {
+  const start = text.indexOf(marker);
+  return {
+    type: 'file_citation',
+    text: marker,
+    start_index: start,
+    end_index: start + marker.length,
+    file_citation: { file_id: fileId },
+  };
+}
+
+describe('resolveCitations', () => {
+  beforeEach(async () => {
+    const it = await subsidyRepository.upsert({
+      jgrantsId: 'IT-001',
+      title: 'IT導入補助金',
+      description: 'ITツール導入を支援',
+    });
+    const mono = await subsidyRepository.upsert({
+      jgrantsId: 'MONO-001',
+      title: 'ものづくり補助金',
+      description: '設備投資を支援',
+    });
+    if (!it.ok || !mono.ok) throw new Error('Failed to seed subsidies');
+    await subsidyRepository.update(it.value.id, { fileId: 'file-it' });
+  });
+
+  it('should replace markers with numbered footnote references', async () => {
+    const text = 'IT導入補助金が使えます【4:0†source】。上限は450万円です【4:1†source】。設備なら【4:2†source】';
+    const annotations = [
+      citation(text, '【4:0†source】', 'file-it'),
+      citation(text, '【4:1†source】', 'file-it'),
+      citation(text, '【4:2†source】', 'file-unknown'),
+    ];
+
+    const reply = await resolveCitations(text, annotations);
+
+    expect(reply.text).toBe('IT導入補助金が使えます[^1]。上限は450万円です[^1]。設備なら[^2]');
+    expect(reply.citations).toEqual([
+      { index: 1, fileId: 'file-it', jgrantsId: 'IT-001', title: 'IT導入補助金' },
+      { index: 2, fileId: 'file-unknown', jgrantsId: null, title: null },
+    ]);
+  });
+
+  it('should fall back to the uploaded file name for replaced files', async () => {
+    const text = 'ものづくり補助金があります【7:0†MONO-001.md】';
+    const resolveFileName = vi.fn().mockResolvedValue('MONO-001.md');
+
+    const reply = await resolveCitations(
+      text,
+      [citation(text, '【7:0†MONO-001.md】', 'file-old')],
+      { resolveFileName }
+    );
+
+    expect(resolveFileName).toHaveBeenCalledWith('file-old');
+    expect(reply.citations).toEqual([
+      { index: 1, fileId: 'file-old', jgrantsId: 'MONO-001', title: 'ものづくり補助金' },
+    ]);
+  });
+
+  it('should leave text without file citations untouched', async () => {
+    const reply = await resolveCitations('該当する補助金は見つかりませんでした', []);
+
+    expect(reply).toEqual({ text: '該当する補助金は見つかりませんでした', citations: [] });
+  });
+
+  it('should fall back to text replacement when indices do not match', async () => {
+    const reply = await resolveCitations('説明【1:0†source】', [
+      { type: 'file_citation', text: '【1:0†source】', start_index: 99, end_index: 110, file_citation: { file_id: 'file-it' } },
+    ]);
+
+    expect(reply.text).toBe('説明[^1]');
+  });
+});
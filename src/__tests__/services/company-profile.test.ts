@@ -0,0 +1,233 @@
+import { describe, it, expect } from 'vitest';
+import { companyProfileRepository, subsidyRepository, userRepository } from '../../../app/db';
+import {
+  acceptedEmployeeLimits,
+  applyCompanyProfile,
+  buildCompanyProfileInstructions,
+  employeeLimitFor,
+  parseCompanyProfileForm,
+  targetAreasFor,
+  type CompanyProfileInput,
+} from '../../../app/services/subsidies/company-profile';
+import { loadCompanyProfileContext } from '../../../app/services/subsidies/context.server';
+import { parseSubsidySearchParams } from '../../../app/services/subsidies/search-params';
+
+const profile: CompanyProfileInput = {
+  prefecture: '東京都',
+  industry: '製造業',
+  employeeCount: 25,
+  capital: 10_000_000,
+  foundedOn: '2015-04-01',
+  investmentPurpose: '設備整備・IT導入をしたい',
+};
+
+function profileForm(fields: Record<string, string>): FormData {
+  const form = new FormData();
+  for (const [name, value] of Object.entries(fields)) form.set(name, value);
+  return form;
+}
+
+async function createUser(email = 'owner@example.com') {
+  const user = await userRepository.create({ email });
+  if (!user.ok) throw new Error(user.error.message);
+  return user.value;
+}
+
+describe('jGrants vocabulary mapping', () => {
+  it('should pick the narrowest employee bracket', () => {
+    expect(employeeLimitFor(5)).toBe('5名以下');
+    expect(employeeLimitFor(25)).toBe('50名以下');
+    expect(employeeLimitFor(900)).toBe('900名以下');
+    expect(employeeLimitFor(1200)).toBe('901名以上');
+  });
+
+  it('should accept brackets at least as large as the company', () => {
+    expect(acceptedEmployeeLimits(25)).toEqual([
+      '従業員数の制約なし', '50名以下', '100名以下', '300名以下', '900名以下',
+    ]);
+    expect(acceptedEmployeeLimits(1200)).toEqual(['従業員数の制約なし', '901名以上']);
+  });
+
+  it('should cover a prefecture with its region and 全国', () => {
+    expect(targetAreasFor('東京都')).toEqual(['全国', '関東・甲信越地方', '東京都']);
+    expect(targetAreasFor('沖縄県')).toEqual(['全国', '九州・沖縄地方', '沖縄県']);
+  });
+});
+
+describe('parseCompanyProfileForm', () => {
+  const now = new Date('2024-06-01T00:00:00Z');
+
+  it('should parse a filled-in form and convert capital from 万円 to yen', () => {
+    const result = parseCompanyProfileForm(profileForm({
+      prefecture: '東京都',
+      industry: '製造業',
+      employeeCount: '25',
+      capital: '1,000',
+      foundedOn: '2015-04-01',
+      investmentPurpose: '設備整備・IT導入をしたい',
+    }), now);
+
+    expect(result).toEqual({ ok: true, value: profile });
+  });
+
+  it('should treat blank fields as unset', () => {
+    const result = parseCompanyProfileForm(profileForm({ prefecture: '', employeeCount: ' ' }), now);
+    expect(result.ok && result.value).toEqual({
+      prefecture: null,
+      industry: null,
+      employeeCount: null,
+      capital: null,
+      foundedOn: null,
+      investmentPurpose: null,
+    });
+  });
+
+  it('should reject values outside the jGrants vocabulary', () => {
+    expect(parseCompanyProfileForm(profileForm({ industry: 'IT' }), now).ok).toBe(false);
+    expect(parseCompanyProfileForm(profileForm({ prefecture: '東京' }), now).ok).toBe(false);
+  });
+
+  it('should reject invalid numbers and dates', () => {
+    expect(parseCompanyProfileForm(profileForm({ employeeCount: '-1' }), now).ok).toBe(false);
+    expect(parseCompanyProfileForm(profileForm({ capital: '1.5' }), now).ok).toBe(false);
+    expect(parseCompanyProfileForm(profileForm({ foundedOn: '2015/04/01' }), now).ok).toBe(false);
+    expect(parseCompanyProfileForm(profileForm({ foundedOn: '2024-06-02' }), now).ok).toBe(false);
+  });
+});
+
+describe('buildCompanyProfileInstructions', () => {
+  it('should describe every filled-in field', () => {
+    const instructions = buildCompanyProfileInstructions(profile, new Date('2024-06-01T00:00:00Z'));
+
+    expect(instructions).toContain('- 所在地: 東京都');
+    expect(instructions).toContain('- 業種: 製造業');
+    expect(instructions).toContain('- 従業員数: 25名（jGrantsの区分: 50名以下）');
+    expect(instructions).toContain('- 資本金: 1,000万円');
+    expect(instructions).toContain('- 設立日: 2015-04-01（設立9年）');
+    expect(instructions).toContain('- 予定している投資の目的: 設備整備・IT導入をしたい');
+  });
+
+  it('should return null for an empty profile', () => {
+    expect(buildCompanyProfileInstructions({
+      prefecture: null,
+      industry: null,
+      employeeCount: null,
+      capital: null,
+      foundedOn: null,
+      investmentPurpose: null,
+    })).toBeNull();
+  });
+});
+
+describe('companyProfileRepository', () => {
+  it('should create a profile and update it in place', async () => {
+    const user = await createUser();
+
+    const created = await companyProfileRepository.upsert(user.id, profile);
+    expect(created.ok).toBe(true);
+
+    const updated = await companyProfileRepository.upsert(user.id, { ...profile, employeeCount: 60 });
+    expect(updated.ok && updated.value.id).toBe(created.ok && created.value.id);
+
+    const found = await companyProfileRepository.findByUserId(user.id);
+    expect(found.ok && found.value?.employeeCount).toBe(60);
+  });
+
+  it('should feed the profile into run instructions', async () => {
+    const user = await createUser();
+    expect(await loadCompanyProfileContext(user.id)).toEqual({ ok: true, value: null });
+
+    await companyProfileRepository.upsert(user.id, profile);
+    const context = await loadCompanyProfileContext(user.id);
+    expect(context.ok && context.value).toContain('- 所在地: 東京都');
+  });
+});
+
+describe('profile search filters', () => {
+  async function seedSubsidies() {
+    const base = { description: '説明', deadline: '2024年12月31日' };
+    await subsidyRepository.upsert({
+      ...base,
+      jgrantsId: 'NATIONWIDE',
+      title: '全国向け',
+      targetAreas: ['全国'],
+      industries: ['製造業', '情報通信業'],
+      usePurposes: ['設備整備・IT導入をしたい'],
+      targetNumberOfEmployees: '300名以下',
+    });
+    await subsidyRepository.upsert({
+      ...base,
+      jgrantsId: 'KANTO',
+      title: '関東向け',
+      targetAreas: ['関東・甲信越地方'],
+      targetNumberOfEmployees: '従業員数の制約なし',
+    });
+    await subsidyRepository.upsert({
+      ...base,
+      jgrantsId: 'OSAKA',
+      title: '大阪府向け',
+      targetAreas: ['大阪府'],
+    });
+    await subsidyRepository.upsert({
+      ...base,
+      jgrantsId: 'SMALL',
+      title: '小規模事業者向け',
+      targetAreas: ['東京都'],
+      targetNumberOfEmployees: '20名以下',
+    });
+    await subsidyRepository.upsert({
+      ...base,
+      jgrantsId: 'RETAIL',
+      title: '小売業向け',
+      industries: ['卸売業，小売業'],
+      usePurposes: ['販路拡大・海外展開をしたい'],
+    });
+  }
+
+  async function matchingIds(query: string) {
+    const filters = parseSubsidySearchParams(new URLSearchParams(query));
+    if (!filters.ok) throw new Error(filters.error.message);
+    const result = await subsidyRepository.findWithFilters(filters.value);
+    if (!result.ok) throw new Error(result.error.message);
+    return result.value.subsidies.map((subsidy) => subsidy.jgrantsId).sort();
+  }
+
+  it('should parse profile filters from query parameters', () => {
+    const filters = parseSubsidySearchParams(new URLSearchParams(
+      'targetArea=東京都&industry=製造業&usePurpose=人材育成を行いたい&employeeCount=25'
+    ));
+    expect(filters.ok && filters.value).toMatchObject({
+      targetArea: '東京都',
+      industry: '製造業',
+      usePurpose: '人材育成を行いたい',
+      employeeCount: 25,
+    });
+    expect(parseSubsidySearchParams(new URLSearchParams('employeeCount=-1')).ok).toBe(false);
+  });
+
+  it('should match areas through regions and 全国, keeping subsidies without area data', async () => {
+    await seedSubsidies();
+    expect(await matchingIds('targetArea=東京都')).toEqual(['KANTO', 'NATIONWIDE', 'RETAIL', 'SMALL']);
+  });
+
+  it('should exclude subsidies for smaller companies', async () => {
+    await seedSubsidies();
+    expect(await matchingIds('employeeCount=25')).toEqual(['KANTO', 'NATIONWIDE', 'OSAKA', 'RETAIL']);
+  });
+
+  it('should pre-filter with a whole profile', async () => {
+    await seedSubsidies();
+    const filters = parseSubsidySearchParams(new URLSearchParams());
+    if (!filters.ok) throw new Error(filters.error.message);
+
+    const result = await subsidyRepository.findWithFilters(applyCompanyProfile(filters.value, profile));
+    expect(result.ok && result.value.subsidies.map((subsidy) => subsidy.jgrantsId).sort())
+      .toEqual(['KANTO', 'NATIONWIDE']);
+  });
+
+  it('should let explicit filters override the profile', () => {
+    const filters = applyCompanyProfile({ page: 1, pageSize: 20, targetArea: '大阪府' }, profile);
+    expect(filters.targetArea).toBe('大阪府');
+    expect(filters.industry).toBe('製造業');
+  });
+});
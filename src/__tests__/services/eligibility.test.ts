@@ -0,0 +1,184 @@
+import { describe, it, expect } from 'vitest';
+import { companyProfileRepository, subsidyRepository, threadRepository, userRepository } from '../../../app/db';
+import {
+  evaluateEligibility,
+  evaluateSubsidyEligibility,
+  parseEligibilityRules,
+} from '../../../app/services/subsidies/eligibility';
+import { mapSubsidyDetail } from '../../../app/services/subsidies/importer.server';
+import { loadThreadEligibilityContext } from '../../../app/services/subsidies/context.server';
+import type { CompanyProfileInput } from '../../../app/services/subsidies/company-profile';
+import type { EligibilityRules } from '../../../app/types/eligibility';
+
+const now = new Date('2024-06-01T00:00:00Z');
+
+const profile: CompanyProfileInput = {
+  prefecture: '東京都',
+  industry: '製造業',
+  employeeCount: 25,
+  capital: 10_000_000,
+  foundedOn: '2021-04-01',
+  investmentPurpose: null,
+};
+
+const rules: EligibilityRules = {
+  areas: ['関東・甲信越地方'],
+  industries: ['製造業', '情報通信業'],
+  employees: { max: 50 },
+  acceptance: { start: '2024-04-01T00:00:00+09:00', end: '2024-06-30T17:00:00+09:00' },
+  foundingAge: { operator: 'within', years: 5, text: '創業5年以内' },
+};
+
+function statusOf(result: ReturnType<typeof evaluateEligibility>, criterion: string) {
+  return result.criteria.find((entry) => entry.criterion === criterion)?.status;
+}
+
+describe('parseEligibilityRules', () => {
+  it('should parse the typed jGrants fields of an imported subsidy', () => {
+    const subsidy = mapSubsidyDetail({
+      id: 'a0WJ000000TEST',
+      name: 'テスト補助金',
+      detail: '<p>創業・設立後３年未満の中小企業が対象です。</p>',
+      target_area_search: '東京都 / 神奈川県',
+      industry: '製造業 / 情報通信業',
+      target_number_of_employees: '300名以下',
+      acceptance_start_datetime: '2024-04-01T00:00:00.000Z',
+      acceptance_end_datetime: '2024-06-30T08:00:00.000Z',
+    });
+
+    expect(subsidy.eligibilityRules).toEqual({
+      areas: ['東京都', '神奈川県'],
+      industries: ['製造業', '情報通信業'],
+      employees: { max: 300 },
+      acceptance: { start: '2024-04-01T00:00:00.000Z', end: '2024-06-30T08:00:00.000Z' },
+      foundingAge: { operator: 'under', years: 3, text: '創業・設立後3年未満' },
+    });
+  });
+
+  it('should leave criteria the data does not state undecided', () => {
+    expect(parseEligibilityRules({ description: '中小企業の設備投資を支援します' })).toEqual({
+      areas: null,
+      industries: null,
+      employees: null,
+      acceptance: null,
+      foundingAge: null,
+    });
+  });
+
+  it.each([
+    ['従業員数の制約なし', {}],
+    ['20名以下', { max: 20 }],
+    ['901名以上', { min: 901 }],
+    ['中小企業', null],
+  ])('should parse the employee limit %s', (targetNumberOfEmployees, employees) => {
+    expect(parseEligibilityRules({ targetNumberOfEmployees }).employees).toEqual(employees);
+  });
+
+  it.each([
+    ['創業5年以内の事業者', { operator: 'within', years: 5 }],
+    ['設立から1年以上経過していること', { operator: 'atLeast', years: 1 }],
+    ['開業後10年未満', { operator: 'under', years: 10 }],
+  ])('should find the founding age in %s', (description, expected) => {
+    expect(parseEligibilityRules({ description }).foundingAge).toMatchObject(expected);
+  });
+});
+
+describe('evaluateEligibility', () => {
+  it('should be eligible when every criterion is met', () => {
+    const result = evaluateEligibility(profile, rules, now);
+
+    expect(result.status).toBe('eligible');
+    expect(result.criteria.map((criterion) => criterion.criterion)).toEqual([
+      'area', 'employees', 'industry', 'acceptance', 'foundingAge',
+    ]);
+    expect(result.criteria[0].reason).toBe('東京都は対象地域（関東・甲信越地方）に含まれます');
+  });
+
+  it('should not be eligible when any criterion fails', () => {
+    const result = evaluateEligibility({ ...profile, prefecture: '大阪府', employeeCount: 80 }, rules, now);
+
+    expect(result.status).toBe('not_eligible');
+    expect(statusOf(result, 'area')).toBe('not_eligible');
+    expect(statusOf(result, 'employees')).toBe('not_eligible');
+    expect(statusOf(result, 'industry')).toBe('eligible');
+  });
+
+  it('should be unknown when profile or subsidy data is missing', () => {
+    const result = evaluateEligibility(
+      { ...profile, industry: null },
+      { ...rules, areas: null },
+      now
+    );
+
+    expect(result.status).toBe('unknown');
+    expect(statusOf(result, 'area')).toBe('unknown');
+    expect(statusOf(result, 'industry')).toBe('unknown');
+  });
+
+  it('should check the acceptance window', () => {
+    expect(statusOf(evaluateEligibility(profile, rules, new Date('2024-03-31T00:00:00Z')), 'acceptance'))
+      .toBe('not_eligible');
+    expect(statusOf(evaluateEligibility(profile, rules, new Date('2024-07-01T00:00:00Z')), 'acceptance'))
+      .toBe('not_eligible');
+  });
+
+  it('should compare the founding date with the founding age rule', () => {
+    expect(statusOf(evaluateEligibility({ ...profile, foundedOn: '2018-04-01' }, rules, now), 'foundingAge'))
+      .toBe('not_eligible');
+    expect(statusOf(evaluateEligibility({ ...profile, foundedOn: null }, rules, now), 'foundingAge'))
+      .toBe('unknown');
+    expect(statusOf(evaluateEligibility(profile, { ...rules, foundingAge: null }, now), 'foundingAge'))
+      .toBe('eligible');
+  });
+
+  it('should accept subsidies without an employee limit', () => {
+    const result = evaluateEligibility({ ...profile, employeeCount: null }, { ...rules, employees: {} }, now);
+    expect(statusOf(result, 'employees')).toBe('eligible');
+  });
+});
+
+describe('evaluateSubsidyEligibility', () => {
+  it('should parse rules for rows stored without them and reject closed subsidies', async () => {
+    const saved = await subsidyRepository.upsert({
+      jgrantsId: 'CLOSED-001',
+      title: '募集終了した補助金',
+      description: '創業5年以内の事業者が対象',
+      targetAreas: ['全国'],
+      status: 'closed',
+    });
+    if (!saved.ok) throw new Error(saved.error.message);
+
+    const result = evaluateSubsidyEligibility(profile, saved.value, now);
+    expect(result.status).toBe('not_eligible');
+    expect(statusOf(result, 'area')).toBe('eligible');
+    expect(statusOf(result, 'foundingAge')).toBe('eligible');
+    expect(statusOf(result, 'acceptance')).toBe('not_eligible');
+  });
+});
+
+describe('loadThreadEligibilityContext', () => {
+  it('should state the decision for the subsidy a thread is scoped to', async () => {
+    const user = await userRepository.create({ email: 'owner@example.com' });
+    if (!user.ok) throw new Error(user.error.message);
+    await subsidyRepository.upsert(mapSubsidyDetail({
+      id: 'SCOPED-001',
+      name: '東京都の補助金',
+      target_area_search: '東京都',
+      target_number_of_employees: '20名以下',
+    }));
+    await threadRepository.create({
+      threadId: 'thread_eligibility',
+      userId: user.value.id,
+      metadata: JSON.stringify({ jgrantsId: 'SCOPED-001' }),
+    });
+
+    expect(await loadThreadEligibilityContext('thread_eligibility', user.value.id, now))
+      .toEqual({ ok: true, value: null });
+
+    await companyProfileRepository.upsert(user.value.id, profile);
+    const context = await loadThreadEligibilityContext('thread_eligibility', user.value.id, now);
+
+    expect(context.ok && context.value).toContain('総合判定: 対象外');
+    expect(context.ok && context.value).toContain('- 従業員数: 対象外（従業員数25名は上限（20名以下）を超えています）');
+  });
+});
@@ -55,6 +55,16 @@ describe('FileStoreService', () => {
       expect(content).toContain('## 補助金額');
       expect(content).toContain('最大100万円');
     });
+
+    it('should include the normalized amount, deadline and fiscal year', async () => {
+      if (!testSubsidy) throw new Error('Test subsidy not created');
+      const { filePath } = await fileStoreService.saveSubsidyAsMarkdown(testSubsidy);
+
+      const content = await readFile(filePath, 'utf-8');
+      expect(content).toContain('- 補助上限額: 100万円');
+      expect(content).toContain('- 年度: 2024年度（令和6年度）');
+      expect(content).toContain('- 締切日: 2024-12-31');
+    });
   });
 
   describe('readSubsidyMarkdown', () => {
@@ -0,0 +1,373 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  JGrantsApiClient,
+  type CheckpointStore,
+  type DetailFetchCheckpoint,
+  type JGrantsClientOptions,
+  type SubsidyDetail,
+} from '../../../app/services/subsidies/api-server';
+
+function jsonResponse(result: unknown[], status = 200, headers: Record<string, string> = {}) {
+  return new Response(
+    JSON.stringify({ metadata: { type: 'subsidies', resultset: { count: result.length } }, result }),
+    { status, headers: { 'Content-Type': 'application/json', ...headers } }
+  );
+}
+
+function detail(id: string): SubsidyDetail {
+  return { id, name: `S-${id}`, title: `補助金${id}` };
+}
+
+// Fake clock: sleeping advances time instantly so rate limits and backoff are observable
+function createClock() {
+  const clock = { time: 0, sleeps: [] as number[] };
+  return {
+    clock,
+    options: {
+      now: () => clock.time,
+      sleep: async (ms: number) => {
+        clock.sleeps.push(ms);
+        clock.time += ms;
+      },
+    } satisfies Partial<JGrantsClientOptions>,
+  };
+}
+
+// Routes /subsidies/id/:id to a handler, one response per call
+function detailFetch(handler: (id: string) => Response | Promise<Response>) {
+  return vi.fn(async (input: RequestInfo | URL) => {
+    const id = decodeURIComponent(String(input).split('/subsidies/id/')[1]);
+    return handler(id);
+  });
+}
+
+function memoryCheckpointStore(initial: DetailFetchCheckpoint | null = null) {
+  const state: { checkpoint: DetailFetchCheckpoint | null } = { checkpoint: initial };
+  const store = {
+    state,
+    load: vi.fn(async () => state.checkpoint),
+    save: vi.fn(async (checkpoint: DetailFetchCheckpoint) => {
+      state.checkpoint = checkpoint;
+    }),
+    clear: vi.fn(async () => {
+      state.checkpoint = null;
+    }),
+  } satisfies CheckpointStore & { state: typeof state };
+  return store;
+}
+
+describe('JGrantsApiClient', () => {
+  describe('retries', () => {
+    it('should retry 429 and 5xx responses with exponential backoff', async () => {
+      const { clock, options } = createClock();
+      const fetchMock = vi.fn()
+        .mockResolvedValueOnce(jsonResponse([], 503))
+        .mockResolvedValueOnce(jsonResponse([], 429))
+        .mockResolvedValueOnce(jsonResponse([detail('A')]));
+      const client = new JGrantsApiClient({
+        ...options,
+        fetch: fetchMock,
+        requestsPerSecond: 1000,
+        retryBaseDelayMs: 100,
+      });
+
+      const result = await client.fetchSubsidyDetail('A');
+
+      expect(result).toEqual({ ok: true, value: detail('A') });
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+      expect(clock.sleeps).toEqual([100, 200]);
+    });
+
+    it('should honor Retry-After on 429', async () => {
+      const { clock, options } = createClock();
+      const fetchMock = vi.fn()
+        .mockResolvedValueOnce(jsonResponse([], 429, { 'Retry-After': '5' }))
+        .mockResolvedValueOnce(jsonResponse([detail('A')]));
+      const client = new JGrantsApiClient({
+        ...options,
+        fetch: fetchMock,
+        requestsPerSecond: 1000,
+        retryBaseDelayMs: 100,
+      });
+
+      await client.fetchSubsidyDetail('A');
+
+      expect(clock.sleeps).toEqual([5000]);
+    });
+
+    it('should return RATE_LIMITED after exhausting retries', async () => {
+      const { options } = createClock();
+      const fetchMock = vi.fn(async () => jsonResponse([], 429));
+      const client = new JGrantsApiClient({
+        ...options,
+        fetch: fetchMock,
+        requestsPerSecond: 1000,
+        maxRetries: 2,
+      });
+
+      const result = await client.fetchSubsidyDetail('A');
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.type).toBe('RATE_LIMITED');
+      }
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
+
+    it.each([
+      [404, 'NOT_FOUND'],
+      [401, 'UNAUTHORIZED'],
+      [400, 'VALIDATION_ERROR'],
+    ])('should not retry %i responses', async (status, type) => {
+      const fetchMock = vi.fn(async () => jsonResponse([], status));
+      const client = new JGrantsApiClient({ fetch: fetchMock, requestsPerSecond: 1000 });
+
+      const result = await client.fetchSubsidyDetail('A');
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.type).toBe(type);
+      }
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('should return NOT_FOUND when the detail result is empty', async () => {
+      const client = new JGrantsApiClient({
+        fetch: vi.fn(async () => jsonResponse([])),
+        requestsPerSecond: 1000,
+      });
+
+      const result = await client.fetchSubsidyDetail('A');
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.type).toBe('NOT_FOUND');
+      }
+    });
+
+    it('should time out slow requests', async () => {
+      const hangingFetch = vi.fn(
+        (_input: RequestInfo | URL, init?: RequestInit) =>
+          new Promise<Response>((_resolve, reject) => {
+            init?.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+          })
+      );
+      const client = new JGrantsApiClient({
+        fetch: hangingFetch,
+        requestsPerSecond: 1000,
+        timeoutMs: 10,
+        maxRetries: 0,
+      });
+
+      const result = await client.fetchSubsidies({ keyword: '東京' });
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.type).toBe('TIMEOUT');
+      }
+    });
+
+    it('should map thrown fetch errors to NETWORK_ERROR', async () => {
+      const client = new JGrantsApiClient({
+        fetch: vi.fn(async () => {
+          throw new TypeError('fetch failed');
+        }),
+        requestsPerSecond: 1000,
+        maxRetries: 0,
+      });
+
+      const result = await client.fetchSubsidies({ keyword: '東京' });
+
+      expect(result).toEqual({
+        ok: false,
+        error: { type: 'NETWORK_ERROR', message: 'API request failed: fetch failed' },
+      });
+    });
+  });
+
+  describe('rate limiting', () => {
+    it('should space requests according to the token bucket', async () => {
+      const { clock, options } = createClock();
+      const client = new JGrantsApiClient({
+        ...options,
+        fetch: detailFetch((id) => jsonResponse([detail(id)])),
+        requestsPerSecond: 2,
+        burst: 1,
+        concurrency: 1,
+      });
+
+      const result = await client.fetchSubsidyDetails(['A', 'B', 'C', 'D', 'E'].map(detail));
+
+      expect(result.ok).toBe(true);
+      // First request uses the initial token, the other four wait 500ms each
+      expect(clock.time).toBe(2000);
+    });
+
+    it('should not exceed the configured concurrency', async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+      const client = new JGrantsApiClient({
+        fetch: detailFetch(async (id) => {
+          inFlight++;
+          maxInFlight = Math.max(maxInFlight, inFlight);
+          await new Promise((resolve) => setTimeout(resolve, 1));
+          inFlight--;
+          return jsonResponse([detail(id)]);
+        }),
+        requestsPerSecond: 1000,
+        burst: 100,
+        concurrency: 3,
+      });
+
+      const ids = Array.from({ length: 10 }, (_, i) => `ID-${i}`);
+      const result = await client.fetchSubsidyDetails(ids.map(detail));
+
+      expect(maxInFlight).toBe(3);
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        // Input order is preserved regardless of completion order
+        expect(result.value.details.map((d) => d.id)).toEqual(ids);
+      }
+    });
+  });
+
+  describe('fetchSubsidyDetails', () => {
+    it('should collect per-subsidy failures without failing the batch', async () => {
+      const client = new JGrantsApiClient({
+        fetch: detailFetch((id) => (id === 'B' ? jsonResponse([], 404) : jsonResponse([detail(id)]))),
+        requestsPerSecond: 1000,
+      });
+
+      const result = await client.fetchSubsidyDetails(['A', 'B', 'C'].map(detail));
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value.details.map((d) => d.id)).toEqual(['A', 'C']);
+        expect(result.value.failed).toEqual([
+          { id: 'B', error: expect.objectContaining({ type: 'NOT_FOUND' }) },
+        ]);
+      }
+    });
+
+    it('should abort the batch on UNAUTHORIZED', async () => {
+      const client = new JGrantsApiClient({
+        fetch: detailFetch(() => jsonResponse([], 403)),
+        requestsPerSecond: 1000,
+        concurrency: 1,
+      });
+
+      const result = await client.fetchSubsidyDetails(['A', 'B', 'C'].map(detail));
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.type).toBe('UNAUTHORIZED');
+      }
+    });
+
+    it('should resume from a checkpoint and keep it while failures remain', async () => {
+      const store = memoryCheckpointStore({ details: [detail('A')], updatedAt: new Date().toISOString() });
+      const fetchMock = detailFetch((id) => (id === 'C' ? jsonResponse([], 500) : jsonResponse([detail(id)])));
+      const client = new JGrantsApiClient({
+        fetch: fetchMock,
+        requestsPerSecond: 1000,
+        maxRetries: 0,
+        checkpointStore: store,
+      });
+
+      const result = await client.fetchSubsidyDetails(['A', 'B', 'C'].map(detail));
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value.resumed).toBe(1);
+        expect(result.value.details.map((d) => d.id)).toEqual(['A', 'B']);
+      }
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(store.state.checkpoint?.details.map((d) => d.id).sort()).toEqual(['A', 'B']);
+      expect(store.clear).not.toHaveBeenCalled();
+    });
+
+    it('should clear the checkpoint once every detail is fetched', async () => {
+      const store = memoryCheckpointStore({ details: [detail('A')], updatedAt: new Date().toISOString() });
+      const client = new JGrantsApiClient({
+        fetch: detailFetch((id) => jsonResponse([detail(id)])),
+        requestsPerSecond: 1000,
+        checkpointStore: store,
+      });
+
+      const result = await client.fetchSubsidyDetails(['A', 'B'].map(detail));
+
+      expect(result.ok).toBe(true);
+      expect(store.clear).toHaveBeenCalled();
+      expect(store.state.checkpoint).toBeNull();
+    });
+
+    it('should run checkpoint saves from concurrent workers one at a time', async () => {
+      const store = memoryCheckpointStore();
+      let active = 0;
+      let maxActive = 0;
+      store.save.mockImplementation(async (checkpoint) => {
+        active++;
+        maxActive = Math.max(maxActive, active);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        store.state.checkpoint = checkpoint;
+        active--;
+      });
+      const client = new JGrantsApiClient({
+        fetch: detailFetch((id) => (id === 'D' ? jsonResponse([], 500) : jsonResponse([detail(id)]))),
+        requestsPerSecond: 1000,
+        maxRetries: 0,
+        concurrency: 4,
+        checkpointInterval: 1,
+        checkpointStore: store,
+      });
+
+      await client.fetchSubsidyDetails(['A', 'B', 'C', 'D'].map(detail));
+
+      expect(store.save).toHaveBeenCalledTimes(5);
+      expect(maxActive).toBe(1);
+      expect(store.state.checkpoint?.details.map((d) => d.id).sort()).toEqual(['A', 'B', 'C']);
+    });
+
+    it('should clear the checkpoint when only non-retryable failures remain', async () => {
+      const store = memoryCheckpointStore();
+      const client = new JGrantsApiClient({
+        fetch: detailFetch((id) => (id === 'B' ? jsonResponse([], 404) : jsonResponse([detail(id)]))),
+        requestsPerSecond: 1000,
+        checkpointInterval: 1,
+        checkpointStore: store,
+      });
+
+      const result = await client.fetchSubsidyDetails(['A', 'B'].map(detail));
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value.failed).toEqual([
+          { id: 'B', error: expect.objectContaining({ type: 'NOT_FOUND' }) },
+        ]);
+      }
+      expect(store.clear).toHaveBeenCalled();
+      expect(store.state.checkpoint).toBeNull();
+    });
+
+    it('should not resume from a checkpoint older than the max age', async () => {
+      const updatedAt = new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString();
+      const store = memoryCheckpointStore({ details: [{ ...detail('A'), title: 'stale' }], updatedAt });
+      const fetchMock = detailFetch((id) => jsonResponse([detail(id)]));
+      const client = new JGrantsApiClient({
+        fetch: fetchMock,
+        requestsPerSecond: 1000,
+        checkpointMaxAgeMs: 60 * 60 * 1000,
+        checkpointStore: store,
+      });
+
+      const result = await client.fetchSubsidyDetails(['A', 'B'].map(detail));
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value.resumed).toBe(0);
+        expect(result.value.details.map((d) => d.title)).toEqual(['補助金A', '補助金B']);
+      }
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -0,0 +1,235 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { APIUserAbortError, type OpenAI } from 'openai';
+import { loadLlmConfig } from '../../../app/services/llm/config';
+import { createChatCompletionsProvider } from '../../../app/services/llm/chat-completions.server';
+import { createAssistantService } from '../../../app/services/assistant.server';
+import { messageRepository, runRepository, subsidyRepository, threadRepository } from '../../../app/db';
+import type { AssistantStreamUpdate } from '../../../app/types/chat';
+
+describe('loadLlmConfig', () => {
+  it('should default to the Assistants API', () => {
+    const config = loadLlmConfig({ OPENAI_API_KEY: 'sk-test', OPENAI_ASSISTANT_ID: 'asst_1' });
+
+    expect(config.ok && config.value).toEqual({
+      provider: 'openai-assistants',
+      model: null,
+      apiKey: 'sk-test',
+      baseUrl: undefined,
+      assistantId: 'asst_1',
+    });
+  });
+
+  it.each(['openai-assistants', 'openai-chat'])('should require an OpenAI API key for %s', (provider) => {
+    const config = loadLlmConfig({ LLM_PROVIDER: provider, OPENAI_ASSISTANT_ID: 'asst_1' });
+
+    expect(!config.ok && config.error).toEqual({
+      type: 'CONFIG_ERROR',
+      message: 'OPENAI_API_KEY is not set in environment variables',
+    });
+  });
+
+  it('should require an assistant for the Assistants API', () => {
+    const config = loadLlmConfig({ OPENAI_API_KEY: 'sk-test' });
+
+    expect(!config.ok && config.error.type).toBe('MISSING_ASSISTANT_ID');
+  });
+
+  it('should use the configured model for Chat Completions', () => {
+    const config = loadLlmConfig({ LLM_PROVIDER: 'openai-chat', LLM_MODEL: 'gpt-4o', OPENAI_API_KEY: 'sk-test' });
+
+    expect(config.ok && config.value).toMatchObject({ provider: 'openai-chat', model: 'gpt-4o' });
+  });
+
+  it('should point the local provider at Ollama by default without an API key', () => {
+    const config = loadLlmConfig({ LLM_PROVIDER: 'local' });
+
+    expect(config.ok && config.value).toEqual({
+      provider: 'local',
+      model: 'llama3.1',
+      apiKey: 'local',
+      baseUrl: 'http://127.0.0.1:11434/v1',
+    });
+  });
+
+  it.each([
+    [{ LLM_PROVIDER: 'anthropic' }, 'Unknown LLM_PROVIDER: anthropic (use openai-assistants, openai-chat, local)'],
+    [{ LLM_PROVIDER: 'local', LLM_BASE_URL: 'localhost:8080' }, 'LLM_BASE_URL must be an http(s) URL: localhost:8080'],
+  ])('should reject %o', (env, message) => {
+    const config = loadLlmConfig(env);
+
+    expect(config).toEqual({ ok: false, error: { type: 'CONFIG_ERROR', message } });
+  });
+});
+
+// Chat Completions client answering with fixed text, as a whole or in chunks.
+// Like the SDK, an aborted request throws and an aborted stream just ends.
+function fakeChatClient(answer: string, finishReason = 'stop') {
+  const usage = { prompt_tokens: 120, completion_tokens: 30, total_tokens: 150 };
+  const create = vi.fn(async (params: { stream?: boolean }, options?: { signal?: AbortSignal }) => {
+    if (options?.signal?.aborted) throw new APIUserAbortError();
+    if (!params.stream) {
+      return {
+        id: 'chatcmpl_1',
+        choices: [{ message: { role: 'assistant', content: answer }, finish_reason: finishReason }],
+        usage,
+      };
+    }
+    return (async function* () {
+      for (const part of answer.match(/.{1,8}/gs) ?? []) {
+        if (options?.signal?.aborted) return;
+        yield { id: 'chatcmpl_1', choices: [{ delta: { content: part }, finish_reason: null }], usage: null };
+      }
+      yield { id: 'chatcmpl_1', choices: [{ delta: {}, finish_reason: finishReason }], usage: null };
+      yield { id: 'chatcmpl_1', choices: [], usage };
+    })();
+  });
+  return { client: { chat: { completions: { create } } } as unknown as Pick<OpenAI, 'chat'>, create };
+}
+
+async function seedSubsidies() {
+  await subsidyRepository.upsert({
+    jgrantsId: 'IT-001',
+    title: 'IT導入補助金',
+    description: '中小企業のITツール導入を支援します',
+    amount: '最大450万円',
+    deadline: '2024年12月31日',
+  });
+  await subsidyRepository.upsert({
+    jgrantsId: 'IT-002',
+    title: 'IT人材育成助成金',
+    description: 'IT人材の育成を支援します',
+  });
+}
+
+describe('createChatCompletionsProvider', () => {
+  beforeEach(async () => {
+    await seedSubsidies();
+  });
+
+  it('should answer from the stored conversation with local search results as sources', async () => {
+    const { client, create } = fakeChatClient('IT導入補助金が使えます[^1]。');
+    const provider = createChatCompletionsProvider({ name: 'local', openai: client, model: 'llama3.1' });
+    const thread = await provider.createThread({});
+    await threadRepository.create({ threadId: thread.id });
+    await messageRepository.create({ threadId: thread.id, role: 'user', content: 'IT導入の補助金はありますか' });
+
+    const result = await provider.run(thread.id, { instructions: '## 事業者情報\n- 所在地: 東京都' });
+
+    expect(thread.id).toMatch(/^thread_[0-9a-f]{32}$/);
+    expect(result).toEqual({
+      status: 'completed',
+      reply: {
+        text: 'IT導入補助金が使えます[^1]。',
+        citations: [{ index: 1, fileId: 'IT-001', jgrantsId: 'IT-001', title: 'IT導入補助金' }],
+      },
+      usage: { promptTokens: 120, completionTokens: 30, totalTokens: 150 },
+    });
+
+    const [{ model, messages }] = create.mock.calls[0] as unknown as [{ model: string; messages: Array<{ role: string; content: string }> }];
+    expect(model).toBe('llama3.1');
+    expect(messages[0].role).toBe('system');
+    expect(messages[0].content).toContain('[^1] IT導入補助金（IT-001）');
+    expect(messages[0].content).toContain('- 所在地: 東京都');
+    expect(messages.slice(1)).toEqual([{ role: 'user', content: 'IT導入の補助金はありますか' }]);
+  });
+
+  it('should stream the reply after the retrieval step', async () => {
+    const { client } = fakeChatClient('IT人材育成助成金[^1]があります。');
+    const provider = createChatCompletionsProvider({ name: 'openai-chat', openai: client, model: 'gpt-4o-mini' });
+    await threadRepository.create({ threadId: 'thread_stream' });
+    await messageRepository.create({ threadId: 'thread_stream', role: 'user', content: 'IT人材の助成金' });
+
+    const updates: AssistantStreamUpdate[] = [];
+    const stream = provider.stream('thread_stream');
+    let next = await stream.next();
+    while (!next.done) {
+      updates.push(next.value);
+      next = await stream.next();
+    }
+
+    expect(updates.slice(0, 2)).toEqual([
+      { type: 'tool', status: 'in_progress', tools: ['local_search'] },
+      { type: 'tool', status: 'completed', tools: ['local_search'] },
+    ]);
+    expect(updates.slice(2).map((update) => (update.type === 'delta' ? update.text : '')).join('')).toBe(
+      'IT人材育成助成金[^1]があります。'
+    );
+    expect(next.value.status).toBe('completed');
+    expect(next.value.reply?.citations.map((citation) => citation.jgrantsId)).toEqual(['IT-002']);
+    expect(next.value.usage?.totalTokens).toBe(150);
+  });
+
+  it('should report replies cut off by the token limit as incomplete', async () => {
+    const { client } = fakeChatClient('IT導入補助金は', 'length');
+    const provider = createChatCompletionsProvider({ name: 'local', openai: client, model: 'llama3.1' });
+    await threadRepository.create({ threadId: 'thread_length' });
+    await messageRepository.create({ threadId: 'thread_length', role: 'user', content: 'IT導入の補助金' });
+    const onRunCreated = vi.fn();
+
+    const result = await provider.run('thread_length', { onRunCreated });
+
+    expect(result.status).toBe('incomplete');
+    expect(result.reply?.text).toBe('IT導入補助金は');
+    expect(onRunCreated).toHaveBeenCalledWith('chatcmpl_1');
+  });
+
+  it('should stop streaming when aborted and keep the partial reply', async () => {
+    const { client } = fakeChatClient('IT人材育成助成金があります。詳しくは公募要領をご確認ください。');
+    const provider = createChatCompletionsProvider({ name: 'local', openai: client, model: 'llama3.1' });
+    await threadRepository.create({ threadId: 'thread_abort' });
+    await messageRepository.create({ threadId: 'thread_abort', role: 'user', content: 'IT人材の助成金' });
+    const controller = new AbortController();
+
+    const stream = provider.stream('thread_abort', { signal: controller.signal });
+    let next = await stream.next();
+    while (!next.done) {
+      if (next.value.type === 'delta') controller.abort();
+      next = await stream.next();
+    }
+
+    expect(next.value).toEqual({ status: 'cancelled', reply: expect.objectContaining({ text: 'IT人材育成助成' }), usage: null });
+  });
+
+  it('should not request a completion for a run cancelled before it started', async () => {
+    const { client } = fakeChatClient('回答です。');
+    const provider = createChatCompletionsProvider({ name: 'local', openai: client, model: 'llama3.1' });
+    await threadRepository.create({ threadId: 'thread_cancelled' });
+    await messageRepository.create({ threadId: 'thread_cancelled', role: 'user', content: '質問です' });
+    const controller = new AbortController();
+    controller.abort();
+
+    const result = await provider.run('thread_cancelled', { signal: controller.signal });
+
+    expect(result).toEqual({ status: 'cancelled', reply: null, usage: null });
+  });
+});
+
+describe('AssistantService with a local provider', () => {
+  it('should store the thread, the question and the reply without calling OpenAI', async () => {
+    await seedSubsidies();
+    const { client } = fakeChatClient('IT導入補助金[^1]をご検討ください。');
+    const service = createAssistantService({
+      provider: createChatCompletionsProvider({ name: 'local', openai: client, model: 'llama3.1' }),
+    });
+
+    const thread = await service.createThread('user_1');
+    if (!thread.ok) throw new Error(thread.error.message);
+    await service.addMessage(thread.value.id, 'IT導入に使える補助金は？');
+    const reply = await service.runAssistant(thread.value.id);
+
+    expect(reply.ok && reply.value.reply?.citations).toHaveLength(1);
+    const stored = await threadRepository.findUnique(thread.value.id);
+    expect(stored.ok && stored.value.messages.map((message) => [message.role, message.content])).toEqual([
+      ['user', 'IT導入に使える補助金は？'],
+      ['assistant', 'IT導入補助金[^1]をご検討ください。'],
+    ]);
+    const runs = await runRepository.findMany(thread.value.id);
+    expect(runs.ok && runs.value).toEqual([expect.objectContaining({
+      runId: 'chatcmpl_1',
+      provider: 'local',
+      model: 'llama3.1',
+      status: 'completed',
+      totalTokens: 150,
+    })]);
+  });
+});
@@ -0,0 +1,232 @@
+import { describe, it, expect, vi } from 'vitest';
+import { bookmarkRepository, reminderDeliveryRepository, subsidyRepository, userRepository } from '../../../app/db';
+import {
+  deadlineOf,
+  findDueReminders,
+  parseRemindDaysBefore,
+  sendDueReminders,
+  type BookmarkEntry,
+} from '../../../app/services/reminders.server';
+import {
+  createWebhookChannel,
+  loadNotificationChannels,
+  type NotificationChannel,
+  type Reminder,
+} from '../../../app/services/notifications.server';
+import type { Subsidy } from '../../../app/db/schema';
+
+const baseUrl = 'https://subsidies.example';
+
+function memoryChannel(name = 'memory') {
+  const sent: Reminder[] = [];
+  const channel = {
+    name,
+    sent,
+    send: vi.fn(async (reminder: Reminder) => {
+      sent.push(reminder);
+    }),
+  } satisfies NotificationChannel & { sent: Reminder[] };
+  return channel;
+}
+
+function entry(subsidy: Partial<Subsidy>, bookmarkCreatedAt = '2024-03-01 00:00:00'): BookmarkEntry {
+  return {
+    bookmark: { id: 1, userId: 'user-1', jgrantsId: 'SUB-001', remindDaysBefore: 7, createdAt: bookmarkCreatedAt },
+    subsidy: { jgrantsId: 'SUB-001', title: 'テスト補助金', acceptanceStart: null, acceptanceEnd: null, deadlineDate: null, ...subsidy } as Subsidy,
+    user: { id: 'user-1', email: 'owner@example.com', passwordHash: null, createdAt: '', updatedAt: '' },
+  };
+}
+
+async function seedBookmark(subsidy: { acceptanceStart?: string; acceptanceEnd?: string; deadline?: string }) {
+  const user = await userRepository.create({ email: 'owner@example.com' });
+  if (!user.ok) throw new Error(user.error.message);
+  await subsidyRepository.upsert({
+    jgrantsId: 'SUB-001',
+    title: 'テスト補助金',
+    description: '説明',
+    ...subsidy,
+  });
+  const bookmark = await bookmarkRepository.upsert({ userId: user.value.id, jgrantsId: 'SUB-001', remindDaysBefore: 7 });
+  if (!bookmark.ok) throw new Error(bookmark.error.message);
+  return { user: user.value, bookmark: bookmark.value };
+}
+
+describe('deadlineOf', () => {
+  it('should prefer the jGrants end datetime and fall back to the end of the deadline date', () => {
+    expect(deadlineOf({ acceptanceEnd: '2024-06-30T08:00:00.000Z', deadlineDate: '2024-06-30' }))
+      .toBe('2024-06-30T08:00:00.000Z');
+    expect(deadlineOf({ acceptanceEnd: null, deadlineDate: '2024-12-31' })).toBe('2024-12-31T23:59:59+09:00');
+    expect(deadlineOf({ acceptanceEnd: null, deadlineDate: null })).toBeNull();
+  });
+});
+
+describe('parseRemindDaysBefore', () => {
+  it('should default to a week and reject out-of-range values', () => {
+    expect(parseRemindDaysBefore(null)).toEqual({ ok: true, value: 7 });
+    expect(parseRemindDaysBefore('14')).toEqual({ ok: true, value: 14 });
+    expect(parseRemindDaysBefore('0').ok).toBe(false);
+    expect(parseRemindDaysBefore('1.5').ok).toBe(false);
+  });
+});
+
+describe('findDueReminders', () => {
+  const subsidy = { acceptanceStart: '2024-04-01T00:00:00.000Z', acceptanceEnd: '2024-06-30T08:00:00.000Z' };
+
+  it('should remind within the days before the deadline', () => {
+    const reminders = findDueReminders([entry(subsidy)], baseUrl, new Date('2024-06-25T00:00:00Z'));
+
+    expect(reminders.map((reminder) => reminder.kind)).toEqual(['opened', 'deadline']);
+    expect(reminders[1]).toMatchObject({
+      eventAt: '2024-06-30T08:00:00.000Z',
+      daysLeft: 6,
+      subject: '【締切まであと6日】テスト補助金',
+      subsidy: { url: 'https://subsidies.example/subsidies/SUB-001' },
+    });
+    expect(reminders[1].text).toContain('2024-06-30に締め切られます');
+  });
+
+  it('should not remind before the window or after the deadline', () => {
+    expect(findDueReminders([entry(subsidy)], baseUrl, new Date('2024-06-01T00:00:00Z'))
+      .map((reminder) => reminder.kind)).toEqual(['opened']);
+    expect(findDueReminders([entry(subsidy)], baseUrl, new Date('2024-07-01T00:00:00Z'))).toEqual([]);
+  });
+
+  it('should only announce the opening to users who bookmarked before it', () => {
+    const now = new Date('2024-04-02T00:00:00Z');
+    expect(findDueReminders([entry(subsidy, '2024-03-01 00:00:00')], baseUrl, now)).toHaveLength(1);
+    expect(findDueReminders([entry(subsidy, '2024-04-01 12:00:00')], baseUrl, now)).toHaveLength(0);
+  });
+
+  it('should use the normalized deadline date for subsidies without an end datetime', () => {
+    const reminders = findDueReminders(
+      [entry({ deadlineDate: '2024-12-31' })],
+      baseUrl,
+      new Date('2024-12-28T00:00:00Z')
+    );
+    expect(reminders).toHaveLength(1);
+    expect(reminders[0]).toMatchObject({ kind: 'deadline', eventAt: '2024-12-31T23:59:59+09:00', daysLeft: 4 });
+  });
+});
+
+describe('sendDueReminders', () => {
+  it('should deliver each reminder once per channel', async () => {
+    await seedBookmark({ deadline: '2024年12月31日' });
+    const email = memoryChannel('email');
+    const webhook = memoryChannel('webhook');
+    const now = new Date('2024-12-28T00:00:00Z');
+
+    const first = await sendDueReminders({ channels: [email, webhook], baseUrl, now });
+    expect(first).toEqual({ ok: true, value: { sent: 2, failed: [] } });
+    expect(email.sent[0]).toMatchObject({ kind: 'deadline', user: { email: 'owner@example.com' } });
+
+    const second = await sendDueReminders({ channels: [email, webhook], baseUrl, now });
+    expect(second).toEqual({ ok: true, value: { sent: 0, failed: [] } });
+    expect(email.send).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry a failed channel on the next run', async () => {
+    const { bookmark } = await seedBookmark({ deadline: '2024年12月31日' });
+    const flaky = memoryChannel('webhook');
+    flaky.send.mockRejectedValueOnce(new Error('Webhook responded with 502'));
+    const now = new Date('2024-12-28T00:00:00Z');
+
+    const first = await sendDueReminders({ channels: [flaky], baseUrl, now });
+    expect(first.ok && first.value.failed).toEqual([
+      { bookmarkId: bookmark.id, channel: 'webhook', message: 'Webhook responded with 502' },
+    ]);
+
+    const second = await sendDueReminders({ channels: [flaky], baseUrl, now });
+    expect(second.ok && second.value.sent).toBe(1);
+  });
+
+  it('should keep going when a delivery cannot be recorded', async () => {
+    const { bookmark } = await seedBookmark({ deadline: '2024年12月31日' });
+    const email = memoryChannel('email');
+    const webhook = memoryChannel('webhook');
+    vi.spyOn(reminderDeliveryRepository, 'create').mockResolvedValueOnce({
+      ok: false,
+      error: { type: 'QUERY_ERROR', message: 'UNIQUE constraint failed' },
+    });
+
+    const result = await sendDueReminders({ channels: [email, webhook], baseUrl, now: new Date('2024-12-28T00:00:00Z') });
+
+    expect(result).toEqual({
+      ok: true,
+      value: {
+        sent: 1,
+        failed: [{
+          bookmarkId: bookmark.id,
+          channel: 'email',
+          message: 'Sent, but failed to record the delivery: UNIQUE constraint failed',
+        }],
+      },
+    });
+    expect(webhook.send).toHaveBeenCalledTimes(1);
+  });
+
+  it('should remind again when the deadline moves', async () => {
+    await seedBookmark({ deadline: '2024年12月31日' });
+    const channel = memoryChannel();
+
+    await sendDueReminders({ channels: [channel], baseUrl, now: new Date('2024-12-28T00:00:00Z') });
+    await subsidyRepository.upsert({
+      jgrantsId: 'SUB-001',
+      title: 'テスト補助金',
+      description: '説明',
+      deadline: '2025年1月15日',
+      deadlineDate: '2025-01-15',
+    });
+    await sendDueReminders({ channels: [channel], baseUrl, now: new Date('2025-01-10T00:00:00Z') });
+
+    expect(channel.sent.map((reminder) => reminder.eventAt)).toEqual([
+      '2024-12-31T23:59:59+09:00',
+      '2025-01-15T23:59:59+09:00',
+    ]);
+  });
+
+  it('should stop reminding once the bookmark is removed', async () => {
+    const { user } = await seedBookmark({ deadline: '2024年12月31日' });
+    const channel = memoryChannel();
+    const now = new Date('2024-12-28T00:00:00Z');
+
+    await sendDueReminders({ channels: [channel], baseUrl, now });
+    expect(await bookmarkRepository.delete(user.id, 'SUB-001')).toEqual({ ok: true, value: true });
+    expect(await bookmarkRepository.delete(user.id, 'SUB-001')).toEqual({ ok: true, value: false });
+
+    const result = await sendDueReminders({ channels: [channel], baseUrl, now });
+    expect(result.ok && result.value.sent).toBe(0);
+  });
+});
+
+describe('notification channels', () => {
+  it('should post reminders as JSON to the webhook', async () => {
+    const fetchImpl = vi.fn(async () => new Response(null, { status: 204 }));
+    const channel = createWebhookChannel('https://hooks.example/reminders', fetchImpl);
+    const [reminder] = findDueReminders(
+      [entry({ deadlineDate: '2024-12-31' })],
+      baseUrl,
+      new Date('2024-12-28T00:00:00Z')
+    );
+
+    await channel.send(reminder);
+
+    expect(fetchImpl).toHaveBeenCalledWith('https://hooks.example/reminders', expect.objectContaining({ method: 'POST' }));
+    const body = JSON.parse((fetchImpl.mock.calls[0] as unknown as [string, RequestInit])[1].body as string);
+    expect(body).toMatchObject({ kind: 'deadline', daysLeft: 4, email: 'owner@example.com' });
+  });
+
+  it('should fail when the webhook responds with an error', async () => {
+    const channel = createWebhookChannel('https://hooks.example/reminders', async () => new Response(null, { status: 500 }));
+    const [reminder] = findDueReminders([entry({ deadlineDate: '2024-12-31' })], baseUrl, new Date('2024-12-28T00:00:00Z'));
+
+    await expect(channel.send(reminder)).rejects.toThrow('Webhook responded with 500');
+  });
+
+  it('should load channels from the environment', () => {
+    const channels = loadNotificationChannels({ REMINDER_CHANNELS: 'email, webhook', REMINDER_WEBHOOK_URL: 'https://hooks.example' });
+    expect(channels.ok && channels.value.map((channel) => channel.name)).toEqual(['email', 'webhook']);
+
+    expect(loadNotificationChannels({ REMINDER_CHANNELS: 'webhook' }).ok).toBe(false);
+    expect(loadNotificationChannels({ REMINDER_CHANNELS: 'sms' }).ok).toBe(false);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createRunManager, loadRunManagerConfig } from '../../../app/services/run-manager.server';
+import { runRepository, threadRepository } from '../../../app/db.server';
+
+const provider = { name: 'local' as const, model: 'llama3.1' };
+
+describe('loadRunManagerConfig', () => {
+  it('should default to two minutes', () => {
+    expect(loadRunManagerConfig({})).toEqual({ ok: true, value: { timeoutMs: 120_000 } });
+  });
+
+  it('should read the timeout in seconds', () => {
+    expect(loadRunManagerConfig({ LLM_RUN_TIMEOUT_SECONDS: '30' })).toEqual({ ok: true, value: { timeoutMs: 30_000 } });
+  });
+
+  it.each(['0', '-5', 'soon'])('should reject %s', (value) => {
+    const config = loadRunManagerConfig({ LLM_RUN_TIMEOUT_SECONDS: value });
+
+    expect(config).toEqual({
+      ok: false,
+      error: { type: 'CONFIG_ERROR', message: `LLM_RUN_TIMEOUT_SECONDS must be a positive number of seconds: ${value}` },
+    });
+  });
+});
+
+describe('createRunManager', () => {
+  beforeEach(async () => {
+    await threadRepository.create({ threadId: 'thread_a' });
+    await threadRepository.create({ threadId: 'thread_b' });
+  });
+
+  it('should record a run as in progress until it finishes', async () => {
+    const runs = createRunManager({ timeoutMs: 60_000 });
+
+    const run = await runs.start('thread_a', provider);
+    if (!run.ok) throw new Error(run.error.message);
+    run.value.onRunCreated('chatcmpl_1');
+    const during = await runRepository.findMany('thread_a');
+    await run.value.finish({ status: 'completed', reply: null, usage: null });
+    const after = await runRepository.findMany('thread_a');
+
+    expect(during.ok && during.value).toEqual([expect.objectContaining({ status: 'in_progress', completedAt: null })]);
+    expect(after.ok && after.value).toEqual([expect.objectContaining({
+      runId: 'chatcmpl_1',
+      provider: 'local',
+      model: 'llama3.1',
+      status: 'completed',
+      totalTokens: null,
+    })]);
+  });
+
+  it('should only cancel the run of the given thread', async () => {
+    const runs = createRunManager({ timeoutMs: 60_000 });
+    const first = await runs.start('thread_a', provider);
+    const second = await runs.start('thread_b', provider);
+    if (!first.ok || !second.ok) throw new Error('Failed to start runs');
+
+    expect(runs.cancel('thread_a')).toBe(true);
+
+    expect(first.value.signal.aborted).toBe(true);
+    expect(second.value.signal.aborted).toBe(false);
+    await first.value.finish({ status: 'cancelled', reply: null, usage: null });
+    await second.value.finish({ status: 'completed', reply: null, usage: null });
+    expect(runs.cancel('thread_a')).toBe(false);
+  });
+
+  it('should cancel the run when the caller\'s signal aborts', async () => {
+    const runs = createRunManager({ timeoutMs: 60_000 });
+    const disconnected = new AbortController();
+
+    const run = await runs.start('thread_a', provider, disconnected.signal);
+    if (!run.ok) throw new Error(run.error.message);
+    disconnected.abort();
+
+    expect(run.value.signal.aborted).toBe(true);
+    const finished = await run.value.finish({ status: 'cancelled', reply: null, usage: null });
+    expect(finished.ok).toBe(true);
+    expect(runs.cancel('thread_a')).toBe(false);
+  });
+});
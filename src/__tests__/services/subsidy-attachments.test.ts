@@ -0,0 +1,248 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { existsSync } from 'fs';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join, resolve } from 'path';
+import exceljs from 'exceljs';
+import {
+  extractAttachmentText,
+  sanitizeFileName,
+  storeSubsidyAttachments,
+} from '../../../app/services/subsidies/attachments.server';
+import { syncSubsidyDetails } from '../../../app/services/subsidies/sync.server';
+import { mapSubsidyDetail } from '../../../app/services/subsidies/importer.server';
+import { FileStoreService } from '../../../app/services/filestore.server';
+import {
+  subsidyAttachmentRepository,
+  subsidyRepository,
+  subsidyRevisionRepository,
+} from '../../../app/db';
+import type { SubsidyDetail } from '../../../app/services/subsidies/api-server';
+
+// Minimal single-page PDF with one line of Helvetica text
+function buildPdf(text: string): Buffer {
+  const stream = `BT /F1 12 Tf 72 720 Td (${text}) Tj ET`;
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    '<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Contents 4 0 R /Resources << /Font << /F1 5 0 R >> >> >>',
+    `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>',
+  ];
+
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((object, index) => {
+    const offset = pdf.length;
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF`;
+
+  return Buffer.from(pdf, 'latin1');
+}
+
+async function buildWorkbook(rows: string[][]): Promise<Buffer> {
+  const workbook = new exceljs.Workbook();
+  workbook.addWorksheet('対象経費').addRows(rows);
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
+
+const guidelinesPdf = buildPdf('Eligibility: SMEs with an office in Tokyo');
+const expenseWorkbook = await buildWorkbook([['経費区分', '上限'], ['機械装置費', '500万円']]);
+
+const detail: SubsidyDetail = {
+  id: 'ATTACH-001',
+  name: 'S-100',
+  title: '設備投資支援事業',
+  application_guidelines: [
+    { name: '募集要項.pdf', data: guidelinesPdf.toString('base64') },
+  ],
+  application_form: [
+    { name: '経費明細.xlsx', data: expenseWorkbook.toString('base64') },
+    { name: '申請書.doc', data: Buffer.from('legacy word').toString('base64') },
+  ],
+};
+
+describe('extractAttachmentText', () => {
+  it('should extract text from PDF files', async () => {
+    const result = await extractAttachmentText('募集要項.pdf', guidelinesPdf);
+
+    expect(result).toEqual({
+      status: 'extracted',
+      mimeType: 'application/pdf',
+      text: 'Eligibility: SMEs with an office in Tokyo',
+      error: null,
+    });
+  });
+
+  it('should detect PDFs without an extension', async () => {
+    const result = await extractAttachmentText('guidelines', guidelinesPdf);
+
+    expect(result.status).toBe('extracted');
+    expect(result.mimeType).toBe('application/pdf');
+  });
+
+  it('should extract every sheet of Excel files', async () => {
+    const result = await extractAttachmentText('経費明細.xlsx', await buildWorkbook([['機械装置費', '500万円']]));
+
+    expect(result.status).toBe('extracted');
+    expect(result.text).toBe('【対象経費】\n機械装置費,500万円');
+  });
+
+  it('should report unsupported formats without failing', async () => {
+    const result = await extractAttachmentText('申請書.doc', Buffer.from('legacy word'));
+
+    expect(result).toEqual({
+      status: 'unsupported',
+      mimeType: 'application/msword',
+      text: null,
+      error: null,
+    });
+  });
+
+  it('should report corrupt files as failed', async () => {
+    const result = await extractAttachmentText('broken.pdf', Buffer.from('%PDF-1.4 broken'));
+
+    expect(result.status).toBe('failed');
+    expect(result.error).toBeTruthy();
+  });
+});
+
+describe('sanitizeFileName', () => {
+  it.each([
+    ['募集要項.pdf', '募集要項.pdf'],
+    ['../../etc/passwd', '_.._etc_passwd'],
+    ['様式:第1号?.docx', '様式_第1号_.docx'],
+    ['...', 'attachment'],
+  ])('should turn %s into %s', (name, expected) => {
+    expect(sanitizeFileName(name)).toBe(expected);
+  });
+});
+
+describe('storeSubsidyAttachments', () => {
+  let baseDir: string;
+
+  beforeEach(async () => {
+    baseDir = await mkdtemp(join(tmpdir(), 'attachments-'));
+    await subsidyRepository.upsert(mapSubsidyDetail(detail));
+  });
+
+  afterEach(async () => {
+    await rm(baseDir, { recursive: true, force: true });
+  });
+
+  it('should decode attachments to disk and record extracted text', async () => {
+    const result = await storeSubsidyAttachments(detail, { baseDir });
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.value.failed).toEqual([]);
+    expect(result.value.saved.map((a) => [a.category, a.name, a.extractionStatus])).toEqual([
+      ['application_guidelines', '募集要項.pdf', 'extracted'],
+      ['application_form', '経費明細.xlsx', 'extracted'],
+      ['application_form', '申請書.doc', 'unsupported'],
+    ]);
+
+    const pdf = result.value.saved[0];
+    expect(pdf.size).toBe(guidelinesPdf.length);
+    expect(await readFile(resolve(pdf.filePath))).toEqual(guidelinesPdf);
+    expect(resolve(pdf.filePath)).toBe(join(baseDir, 'ATTACH-001', 'application_guidelines', '募集要項.pdf'));
+  });
+
+  it('should skip unchanged attachments and remove dropped ones', async () => {
+    await storeSubsidyAttachments(detail, { baseDir });
+    const formPath = join(baseDir, 'ATTACH-001', 'application_form', '申請書.doc');
+
+    const result = await storeSubsidyAttachments(
+      { ...detail, application_form: detail.application_form!.slice(0, 1) },
+      { baseDir }
+    );
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.value.saved).toEqual([]);
+    expect(result.value.unchanged).toHaveLength(2);
+    expect(result.value.removed).toEqual(['申請書.doc']);
+    expect(existsSync(formPath)).toBe(false);
+
+    const rows = await subsidyAttachmentRepository.findMany('ATTACH-001');
+    expect(rows.ok && rows.value.map((a) => a.name)).toEqual(['募集要項.pdf', '経費明細.xlsx']);
+  });
+});
+
+describe('attachments in sync and markdown', () => {
+  let baseDir: string;
+
+  beforeEach(async () => {
+    baseDir = await mkdtemp(join(tmpdir(), 'attachments-'));
+  });
+
+  afterEach(async () => {
+    await rm(baseDir, { recursive: true, force: true });
+    await rm(join(process.cwd(), 'data', 'subsidies', 'ATTACH-001.md'), { force: true });
+  });
+
+  it('should treat changed attachments as an update', async () => {
+    const withoutForms = { ...detail, application_form: undefined };
+    await syncSubsidyDetails({ details: [withoutForms], attachmentsDir: baseDir });
+
+    const result = await syncSubsidyDetails({ details: [detail], attachmentsDir: baseDir });
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.value.updated).toEqual(['ATTACH-001']);
+
+    const revisions = await subsidyRevisionRepository.findMany('ATTACH-001');
+    expect(revisions.ok && revisions.value.at(-1)?.changedFields).toEqual(['attachments']);
+  });
+
+  it('should retry failed attachments on the next sync without dropping the content hash', async () => {
+    const blockedDir = join(baseDir, 'blocked');
+    await writeFile(blockedDir, '');
+
+    const failed = await syncSubsidyDetails({ details: [detail], attachmentsDir: blockedDir });
+    expect(failed.ok && failed.value.failed.map((failure) => failure.jgrantsId)).toContain('ATTACH-001');
+
+    const stored = await subsidyRepository.findUnique({ jgrantsId: 'ATTACH-001' });
+    expect(stored.ok && stored.value?.attachmentError).toContain('経費明細.xlsx');
+    expect(stored.ok && stored.value?.contentHash).toBeTruthy();
+
+    const retried = await syncSubsidyDetails({ details: [detail], attachmentsDir: baseDir });
+    expect(retried.ok && retried.value.updated).toEqual(['ATTACH-001']);
+    expect(retried.ok && retried.value.failed).toEqual([]);
+
+    const recovered = await subsidyRepository.findUnique({ jgrantsId: 'ATTACH-001' });
+    expect(recovered.ok && recovered.value?.attachmentError).toBeNull();
+
+    const unchanged = await syncSubsidyDetails({ details: [detail], attachmentsDir: baseDir });
+    expect(unchanged.ok && unchanged.value.unchanged).toEqual(['ATTACH-001']);
+  });
+
+  it('should close subsidies whose attachments failed once they are no longer listed', async () => {
+    const blockedDir = join(baseDir, 'blocked');
+    await writeFile(blockedDir, '');
+    await syncSubsidyDetails({ details: [detail], attachmentsDir: blockedDir });
+
+    const result = await syncSubsidyDetails({ details: [], attachmentsDir: baseDir });
+
+    expect(result.ok && result.value.closed).toEqual(['ATTACH-001']);
+  });
+
+  it('should include extracted attachment text in the subsidy markdown', async () => {
+    await syncSubsidyDetails({ details: [detail], attachmentsDir: baseDir });
+    const fileStore = new FileStoreService();
+    const subsidy = await subsidyRepository.findUnique({ jgrantsId: 'ATTACH-001' });
+    if (!subsidy.ok || !subsidy.value) throw new Error('Subsidy not synced');
+
+    const { filePath } = await fileStore.saveSubsidyAsMarkdown(subsidy.value);
+    const content = await readFile(filePath, 'utf-8');
+
+    expect(content).toContain('## 添付資料');
+    expect(content).toContain('### 公募要領: 募集要項.pdf\nEligibility: SMEs with an office in Tokyo');
+    expect(content).toContain('### 申請様式: 経費明細.xlsx\n【対象経費】\n経費区分,上限\n機械装置費,500万円');
+    expect(content).toContain('### 申請様式: 申請書.doc\n（本文を抽出できませんでした');
+  });
+});
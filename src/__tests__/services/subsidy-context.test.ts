@@ -0,0 +1,70 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { rm } from 'fs/promises';
+import { join } from 'path';
+import {
+  MAX_SUBSIDY_CONTEXT_LENGTH,
+  buildSubsidyContext,
+  findThreadSubsidyId,
+  loadThreadSubsidyContext,
+} from '../../../app/services/subsidies/context.server';
+import { FileStoreService } from '../../../app/services/filestore.server';
+import { subsidyRepository, threadRepository } from '../../../app/db';
+
+describe('subsidy chat context', () => {
+  beforeEach(async () => {
+    await subsidyRepository.upsert({
+      jgrantsId: 'CTX-001',
+      title: '販路開拓支援補助金',
+      description: '展示会出展の費用を補助します',
+      amount: '上限150万円',
+    });
+  });
+
+  afterEach(async () => {
+    await rm(join(process.cwd(), 'data', 'subsidies', 'CTX-001.md'), { force: true });
+  });
+
+  it('should read the subsidy a thread was scoped to from its metadata', async () => {
+    await threadRepository.create({ threadId: 'thread_ctx', metadata: JSON.stringify({ jgrantsId: 'CTX-001' }) });
+    await threadRepository.create({ threadId: 'thread_plain' });
+
+    expect(await findThreadSubsidyId('thread_ctx')).toEqual({ ok: true, value: 'CTX-001' });
+    expect(await findThreadSubsidyId('thread_plain')).toEqual({ ok: true, value: null });
+    expect(await findThreadSubsidyId('thread_missing')).toEqual({ ok: true, value: null });
+  });
+
+  it('should render the subsidy markdown when no file has been saved', async () => {
+    const result = await buildSubsidyContext('CTX-001');
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.value).toContain('補助金「販路開拓支援補助金」（ID: CTX-001）');
+    expect(result.value).toContain('<subsidy id="CTX-001">\n# 販路開拓支援補助金');
+    expect(result.value).toContain('## 補助金額\n上限150万円');
+  });
+
+  it('should prefer the saved markdown and truncate long content', async () => {
+    const updated = await subsidyRepository.upsert({
+      jgrantsId: 'CTX-001',
+      title: '販路開拓支援補助金',
+      description: 'あ'.repeat(MAX_SUBSIDY_CONTEXT_LENGTH),
+    });
+    if (!updated.ok) throw new Error('Subsidy not updated');
+    const fileStore = new FileStoreService();
+    await fileStore.saveSubsidyAsMarkdown(updated.value);
+
+    const result = await buildSubsidyContext('CTX-001', fileStore);
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.value).toContain('（以下省略）\n</subsidy>');
+    expect(result.value).not.toContain('## メタデータ');
+  });
+
+  it('should return null for unknown subsidies and unscoped threads', async () => {
+    await threadRepository.create({ threadId: 'thread_plain' });
+
+    expect(await buildSubsidyContext('UNKNOWN')).toEqual({ ok: true, value: null });
+    expect(await loadThreadSubsidyContext('thread_plain')).toEqual({ ok: true, value: null });
+  });
+});
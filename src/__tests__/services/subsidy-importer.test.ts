@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import {
+  importSubsidyDetails,
+  mapSubsidyDetail,
+} from '../../../app/services/subsidies/importer.server';
+import { subsidyRepository } from '../../../app/db';
+import type { SubsidyDetail } from '../../../app/services/subsidies/api-server';
+
+const detail: SubsidyDetail = {
+  id: 'a0WJ200000CDPM7MAP',
+  name: 'S-00006769',
+  title: '令和7年度第1回 事業承継を契機とした成長支援事業',
+  target_area_search: '東京都',
+  target_area_detail: '都内に本店を有すること',
+  subsidy_max_limit: 8000000,
+  subsidy_rate: '2/3以内',
+  acceptance_start_datetime: '2025-07-01T00:00:00.000Z',
+  acceptance_end_datetime: '2025-07-31T07:00:00.000Z',
+  target_number_of_employees: '従業員数の制約なし',
+  detail: '<p>事業承継を契機とした<br>新たな取組を支援します。</p>',
+  industry: '製造業 / 情報通信業 / 卸売業，小売業',
+  use_purpose: '新たな事業を行いたい / 設備整備・IT導入をしたい',
+  is_enable_multiple_request: false,
+  front_subsidy_detail_page_url: 'https://www.jgrants-portal.go.jp/subsidy/a0WJ200000CDPM7MAP',
+};
+
+describe('mapSubsidyDetail', () => {
+  it('should map jGrants fields onto typed columns', () => {
+    const subsidy = mapSubsidyDetail(detail);
+
+    expect(subsidy).toMatchObject({
+      jgrantsId: 'a0WJ200000CDPM7MAP',
+      title: '令和7年度第1回 事業承継を契機とした成長支援事業',
+      description: '事業承継を契機とした\n新たな取組を支援します。',
+      amount: '最大800万円（補助率2/3以内）',
+      maxAmount: 8000000,
+      deadline: '2025年7月31日',
+      deadlineDate: '2025-07-31',
+      subsidyRate: '2/3以内',
+      acceptanceStart: '2025-07-01T00:00:00.000Z',
+      acceptanceEnd: '2025-07-31T07:00:00.000Z',
+      targetAreas: ['東京都'],
+      targetAreaDetail: '都内に本店を有すること',
+      industries: ['製造業', '情報通信業', '卸売業，小売業'],
+      usePurposes: ['新たな事業を行いたい', '設備整備・IT導入をしたい'],
+      targetNumberOfEmployees: '従業員数の制約なし',
+      applicationUrl: 'https://www.jgrants-portal.go.jp/subsidy/a0WJ200000CDPM7MAP',
+    });
+    expect(subsidy.requirements).toContain('・複数回申請: 不可');
+  });
+
+  it('should fall back to the title when a summary has no detail text', () => {
+    const subsidy = mapSubsidyDetail({ id: 'X-1', name: 'S-1', title: '概要のみの補助金' });
+
+    expect(subsidy.description).toBe('概要のみの補助金');
+    expect(subsidy.amount).toBeUndefined();
+    expect(subsidy.deadlineDate).toBeNull();
+    expect(subsidy.industries).toEqual([]);
+  });
+
+  it('should use the Japan date for acceptance ends late in the UTC day', () => {
+    const subsidy = mapSubsidyDetail({
+      ...detail,
+      acceptance_end_datetime: '2025-08-31T15:00:00.000Z',
+    });
+
+    expect(subsidy.deadlineDate).toBe('2025-09-01');
+  });
+});
+
+describe('importSubsidyDetails', () => {
+  it('should upsert details so typed fields are queryable', async () => {
+    const summary = await importSubsidyDetails([detail]);
+    expect(summary).toEqual({ imported: 1, failed: [] });
+
+    // Importing again updates rather than duplicating
+    await importSubsidyDetails([{ ...detail, subsidy_max_limit: 9000000 }]);
+
+    const result = await subsidyRepository.findWithFilters({
+      page: 1,
+      pageSize: 20,
+      amountMin: 8500000,
+    });
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value.total).toBe(1);
+      expect(result.value.subsidies[0].industries).toEqual(['製造業', '情報通信業', '卸売業，小売業']);
+      expect(result.value.subsidies[0].maxAmount).toBe(9000000);
+    }
+  });
+});
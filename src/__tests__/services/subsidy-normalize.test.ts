@@ -0,0 +1,223 @@
+import { describe, it, expect } from 'vitest';
+import { subsidyRepository } from '../../../app/db';
+import {
+  eraToWesternYear,
+  findJapaneseDates,
+  fiscalYearOf,
+  fiscalYearRange,
+  formatFiscalYear,
+  formatJapaneseDate,
+  formatSubsidyRate,
+  formatYen,
+  parseDeadlineDate,
+  parseFiscalYear,
+  parseJapaneseDate,
+  parseMaxAmount,
+  parseSubsidyRate,
+  parseYenAmounts,
+} from '../../../app/services/subsidies/normalize';
+
+describe('parseJapaneseDate', () => {
+  it.each([
+    ['2024年12月31日', '2024-12-31'],
+    ['２０２４年１２月３１日', '2024-12-31'],
+    ['2024 年 4 月 1 日（月）', '2024-04-01'],
+    ['2024/4/1', '2024-04-01'],
+    ['2024-04-01', '2024-04-01'],
+    ['2024.4.1', '2024-04-01'],
+    ['令和6年12月31日', '2024-12-31'],
+    ['令和元年5月1日', '2019-05-01'],
+    ['平成31年4月30日', '2019-04-30'],
+    ['昭和64年1月7日', '1989-01-07'],
+    ['R6.12.31', '2024-12-31'],
+    ['H30.3.31', '2018-03-31'],
+    ['2025-07-31T07:00:00.000Z', '2025-07-31'],
+    // Timestamps are read in Japan time
+    ['2025-07-31T15:00:00Z', '2025-08-01'],
+    ['2025-07-31T23:59:59+09:00', '2025-07-31'],
+    ['申請期限：2024年12月31日17時まで', '2024-12-31'],
+  ])('should parse %s', (text, expected) => {
+    expect(parseJapaneseDate(text)).toBe(expected);
+  });
+
+  it.each([
+    [null],
+    [''],
+    ['随時'],
+    ['2024年2月30日'],
+    ['令和0年1月1日'],
+    ['12月31日'],
+  ])('should return null for %s', (text) => {
+    expect(parseJapaneseDate(text)).toBeNull();
+  });
+});
+
+describe('findJapaneseDates', () => {
+  it.each([
+    ['2024年4月1日〜2024年6月30日', ['2024-04-01', '2024-06-30']],
+    ['令和6年4月1日～6月30日', ['2024-04-01', '2024-06-30']],
+    ['2024年12月1日から1月31日まで', ['2024-12-01', '2025-01-31']],
+    ['第1回：2024/5/10、第2回：2024/8/20', ['2024-05-10', '2024-08-20']],
+  ])('should find every date in %s', (text, expected) => {
+    expect(findJapaneseDates(text)).toEqual(expected);
+  });
+});
+
+describe('parseDeadlineDate', () => {
+  it.each([
+    ['2024年12月31日', '2024-12-31'],
+    ['2024年4月1日〜6月30日', '2024-06-30'],
+    ['R7.3.31', '2025-03-31'],
+    ['未定', null],
+  ])('should read the end of %s', (text, expected) => {
+    expect(parseDeadlineDate(text)).toBe(expected);
+  });
+});
+
+describe('eraToWesternYear', () => {
+  it.each([
+    ['令和', 7, 2025],
+    ['令和', '元', 2019],
+    ['平成', 31, 2019],
+    ['R', 6, 2024],
+    ['h', 30, 2018],
+    ['慶応', 3, null],
+    ['令和', 0, null],
+  ] as const)('should convert %s%s to %s', (era, year, expected) => {
+    expect(eraToWesternYear(era, year)).toBe(expected);
+  });
+});
+
+describe('fiscal years', () => {
+  it.each([
+    ['令和7年度 ものづくり補助金', 2025],
+    ['令和元年度補正', 2019],
+    ['平成30年度', 2018],
+    ['R6年度', 2024],
+    ['２０２５年度', 2025],
+    ['2025年度予算', 2025],
+    ['事業再構築補助金', null],
+    ['創業5年以内', null],
+  ])('should parse the fiscal year of %s', (text, expected) => {
+    expect(parseFiscalYear(text)).toBe(expected);
+  });
+
+  it.each([
+    ['2025-04-01', 2025],
+    ['2025-03-31', 2024],
+    ['2024-12-31', 2024],
+  ])('should place %s in fiscal year %s', (date, expected) => {
+    expect(fiscalYearOf(date)).toBe(expected);
+  });
+
+  it.each([
+    [2025, '2025年度（令和7年度）'],
+    [2019, '2019年度（令和元年度）'],
+    [2018, '2018年度（平成30年度）'],
+  ])('should label fiscal year %s', (fiscalYear, expected) => {
+    expect(formatFiscalYear(fiscalYear)).toBe(expected);
+  });
+
+  it('should span April to March', () => {
+    expect(fiscalYearRange(2025)).toEqual({ start: '2025-04-01', end: '2026-03-31' });
+  });
+});
+
+describe('amounts', () => {
+  it.each([
+    ['最大450万円（補助率1/2〜3/4）', 4_500_000],
+    ['最大1,250万円（補助率1/2〜2/3）', 12_500_000],
+    ['上限1億5,000万円', 150_000_000],
+    ['5千万円', 50_000_000],
+    ['500千円', 500_000],
+    ['4,500,000円', 4_500_000],
+    ['１２５０万円', 12_500_000],
+    ['1.5億円', 150_000_000],
+    ['通常枠750万円、特別枠1,000万円', 10_000_000],
+    ['補助率1/2', null],
+    [null, null],
+  ])('should read the max amount of %s', (text, expected) => {
+    expect(parseMaxAmount(text)).toBe(expected);
+  });
+
+  it('should list every amount in order', () => {
+    expect(parseYenAmounts('下限50万円〜上限1億円')).toEqual([500_000, 100_000_000]);
+  });
+
+  it.each([
+    [4_500_000, '450万円'],
+    [100_000_000, '1億円'],
+    [150_000_000, '15,000万円'],
+    [1_500, '1,500円'],
+  ])('should format %s yen as %s', (amount, expected) => {
+    expect(formatYen(amount)).toBe(expected);
+  });
+});
+
+describe('subsidy rates', () => {
+  it.each([
+    ['1/2', { min: 0.5, max: 0.5 }],
+    ['1/2〜3/4', { min: 0.5, max: 0.75 }],
+    ['１／２～２／３', { min: 0.5, max: 2 / 3 }],
+    ['2分の1以内', { min: 0.5, max: 0.5 }],
+    ['10/10', { min: 1, max: 1 }],
+    ['50%', { min: 0.5, max: 0.5 }],
+    ['最大450万円（補助率1/2〜3/4）', { min: 0.5, max: 0.75 }],
+    ['2024/12/31まで 補助率2/3', { min: 2 / 3, max: 2 / 3 }],
+    ['定額', null],
+    ['最大100万円', null],
+    [null, null],
+  ])('should parse the rate of %s', (text, expected) => {
+    expect(parseSubsidyRate(text)).toEqual(expected);
+  });
+
+  it.each([
+    [{ min: 0.5, max: 0.75 }, '50%〜75%'],
+    [{ min: 2 / 3, max: 2 / 3 }, '66.7%'],
+  ])('should format %o as %s', (rate, expected) => {
+    expect(formatSubsidyRate(rate)).toBe(expected);
+  });
+});
+
+describe('formatJapaneseDate', () => {
+  it('should drop leading zeros', () => {
+    expect(formatJapaneseDate('2024-04-01')).toBe('2024年4月1日');
+  });
+});
+
+describe('subsidyRepository.upsert', () => {
+  it('should store the normalized fields of free-text subsidies', async () => {
+    const result = await subsidyRepository.upsert({
+      jgrantsId: 'NORM-001',
+      title: '令和7年度 小規模事業者持続化補助金',
+      description: '説明',
+      amount: '最大450万円（補助率1/2〜3/4）',
+      deadline: '令和7年4月1日〜令和7年6月30日',
+    });
+
+    expect(result.ok && result.value).toMatchObject({
+      maxAmount: 4_500_000,
+      deadlineDate: '2025-06-30',
+      fiscalYear: 2025,
+      subsidyRateMin: 0.5,
+      subsidyRateMax: 0.75,
+    });
+  });
+
+  it('should fall back to the fiscal year of the deadline and the jGrants rate', async () => {
+    const result = await subsidyRepository.upsert({
+      jgrantsId: 'NORM-002',
+      title: '省エネ設備導入支援',
+      description: '説明',
+      amount: '最大1,000万円',
+      subsidyRate: '2/3',
+      deadlineDate: '2025-03-31',
+    });
+
+    expect(result.ok && result.value).toMatchObject({
+      fiscalYear: 2024,
+      subsidyRateMin: 2 / 3,
+      subsidyRateMax: 2 / 3,
+    });
+  });
+});
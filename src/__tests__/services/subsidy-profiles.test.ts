@@ -0,0 +1,153 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { JGrantsApiClient } from '../../../app/services/subsidies/api-server';
+import {
+  DEFAULT_QUERY_PROFILES,
+  loadQueryProfiles,
+  parseQueryProfiles,
+} from '../../../app/services/subsidies/profiles';
+
+function jsonResponse(result: unknown[]) {
+  return new Response(
+    JSON.stringify({ metadata: { type: 'subsidies', resultset: { count: result.length } }, result }),
+    { status: 200, headers: { 'Content-Type': 'application/json' } }
+  );
+}
+
+describe('JGrantsApiClient.fetchSubsidies', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should map the query onto jGrants parameters', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(jsonResponse([]));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await new JGrantsApiClient().fetchSubsidies({
+      keyword: '大阪',
+      targetArea: '大阪府',
+      industry: '製造業',
+      targetNumberOfEmployees: '50名以下',
+      acceptingOnly: false,
+      sort: 'created_date',
+      order: 'DESC',
+    });
+
+    const url = new URL(fetchMock.mock.calls[0][0]);
+    expect(Object.fromEntries(url.searchParams)).toEqual({
+      keyword: '大阪',
+      target_area_search: '大阪府',
+      industry: '製造業',
+      target_number_of_employees: '50名以下',
+      acceptance: '0',
+      sort: 'created_date',
+      order: 'DESC',
+    });
+  });
+
+  it('should keep the Tokyo defaults for fetchTokyoSubsidies', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(jsonResponse([]));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await new JGrantsApiClient().fetchTokyoSubsidies();
+
+    const url = new URL(fetchMock.mock.calls[0][0]);
+    expect(url.searchParams.get('keyword')).toBe('東京');
+    expect(url.searchParams.get('target_area_search')).toBe('東京都');
+    expect(url.searchParams.get('acceptance')).toBe('1');
+  });
+
+  it('should merge results across queries and drop duplicate ids', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn()
+        .mockResolvedValueOnce(jsonResponse([
+          { id: 'A', name: 'S-1', title: '東京の補助金' },
+          { id: 'SHARED', name: 'S-2', title: '全国の補助金' },
+        ]))
+        .mockResolvedValueOnce(jsonResponse([
+          { id: 'SHARED', name: 'S-2', title: '全国の補助金' },
+          { id: 'B', name: 'S-3', title: '大阪の補助金' },
+        ]))
+    );
+
+    const result = await new JGrantsApiClient().fetchSubsidiesForQueries([
+      { keyword: '東京', targetArea: '東京都' },
+      { keyword: '大阪', targetArea: '大阪府' },
+    ]);
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value.map((s) => s.id)).toEqual(['A', 'SHARED', 'B']);
+    }
+  });
+});
+
+describe('loadQueryProfiles', () => {
+  it('should default to the Tokyo profile', () => {
+    const result = loadQueryProfiles({});
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value.map((p) => p.name)).toEqual(['tokyo']);
+    }
+  });
+
+  it('should select profiles by name', () => {
+    const result = loadQueryProfiles({ JGRANTS_PROFILES: 'osaka, tokyo' });
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value.map((p) => p.query.targetArea)).toEqual(['大阪府', '東京都']);
+    }
+  });
+
+  it('should select every built-in profile with "all"', () => {
+    const result = loadQueryProfiles({ JGRANTS_PROFILES: 'all' });
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value).toHaveLength(DEFAULT_QUERY_PROFILES.length);
+    }
+  });
+
+  it('should reject unknown profile names', () => {
+    const result = loadQueryProfiles({ JGRANTS_PROFILES: 'tokyo,hokkaido' });
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.message).toContain('hokkaido');
+    }
+  });
+});
+
+describe('parseQueryProfiles', () => {
+  it('should parse custom profiles', () => {
+    const result = parseQueryProfiles(JSON.stringify([
+      { name: 'saitama', query: { keyword: '埼玉', targetArea: '埼玉県', industry: '製造業' } },
+    ]));
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value[0]).toEqual({
+        name: 'saitama',
+        description: undefined,
+        query: { keyword: '埼玉', targetArea: '埼玉県', industry: '製造業' },
+      });
+    }
+  });
+
+  it.each([
+    ['not an array', '{}'],
+    ['invalid JSON', '[{'],
+    ['short keyword', '[{"name":"x","query":{"keyword":"東"}}]'],
+    ['bad sort', '[{"name":"x","query":{"keyword":"東京","sort":"title"}}]'],
+    ['duplicate names', '[{"name":"x","query":{"keyword":"東京"}},{"name":"x","query":{"keyword":"大阪"}}]'],
+  ])('should reject %s', (_label, json) => {
+    const result = parseQueryProfiles(json);
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.type).toBe('VALIDATION_ERROR');
+    }
+  });
+});
@@ -0,0 +1,247 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { subsidyRepository } from '../../../app/db';
+import { parseSubsidySearchParams } from '../../../app/services/subsidies/search-params';
+import {
+  buildLocalSearchReply,
+  extractSearchTerms,
+} from '../../../app/services/subsidies/local-search.server';
+import type { SubsidySearchFilters } from '../../../app/types/subsidy';
+
+const baseFilters: SubsidySearchFilters = { page: 1, pageSize: 20 };
+
+async function seedSubsidies() {
+  await subsidyRepository.upsert({
+    jgrantsId: 'IT-001',
+    title: 'IT導入補助金2024',
+    description: 'ITツールを導入する経費の一部を補助します',
+    targetAudience: '中小企業、小規模事業者',
+    amount: '最大450万円（補助率1/2〜3/4）',
+    deadline: '2024年12月31日',
+    ministry: '経済産業省',
+  });
+  await subsidyRepository.upsert({
+    jgrantsId: 'MONO-001',
+    title: 'ものづくり補助金',
+    description: '革新的サービス開発・試作品開発を支援します',
+    targetAudience: '中小企業、小規模事業者',
+    amount: '最大1,250万円（補助率1/2〜2/3）',
+    deadline: '2024年11月30日',
+    ministry: '中小企業庁',
+  });
+  await subsidyRepository.upsert({
+    jgrantsId: 'STARTUP-001',
+    title: '創業支援補助金',
+    description: '新たに創業する者に対して経費の一部を補助します',
+    targetAudience: '創業予定者',
+    amount: '最大200万円（補助率1/2）',
+    deadline: '2024年10月31日',
+    ministry: '中小企業庁',
+  });
+}
+
+describe('subsidyRepository.findWithFilters', () => {
+  beforeEach(seedSubsidies);
+
+  it('should derive normalized amount and deadline on upsert', async () => {
+    const result = await subsidyRepository.findUnique({ jgrantsId: 'MONO-001' });
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value?.maxAmount).toBe(12_500_000);
+      expect(result.value?.deadlineDate).toBe('2024-11-30');
+    }
+  });
+
+  it('should return all subsidies ordered by deadline with facets', async () => {
+    const result = await subsidyRepository.findWithFilters(baseFilters);
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value.total).toBe(3);
+      expect(result.value.subsidies.map((s) => s.jgrantsId)).toEqual([
+        'STARTUP-001',
+        'MONO-001',
+        'IT-001',
+      ]);
+      expect(result.value.facets.ministry).toEqual([
+        { value: '中小企業庁', count: 2 },
+        { value: '経済産業省', count: 1 },
+      ]);
+      expect(result.value.facets.targetAudience).toEqual([
+        { value: '中小企業、小規模事業者', count: 2 },
+        { value: '創業予定者', count: 1 },
+      ]);
+    }
+  });
+
+  it('should filter by ministry, deadline range and amount', async () => {
+    const result = await subsidyRepository.findWithFilters({
+      ...baseFilters,
+      ministry: '中小企業庁',
+      deadlineFrom: '2024-11-01',
+      amountMin: 5_000_000,
+    });
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value.subsidies.map((s) => s.jgrantsId)).toEqual(['MONO-001']);
+      expect(result.value.facets.ministry).toEqual([{ value: '中小企業庁', count: 1 }]);
+    }
+  });
+
+  it('should require every keyword to match', async () => {
+    const result = await subsidyRepository.findWithFilters({
+      ...baseFilters,
+      keywords: ['補助', '創業'],
+    });
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value.subsidies.map((s) => s.jgrantsId)).toEqual(['STARTUP-001']);
+    }
+  });
+
+  it('should paginate results while reporting the full total', async () => {
+    const result = await subsidyRepository.findWithFilters({ page: 2, pageSize: 2 });
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value.total).toBe(3);
+      expect(result.value.subsidies.map((s) => s.jgrantsId)).toEqual(['IT-001']);
+    }
+  });
+});
+
+describe('subsidyRepository.search', () => {
+  beforeEach(seedSubsidies);
+
+  it('should rank hits and highlight matched terms', async () => {
+    const result = await subsidyRepository.search('ものづくり');
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value).toHaveLength(1);
+      expect(result.value[0].subsidy.jgrantsId).toBe('MONO-001');
+      expect(result.value[0].score).toBeGreaterThan(0);
+      expect(result.value[0].snippet).toContain('**ものづくり**');
+    }
+  });
+
+  it('should keep the index in sync when a subsidy is updated', async () => {
+    await subsidyRepository.upsert({
+      jgrantsId: 'IT-001',
+      title: 'デジタル化支援補助金',
+      description: 'クラウドサービスの利用料を補助します',
+    });
+
+    const oldTitle = await subsidyRepository.search('IT導入');
+    const newTitle = await subsidyRepository.search('デジタル化');
+
+    expect(oldTitle.ok && oldTitle.value).toEqual([]);
+    expect(newTitle.ok && newTitle.value.map((hit) => hit.subsidy.jgrantsId)).toEqual(['IT-001']);
+  });
+
+  it('should match terms shorter than a trigram', async () => {
+    const result = await subsidyRepository.search('創業', { highlight: { open: '[', close: ']' } });
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value.map((hit) => hit.subsidy.jgrantsId)).toEqual(['STARTUP-001']);
+      expect(result.value[0].snippet).toContain('[創業]');
+    }
+  });
+
+  it('should combine terms with OR in any mode', async () => {
+    const result = await subsidyRepository.search('ものづくり 創業', { match: 'any' });
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value.map((hit) => hit.subsidy.jgrantsId)).toEqual(['MONO-001', 'STARTUP-001']);
+    }
+  });
+
+  it('should reject an empty query', async () => {
+    const result = await subsidyRepository.search('  ');
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.type).toBe('INVALID_INPUT');
+    }
+  });
+});
+
+describe('local search fallback', () => {
+  beforeEach(seedSubsidies);
+
+  it('should extract search terms from a question', () => {
+    expect(extractSearchTerms('IT企業が使える助成金はある？')).toEqual(['IT企業', '助成金']);
+  });
+
+  it('should build a reply listing matching subsidies', async () => {
+    const result = await buildLocalSearchReply('IT導入に使える補助金を教えて');
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value).toContain('### 1. IT導入補助金2024');
+      expect(result.value).toContain('- 補助金額: 最大450万円（補助率1/2〜3/4）');
+    }
+  });
+});
+
+describe('parseSubsidySearchParams', () => {
+  it('should parse all supported parameters', () => {
+    const result = parseSubsidySearchParams(new URLSearchParams({
+      q: 'IT　導入',
+      ministry: '経済産業省',
+      deadlineFrom: '2024-01-01',
+      deadlineTo: '2024-12-31',
+      amountMin: '1000000',
+      amountMax: '5000000',
+      page: '2',
+      pageSize: '50',
+    }));
+
+    expect(result).toEqual({
+      ok: true,
+      value: {
+        ministry: '経済産業省',
+        targetAudience: undefined,
+        deadlineFrom: '2024-01-01',
+        deadlineTo: '2024-12-31',
+        amountMin: 1_000_000,
+        amountMax: 5_000_000,
+        keywords: ['IT', '導入'],
+        page: 2,
+        pageSize: 50,
+      },
+    });
+  });
+
+  it('should apply pagination defaults', () => {
+    const result = parseSubsidySearchParams(new URLSearchParams());
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value.page).toBe(1);
+      expect(result.value.pageSize).toBe(20);
+      expect(result.value.keywords).toBeUndefined();
+    }
+  });
+
+  it.each([
+    [{ deadlineFrom: '2024/01/01' }, 'deadlineFrom'],
+    [{ amountMin: '-1' }, 'amountMin'],
+    [{ pageSize: '500' }, 'pageSize'],
+    [{ page: '0' }, 'page'],
+    [{ deadlineFrom: '2024-12-31', deadlineTo: '2024-01-01' }, 'deadlineFrom'],
+    [{ amountMin: '200', amountMax: '100' }, 'amountMin'],
+  ])('should reject invalid parameters %o', (params, field) => {
+    const result = parseSubsidySearchParams(new URLSearchParams(params));
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.type).toBe('VALIDATION_ERROR');
+      expect(result.error.message).toContain(field);
+    }
+  });
+});
@@ -0,0 +1,199 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { unlink } from 'fs/promises';
+import { join } from 'path';
+import {
+  computeContentHash,
+  createVectorStorePublisher,
+  syncSubsidyDetails,
+} from '../../../app/services/subsidies/sync.server';
+import { mapSubsidyDetail } from '../../../app/services/subsidies/importer.server';
+import { subsidyRepository, subsidyRevisionRepository } from '../../../app/db';
+import { ok, err } from '../../../app/types/result';
+import { createAssistantError } from '../../../app/types/errors';
+import type { SubsidyDetail } from '../../../app/services/subsidies/api-server';
+import type { VectorStoreService } from '../../../app/services/vectorstore.server';
+
+const first: SubsidyDetail = {
+  id: 'SYNC-001',
+  name: 'S-001',
+  title: '販路開拓支援事業',
+  subsidy_max_limit: 1000000,
+  acceptance_end_datetime: '2025-07-31T07:00:00.000Z',
+};
+
+const second: SubsidyDetail = {
+  id: 'SYNC-002',
+  name: 'S-002',
+  title: '省エネ設備導入支援事業',
+  subsidy_max_limit: 5000000,
+};
+
+async function findSubsidy(jgrantsId: string) {
+  const result = await subsidyRepository.findUnique({ jgrantsId });
+  if (!result.ok || !result.value) throw new Error(`Subsidy ${jgrantsId} not found`);
+  return result.value;
+}
+
+async function revisionTypes(jgrantsId: string) {
+  const result = await subsidyRevisionRepository.findMany(jgrantsId);
+  return result.ok ? result.value.map((revision) => revision.changeType) : [];
+}
+
+describe('computeContentHash', () => {
+  it('should not depend on key order or undefined fields', () => {
+    const subsidy = mapSubsidyDetail(first);
+    const reordered = Object.fromEntries(Object.entries(subsidy).reverse()) as typeof subsidy;
+
+    expect(computeContentHash(reordered)).toBe(computeContentHash(subsidy));
+    expect(computeContentHash({ ...subsidy, amount: '変更' })).not.toBe(computeContentHash(subsidy));
+  });
+});
+
+describe('syncSubsidyDetails', () => {
+  it('should create subsidies and publish them once', async () => {
+    const publish = vi.fn().mockResolvedValue(ok('file_1'));
+
+    const result = await syncSubsidyDetails({ details: [first, second], publish });
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value.created).toEqual(['SYNC-001', 'SYNC-002']);
+      expect(result.value.published).toEqual(['SYNC-001', 'SYNC-002']);
+    }
+    expect(await revisionTypes('SYNC-001')).toEqual(['created']);
+    expect((await findSubsidy('SYNC-001')).contentHash).toBe(computeContentHash(mapSubsidyDetail(first)));
+  });
+
+  it('should be idempotent when nothing changed', async () => {
+    await syncSubsidyDetails({ details: [first, second] });
+    const publish = vi.fn().mockResolvedValue(ok('file_1'));
+
+    const result = await syncSubsidyDetails({ details: [first, second], publish });
+
+    expect(result.ok && result.value.unchanged).toEqual(['SYNC-001', 'SYNC-002']);
+    expect(publish).not.toHaveBeenCalled();
+    expect(await revisionTypes('SYNC-001')).toEqual(['created']);
+  });
+
+  it('should record changed fields and republish updated subsidies', async () => {
+    await syncSubsidyDetails({ details: [first, second] });
+    const publish = vi.fn().mockResolvedValue(ok('file_2'));
+
+    const result = await syncSubsidyDetails({
+      details: [{ ...first, subsidy_max_limit: 2000000 }, second],
+      publish,
+    });
+
+    expect(result.ok && result.value.updated).toEqual(['SYNC-001']);
+    expect(publish).toHaveBeenCalledTimes(1);
+
+    const revisions = await subsidyRevisionRepository.findMany('SYNC-001');
+    expect(revisions.ok && revisions.value[1].changedFields).toEqual(['amount', 'maxAmount']);
+  });
+
+  it('should close subsidies that disappeared and reopen them when they return', async () => {
+    await syncSubsidyDetails({ details: [first, second] });
+
+    const closing = await syncSubsidyDetails({
+      details: [first],
+      now: new Date('2025-08-01T00:00:00.000Z'),
+    });
+    expect(closing.ok && closing.value.closed).toEqual(['SYNC-002']);
+
+    const closed = await findSubsidy('SYNC-002');
+    expect(closed.status).toBe('closed');
+    expect(closed.closedAt).toBe('2025-08-01T00:00:00.000Z');
+
+    const reopening = await syncSubsidyDetails({ details: [first, second] });
+    expect(reopening.ok && reopening.value.reopened).toEqual(['SYNC-002']);
+    expect((await findSubsidy('SYNC-002')).status).toBe('open');
+    expect(await revisionTypes('SYNC-002')).toEqual(['created', 'closed', 'reopened']);
+  });
+
+  it('should not close listed subsidies whose details could not be fetched', async () => {
+    await syncSubsidyDetails({ details: [first, second] });
+
+    const result = await syncSubsidyDetails({ details: [first], listedIds: ['SYNC-001', 'SYNC-002'] });
+
+    expect(result.ok && result.value.closed).toEqual([]);
+    expect((await findSubsidy('SYNC-002')).status).toBe('open');
+  });
+
+  it('should only close subsidies last listed by a profile that is still synced', async () => {
+    await syncSubsidyDetails({
+      details: [first, second],
+      listings: [{ profile: 'tokyo', ids: ['SYNC-001'] }, { profile: 'osaka', ids: ['SYNC-001', 'SYNC-002'] }],
+    });
+    expect((await findSubsidy('SYNC-001')).syncProfiles).toEqual(['tokyo', 'osaka']);
+
+    // osaka was removed from the configuration
+    const removed = await syncSubsidyDetails({ details: [], listings: [{ profile: 'tokyo', ids: [] }] });
+
+    expect(removed.ok && removed.value.closed).toEqual(['SYNC-001']);
+    expect((await findSubsidy('SYNC-002')).status).toBe('open');
+  });
+
+  it('should record the profiles of unchanged subsidies', async () => {
+    await syncSubsidyDetails({ details: [first], listings: [{ profile: 'tokyo', ids: ['SYNC-001'] }] });
+
+    const result = await syncSubsidyDetails({ details: [first], listings: [{ profile: 'kanagawa', ids: ['SYNC-001'] }] });
+
+    expect(result.ok && result.value.unchanged).toEqual(['SYNC-001']);
+    expect((await findSubsidy('SYNC-001')).syncProfiles).toEqual(['kanagawa']);
+  });
+
+  it('should never close subsidies that were not created by the sync', async () => {
+    await subsidyRepository.upsert({ jgrantsId: 'SAMPLE-001', title: 'サンプル', description: 'サンプル' });
+
+    const result = await syncSubsidyDetails({ details: [first] });
+
+    expect(result.ok && result.value.closed).toEqual([]);
+    expect((await findSubsidy('SAMPLE-001')).status).toBe('open');
+  });
+
+  it('should forget the file ID when publishing fails', async () => {
+    await syncSubsidyDetails({ details: [first] });
+    const existing = await findSubsidy('SYNC-001');
+    await subsidyRepository.update(existing.id, { fileId: 'file_old' });
+
+    const publish = vi.fn().mockResolvedValue(
+      err(createAssistantError('FILE_UPLOAD_ERROR', 'upload failed'))
+    );
+    const result = await syncSubsidyDetails({
+      details: [{ ...first, title: '販路開拓支援事業（第2回）' }],
+      publish,
+    });
+
+    expect(result.ok && result.value.failed).toEqual([{ jgrantsId: 'SYNC-001', message: 'upload failed' }]);
+    expect((await findSubsidy('SYNC-001')).fileId).toBeNull();
+  });
+});
+
+describe('createVectorStorePublisher', () => {
+  afterEach(async () => {
+    await unlink(join(process.cwd(), 'data', 'subsidies', 'SYNC-001.md')).catch(() => undefined);
+  });
+
+  it('should upload the markdown, store the file ID and delete the replaced file', async () => {
+    await syncSubsidyDetails({ details: [first] });
+    const subsidy = await findSubsidy('SYNC-001');
+    await subsidyRepository.update(subsidy.id, { fileId: 'file_old' });
+
+    const vectorStore = {
+      vectorStoreId: 'vs_123',
+      uploadFile: vi.fn().mockResolvedValue(ok('file_new')),
+      deleteFile: vi.fn().mockResolvedValue(ok(undefined)),
+    } as unknown as VectorStoreService;
+
+    const publish = createVectorStorePublisher(vectorStore);
+    const result = await publish(await findSubsidy('SYNC-001'));
+
+    expect(result).toEqual({ ok: true, value: 'file_new' });
+    expect(vectorStore.uploadFile).toHaveBeenCalledWith(expect.objectContaining({ name: 'SYNC-001.md' }));
+    expect(vectorStore.deleteFile).toHaveBeenCalledWith('file_old');
+
+    const updated = await findSubsidy('SYNC-001');
+    expect(updated.fileId).toBe('file_new');
+    expect(updated.vectorStoreId).toBe('vs_123');
+  });
+});
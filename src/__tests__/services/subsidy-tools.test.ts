@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { subsidyRepository } from '../../../app/db';
+import { SUBSIDY_TOOLS, callSubsidyTool } from '../../../app/services/subsidies/tools.server';
+
+const now = new Date('2024-06-01T00:00:00Z');
+
+async function call(name: string, args: Record<string, unknown>) {
+  return JSON.parse(await callSubsidyTool(name, JSON.stringify(args), now));
+}
+
+describe('subsidy function tools', () => {
+  beforeEach(async () => {
+    await subsidyRepository.upsert({
+      jgrantsId: 'IT-001',
+      title: 'IT導入補助金',
+      description: 'ITツールを導入する経費の一部を補助します',
+      amount: '最大450万円（補助率1/2）',
+      deadline: '2024年7月31日',
+      ministry: '経済産業省',
+      targetAreas: ['全国'],
+      targetNumberOfEmployees: '50名以下',
+      acceptanceStart: '2024-04-01T00:00:00.000Z',
+      acceptanceEnd: '2024-07-31T08:00:00.000Z',
+    });
+    await subsidyRepository.upsert({
+      jgrantsId: 'OSAKA-001',
+      title: '大阪府ものづくり補助金',
+      description: '設備投資を支援します',
+      amount: '最大1,000万円',
+      deadline: '2024年6月20日',
+      targetAreas: ['大阪府'],
+    });
+    await subsidyRepository.upsert({
+      jgrantsId: 'OLD-001',
+      title: '終了した補助金',
+      description: 'ITツールの導入を支援しました',
+      deadline: '2024年5月31日',
+      targetAreas: ['全国'],
+    });
+    await subsidyRepository.upsert({
+      jgrantsId: 'CLOSED-001',
+      title: '掲載終了した補助金',
+      description: '設備投資を支援します',
+      deadline: '2024年8月31日',
+      status: 'closed',
+    });
+  });
+
+  it('should define a JSON schema for every tool', () => {
+    expect(SUBSIDY_TOOLS.map((tool) => tool.name)).toEqual([
+      'search_subsidies',
+      'get_subsidy',
+      'list_open_subsidies',
+      'check_eligibility',
+    ]);
+    for (const tool of SUBSIDY_TOOLS) {
+      expect(tool.parameters).toMatchObject({ type: 'object' });
+    }
+  });
+
+  it('should search with filters and return the structured fields', async () => {
+    const result = await call('search_subsidies', { q: 'ITツール', amountMin: 4_000_000 });
+
+    expect(result).toEqual({
+      total: 1,
+      subsidies: [{
+        jgrantsId: 'IT-001',
+        title: 'IT導入補助金',
+        uri: 'subsidy:///IT-001',
+        ministry: '経済産業省',
+        amount: '最大450万円（補助率1/2）',
+        maxAmountYen: 4_500_000,
+        subsidyRate: null,
+        deadline: '2024-07-31',
+        acceptancePeriod: '2024-04-01 〜 2024-07-31',
+        status: 'open',
+      }],
+    });
+  });
+
+  it('should report invalid filters to the model', async () => {
+    expect(await call('search_subsidies', { deadlineFrom: '7月1日' }))
+      .toEqual({ error: 'deadlineFrom must be a date in YYYY-MM-DD format' });
+  });
+
+  it('should get the details of a subsidy', async () => {
+    const result = await call('get_subsidy', { jgrantsId: 'IT-001' });
+
+    expect(result).toMatchObject({
+      jgrantsId: 'IT-001',
+      description: 'ITツールを導入する経費の一部を補助します',
+      targetAreas: ['全国'],
+      targetNumberOfEmployees: '50名以下',
+    });
+    expect(await call('get_subsidy', { jgrantsId: 'MISSING' })).toEqual({ error: 'Subsidy not found: MISSING' });
+    expect(await call('get_subsidy', {})).toEqual({ error: 'jgrantsId is required' });
+  });
+
+  it('should list open subsidies in the area by deadline', async () => {
+    const all = await call('list_open_subsidies', {});
+    const tokyo = await call('list_open_subsidies', { area: '東京都', deadlineBefore: '2024-07-31' });
+
+    expect(all.today).toBe('2024-06-01');
+    expect(all.subsidies.map((subsidy: { jgrantsId: string }) => subsidy.jgrantsId)).toEqual(['OSAKA-001', 'IT-001']);
+    expect(tokyo.subsidies.map((subsidy: { jgrantsId: string }) => subsidy.jgrantsId)).toEqual(['IT-001']);
+    expect(await call('list_open_subsidies', { deadlineBefore: '2024-05-01' }))
+      .toEqual({ error: 'deadlineBefore must not be before today (2024-06-01)' });
+  });
+
+  it('should check eligibility against the given profile', async () => {
+    const result = await call('check_eligibility', {
+      jgrantsId: 'IT-001',
+      profile: { prefecture: '東京都', employeeCount: 120 },
+    });
+
+    expect(result).toMatchObject({ jgrantsId: 'IT-001', status: '対象外' });
+    expect(result.criteria).toContainEqual(expect.objectContaining({ criterion: '対象地域', status: '対象' }));
+    expect(result.criteria).toContainEqual(expect.objectContaining({ criterion: '従業員数', status: '対象外' }));
+    expect(await call('check_eligibility', { jgrantsId: 'IT-001', profile: { prefecture: 'Tokyo' } }))
+      .toEqual({ error: '所在地の値が正しくありません' });
+  });
+
+  it('should answer unknown functions and malformed arguments with an error', async () => {
+    expect(JSON.parse(await callSubsidyTool('delete_subsidy', '{}'))).toEqual({ error: 'Unknown function: delete_subsidy' });
+    expect(JSON.parse(await callSubsidyTool('get_subsidy', '{"jgrantsId":'))).toEqual({ error: 'Arguments must be a JSON object' });
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { eq } from 'drizzle-orm';
+import * as schema from '../../../app/db/schema';
+import { deriveThreadTitle, getDb, messageRepository, threadRepository } from '../../../app/db';
+
+async function setUpdatedAt(threadId: string, updatedAt: string) {
+  await getDb().update(schema.threads).set({ updatedAt }).where(eq(schema.threads.threadId, threadId));
+}
+
+describe('thread history', () => {
+  describe('threadRepository.findMany', () => {
+    beforeEach(async () => {
+      await threadRepository.create({ threadId: 'thread_old', userId: 'user_1' });
+      await threadRepository.create({ threadId: 'thread_new', userId: 'user_1' });
+      await threadRepository.create({ threadId: 'thread_other', userId: 'user_2' });
+      // Mixed formats, as written by CURRENT_TIMESTAMP and messageRepository.create
+      await setUpdatedAt('thread_old', '2025-01-02 09:00:00');
+      await setUpdatedAt('thread_new', '2025-01-02T09:30:00.000Z');
+      await setUpdatedAt('thread_other', '2025-01-03 00:00:00');
+    });
+
+    it('should list a user\'s threads most recently updated first', async () => {
+      const result = await threadRepository.findMany('user_1');
+
+      expect(result.ok && result.value.map((t) => t.threadId)).toEqual(['thread_new', 'thread_old']);
+    });
+
+    it('should honor an explicit order', async () => {
+      const result = await threadRepository.findMany(undefined, { updatedAt: 'asc' });
+
+      expect(result.ok && result.value.map((t) => t.threadId)).toEqual(['thread_old', 'thread_new', 'thread_other']);
+    });
+
+    it('should move a thread to the top when a message is added', async () => {
+      await messageRepository.create({ threadId: 'thread_old', role: 'user', content: '追加の質問' });
+
+      const result = await threadRepository.findMany('user_1');
+
+      expect(result.ok && result.value[0].threadId).toBe('thread_old');
+    });
+  });
+
+  describe('titles', () => {
+    it('should name a thread after its first user message', async () => {
+      await threadRepository.create({ threadId: 'thread_1' });
+      await messageRepository.create({ threadId: 'thread_1', role: 'assistant', content: 'こんにちは' });
+      await messageRepository.create({ threadId: 'thread_1', role: 'user', content: '  IT導入補助金の\n対象経費は？ ' });
+      await messageRepository.create({ threadId: 'thread_1', role: 'user', content: '2つ目の質問' });
+
+      const thread = await threadRepository.findUnique('thread_1');
+
+      expect(thread.ok && thread.value.title).toBe('IT導入補助金の 対象経費は？');
+    });
+
+    it('should truncate long titles', () => {
+      expect(deriveThreadTitle('あ'.repeat(50))).toBe(`${'あ'.repeat(39)}…`);
+      expect(deriveThreadTitle(' \n ')).toBeNull();
+    });
+
+    it('should keep renamed titles', async () => {
+      await threadRepository.create({ threadId: 'thread_1' });
+      const renamed = await threadRepository.update('thread_1', { title: '設備投資の相談' });
+      await messageRepository.create({ threadId: 'thread_1', role: 'user', content: '最初の質問' });
+
+      expect(renamed.ok && renamed.value.title).toBe('設備投資の相談');
+      const thread = await threadRepository.findUnique('thread_1');
+      expect(thread.ok && thread.value.title).toBe('設備投資の相談');
+    });
+  });
+
+  it('should report missing threads as NOT_FOUND', async () => {
+    const renamed = await threadRepository.update('thread_missing', { title: 'x' });
+    const deleted = await threadRepository.delete('thread_missing');
+
+    expect(!renamed.ok && renamed.error.type).toBe('NOT_FOUND');
+    expect(!deleted.ok && deleted.error.type).toBe('NOT_FOUND');
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { unlink } from 'fs/promises';
+import { join } from 'path';
+import type OpenAI from 'openai';
+import { createVectorStoreService } from '../../../app/services/vectorstore.server';
+import { createVectorStorePublisher } from '../../../app/services/subsidies/sync.server';
+import {
+  planReconciliation,
+  reconcileVectorStore,
+} from '../../../app/services/subsidies/reconcile.server';
+import { subsidyRepository } from '../../../app/db';
+import type { Subsidy } from '../../../app/db/schema';
+
+function createMockOpenAI(files: Array<{ id: string; filename: string }>) {
+  return {
+    files: {
+      list: vi.fn().mockImplementation(() => files.map((file) => ({ ...file, created_at: 1 }))),
+      create: vi.fn().mockResolvedValue({ id: 'file_uploaded' }),
+      del: vi.fn().mockResolvedValue({ deleted: true }),
+    },
+    vectorStores: {
+      files: {
+        list: vi.fn().mockImplementation(() => files.map((file) => ({ id: file.id, created_at: 1 }))),
+        create: vi.fn().mockResolvedValue({}),
+        del: vi.fn().mockResolvedValue({ deleted: true }),
+      },
+    },
+  };
+}
+
+async function seedSubsidy(jgrantsId: string, fileId: string | null) {
+  const result = await subsidyRepository.upsert({
+    jgrantsId,
+    title: `${jgrantsId} 補助金`,
+    description: 'テスト用の補助金です',
+  });
+  if (!result.ok) throw new Error(result.error.message);
+  await subsidyRepository.update(result.value.id, { fileId, vectorStoreId: fileId ? 'vs_123' : null });
+}
+
+describe('planReconciliation', () => {
+  const subsidy = (jgrantsId: string, fileId: string | null) =>
+    ({ jgrantsId, fileId, vectorStoreId: 'vs_123' }) as Subsidy;
+
+  it('should classify kept, duplicate, orphaned and missing files', () => {
+    const plan = planReconciliation(
+      [subsidy('A', 'file_a2'), subsidy('B', 'file_gone'), subsidy('C', null)],
+      [
+        { id: 'file_a1', filename: 'A.md', createdAt: 1 },
+        { id: 'file_a2', filename: 'A.md', createdAt: 2 },
+        { id: 'file_b1', filename: 'B.md', createdAt: 1 },
+        { id: 'file_list', filename: 'tokyo-subsidies-list.md', createdAt: 1 },
+      ],
+      'vs_123'
+    );
+
+    expect(plan.keep).toEqual([{ jgrantsId: 'A', fileId: 'file_a2' }]);
+    expect(plan.delete).toEqual([
+      { fileId: 'file_a1', filename: 'A.md', reason: 'duplicate' },
+      { fileId: 'file_b1', filename: 'B.md', reason: 'duplicate' },
+      { fileId: 'file_list', filename: 'tokyo-subsidies-list.md', reason: 'orphan' },
+    ]);
+    expect(plan.upload.map((s) => s.jgrantsId)).toEqual(['B', 'C']);
+  });
+
+  it('should re-upload files recorded against another vector store', () => {
+    const plan = planReconciliation(
+      [{ ...subsidy('A', 'file_a'), vectorStoreId: 'vs_old' }],
+      [{ id: 'file_a', filename: 'A.md', createdAt: 1 }],
+      'vs_123'
+    );
+
+    expect(plan.upload.map((s) => s.jgrantsId)).toEqual(['A']);
+    expect(plan.delete).toEqual([{ fileId: 'file_a', filename: 'A.md', reason: 'duplicate' }]);
+  });
+});
+
+describe('reconcileVectorStore', () => {
+  let mockOpenAI: ReturnType<typeof createMockOpenAI>;
+
+  beforeEach(async () => {
+    await seedSubsidy('RECON-001', 'file_keep');
+    await seedSubsidy('RECON-002', null);
+
+    mockOpenAI = createMockOpenAI([
+      { id: 'file_keep', filename: 'RECON-001.md' },
+      { id: 'file_dup', filename: 'RECON-001.md' },
+      { id: 'file_orphan', filename: 'old-export.md' },
+    ]);
+  });
+
+  afterEach(async () => {
+    await unlink(join(process.cwd(), 'data', 'subsidies', 'RECON-002.md')).catch(() => undefined);
+  });
+
+  function createServices() {
+    const vectorStore = createVectorStoreService({
+      openai: mockOpenAI as unknown as OpenAI,
+      vectorStoreId: 'vs_123',
+    });
+    return { vectorStore, publish: createVectorStorePublisher(vectorStore) };
+  }
+
+  it('should only report the plan in dry-run mode', async () => {
+    const result = await reconcileVectorStore({ ...createServices(), dryRun: true });
+
+    expect(result).toEqual({
+      ok: true,
+      value: {
+        kept: 1,
+        deleted: ['file_dup', 'file_orphan'],
+        uploaded: ['RECON-002'],
+        failed: [],
+        dryRun: true,
+      },
+    });
+    expect(mockOpenAI.files.del).not.toHaveBeenCalled();
+    expect(mockOpenAI.files.create).not.toHaveBeenCalled();
+  });
+
+  it('should delete stale files, upload missing ones and persist the new file ID', async () => {
+    const result = await reconcileVectorStore(createServices());
+
+    expect(result.ok && result.value.failed).toEqual([]);
+    expect(mockOpenAI.vectorStores.files.del).toHaveBeenCalledWith('vs_123', 'file_dup');
+    expect(mockOpenAI.vectorStores.files.del).toHaveBeenCalledWith('vs_123', 'file_orphan');
+    expect(mockOpenAI.files.del).toHaveBeenCalledTimes(2);
+    expect(mockOpenAI.vectorStores.files.create).toHaveBeenCalledWith('vs_123', { file_id: 'file_uploaded' });
+
+    const uploaded = await subsidyRepository.findUnique({ jgrantsId: 'RECON-002' });
+    expect(uploaded.ok && uploaded.value?.fileId).toBe('file_uploaded');
+
+    const kept = await subsidyRepository.findUnique({ jgrantsId: 'RECON-001' });
+    expect(kept.ok && kept.value?.fileId).toBe('file_keep');
+  });
+
+  it('should report deletions that fail', async () => {
+    mockOpenAI.vectorStores.files.del.mockRejectedValueOnce(new Error('not found'));
+
+    const result = await reconcileVectorStore(createServices());
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value.deleted).toEqual(['file_orphan']);
+      expect(result.value.failed).toEqual([
+        { target: 'file_dup', message: 'Failed to delete file file_dup: not found' },
+      ]);
+    }
+  });
+});
@@ -1,24 +1,33 @@
-import { beforeEach, afterEach } from 'vitest';
-import { prisma, closeDb } from '../../app/db';
-import { drizzle } from 'drizzle-orm/libsql';
-import { createClient } from '@libsql/client';
+import { beforeAll, afterEach, afterAll } from 'vitest';
+import { sql } from 'drizzle-orm';
+import { closeDb, getDb, migrateDatabase } from '../../app/db';
 import * as schema from '../../app/db/schema';
 
-const client = createClient({
-  url: 'file:./prisma/dev.db',
-});
-const db = drizzle(client, { schema });
-
-beforeEach(async () => {
-  // Connection is handled automatically by the db module
+beforeAll(async () => {
+  const migration = await migrateDatabase();
+  if (!migration.ok) {
+    throw new Error(migration.error.message);
+  }
 });
 
 afterEach(async () => {
   // Clear all tables
+  const db = getDb();
   await db.delete(schema.messages);
+  await db.delete(schema.runs);
   await db.delete(schema.threads);
+  await db.delete(schema.reminderDeliveries);
+  await db.delete(schema.bookmarks);
+  await db.delete(schema.magicLinkTokens);
+  await db.delete(schema.companyProfiles);
+  await db.delete(schema.users);
+  await db.delete(schema.subsidyRevisions);
+  await db.delete(schema.subsidyAttachments);
   await db.delete(schema.subsidies);
-  
-  // Close connection after all tests
-  await prisma.$disconnect();
-});
\ No newline at end of file
+  await db.run(sql`DELETE FROM subsidies_fts`);
+});
+
+afterAll(() => {
+  // Closing drops the in-memory database
+  closeDb();
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { createSseResponse, formatSseEvent, readSseEvents } from '../../../app/utils/sse';
+
+type TestEvent = { type: 'delta'; text: string } | { type: 'done' };
+
+async function collect<T>(events: AsyncIterable<T>): Promise<T[]> {
+  const collected: T[] = [];
+  for await (const event of events) {
+    collected.push(event);
+  }
+  return collected;
+}
+
+function streamOf(chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    },
+  });
+}
+
+describe('formatSseEvent', () => {
+  it('should name the event after its type', () => {
+    expect(formatSseEvent({ type: 'delta', text: '補助金' } as TestEvent)).toBe(
+      'event: delta\ndata: {"type":"delta","text":"補助金"}\n\n'
+    );
+  });
+});
+
+describe('readSseEvents', () => {
+  it('should reassemble frames split across chunks', async () => {
+    const frame = formatSseEvent({ type: 'delta', text: '東京都の補助金' } as TestEvent);
+    const bytes = new TextEncoder().encode(frame + formatSseEvent({ type: 'done' }));
+    // Split in the middle of a multi-byte character
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(bytes.slice(0, 40));
+        controller.enqueue(bytes.slice(40));
+        controller.close();
+      },
+    });
+
+    expect(await collect(readSseEvents<TestEvent>(body))).toEqual([
+      { type: 'delta', text: '東京都の補助金' },
+      { type: 'done' },
+    ]);
+  });
+
+  it('should ignore comments and frames without data', async () => {
+    const body = streamOf([': keep-alive\n\n', 'event: ping\n\n', 'data: {"type":"done"}\n\n']);
+
+    expect(await collect(readSseEvents<TestEvent>(body))).toEqual([{ type: 'done' }]);
+  });
+});
+
+describe('createSseResponse', () => {
+  it('should stream every sent event and close afterwards', async () => {
+    const response = createSseResponse<TestEvent>(async (send) => {
+      send({ type: 'delta', text: 'a' });
+      send({ type: 'delta', text: 'b' });
+      send({ type: 'done' });
+    });
+
+    expect(response.headers.get('Content-Type')).toBe('text/event-stream; charset=utf-8');
+    expect(await collect(readSseEvents<TestEvent>(response.body!))).toEqual([
+      { type: 'delta', text: 'a' },
+      { type: 'delta', text: 'b' },
+      { type: 'done' },
+    ]);
+  });
+
+  it('should stop sending once the client disconnects', async () => {
+    const controller = new AbortController();
+    const response = createSseResponse<TestEvent>(async (send) => {
+      send({ type: 'delta', text: 'before' });
+      controller.abort();
+      send({ type: 'delta', text: 'after' });
+    }, controller.signal);
+
+    expect(await collect(readSseEvents<TestEvent>(response.body!))).toEqual([
+      { type: 'delta', text: 'before' },
+    ]);
+  });
+
+  it('should tell the producer when the client cancels the stream', async () => {
+    let disconnected: AbortSignal | undefined;
+    let resume = () => {};
+    const response = createSseResponse<TestEvent>(async (send, signal) => {
+      disconnected = signal;
+      send({ type: 'delta', text: 'before' });
+      await new Promise<void>((resolve) => {
+        resume = resolve;
+      });
+      send({ type: 'delta', text: 'after' });
+    });
+
+    await response.body!.cancel();
+    resume();
+
+    expect(disconnected?.aborted).toBe(true);
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import {
+  askAssistantPath,
+  parseSubsidyResourceUri,
+  resolveSubsidyHref,
+  subsidyPath,
+  subsidyResourceUri,
+} from '../../../app/utils/subsidy-links';
+
+describe('subsidy links', () => {
+  it('should round-trip jGrants IDs through resource URIs', () => {
+    const uri = subsidyResourceUri('a0WJ2000 00/X');
+
+    expect(uri).toBe('subsidy:///a0WJ2000%2000%2FX');
+    expect(parseSubsidyResourceUri(uri)).toBe('a0WJ2000 00/X');
+  });
+
+  it.each([
+    ['subsidy:///TEST-001', 'TEST-001'],
+    ['subsidy:///TEST-001/', 'TEST-001'],
+    ['subsidy:///', null],
+    ['subsidy:///%E0%A4%A', null],
+    ['https://example.com/TEST-001', null],
+  ])('should parse %s as %s', (uri, expected) => {
+    expect(parseSubsidyResourceUri(uri)).toBe(expected);
+  });
+
+  it('should map resource URIs in assistant markdown onto detail pages', () => {
+    expect(resolveSubsidyHref('subsidy:///TEST-001')).toBe('/subsidies/TEST-001');
+    expect(resolveSubsidyHref('https://www.jgrants-portal.go.jp/')).toBe('https://www.jgrants-portal.go.jp/');
+  });
+
+  it('should build page paths', () => {
+    expect(subsidyPath('TEST 001')).toBe('/subsidies/TEST%20001');
+    expect(askAssistantPath('TEST 001')).toBe('/?subsidy=TEST%20001');
+  });
+});
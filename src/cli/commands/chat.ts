@@ -0,0 +1,122 @@
+import type { Command } from 'commander';
+import { createInterface } from 'readline';
+import { threadRepository } from '../../../app/db.server';
+import { buildRunInstructions } from '../../../app/services/subsidies/context.server';
+import type { AssistantRunResult } from '../../../app/types/chat';
+import type { AssistantError } from '../../../app/types/errors';
+import type { Result } from '../../../app/types/result';
+import { printJson, resolveUserId, unwrap, wantsJson, type ChatAssistant, type CliContext } from '../context';
+
+const EXIT_COMMANDS = new Set(['/exit', '/quit']);
+
+interface ChatOptions {
+  message?: string;
+  user?: string;
+}
+
+interface ChatSession {
+  assistant: ChatAssistant;
+  threadId: string | undefined;
+  userId: string | undefined;
+  json: boolean;
+}
+
+// Failing a message throws; the caller decides whether the session goes on
+function valueOf<T>(result: Result<T, AssistantError>): T {
+  if (!result.ok) {
+    throw new Error(result.error.message);
+  }
+  return result.value;
+}
+
+/**
+ * Send one message and stream the reply to stdout. The thread is created on
+ * the first message, so quitting an empty session leaves no thread behind.
+ */
+async function sendMessage(
+  context: CliContext,
+  session: ChatSession,
+  message: string
+): Promise<AssistantRunResult> {
+  if (!session.threadId) {
+    const thread = valueOf(await session.assistant.createThread(session.userId));
+    session.threadId = thread.id;
+    context.stderr(`Thread: ${thread.id}\n`);
+  }
+
+  valueOf(await session.assistant.addMessage(session.threadId, message, 'user'));
+  const instructions = await buildRunInstructions(session.threadId, session.userId);
+
+  const stream = session.assistant.streamAssistant(session.threadId, instructions);
+  let step = await stream.next();
+  while (!step.done) {
+    const update = step.value;
+    if (update.type === 'tool' && update.status === 'in_progress') {
+      context.stderr(`(${update.tools.join(', ')}...)\n`);
+    } else if (update.type === 'delta' && !session.json) {
+      context.stdout(update.text);
+    }
+    step = await stream.next();
+  }
+
+  const result = valueOf(step.value);
+  const { reply, status } = result;
+  if (session.json) {
+    printJson(context, { threadId: session.threadId, reply, status });
+  } else {
+    const sources = (reply?.citations ?? []).map((citation) => `[${citation.index}] ${citation.title ?? citation.fileId}`);
+    context.stdout(`\n${sources.length > 0 ? `\n${sources.join('\n')}\n` : ''}`);
+    if (status !== 'completed') context.stderr(`(reply ${status})\n`);
+  }
+  return result;
+}
+
+export function registerChatCommand(program: Command, context: CliContext): void {
+  program
+    .command('chat')
+    .description('Chat with the assistant (type /exit to quit)')
+    .argument('[threadId]', 'thread to continue')
+    .option('-m, --message <text>', 'send a single message and exit')
+    .option('--user <email>', 'personalize the answers with this user\'s business profile')
+    .action(async (threadId: string | undefined, options: ChatOptions, command: Command) => {
+      if (threadId) {
+        unwrap(command, await threadRepository.findUnique(threadId));
+      }
+      const userId = options.user ? await resolveUserId(command, options.user) : undefined;
+
+      let assistant: ChatAssistant;
+      try {
+        assistant = await context.createAssistant();
+      } catch (error) {
+        command.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      const session: ChatSession = { assistant, threadId, userId, json: wantsJson(command) };
+
+      if (options.message) {
+        try {
+          await sendMessage(context, session, options.message);
+        } catch (error) {
+          command.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+        }
+        return;
+      }
+
+      const lines = createInterface({ input: context.stdin, terminal: false });
+      context.stderr('> ');
+      for await (const line of lines) {
+        const message = line.trim();
+        if (EXIT_COMMANDS.has(message)) break;
+
+        if (message) {
+          try {
+            await sendMessage(context, session, message);
+          } catch (error) {
+            // Keep the session open; the next message may succeed
+            context.stderr(`Error: ${error instanceof Error ? error.message : String(error)}\n`);
+          }
+        }
+        context.stderr('> ');
+      }
+      lines.close();
+    });
+}
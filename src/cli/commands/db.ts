@@ -0,0 +1,53 @@
+import type { Command } from 'commander';
+import { checkDatabase, migrateDatabase } from '../../../app/db.server';
+import { seedSubsidies } from '../../../scripts/seed-subsidies';
+import { printJson, printLines, unwrap, wantsJson, type CliContext } from '../context';
+
+export function registerDbCommands(program: Command, context: CliContext): void {
+  const db = program.command('db').description('Manage the local database');
+
+  db
+    .command('migrate')
+    .alias('init')
+    .description('Apply pending migrations from drizzle/')
+    .action(async (_options: unknown, command: Command) => {
+      const report = unwrap(command, await migrateDatabase());
+
+      if (wantsJson(command)) {
+        printJson(context, report);
+      } else {
+        printLines(context, [
+          ...report.upgraded.map((name) => `Added to the existing database: ${name}`),
+          ...report.baselined.map((tag) => `Recorded as applied: ${tag}`),
+          ...report.applied.map((tag) => `Applied: ${tag}`),
+        ]);
+        if (report.applied.length === 0) {
+          context.stderr('Database is up to date\n');
+        }
+      }
+    });
+
+  db
+    .command('seed')
+    .description('Insert the sample subsidies')
+    .action(async () => {
+      await seedSubsidies();
+      context.stderr('Sample subsidies inserted\n');
+    });
+
+  db
+    .command('check')
+    .description('Show row counts and check integrity, foreign keys and the full-text index')
+    .action(async (_options: unknown, command: Command) => {
+      const report = unwrap(command, await checkDatabase());
+
+      if (wantsJson(command)) {
+        printJson(context, report);
+      } else {
+        printLines(context, report.tables.map((table) => `${table.name}\t${table.rows}`));
+      }
+      if (report.problems.length > 0) {
+        command.error(report.problems.map((problem) => `Problem: ${problem}`).join('\n'));
+      }
+    });
+}
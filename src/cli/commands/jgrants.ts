@@ -0,0 +1,81 @@
+import type { Command } from 'commander';
+import { fetchSubsidies } from '../../../scripts/fetch-subsidies';
+import { importSubsidies } from '../../../scripts/import-subsidies';
+import { syncSubsidies } from '../../../scripts/sync-subsidies';
+import { printJson, printLines, wantsJson, type CliContext } from '../context';
+
+interface ProfileOptions {
+  profiles?: string;
+}
+
+// The scripts read the query profiles from the environment
+function applyProfiles(options: ProfileOptions): void {
+  if (options.profiles) {
+    process.env.JGRANTS_PROFILES = options.profiles;
+  }
+}
+
+export function registerJGrantsCommands(program: Command, context: CliContext): void {
+  program
+    .command('sync')
+    .description('Sync subsidies from jGrants into the database and the vector store')
+    .option('--profiles <names>', 'comma-separated query profiles (default: JGRANTS_PROFILES)')
+    .action(async (options: ProfileOptions, command: Command) => {
+      applyProfiles(options);
+      const report = await syncSubsidies();
+
+      if (wantsJson(command)) {
+        printJson(context, report);
+      } else {
+        printLines(context, [
+          `Created: ${report.created.length}`,
+          `Updated: ${report.updated.length}`,
+          `Reopened: ${report.reopened.length}`,
+          `Closed: ${report.closed.length}`,
+          `Unchanged: ${report.unchanged.length}`,
+          `Published: ${report.published.length}`,
+          `Failed: ${report.failed.length}`,
+        ]);
+      }
+      if (report.failed.length > 0) {
+        command.error(`Error: ${report.failed.length} subsidies failed to sync`);
+      }
+    });
+
+  program
+    .command('fetch')
+    .description('Fetch subsidy lists and details from jGrants into data/api-responses')
+    .option('--profiles <names>', 'comma-separated query profiles (default: JGRANTS_PROFILES)')
+    .action(async (options: ProfileOptions, command: Command) => {
+      applyProfiles(options);
+      const summary = await fetchSubsidies();
+
+      if (wantsJson(command)) {
+        printJson(context, summary);
+      } else {
+        printLines(context, [
+          `Profiles: ${summary.profiles.join(', ')}`,
+          `Subsidies: ${summary.totalSubsidies}`,
+          `Details fetched: ${summary.detailsFetched}`,
+          ...summary.failed.map((failure) => `Failed: ${failure.id} (${failure.error})`),
+        ]);
+      }
+    });
+
+  program
+    .command('import')
+    .description('Import fetched subsidy details into the database')
+    .argument('[path]', 'details JSON file (default: the latest file in data/api-responses)')
+    .action(async (path: string | undefined, _options: unknown, command: Command) => {
+      const summary = await importSubsidies(path);
+
+      if (wantsJson(command)) {
+        printJson(context, summary);
+      } else {
+        printLines(context, [`Imported: ${summary.imported}`, `Failed: ${summary.failed.length}`]);
+      }
+      if (summary.failed.length > 0) {
+        command.error(`Error: ${summary.failed.length} subsidies failed to import`);
+      }
+    });
+}
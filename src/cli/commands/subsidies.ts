@@ -0,0 +1,138 @@
+import type { Command } from 'commander';
+import { subsidyAttachmentRepository, subsidyRepository } from '../../../app/db.server';
+import type { Subsidy } from '../../../app/db/schema';
+import { parseSubsidySearchParams } from '../../../app/services/subsidies/search-params';
+import {
+  formatAcceptancePeriod,
+  formatFiscalYear,
+  formatSubsidyRate,
+  formatYen,
+} from '../../../app/services/subsidies/normalize';
+import { printJson, printLines, unwrap, wantsJson, type CliContext } from '../context';
+
+// Options passed through to parseSubsidySearchParams under the same names as the search API
+const SEARCH_PARAMS = [
+  'ministry',
+  'targetAudience',
+  'deadlineFrom',
+  'deadlineTo',
+  'amountMin',
+  'amountMax',
+  'targetArea',
+  'industry',
+  'usePurpose',
+  'employeeCount',
+  'page',
+  'pageSize',
+] as const;
+
+type SearchOptions = Partial<Record<(typeof SEARCH_PARAMS)[number], string>>;
+
+// One tab-separated line per subsidy, so the output can be piped into cut or sort
+function formatSubsidyLine(subsidy: Subsidy): string {
+  return [
+    subsidy.jgrantsId,
+    subsidy.deadlineDate ?? '-',
+    subsidy.maxAmount !== null ? formatYen(subsidy.maxAmount) : '-',
+    subsidy.status === 'closed' ? `${subsidy.title}（受付終了）` : subsidy.title,
+  ].join('\t');
+}
+
+function formatSubsidyDetails(subsidy: Subsidy): string[] {
+  const rate = subsidy.subsidyRateMin !== null && subsidy.subsidyRateMax !== null
+    ? formatSubsidyRate({ min: subsidy.subsidyRateMin, max: subsidy.subsidyRateMax })
+    : null;
+  const fields: Array<[string, string | null]> = [
+    ['ID', subsidy.jgrantsId],
+    ['Status', subsidy.status],
+    ['Fiscal year', subsidy.fiscalYear !== null ? formatFiscalYear(subsidy.fiscalYear) : null],
+    ['Amount', subsidy.amount],
+    ['Max amount', subsidy.maxAmount !== null ? formatYen(subsidy.maxAmount) : null],
+    ['Subsidy rate', rate],
+    ['Deadline', subsidy.deadlineDate ?? subsidy.deadline],
+    ['Acceptance', formatAcceptancePeriod(subsidy.acceptanceStart, subsidy.acceptanceEnd)],
+    ['Target', subsidy.targetAudience],
+    ['Ministry', subsidy.ministry],
+    ['URL', subsidy.applicationUrl],
+  ];
+
+  return [
+    subsidy.title,
+    '',
+    ...fields.filter(([, value]) => value).map(([label, value]) => `${label}: ${value}`),
+    '',
+    subsidy.description,
+    ...(subsidy.requirements ? ['', subsidy.requirements] : []),
+  ];
+}
+
+export function registerSubsidyCommands(program: Command, context: CliContext): void {
+  program
+    .command('search')
+    .description('Search subsidies by keywords and filters')
+    .argument('[keywords...]', 'keywords that must all match')
+    .option('--ministry <name>', 'ministry in charge')
+    .option('--target-audience <text>', 'target audience')
+    .option('--deadline-from <date>', 'earliest deadline (YYYY-MM-DD)')
+    .option('--deadline-to <date>', 'latest deadline (YYYY-MM-DD)')
+    .option('--amount-min <yen>', 'minimum of the maximum amount')
+    .option('--amount-max <yen>', 'maximum of the maximum amount')
+    .option('--target-area <prefecture>', 'prefecture (includes its region and nationwide subsidies)')
+    .option('--industry <name>', 'jGrants industry')
+    .option('--use-purpose <name>', 'jGrants use purpose')
+    .option('--employee-count <count>', 'number of employees')
+    .option('--page <number>', 'page number, from 1')
+    .option('--page-size <number>', 'subsidies per page')
+    .action(async (keywords: string[], options: SearchOptions, command: Command) => {
+      const params = new URLSearchParams();
+      if (keywords.length > 0) params.set('q', keywords.join(' '));
+      for (const name of SEARCH_PARAMS) {
+        const value = options[name];
+        if (value !== undefined) params.set(name, value);
+      }
+
+      const filters = unwrap(command, parseSubsidySearchParams(params));
+      const result = unwrap(command, await subsidyRepository.findWithFilters(filters));
+
+      if (wantsJson(command)) {
+        printJson(context, result);
+        return;
+      }
+
+      const first = (result.page - 1) * result.pageSize + 1;
+      printLines(context, [
+        result.subsidies.length > 0
+          ? `${result.total} subsidies (showing ${first}-${first + result.subsidies.length - 1})`
+          : `${result.total} subsidies`,
+        ...result.subsidies.map(formatSubsidyLine),
+      ]);
+    });
+
+  program
+    .command('show')
+    .description('Show a subsidy and its attachments')
+    .argument('<jgrantsId>', 'jGrants ID of the subsidy')
+    .action(async (jgrantsId: string, _options: unknown, command: Command) => {
+      const subsidy = unwrap(command, await subsidyRepository.findUnique({ jgrantsId }));
+      if (!subsidy) {
+        command.error(`Error: Subsidy not found: ${jgrantsId}`);
+      }
+      const attachments = unwrap(command, await subsidyAttachmentRepository.findMany(jgrantsId));
+
+      if (wantsJson(command)) {
+        // Extracted text is left out; it is in the subsidy markdown
+        printJson(context, {
+          subsidy,
+          attachments: attachments.map(({ extractedText: _extractedText, ...attachment }) => attachment),
+        });
+        return;
+      }
+
+      printLines(context, [
+        ...formatSubsidyDetails(subsidy),
+        ...(attachments.length > 0
+          ? ['', 'Attachments:', ...attachments.map((attachment) => `- ${attachment.name} (${attachment.filePath})`)]
+          : []),
+      ]);
+    });
+}
@@ -0,0 +1,104 @@
+import type { Command } from 'commander';
+import { writeFile } from 'fs/promises';
+import { threadRepository } from '../../../app/db.server';
+import type { Message, Thread } from '../../../app/db/schema';
+import { subsidyPath } from '../../../app/utils/subsidy-links';
+import { printJson, printLines, resolveUserId, unwrap, wantsJson, type CliContext } from '../context';
+
+const ROLE_LABELS: Record<Message['role'], string> = {
+  user: 'ユーザー',
+  assistant: 'アシスタント',
+};
+
+function formatCitations(message: Message): string[] {
+  if (!message.citations || message.citations.length === 0) return [];
+
+  return [
+    '',
+    ...message.citations.map((citation) => {
+      const source = citation.title ?? citation.fileId;
+      return citation.jgrantsId
+        ? `[${citation.index}] ${source} (${subsidyPath(citation.jgrantsId)})`
+        : `[${citation.index}] ${source}`;
+    }),
+  ];
+}
+
+/**
+ * A conversation as a Markdown document, one section per message
+ */
+export function formatThreadMarkdown(thread: Thread & { messages: Message[] }): string {
+  const lines = [
+    `# ${thread.title ?? thread.threadId}`,
+    '',
+    `- Thread ID: ${thread.threadId}`,
+    `- Created: ${thread.createdAt}`,
+  ];
+
+  for (const message of thread.messages) {
+    lines.push('', `## ${ROLE_LABELS[message.role]}`, '', message.content, ...formatCitations(message));
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+export function registerThreadCommands(program: Command, context: CliContext): void {
+  const threads = program.command('threads').description('Browse and export chat threads');
+
+  threads
+    .command('list')
+    .description('List threads, most recently updated first')
+    .option('--user <email>', 'only threads of this user')
+    .action(async (options: { user?: string }, command: Command) => {
+      const userId = options.user ? await resolveUserId(command, options.user) : undefined;
+      const list = unwrap(command, await threadRepository.findMany(userId));
+
+      if (wantsJson(command)) {
+        printJson(context, list);
+        return;
+      }
+
+      printLines(context, list.map((thread) => [thread.threadId, thread.updatedAt, thread.title ?? '(untitled)'].join('\t')));
+    });
+
+  threads
+    .command('show')
+    .description('Show the messages of a thread')
+    .argument('<threadId>', 'thread ID')
+    .action(async (threadId: string, _options: unknown, command: Command) => {
+      const thread = unwrap(command, await threadRepository.findUnique(threadId));
+
+      if (wantsJson(command)) {
+        printJson(context, thread);
+        return;
+      }
+
+      printLines(context, [
+        thread.title ?? thread.threadId,
+        ...thread.messages.flatMap((message) => ['', `${ROLE_LABELS[message.role]}:`, message.content, ...formatCitations(message)]),
+      ]);
+    });
+
+  threads
+    .command('export')
+    .description('Export a thread as Markdown or JSON')
+    .argument('<threadId>', 'thread ID')
+    .option('--format <format>', 'markdown or json (json with --json)', 'markdown')
+    .option('-o, --output <file>', 'write to a file instead of stdout')
+    .action(async (threadId: string, options: { format: string; output?: string }, command: Command) => {
+      const format = wantsJson(command) ? 'json' : options.format;
+      if (format !== 'markdown' && format !== 'json') {
+        command.error(`Error: Unknown format: ${format}`);
+      }
+
+      const thread = unwrap(command, await threadRepository.findUnique(threadId));
+      const content = format === 'json' ? `${JSON.stringify(thread, null, 2)}\n` : formatThreadMarkdown(thread);
+
+      if (options.output) {
+        await writeFile(options.output, content);
+        context.stderr(`Exported ${threadId} to ${options.output}\n`);
+      } else {
+        context.stdout(content);
+      }
+    });
+}
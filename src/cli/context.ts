@@ -0,0 +1,53 @@
+/**
+ * Shared plumbing for the CLI commands: where output goes, `--json`
+ * handling and turning Result errors into command errors
+ */
+
+import type { Command } from 'commander';
+import type { Readable } from 'stream';
+import { userRepository } from '../../app/db.server';
+import type { AssistantService } from '../../app/services/assistant.server';
+import type { Result } from '../../app/types/result';
+
+// The parts of the assistant service the chat command uses
+export type ChatAssistant = Pick<AssistantService, 'createThread' | 'addMessage' | 'streamAssistant'>;
+
+export interface CliContext {
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+  stdin: Readable;
+  // Called only by commands that talk to OpenAI, so the others work without its configuration
+  createAssistant: () => Promise<ChatAssistant>;
+}
+
+/**
+ * Whether the program-wide `--json` option was given
+ */
+export function wantsJson(command: Command): boolean {
+  return Boolean(command.optsWithGlobals().json);
+}
+
+export function printJson(context: CliContext, value: unknown): void {
+  context.stdout(`${JSON.stringify(value, null, 2)}\n`);
+}
+
+export function printLines(context: CliContext, lines: string[]): void {
+  if (lines.length > 0) {
+    context.stdout(`${lines.join('\n')}\n`);
+  }
+}
+
+/**
+ * The value of a successful result; otherwise fail the command with the error message
+ */
+export function unwrap<T>(command: Command, result: Result<T, { message: string }>): T {
+  return result.ok ? result.value : command.error(`Error: ${result.error.message}`);
+}
+
+/**
+ * ID of the user with the given email, failing the command when there is none
+ */
+export async function resolveUserId(command: Command, email: string): Promise<string> {
+  const user = unwrap(command, await userRepository.findUnique({ email }));
+  return user ? user.id : command.error(`Error: User not found: ${email}`);
+}
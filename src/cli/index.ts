@@ -0,0 +1,35 @@
+import { CommanderError } from 'commander';
+import dotenv from 'dotenv';
+import { resolve } from 'path';
+import { prisma } from '../../app/db.server';
+import { createProgram } from './program';
+
+dotenv.config({ path: resolve(process.cwd(), '.env') });
+
+const program = createProgram({
+  stdout: (text) => process.stdout.write(text),
+  stderr: (text) => process.stderr.write(text),
+  stdin: process.stdin,
+  // Imported on demand, so that commands which do not chat never load the LLM providers
+  createAssistant: async () => {
+    const { createAssistantServiceFromEnv } = await import('../../app/services/assistant.server');
+    const assistant = createAssistantServiceFromEnv();
+    if (!assistant.ok) {
+      throw new Error(assistant.error.message);
+    }
+    return assistant.value;
+  },
+});
+
+program
+  .parseAsync(process.argv)
+  .catch((error) => {
+    // Commander has already printed its own errors and help
+    if (error instanceof CommanderError) {
+      process.exitCode = error.exitCode;
+      return;
+    }
+    console.error('Error:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,33 @@
+/**
+ * Command-line interface over the subsidy database, the assistant and the
+ * jGrants scripts. Every command accepts `--json` for piping.
+ */
+
+import { Command } from 'commander';
+import { registerChatCommand } from './commands/chat';
+import { registerDbCommands } from './commands/db';
+import { registerJGrantsCommands } from './commands/jgrants';
+import { registerSubsidyCommands } from './commands/subsidies';
+import { registerThreadCommands } from './commands/threads';
+import type { CliContext } from './context';
+
+/**
+ * Build the program. Errors throw CommanderError instead of exiting the
+ * process; subcommands inherit the output settings when they are registered.
+ */
+export function createProgram(context: CliContext): Command {
+  const program = new Command()
+    .name('cli')
+    .description('Search subsidies, chat with the assistant and manage the data')
+    .option('--json', 'print JSON instead of text')
+    .configureOutput({ writeOut: context.stdout, writeErr: context.stderr })
+    .exitOverride();
+
+  registerSubsidyCommands(program, context);
+  registerChatCommand(program, context);
+  registerThreadCommands(program, context);
+  registerJGrantsCommands(program, context);
+  registerDbCommands(program, context);
+
+  return program;
+}
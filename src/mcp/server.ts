@@ -6,9 +6,15 @@ import {
   ListResourcesRequestSchema,
   ReadResourceRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
-import { AssistantService } from '../../app/services/assistant.server.js';
+import { createAssistantServiceFromEnv } from '../../app/services/assistant.server.js';
 import { FileStoreService } from '../../app/services/filestore.server.js';
 import { prisma } from '../../app/db.server.js';
+import { createVectorStoreService } from '../../app/services/vectorstore.server.js';
+import { createVectorStorePublisher } from '../../app/services/subsidies/sync.server.js';
+import { parseSubsidyResourceUri, subsidyResourceUri } from '../../app/utils/subsidy-links.js';
+import type { Result } from '../../app/types/result.js';
+import type { AssistantError } from '../../app/types/errors.js';
+import OpenAI from 'openai';
 import dotenv from 'dotenv';
 
 dotenv.config();
@@ -23,9 +29,18 @@ const server = new Server({
   },
 });
 
-const assistantService = new AssistantService();
+// A missing configuration only fails search_subsidies; the other tools work without OpenAI
+const assistantService = createAssistantServiceFromEnv();
 const fileStoreService = new FileStoreService();
 
+// Tool handlers report thrown errors back to the client
+function unwrap<T>(result: Result<T, AssistantError>): T {
+  if (!result.ok) {
+    throw new Error(result.error.message);
+  }
+  return result.value;
+}
+
 server.setRequestHandler(ListToolsRequestSchema, async () => {
   return {
     tools: [
@@ -96,21 +111,14 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         const query = args?.query as string;
         const threadId = args?.threadId as string | undefined;
 
+        const assistant = unwrap(assistantService);
         let currentThreadId = threadId;
         if (!currentThreadId) {
-          const thread = await assistantService.createThread();
-          currentThreadId = thread.id;
+          currentThreadId = unwrap(await assistant.createThread()).id;
         }
 
-        await assistantService.addMessage(currentThreadId, query);
-        const result = await assistantService.runAssistant(currentThreadId);
-
-        const latestMessage = result.messages.data
-          .filter((msg: any) => msg.role === 'assistant')
-          .map((msg: any) => {
-            const content = msg.content[0];
-            return content.type === 'text' ? content.text.value : '';
-          })[0];
+        unwrap(await assistant.addMessage(currentThreadId, query));
+        const { reply } = unwrap(await assistant.runAssistant(currentThreadId));
 
         return {
           content: [
@@ -118,7 +126,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
               type: 'text',
               text: JSON.stringify({
                 threadId: currentThreadId,
-                response: latestMessage,
+                response: reply?.text,
               }, null, 2),
             },
           ],
@@ -171,15 +179,22 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           throw new Error('OPENAI_VECTOR_STORE_ID が設定されていません');
         }
 
+        const publish = createVectorStorePublisher(
+          createVectorStoreService({
+            openai: new OpenAI({ apiKey: process.env.OPENAI_API_KEY }),
+            vectorStoreId,
+          }),
+          fileStoreService
+        );
+
+        // The publisher records the new file ID and deletes the file it replaces
         let syncedCount = 0;
         for (const subsidy of subsidies) {
-          await fileStoreService.saveSubsidyAsMarkdown(subsidy);
-          const file = await fileStoreService.createFileForOpenAI(subsidy.id.toString());
-          
-          if (file) {
-            await assistantService.uploadFileToVectorStore(vectorStoreId, file);
-            syncedCount++;
+          const published = await publish(subsidy);
+          if (!published.ok) {
+            throw new Error(published.error.message);
           }
+          syncedCount++;
         }
 
         return {
@@ -214,7 +229,7 @@ server.setRequestHandler(ListResourcesRequestSchema, async () => {
 
   return {
     resources: subsidies.map((subsidy) => ({
-      uri: `subsidy:///${subsidy.jgrantsId}`,
+      uri: subsidyResourceUri(subsidy.jgrantsId),
       name: subsidy.title,
       description: `補助金情報: ${subsidy.title}`,
       mimeType: 'text/markdown',
@@ -224,7 +239,10 @@ server.setRequestHandler(ListResourcesRequestSchema, async () => {
 
 server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
   const { uri } = request.params;
-  const jgrantsId = uri.replace('subsidy:///', '');
+  const jgrantsId = parseSubsidyResourceUri(uri);
+  if (!jgrantsId) {
+    throw new Error(`不正なリソースURIです: ${uri}`);
+  }
 
   const subsidy = await prisma.subsidy.findUnique({
     where: { jgrantsId },